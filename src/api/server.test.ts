@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
 import * as http from 'http';
 import { createApiServer } from './server.js';
 import type { AgentRouter } from '../core/interfaces.js';
+import { HttpChannelAdapter, signHttpPayload } from '../channels/http.js';
 
 const TEST_API_KEY = 'test-key-12345';
 const TEST_PORT = 0; // Let OS assign a free port
@@ -311,3 +312,73 @@ describe('GET /portal', () => {
     expect(res.body).toContain('<title>LettaBot Portal</title>');
   });
 });
+
+describe('POST /api/v1/channels/http', () => {
+  const secret = 'channel-secret';
+  let server: http.Server;
+  let port: number;
+  let adapter: HttpChannelAdapter;
+  const onMessage = vi.fn().mockResolvedValue(undefined);
+
+  function signedHeaders(body: string, signingSecret = secret): Record<string, string> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return {
+      'content-type': 'application/json',
+      'x-lettabot-timestamp': timestamp,
+      'x-lettabot-signature': signHttpPayload(signingSecret, timestamp, body),
+    };
+  }
+
+  beforeAll(async () => {
+    adapter = new HttpChannelAdapter({ callbackUrl: 'http://127.0.0.1:9/unused', secret, dmPolicy: 'open' });
+    adapter.onMessage = onMessage;
+    await adapter.start();
+    server = createApiServer(createMockRouter(), {
+      port: TEST_PORT,
+      apiKey: TEST_API_KEY,
+      host: '127.0.0.1',
+      httpChannels: new Map([['LettaBot', adapter]]),
+    });
+    await new Promise<void>((resolve) => {
+      if (server.listening) { resolve(); return; }
+      server.once('listening', resolve);
+    });
+    port = getPort(server);
+  });
+
+  afterAll(async () => {
+    await adapter.stop();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('accepts a signed message and hands it to the adapter', async () => {
+    const body = JSON.stringify({ chatId: 'c1', userId: 'u1', text: 'hello' });
+    const res = await request(port, 'POST', '/api/v1/channels/http', body, signedHeaders(body));
+    expect(res.status).toBe(202);
+    expect(JSON.parse(res.body)).toEqual({ success: true });
+    await vi.waitFor(() => expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'http', chatId: 'c1', userId: 'u1', text: 'hello' }),
+    ));
+  });
+
+  it('routes by agent name', async () => {
+    const body = JSON.stringify({ chatId: 'c1', userId: 'u1', text: 'hi' });
+    const ok = await request(port, 'POST', '/api/v1/channels/http/LettaBot', body, signedHeaders(body));
+    expect(ok.status).toBe(202);
+    const missing = await request(port, 'POST', '/api/v1/channels/http/Other', body, signedHeaders(body));
+    expect(missing.status).toBe(404);
+  });
+
+  it('returns 401 for a bad signature', async () => {
+    const body = JSON.stringify({ chatId: 'c1', userId: 'u1', text: 'hello' });
+    const res = await request(port, 'POST', '/api/v1/channels/http', body, signedHeaders(body, 'wrong'));
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 400 for an invalid payload', async () => {
+    const body = JSON.stringify({ chatId: 'c1', text: 'hello' });
+    const res = await request(port, 'POST', '/api/v1/channels/http', body, signedHeaders(body));
+    expect(res.status).toBe(400);
+    expect(JSON.parse(res.body).error).toBe('Missing required field: userId');
+  });
+});
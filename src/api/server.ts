@@ -20,13 +20,16 @@ import {
   buildErrorResponse, buildModelList, validateChatRequest,
 } from './openai-compat.js';
 import type { OpenAIChatRequest } from './openai-compat.js';
+import { HTTP_SIGNATURE_HEADER, HTTP_TIMESTAMP_HEADER, validateHttpInboundPayload } from '../channels/http.js';
+import type { HttpChannelAdapter, HttpInboundPayload } from '../channels/http.js';
 import { getTurnViewerHtml } from '../core/turn-viewer.js';
 
 import { createLogger } from '../logger.js';
 
 const log = createLogger('API');
-const VALID_CHANNELS: ChannelId[] = ['telegram', 'slack', 'discord', 'whatsapp', 'signal'];
+const VALID_CHANNELS: ChannelId[] = ['telegram', 'slack', 'discord', 'whatsapp', 'signal', 'matrix', 'http', 'email', 'irc', 'mattermost'];
 const MAX_BODY_SIZE = 10 * 1024; // 10KB
+const MAX_CHANNEL_BODY_SIZE = 256 * 1024; // 256KB (HTTP channel events may carry attachment metadata)
 const MAX_TEXT_LENGTH = 10000; // 10k chars
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 const WEBHOOK_CONTEXT = { type: 'webhook' as const, outputMode: 'silent' as const };
@@ -46,8 +49,9 @@ interface ServerOptions {
   turnLogFiles?: Record<string, string>; // agentName -> filePath; enables GET /turns viewer
   stores?: Map<string, Store>; // Agent stores for management endpoints
   agentChannels?: Map<string, string[]>; // Channel IDs per agent name
-  agentConversationModes?: Map<string, string>; // agentName -> conversationMode (shared|per-channel|per-chat|disabled)
+  agentConversationModes?: Map<string, string>; // agentName -> conversationMode (shared|per-channel|per-chat|per-thread|disabled)
   sessionInvalidators?: Map<string, (key?: string) => void>; // Invalidate live sessions after store writes
+  httpChannels?: Map<string, HttpChannelAdapter>; // agentName -> HTTP webhook channel adapter
 }
 
 /**
@@ -532,6 +536,76 @@ export function createApiServer(deliverer: AgentRouter, options: ServerOptions):
       return;
     }
 
+    // Route: POST /api/v1/channels/http[/:agent] - Inbound event from an HTTP channel frontend
+    const httpChannelMatch = req.url?.match(/^\/api\/v1\/channels\/http(?:\/([^/?]+))?$/);
+    if (httpChannelMatch && req.method === 'POST') {
+      try {
+        const channels = options.httpChannels;
+        if (!channels || channels.size === 0) {
+          sendError(res, 404, 'HTTP channel is not configured');
+          return;
+        }
+
+        const requestedAgent = httpChannelMatch[1] ? decodeURIComponent(httpChannelMatch[1]) : undefined;
+        const adapter = requestedAgent ? channels.get(requestedAgent) : channels.values().next().value;
+        if (!adapter) {
+          sendError(res, 404, `HTTP channel not configured for agent: ${requestedAgent}`);
+          return;
+        }
+        if (!adapter.isRunning()) {
+          sendError(res, 503, 'HTTP channel is not running');
+          return;
+        }
+
+        if (!ensureJsonContentType(req, res)) {
+          return;
+        }
+
+        // Signatures cover the exact raw body, so verify before parsing
+        const body = await readBody(req, MAX_CHANNEL_BODY_SIZE);
+        const signature = req.headers[HTTP_SIGNATURE_HEADER];
+        const timestamp = req.headers[HTTP_TIMESTAMP_HEADER];
+        if (!adapter.verifyRequest(
+          body,
+          typeof signature === 'string' ? signature : undefined,
+          typeof timestamp === 'string' ? timestamp : undefined,
+        )) {
+          sendError(res, 401, 'Invalid signature');
+          return;
+        }
+
+        let payload: HttpInboundPayload;
+        try {
+          payload = JSON.parse(body);
+        } catch {
+          sendError(res, 400, 'Invalid JSON body');
+          return;
+        }
+
+        const validationError = validateHttpInboundPayload(payload);
+        if (validationError) {
+          sendError(res, 400, validationError);
+          return;
+        }
+        if (payload.text && payload.text.length > MAX_TEXT_LENGTH) {
+          sendError(res, 400, `Message too long (max ${MAX_TEXT_LENGTH} chars)`, 'text');
+          return;
+        }
+
+        // Acknowledge immediately; replies are delivered to the callback URL
+        res.writeHead(202, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true }));
+
+        adapter.handleInbound(payload).catch((error) => {
+          log.error('HTTP channel inbound error:', error);
+        });
+      } catch (error: any) {
+        log.error('HTTP channel error:', error);
+        sendError(res, 500, error.message || 'Internal server error');
+      }
+      return;
+    }
+
     // Route: GET /v1/models (OpenAI-compatible)
     if (req.url === '/v1/models' && req.method === 'GET') {
       try {
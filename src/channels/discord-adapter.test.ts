@@ -7,6 +7,7 @@ const discordMock = vi.hoisted(() => {
     private handlers = new Map<string, Handler[]>();
     user = { id: 'bot-self', tag: 'bot#0001' };
     channels = { fetch: vi.fn() };
+    application = { commands: { set: vi.fn().mockResolvedValue(undefined) } };
     destroy = vi.fn();
 
     once(event: string, handler: Handler): this {
@@ -63,6 +64,9 @@ vi.mock('discord.js', () => ({
     Reaction: 3,
     User: 4,
   },
+  MessageFlags: {
+    Ephemeral: 64,
+  },
 }));
 
 const { DiscordAdapter } = await import('./discord.js');
@@ -373,3 +377,191 @@ describe('DiscordAdapter command gating', () => {
     await adapter.stop();
   });
 });
+
+function makeInteraction(params: {
+  commandName: string;
+  options?: Record<string, string>;
+  guildId?: string | null;
+  channelId?: string;
+  isThread?: boolean;
+  parentId?: string;
+  userId?: string;
+}) {
+  return {
+    commandName: params.commandName,
+    user: { id: params.userId ?? 'user-1' },
+    guildId: params.guildId === undefined ? 'guild-1' : params.guildId,
+    channelId: params.channelId ?? 'channel-1',
+    channel: {
+      isThread: () => params.isThread ?? false,
+      parentId: params.parentId,
+    },
+    options: {
+      getString: (name: string) => params.options?.[name] ?? null,
+    },
+    deferred: false,
+    replied: false,
+    isAutocomplete: () => false,
+    isChatInputCommand: () => true,
+    reply: vi.fn().mockResolvedValue(undefined),
+    deferReply: vi.fn().mockResolvedValue(undefined),
+    editReply: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('DiscordAdapter slash commands', () => {
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('registers application commands when the client is ready', async () => {
+    const adapter = new DiscordAdapter({ token: 'token' });
+    await adapter.start();
+    const client = discordMock.getLatestClient() as unknown as { application: { commands: { set: ReturnType<typeof vi.fn> } } };
+
+    await vi.waitFor(() => expect(client.application.commands.set).toHaveBeenCalledTimes(1));
+    const registered = client.application.commands.set.mock.calls[0][0] as Array<{ name: string }>;
+    expect(registered.map((c) => c.name)).toContain('model');
+    await adapter.stop();
+  });
+
+  it('skips registration when slashCommands is false', async () => {
+    const adapter = new DiscordAdapter({ token: 'token', slashCommands: false });
+    await adapter.start();
+    const client = discordMock.getLatestClient() as unknown as { application: { commands: { set: ReturnType<typeof vi.fn> } } };
+
+    expect(client.application.commands.set).not.toHaveBeenCalled();
+    await adapter.stop();
+  });
+
+  it('routes commands with options through onCommand', async () => {
+    const adapter = new DiscordAdapter({ token: 'token', allowedUsers: ['user-1'] });
+    const onCommand = vi.fn().mockResolvedValue('Model updated to: openai/gpt-4o');
+    adapter.onCommand = onCommand;
+    await adapter.start();
+    const client = discordMock.getLatestClient();
+
+    const interaction = makeInteraction({ commandName: 'model', options: { handle: 'openai/gpt-4o' } });
+    await client!.emit('interactionCreate', interaction);
+
+    expect(interaction.deferReply).toHaveBeenCalledWith({});
+    expect(onCommand).toHaveBeenCalledWith('model', 'channel-1', 'openai/gpt-4o', undefined);
+    expect(interaction.editReply).toHaveBeenCalledWith('Model updated to: openai/gpt-4o');
+    await adapter.stop();
+  });
+
+  it('replies ephemerally to informational commands', async () => {
+    const adapter = new DiscordAdapter({ token: 'token', allowedUsers: ['user-1'] });
+    adapter.onCommand = vi.fn().mockResolvedValue('*Status*');
+    await adapter.start();
+    const client = discordMock.getLatestClient();
+
+    const status = makeInteraction({ commandName: 'status' });
+    await client!.emit('interactionCreate', status);
+    expect(status.deferReply).toHaveBeenCalledWith({ flags: 64 });
+
+    const help = makeInteraction({ commandName: 'help' });
+    await client!.emit('interactionCreate', help);
+    expect(help.reply).toHaveBeenCalledWith(expect.objectContaining({ flags: 64 }));
+    await adapter.stop();
+  });
+
+  it('passes the disapprove reason as args', async () => {
+    const adapter = new DiscordAdapter({ token: 'token', allowedUsers: ['user-1'] });
+    const onCommand = vi.fn().mockResolvedValue('Denied.');
+    adapter.onCommand = onCommand;
+    await adapter.start();
+    const client = discordMock.getLatestClient();
+
+    await client!.emit('interactionCreate', makeInteraction({ commandName: 'disapprove', options: { reason: 'too risky' } }));
+
+    expect(onCommand).toHaveBeenCalledWith('disapprove', 'channel-1', 'too risky', undefined);
+    await adapter.stop();
+  });
+
+  it('rejects unauthorized users with an ephemeral reply', async () => {
+    const adapter = new DiscordAdapter({ token: 'token', allowedUsers: ['someone-else'] });
+    const onCommand = vi.fn();
+    adapter.onCommand = onCommand;
+    await adapter.start();
+    const client = discordMock.getLatestClient();
+
+    const interaction = makeInteraction({ commandName: 'reset' });
+    await client!.emit('interactionCreate', interaction);
+
+    expect(onCommand).not.toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalledWith(expect.objectContaining({ flags: 64 }));
+    await adapter.stop();
+  });
+
+  it('silently ignores channels outside the group allowlist', async () => {
+    const adapter = new DiscordAdapter({
+      token: 'token',
+      allowedUsers: ['user-1'],
+      groups: { 'channel-2': { mode: 'open' } },
+    });
+    const onCommand = vi.fn();
+    adapter.onCommand = onCommand;
+    await adapter.start();
+    const client = discordMock.getLatestClient();
+
+    const interaction = makeInteraction({ commandName: 'status', channelId: 'channel-1' });
+    await client!.emit('interactionCreate', interaction);
+
+    expect(onCommand).not.toHaveBeenCalled();
+    expect(interaction.reply).not.toHaveBeenCalled();
+    expect(interaction.deferReply).not.toHaveBeenCalled();
+    await adapter.stop();
+  });
+
+  it('accepts commands in mention-only channels and scopes threads per chat', async () => {
+    const adapter = new DiscordAdapter({
+      token: 'token',
+      allowedUsers: ['user-1'],
+      groups: { 'channel-1': { mode: 'mention-only', threadMode: 'thread-only' } },
+    });
+    const onCommand = vi.fn().mockResolvedValue('ok');
+    adapter.onCommand = onCommand;
+    await adapter.start();
+    const client = discordMock.getLatestClient();
+
+    const topLevel = makeInteraction({ commandName: 'reset', channelId: 'channel-1' });
+    await client!.emit('interactionCreate', topLevel);
+    expect(onCommand).not.toHaveBeenCalled();
+    expect(topLevel.reply).toHaveBeenCalledWith(expect.objectContaining({ flags: 64 }));
+
+    const inThread = makeInteraction({ commandName: 'reset', channelId: 'thread-1', isThread: true, parentId: 'channel-1' });
+    await client!.emit('interactionCreate', inThread);
+    expect(onCommand).toHaveBeenCalledWith('reset', 'thread-1', undefined, true);
+    await adapter.stop();
+  });
+
+  it('answers /model autocomplete from the model list', async () => {
+    const lettaApi = await import('../tools/letta-api.js');
+    const listModels = vi.spyOn(lettaApi, 'listModels').mockResolvedValue([
+      { handle: 'openai/gpt-4o', name: 'gpt-4o' },
+      { handle: 'anthropic/claude-sonnet-4', name: 'claude-sonnet-4', display_name: 'Claude Sonnet 4' },
+    ]);
+    const adapter = new DiscordAdapter({ token: 'token' });
+    await adapter.start();
+    const client = discordMock.getLatestClient();
+
+    const respond = vi.fn().mockResolvedValue(undefined);
+    const autocomplete = {
+      commandName: 'model',
+      isAutocomplete: () => true,
+      isChatInputCommand: () => false,
+      options: { getFocused: () => 'sonnet' },
+      respond,
+    };
+    await client!.emit('interactionCreate', autocomplete);
+    await client!.emit('interactionCreate', autocomplete);
+
+    expect(respond).toHaveBeenCalledWith([
+      { name: 'Claude Sonnet 4 (anthropic/claude-sonnet-4)', value: 'anthropic/claude-sonnet-4' },
+    ]);
+    expect(listModels).toHaveBeenCalledTimes(1);
+    await adapter.stop();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { COMMANDS } from '../core/commands.js';
+import {
+  buildDiscordCommands,
+  buildModelChoices,
+  getDiscordCommandOptionName,
+  isEphemeralDiscordCommand,
+} from './discord-commands.js';
+
+describe('buildDiscordCommands', () => {
+  it('registers every shared command with a description', () => {
+    const commands = buildDiscordCommands();
+    expect(commands.map((c) => c.name)).toEqual([...COMMANDS]);
+    for (const command of commands) {
+      expect(command.description.length).toBeGreaterThan(0);
+      expect(command.description.length).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('adds typed options for commands with arguments', () => {
+    const commands = buildDiscordCommands();
+    const model = commands.find((c) => c.name === 'model');
+    const disapprove = commands.find((c) => c.name === 'disapprove');
+    const status = commands.find((c) => c.name === 'status');
+
+    expect(model?.options).toEqual([
+      expect.objectContaining({ type: 3, name: 'handle', required: false, autocomplete: true }),
+    ]);
+    expect(disapprove?.options).toEqual([
+      expect.objectContaining({ type: 3, name: 'reason', required: false }),
+    ]);
+    expect(status?.options).toBeUndefined();
+    expect(getDiscordCommandOptionName('setconv')).toBe('id');
+  });
+});
+
+describe('isEphemeralDiscordCommand', () => {
+  it('keeps informational replies private and state changes public', () => {
+    expect(isEphemeralDiscordCommand('status')).toBe(true);
+    expect(isEphemeralDiscordCommand('help')).toBe(true);
+    expect(isEphemeralDiscordCommand('model')).toBe(true);
+    expect(isEphemeralDiscordCommand('model', 'openai/gpt-4o')).toBe(false);
+    expect(isEphemeralDiscordCommand('reset')).toBe(false);
+    expect(isEphemeralDiscordCommand('disapprove', 'not now')).toBe(false);
+  });
+});
+
+describe('buildModelChoices', () => {
+  const models = [
+    { handle: 'anthropic/claude-sonnet-4', display_name: 'Claude Sonnet 4' },
+    { handle: 'openai/gpt-4o' },
+    { handle: 'openai/gpt-4o-mini', display_name: 'GPT-4o mini' },
+  ];
+
+  it('matches handles and display names case-insensitively', () => {
+    expect(buildModelChoices(models, 'SONNET')).toEqual([
+      { name: 'Claude Sonnet 4 (anthropic/claude-sonnet-4)', value: 'anthropic/claude-sonnet-4' },
+    ]);
+    expect(buildModelChoices(models, 'gpt-4o').map((c) => c.value)).toEqual(['openai/gpt-4o', 'openai/gpt-4o-mini']);
+  });
+
+  it('returns at most 25 choices', () => {
+    const many = Array.from({ length: 40 }, (_, i) => ({ handle: `provider/model-${i}` }));
+    expect(buildModelChoices(many, '')).toHaveLength(25);
+  });
+});
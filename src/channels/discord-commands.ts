@@ -0,0 +1,108 @@
+/**
+ * Discord Slash Commands
+ *
+ * Builds native application commands from the shared command list in
+ * core/commands.ts, plus the helpers the adapter uses to turn interactions
+ * back into onCommand calls.
+ */
+
+import type { RESTPostAPIChatInputApplicationCommandsJSONBody } from 'discord.js';
+import { COMMANDS, COMMAND_DESCRIPTIONS, type Command } from '../core/commands.js';
+
+// ApplicationCommandOptionType.String (discord.js itself is imported lazily)
+const STRING_OPTION_TYPE = 3;
+
+/** Discord accepts at most 25 autocomplete choices */
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+/** Discord limits choice names and values to 100 characters */
+const MAX_CHOICE_LENGTH = 100;
+
+interface DiscordCommandOption {
+  name: string;
+  description: string;
+  required?: boolean;
+  autocomplete?: boolean;
+}
+
+/** Typed options for commands that take arguments */
+const COMMAND_OPTIONS: Partial<Record<Command, DiscordCommandOption>> = {
+  model: {
+    name: 'handle',
+    description: 'Model handle to switch to (omit to list models)',
+    autocomplete: true,
+  },
+  disapprove: {
+    name: 'reason',
+    description: 'Why the tool calls are denied',
+  },
+  setconv: {
+    name: 'id',
+    description: 'Conversation ID to use for this chat',
+    required: true,
+  },
+};
+
+/** Commands whose replies only the invoking user should see */
+const EPHEMERAL_COMMANDS = new Set<Command>(['status', 'heartbeat', 'help', 'start']);
+
+export function isDiscordCommand(name: string): name is Command {
+  return (COMMANDS as readonly string[]).includes(name);
+}
+
+/**
+ * Build the application command definitions registered with Discord.
+ */
+export function buildDiscordCommands(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+  return COMMANDS.map((command) => {
+    const option = COMMAND_OPTIONS[command];
+    return {
+      name: command,
+      description: COMMAND_DESCRIPTIONS[command],
+      ...(option ? {
+        options: [{
+          type: STRING_OPTION_TYPE,
+          name: option.name,
+          description: option.description,
+          required: option.required ?? false,
+          autocomplete: option.autocomplete ?? false,
+        }],
+      } : {}),
+    };
+  });
+}
+
+/**
+ * Get the name of the option that carries a command's arguments, if any.
+ */
+export function getDiscordCommandOptionName(command: Command): string | undefined {
+  return COMMAND_OPTIONS[command]?.name;
+}
+
+/**
+ * Whether a command's reply should be ephemeral. Listing models is private;
+ * switching models changes the bot for everyone, so that reply is public.
+ */
+export function isEphemeralDiscordCommand(command: Command, args?: string): boolean {
+  if (command === 'model') return !args;
+  return EPHEMERAL_COMMANDS.has(command);
+}
+
+/**
+ * Filter models for /model autocomplete by handle or display name.
+ */
+export function buildModelChoices(
+  models: Array<{ handle: string; display_name?: string }>,
+  query: string,
+): Array<{ name: string; value: string }> {
+  const needle = query.trim().toLowerCase();
+  const choices: Array<{ name: string; value: string }> = [];
+  for (const model of models) {
+    if (model.handle.length > MAX_CHOICE_LENGTH) continue;
+    const label = model.display_name ? `${model.display_name} (${model.handle})` : model.handle;
+    if (needle && !label.toLowerCase().includes(needle)) continue;
+    choices.push({ name: label.slice(0, MAX_CHOICE_LENGTH), value: model.handle });
+    if (choices.length >= MAX_AUTOCOMPLETE_CHOICES) break;
+  }
+  return choices;
+}
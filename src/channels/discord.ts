@@ -6,7 +6,7 @@
  */
 
 import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundForward, OutboundMessage, OutboundPoll } from '../core/types.js';
 import type { DmPolicy } from '../pairing/types.js';
 import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
 import { checkDmAccess } from './shared/access-control.js';
@@ -14,6 +14,13 @@ import { resolveEmoji } from './shared/emoji.js';
 import { splitMessageText } from './shared/message-splitter.js';
 import { buildAttachmentPath, downloadToFile } from './attachments.js';
 import { HELP_TEXT } from '../core/commands.js';
+import {
+  buildDiscordCommands,
+  buildModelChoices,
+  getDiscordCommandOptionName,
+  isDiscordCommand,
+  isEphemeralDiscordCommand,
+} from './discord-commands.js';
 import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveReceiveBotMessages, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
 import { basename } from 'node:path';
 
@@ -21,10 +28,12 @@ import { createLogger } from '../logger.js';
 
 const log = createLogger('Discord');
 const DISCORD_ATTACHMENT_DOWNLOAD_TIMEOUT_MS = 15000;
+const MODEL_AUTOCOMPLETE_CACHE_MS = 5 * 60 * 1000;
 // Dynamic import to avoid requiring Discord deps if not used
 let Client: typeof import('discord.js').Client;
 let GatewayIntentBits: typeof import('discord.js').GatewayIntentBits;
 let Partials: typeof import('discord.js').Partials;
+let MessageFlags: typeof import('discord.js').MessageFlags;
 
 export interface DiscordConfig {
   token: string;
@@ -36,6 +45,7 @@ export interface DiscordConfig {
   groups?: Record<string, GroupModeConfig>;  // Per-guild/channel settings
   agentName?: string;       // For scoping daily limit counters in multi-agent mode
   ignoreBotReactions?: boolean;   // Ignore all bot reactions (default: true). Set false for multi-bot setups.
+  slashCommands?: boolean;  // Register native slash commands on startup (default: true)
 }
 
 export function shouldProcessDiscordBotMessage(params: {
@@ -114,9 +124,13 @@ export class DiscordAdapter implements ChannelAdapter {
   private running = false;
   private attachmentsDir?: string;
   private attachmentsMaxBytes?: number;
+  private modelCache: { models: Array<{ handle: string; display_name?: string }>; fetchedAt: number } | null = null;
+  // Polls sent by the bot, keyed by message ID, for resolving vote events
+  private sentPolls: Map<string, { chatId: string; keys: string[]; isGroup: boolean; question: string; options: string[] }> = new Map();
 
   onMessage?: (msg: InboundMessage) => Promise<void>;
   onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean) => Promise<string | null>;
+  isAddressed?: (text: string) => boolean;
 
   constructor(config: DiscordConfig) {
     this.config = {
@@ -197,6 +211,7 @@ Ask the bot owner to approve with:
     Client = discord.Client;
     GatewayIntentBits = discord.GatewayIntentBits;
     Partials = discord.Partials;
+    MessageFlags = discord.MessageFlags;
 
     this.client = new Client({
       intents: [
@@ -206,6 +221,8 @@ Ask the bot owner to approve with:
         GatewayIntentBits.MessageContent,
         GatewayIntentBits.DirectMessages,
         GatewayIntentBits.DirectMessageReactions,
+        GatewayIntentBits.GuildMessagePolls,
+        GatewayIntentBits.DirectMessagePolls,
       ],
       partials: [Partials.Channel, Partials.Message, Partials.Reaction, Partials.User],
     });
@@ -215,6 +232,11 @@ Ask the bot owner to approve with:
       log.info(`Bot logged in as ${tag}`);
       log.info(`DM policy: ${this.config.dmPolicy}`);
       this.running = true;
+      void this.registerSlashCommands();
+    });
+
+    this.client.on('interactionCreate', async (interaction) => {
+      await this.handleInteraction(interaction);
     });
 
     this.client.on('messageCreate', async (message) => {
@@ -290,7 +312,8 @@ Ask the bot owner to approve with:
           command === 'approve' ||
           command === 'disapprove' ||
           command === 'model' ||
-          command === 'setconv';
+          command === 'setconv' ||
+          command === 'handback';
 
         // Commands require user-level authorization (paired or allowlisted).
         // Chat access (mode: open, guild membership) should not imply command access.
@@ -394,7 +417,7 @@ Ask the bot owner to approve with:
           if (mode === 'disabled') {
             return; // Groups disabled for this channel -- silent drop
           }
-          if (mode === 'mention-only' && !wasMentioned) {
+          if (mode === 'mention-only' && !wasMentioned && !this.isAddressed?.(content)) {
             return; // Mention required but not mentioned -- silent drop
           }
           isListeningMode = mode === 'listen' && !wasMentioned;
@@ -493,6 +516,14 @@ Ask the bot owner to approve with:
       await this.handleReactionEvent(reaction, user, 'removed');
     });
 
+    this.client.on('messagePollVoteAdd', async (answer, userId) => {
+      await this.handlePollVoteEvent(answer, userId, 'added');
+    });
+
+    this.client.on('messagePollVoteRemove', async (answer, userId) => {
+      await this.handlePollVoteEvent(answer, userId, 'removed');
+    });
+
     log.info('Connecting...');
     await this.client.login(this.config.token);
   }
@@ -515,11 +546,15 @@ Ask the bot owner to approve with:
       throw new Error(`Discord channel not found or not text-based: ${targetChannelId}`);
     }
 
-    const sendable = channel as { send: (content: string) => Promise<{ id: string }> };
+    type SendPayload = { content: string; reply?: { messageReference: string; failIfNotExists: boolean } };
+    const sendable = channel as { send: (content: string | SendPayload) => Promise<{ id: string }> };
     const chunks = splitMessageText(msg.text, DISCORD_SPLIT_THRESHOLD);
     let lastMessageId = '';
     for (const chunk of chunks) {
-      const result = await sendable.send(chunk);
+      // Only the first chunk quotes the original message
+      const result = !lastMessageId && msg.replyToMessageId
+        ? await sendable.send({ content: chunk, reply: { messageReference: msg.replyToMessageId, failIfNotExists: false } })
+        : await sendable.send(chunk);
       lastMessageId = result.id;
     }
     return { messageId: lastMessageId };
@@ -543,6 +578,43 @@ Ask the bot owner to approve with:
     return { messageId: result.id };
   }
 
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    if (!this.client) throw new Error('Discord not started');
+    const targetChannelId = poll.threadId || poll.chatId;
+    const channel = await this.client.channels.fetch(targetChannelId);
+    if (!channel || !channel.isTextBased() || !('send' in channel)) {
+      throw new Error(`Discord channel not found or not text-based: ${targetChannelId}`);
+    }
+
+    const payload = {
+      poll: {
+        question: { text: poll.question },
+        answers: poll.options.map((text) => ({ text })),
+        allowMultiselect: !!poll.multiple,
+        duration: DISCORD_POLL_DURATION_HOURS,
+      },
+    };
+    const result = await (channel as { send: (options: typeof payload) => Promise<{ id: string }> }).send(payload);
+
+    const guildId = 'guildId' in channel ? (channel.guildId as string | null) : null;
+    this.sentPolls.set(result.id, {
+      chatId: targetChannelId,
+      keys: buildDiscordGroupKeys({
+        chatId: targetChannelId,
+        parentChatId: poll.threadId ? poll.chatId : undefined,
+        serverId: guildId,
+      }),
+      isGroup: !!guildId,
+      question: poll.question,
+      options: poll.options,
+    });
+    if (this.sentPolls.size > DISCORD_SENT_POLL_CACHE_MAX) {
+      const oldest = this.sentPolls.keys().next().value;
+      if (oldest) this.sentPolls.delete(oldest);
+    }
+    return { messageId: result.id };
+  }
+
   async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
     if (!this.client) throw new Error('Discord not started');
     const channel = await this.client.channels.fetch(chatId);
@@ -564,6 +636,34 @@ Ask the bot owner to approve with:
     await message.edit(truncated);
   }
 
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(chatId);
+    if (!channel || !channel.isTextBased()) {
+      throw new Error(`Discord channel not found or not text-based: ${chatId}`);
+    }
+
+    const message = await channel.messages.fetch(messageId);
+    const botUserId = this.client.user?.id;
+    if (!botUserId || message.author.id !== botUserId) {
+      throw new Error('Cannot delete message not sent by bot');
+    }
+    await message.delete();
+  }
+
+  async forwardMessage(forward: OutboundForward): Promise<{ messageId: string }> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(forward.fromChatId);
+    if (!channel || !channel.isTextBased()) {
+      throw new Error(`Discord channel not found or not text-based: ${forward.fromChatId}`);
+    }
+
+    // Sent as a message reference of type "forward", shown with the original author
+    const message = await channel.messages.fetch(forward.messageId);
+    const result = await message.forward(forward.threadId || forward.chatId);
+    return { messageId: result.id };
+  }
+
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
     if (!this.client) throw new Error('Discord not started');
     const channel = await this.client.channels.fetch(chatId);
@@ -596,6 +696,10 @@ Ask the bot owner to approve with:
     return {
       supportsReactions: true,
       supportsFiles: true,
+      supportsEdits: true,
+      supportsDeletes: true,
+      supportsReplies: true,
+      supportsBreaks: true,
       formatHint: 'Discord markdown: **bold** *italic* `code` [links](url) ```code blocks``` — supports headers',
     };
   }
@@ -721,6 +825,173 @@ Ask the bot owner to approve with:
     });
   }
 
+  private async handlePollVoteEvent(
+    answer: import('discord.js').PollAnswer | import('discord.js').PartialPollAnswer,
+    userId: string,
+    action: 'added' | 'removed'
+  ): Promise<void> {
+    if (userId === this.client?.user?.id) return;
+
+    const messageId = answer.poll.messageId;
+    const poll = this.sentPolls.get(messageId);
+    if (!poll) return;
+
+    if (!poll.isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access !== 'allowed') {
+        return;
+      }
+    } else if (this.config.groups) {
+      if (!isGroupAllowed(this.config.groups, poll.keys)) return;
+      if (!isGroupUserAllowed(this.config.groups, poll.keys, userId)) return;
+      if (resolveGroupMode(this.config.groups, poll.keys, 'open') === 'disabled') return;
+    }
+
+    // Discord answer IDs are 1-based in the order the answers were sent
+    const option = answer.text ?? poll.options[answer.id - 1];
+    if (!option) return;
+
+    const user = this.client?.users.cache.get(userId);
+    this.onMessage?.({
+      channel: 'discord',
+      chatId: poll.chatId,
+      userId,
+      userName: user?.username ?? userId,
+      userHandle: user?.username ?? userId,
+      messageId,
+      text: '',
+      timestamp: new Date(),
+      isGroup: poll.isGroup,
+      pollVote: {
+        pollId: messageId,
+        messageId,
+        question: poll.question,
+        options: [option],
+        action,
+      },
+      formatterHints: this.getFormatterHints(),
+    }).catch((err) => {
+      log.error('Error handling poll vote:', err);
+    });
+  }
+
+  private async registerSlashCommands(): Promise<void> {
+    if (this.config.slashCommands === false) return;
+    const application = this.client?.application;
+    if (!application) return;
+    try {
+      const commands = buildDiscordCommands();
+      await application.commands.set(commands);
+      log.info(`Registered ${commands.length} slash commands`);
+    } catch (err) {
+      log.warn('Failed to register slash commands:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  /**
+   * Route slash command interactions through onCommand, with the same
+   * access and group gating as text commands. Invoking a slash command
+   * addresses the bot directly, so mention-only channels accept it.
+   */
+  private async handleInteraction(interaction: import('discord.js').Interaction): Promise<void> {
+    if (interaction.isAutocomplete()) {
+      if (interaction.commandName !== 'model') return;
+      try {
+        const models = await this.getModelsForAutocomplete();
+        await interaction.respond(buildModelChoices(models, String(interaction.options.getFocused())));
+      } catch (err) {
+        log.warn('Model autocomplete failed:', err instanceof Error ? err.message : err);
+      }
+      return;
+    }
+
+    if (!interaction.isChatInputCommand()) return;
+    const command = interaction.commandName;
+    if (!isDiscordCommand(command)) return;
+
+    const userId = interaction.user.id;
+    const chatId = interaction.channelId;
+    const isGroup = !!interaction.guildId;
+    const channelWithThread = interaction.channel as { isThread?: () => boolean; parentId?: string | null } | null;
+    const isThreadMessage = typeof channelWithThread?.isThread === 'function' && channelWithThread.isThread();
+    const keys = buildDiscordGroupKeys({
+      chatId,
+      parentChatId: isThreadMessage ? channelWithThread?.parentId : undefined,
+      serverId: interaction.guildId,
+    });
+    const isHelpCommand = command === 'help' || command === 'start';
+    const ephemeral = { flags: MessageFlags.Ephemeral } as const;
+
+    try {
+      let forcePerChat = false;
+      if (isGroup && this.config.groups && !isHelpCommand) {
+        // Silent drops: another adapter sharing this token may own the channel
+        if (!isGroupAllowed(this.config.groups, keys)) return;
+        if (!isGroupUserAllowed(this.config.groups, keys, userId)) return;
+        if (resolveGroupMode(this.config.groups, keys, 'open') === 'disabled') return;
+
+        const threadMode = resolveDiscordThreadMode(this.config.groups, keys);
+        if (threadMode === 'thread-only' && !isThreadMessage) {
+          await interaction.reply({ content: 'Commands only work inside threads in this channel.', ...ephemeral });
+          return;
+        }
+        forcePerChat = threadMode === 'thread-only' || isThreadMessage;
+      }
+
+      // Commands require user-level authorization (paired or allowlisted)
+      const commandAllowed = await isUserAllowed('discord', userId, this.config.allowedUsers);
+      if (!commandAllowed) {
+        await interaction.reply({ content: "Sorry, you're not authorized to use this bot.", ...ephemeral });
+        return;
+      }
+
+      if (isHelpCommand) {
+        await interaction.reply({ content: HELP_TEXT, ...ephemeral });
+        return;
+      }
+
+      if (!this.onCommand) {
+        await interaction.reply({ content: 'Commands are not available right now.', ...ephemeral });
+        return;
+      }
+
+      const optionName = getDiscordCommandOptionName(command);
+      const args = optionName ? interaction.options.getString(optionName)?.trim() || undefined : undefined;
+
+      // Commands can outlast Discord's 3 second reply window, so defer first
+      await interaction.deferReply(isEphemeralDiscordCommand(command, args) ? ephemeral : {});
+      const result = await this.onCommand(command, chatId, args, forcePerChat || undefined);
+      const reply = result || '(No response)';
+      await interaction.editReply(reply.length > DISCORD_MAX_LENGTH
+        ? reply.slice(0, DISCORD_MAX_LENGTH - 1) + '\u2026'
+        : reply);
+    } catch (err) {
+      log.error(`Slash command /${command} failed:`, err);
+      try {
+        if (interaction.deferred) {
+          await interaction.editReply('Command failed.');
+        } else if (!interaction.replied) {
+          await interaction.reply({ content: 'Command failed.', ...ephemeral });
+        }
+      } catch {
+        // Interaction expired
+      }
+    }
+  }
+
+  private async getModelsForAutocomplete(): Promise<Array<{ handle: string; display_name?: string }>> {
+    const now = Date.now();
+    if (this.modelCache && now - this.modelCache.fetchedAt < MODEL_AUTOCOMPLETE_CACHE_MS) {
+      return this.modelCache.models;
+    }
+    const { listModels } = await import('../tools/letta-api.js');
+    const models = await listModels();
+    if (models.length > 0) {
+      this.modelCache = { models, fetchedAt: now };
+    }
+    return models;
+  }
+
   private async collectAttachments(attachments: unknown, channelId: string): Promise<InboundAttachment[]> {
     if (!attachments || typeof attachments !== 'object') return [];
     const list = Array.from((attachments as { values: () => Iterable<DiscordAttachment> }).values?.() || []);
@@ -765,6 +1036,8 @@ Ask the bot owner to approve with:
 
 // Discord message length limits
 const DISCORD_MAX_LENGTH = 2000;
+const DISCORD_POLL_DURATION_HOURS = 24;
+const DISCORD_SENT_POLL_CACHE_MAX = 500;
 const DISCORD_SPLIT_THRESHOLD = 1900;
 
 type DiscordAttachment = {
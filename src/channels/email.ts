@@ -0,0 +1 @@
+export * from './email/index.js';
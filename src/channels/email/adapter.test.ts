@@ -0,0 +1,406 @@
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../pairing/store.js', () => ({
+  isUserAllowed: vi.fn(),
+  upsertPairingRequest: vi.fn(),
+}));
+
+import { EmailAdapter } from './adapter.js';
+import { parseEmail, type ParsedEmail } from './mime.js';
+import type { InboundMessage } from '../../core/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../../pairing/store.js';
+
+const mockedIsUserAllowed = vi.mocked(isUserAllowed);
+const mockedUpsertPairingRequest = vi.mocked(upsertPairingRequest);
+
+async function listen(server: Server): Promise<number> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+async function close(server: Server, sockets: Set<Socket>): Promise<void> {
+  for (const socket of sockets) socket.destroy();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * In-process IMAP stand-in implementing LOGIN, SELECT, UID SEARCH, UID FETCH,
+ * UID STORE and LOGOUT against an in-memory mailbox.
+ */
+class MockImapServer {
+  messages: Array<{ uid: number; raw: string; seen: boolean }> = [];
+  private nextUid = 1;
+  private server: Server;
+  private sockets = new Set<Socket>();
+
+  constructor() {
+    this.server = createServer((socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      socket.write('* OK IMAP4rev1 ready\r\n');
+      let buffer = '';
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          this.handle(socket, line);
+        }
+      });
+    });
+  }
+
+  listen(): Promise<number> {
+    return listen(this.server);
+  }
+
+  close(): Promise<void> {
+    return close(this.server, this.sockets);
+  }
+
+  deliver(lines: string[]): void {
+    this.messages.push({ uid: this.nextUid++, raw: lines.join('\r\n'), seen: false });
+  }
+
+  private handle(socket: Socket, line: string): void {
+    const [tag, ...rest] = line.split(' ');
+    const command = rest.join(' ');
+    if (/^LOGIN /i.test(command)) {
+      socket.write(command === 'LOGIN "bot@example.com" "secret"' ? `${tag} OK logged in\r\n` : `${tag} NO bad credentials\r\n`);
+    } else if (/^SELECT /i.test(command)) {
+      socket.write(`* ${this.messages.length} EXISTS\r\n* OK [UIDVALIDITY 7] ok\r\n* OK [UIDNEXT ${this.nextUid}] ok\r\n${tag} OK [READ-WRITE] selected\r\n`);
+    } else if (/^UID SEARCH UID (\d+):\*$/i.test(command)) {
+      const from = Number(command.match(/UID (\d+):\*/i)![1]);
+      let uids = this.messages.filter((m) => m.uid >= from).map((m) => m.uid);
+      // Real servers return the highest UID for "n:*" even when n is larger
+      if (uids.length === 0 && this.messages.length > 0) uids = [this.messages[this.messages.length - 1].uid];
+      socket.write(`* SEARCH ${uids.join(' ')}\r\n${tag} OK search done\r\n`);
+    } else if (/^UID FETCH /i.test(command)) {
+      const uids = command.split(' ')[2].split(',').map(Number);
+      for (const message of this.messages.filter((m) => uids.includes(m.uid))) {
+        const seq = this.messages.indexOf(message) + 1;
+        const size = Buffer.byteLength(message.raw);
+        socket.write(`* ${seq} FETCH (UID ${message.uid} BODY[] {${size}}\r\n${message.raw})\r\n`);
+      }
+      socket.write(`${tag} OK fetch done\r\n`);
+    } else if (/^UID STORE /i.test(command)) {
+      const uids = command.split(' ')[2].split(',').map(Number);
+      for (const message of this.messages) {
+        if (uids.includes(message.uid)) message.seen = true;
+      }
+      socket.write(`${tag} OK store done\r\n`);
+    } else if (/^LOGOUT/i.test(command)) {
+      socket.write(`* BYE logging out\r\n${tag} OK logout\r\n`);
+      socket.end();
+    } else {
+      socket.write(`${tag} BAD unknown command\r\n`);
+    }
+  }
+}
+
+/**
+ * In-process SMTP stand-in that records every delivered message.
+ */
+class MockSmtpServer {
+  sent: Array<{ from: string; to: string[]; email: ParsedEmail; raw: string }> = [];
+  authenticated = false;
+  private server: Server;
+  private sockets = new Set<Socket>();
+
+  constructor() {
+    this.server = createServer((socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      socket.write('220 mock ESMTP\r\n');
+      let buffer = '';
+      let inData = false;
+      let from = '';
+      let to: string[] = [];
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        while (true) {
+          if (inData) {
+            const end = buffer.indexOf('\r\n.\r\n');
+            if (end === -1) return;
+            const raw = buffer.slice(0, end).replace(/^\.\./gm, '.');
+            buffer = buffer.slice(end + 5);
+            inData = false;
+            this.sent.push({ from, to, raw, email: parseEmail(Buffer.from(raw)) });
+            socket.write('250 queued\r\n');
+            continue;
+          }
+          const index = buffer.indexOf('\r\n');
+          if (index === -1) return;
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (/^EHLO/i.test(line)) socket.write('250-mock\r\n250 AUTH PLAIN LOGIN\r\n');
+          else if (/^AUTH PLAIN /i.test(line)) {
+            this.authenticated = Buffer.from(line.slice(11), 'base64').toString() === '\0bot@example.com\0secret';
+            socket.write(this.authenticated ? '235 ok\r\n' : '535 denied\r\n');
+          } else if (/^MAIL FROM:/i.test(line)) {
+            from = line.match(/<(.*)>/)![1];
+            to = [];
+            socket.write('250 ok\r\n');
+          } else if (/^RCPT TO:/i.test(line)) {
+            to.push(line.match(/<(.*)>/)![1]);
+            socket.write('250 ok\r\n');
+          } else if (/^DATA/i.test(line)) {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (/^QUIT/i.test(line)) {
+            socket.write('221 bye\r\n');
+            socket.end();
+          } else {
+            socket.write('502 unknown\r\n');
+          }
+        }
+      });
+    });
+  }
+
+  listen(): Promise<number> {
+    return listen(this.server);
+  }
+
+  close(): Promise<void> {
+    return close(this.server, this.sockets);
+  }
+}
+
+function inbound(overrides: { from?: string; messageId?: string; inReplyTo?: string; subject?: string; body?: string; extraHeaders?: string[]; authResults?: string | null } = {}): string[] {
+  const authResults = overrides.authResults === undefined
+    ? 'mx.example.net; spf=pass smtp.mailfrom=example.com; dkim=pass header.d=example.com header.s=s1; dmarc=pass (p=reject) header.from=example.com'
+    : overrides.authResults;
+  return [
+    ...(authResults ? [`Authentication-Results: ${authResults}`] : []),
+    `From: ${overrides.from ?? '"Alice" <alice@example.com>'}`,
+    'To: bot@example.com',
+    `Subject: ${overrides.subject ?? 'Question'}`,
+    `Message-ID: ${overrides.messageId ?? '<m1@example.com>'}`,
+    ...(overrides.inReplyTo ? [`In-Reply-To: ${overrides.inReplyTo}`, `References: ${overrides.inReplyTo}`] : []),
+    ...(overrides.extraHeaders ?? []),
+    '',
+    overrides.body ?? 'What time is it?',
+  ];
+}
+
+describe('EmailAdapter', () => {
+  let imap: MockImapServer;
+  let smtp: MockSmtpServer;
+  let imapPort: number;
+  let smtpPort: number;
+  let adapter: EmailAdapter | null = null;
+  let tempDir: string | null = null;
+
+  beforeEach(async () => {
+    imap = new MockImapServer();
+    smtp = new MockSmtpServer();
+    imapPort = await imap.listen();
+    smtpPort = await smtp.listen();
+    mockedIsUserAllowed.mockResolvedValue(true);
+    mockedUpsertPairingRequest.mockResolvedValue({ code: 'ABCD1234', created: true });
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = null;
+    await imap.close();
+    await smtp.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+    vi.clearAllMocks();
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof EmailAdapter>[0]> = {}) {
+    adapter = new EmailAdapter({
+      address: 'bot@example.com',
+      fromName: 'Letta Bot',
+      user: 'bot@example.com',
+      password: 'secret',
+      imapHost: '127.0.0.1',
+      imapPort,
+      imapSecure: false,
+      smtpHost: '127.0.0.1',
+      smtpPort,
+      smtpSecure: false,
+      pollIntervalSec: 0.02,
+      dmPolicy: 'open',
+      ...overrides,
+    });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.start();
+    return { adapter, received };
+  }
+
+  it('fails to start with bad credentials', async () => {
+    adapter = new EmailAdapter({
+      address: 'bot@example.com', user: 'bot@example.com', password: 'wrong',
+      imapHost: '127.0.0.1', imapPort, imapSecure: false, smtpHost: '127.0.0.1', smtpPort,
+    });
+    await expect(adapter.start()).rejects.toThrow('IMAP LOGIN failed');
+    adapter = null;
+  });
+
+  it('ignores mail that was already in the mailbox at startup', async () => {
+    imap.deliver(inbound({ messageId: '<old@example.com>' }));
+    const { received } = await startAdapter();
+    imap.deliver(inbound({ messageId: '<new@example.com>' }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].messageId).toBe('new@example.com');
+    expect(imap.messages.map((m) => m.seen)).toEqual([false, true]);
+  });
+
+  it('delivers new mail keyed by thread root', async () => {
+    const { received } = await startAdapter();
+    imap.deliver(inbound({ messageId: '<m1@example.com>' }));
+    imap.deliver(inbound({
+      messageId: '<m3@example.com>',
+      inReplyTo: '<m1@example.com>',
+      subject: 'Re: Question',
+      body: 'Thanks!\n\nOn Tue, Sep 1, 2026 Bot <bot@example.com> wrote:\n> It is noon.',
+    }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received[0]).toMatchObject({
+      channel: 'email',
+      chatId: 'm1@example.com',
+      userId: 'alice@example.com',
+      userName: 'Alice',
+      text: 'What time is it?',
+      isGroup: false,
+      extraContext: { Subject: 'Question' },
+    });
+    expect(received[1]).toMatchObject({ chatId: 'm1@example.com', text: 'Thanks!' });
+  });
+
+  it('replies in-thread over SMTP', async () => {
+    const { adapter, received } = await startAdapter();
+    imap.deliver(inbound());
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    const first = await adapter.sendMessage({ chatId: 'm1@example.com', text: 'It is noon.' });
+    await adapter.sendMessage({ chatId: 'm1@example.com', text: 'Anything else?' });
+
+    expect(smtp.authenticated).toBe(true);
+    expect(smtp.sent).toHaveLength(2);
+    const [reply, followUp] = smtp.sent;
+    expect(reply.from).toBe('bot@example.com');
+    expect(reply.to).toEqual(['alice@example.com']);
+    expect(reply.email.subject).toBe('Re: Question');
+    expect(reply.email.from).toEqual({ name: 'Letta Bot', address: 'bot@example.com' });
+    expect(reply.email.inReplyTo).toBe('<m1@example.com>');
+    expect(reply.email.references).toEqual(['<m1@example.com>']);
+    expect(reply.email.text).toBe('It is noon.');
+    expect(reply.email.messageId).toBe(`<${first.messageId}>`);
+    expect(followUp.email.inReplyTo).toBe(`<${first.messageId}>`);
+    expect(followUp.email.references).toEqual(['<m1@example.com>', `<${first.messageId}>`]);
+  });
+
+  it('sends files as attachments and saves inbound attachments', async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'lettabot-email-'));
+    const { adapter, received } = await startAdapter({ attachmentsDir: tempDir });
+    imap.deliver([
+      'Authentication-Results: mx.example.net; dmarc=pass header.from=example.com',
+      'From: alice@example.com',
+      'Subject: Report',
+      'Message-ID: <a1@example.com>',
+      'Content-Type: multipart/mixed; boundary=b',
+      '',
+      '--b',
+      'Content-Type: text/plain',
+      '',
+      'See attached',
+      '--b',
+      'Content-Type: text/csv; name=data.csv',
+      'Content-Disposition: attachment; filename=data.csv',
+      '',
+      'a,b',
+      '--b--',
+    ]);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const attachment = received[0].attachments?.[0];
+    expect(attachment).toMatchObject({ name: 'data.csv', mimeType: 'text/csv', kind: 'file' });
+    expect(readFileSync(attachment!.localPath!, 'utf8')).toBe('a,b');
+
+    const filePath = join(tempDir, 'out.txt');
+    writeFileSync(filePath, 'result');
+    await adapter.sendFile({ chatId: 'a1@example.com', filePath, caption: 'Done' });
+    const sent = smtp.sent[0].email;
+    expect(sent.text).toBe('Done');
+    expect(sent.attachments[0]).toMatchObject({ filename: 'out.txt', contentType: 'text/plain' });
+    expect(sent.attachments[0].content.toString()).toBe('result');
+  });
+
+  it('emails a pairing code to unknown senders', async () => {
+    mockedIsUserAllowed.mockResolvedValue(false);
+    const { received } = await startAdapter({ dmPolicy: 'pairing' });
+    imap.deliver(inbound());
+
+    await vi.waitFor(() => expect(smtp.sent).toHaveLength(1));
+    expect(received).toHaveLength(0);
+    expect(mockedUpsertPairingRequest).toHaveBeenCalledWith('email', 'alice@example.com', { username: 'Alice' });
+    expect(smtp.sent[0].email.text).toContain('lettabot pairing approve email ABCD1234');
+  });
+
+  it('silently ignores senders outside the allowlist', async () => {
+    mockedIsUserAllowed.mockImplementation(async (_channel, userId, allowedUsers) => !!allowedUsers?.includes(userId));
+    const { received } = await startAdapter({ dmPolicy: 'allowlist', allowedUsers: ['Bob@Example.com'] });
+    imap.deliver(inbound());
+    imap.deliver(inbound({ from: 'bob@example.com', messageId: '<b1@example.com>' }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].userId).toBe('bob@example.com');
+    expect(smtp.sent).toHaveLength(0);
+  });
+
+  it('ignores senders whose From is not authenticated, without replying', async () => {
+    mockedIsUserAllowed.mockResolvedValue(false);
+    const { received } = await startAdapter({ dmPolicy: 'pairing' });
+    // Forged From with no Authentication-Results at all
+    imap.deliver(inbound({ authResults: null }));
+    // Our server saw a DKIM pass, but for the attacker's own domain
+    imap.deliver(inbound({ messageId: '<f2@example.com>', authResults: 'mx.example.net; dkim=pass header.d=attacker.test; dmarc=fail header.from=example.com' }));
+    // A pass header added by the sender sits below the one from our server
+    imap.deliver(inbound({
+      messageId: '<f3@example.com>',
+      authResults: 'mx.example.net; dkim=none; dmarc=none header.from=example.com',
+      extraHeaders: ['Authentication-Results: mx.example.net; dkim=pass header.d=example.com; dmarc=pass header.from=example.com'],
+    }));
+    imap.deliver(inbound({ from: 'bob@mail.example.com', messageId: '<ok@example.com>' }));
+
+    await vi.waitFor(() => expect(smtp.sent).toHaveLength(1));
+    expect(received).toHaveLength(0);
+    expect(mockedUpsertPairingRequest).toHaveBeenCalledTimes(1);
+    expect(mockedUpsertPairingRequest).toHaveBeenCalledWith('email', 'bob@mail.example.com', { username: 'bob@mail.example.com' });
+  });
+
+  it('accepts unauthenticated mail when requireAuthentication is off', async () => {
+    const { received } = await startAdapter({ requireAuthentication: false });
+    imap.deliver(inbound({ authResults: null }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+  });
+
+  it('skips auto-replies and its own mail', async () => {
+    const { received } = await startAdapter();
+    imap.deliver(inbound({ extraHeaders: ['Auto-Submitted: auto-replied'] }));
+    imap.deliver(inbound({ from: 'bot@example.com', messageId: '<self@example.com>' }));
+    imap.deliver(inbound({ messageId: '<real@example.com>' }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].messageId).toBe('real@example.com');
+  });
+
+  it('rejects sends to unknown threads', async () => {
+    const { adapter } = await startAdapter();
+    await expect(adapter.sendMessage({ chatId: 'nope@example.com', text: 'hi' })).rejects.toThrow('Email thread not found');
+  });
+});
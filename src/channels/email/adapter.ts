@@ -0,0 +1,473 @@
+/**
+ * Email Channel Adapter
+ *
+ * Two-way email over IMAP (inbound) and SMTP (outbound). Each email thread
+ * is one chat: the chatId is the thread's root Message-ID, taken from
+ * `References` / `In-Reply-To`. Replies carry proper threading headers so
+ * they land in the same conversation in the sender's mail client.
+ */
+
+import { writeFile, readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import type { ChannelAdapter } from '../types.js';
+import type { InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../../core/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../../pairing/store.js';
+import { checkDmAccess } from '../shared/access-control.js';
+import { buildAttachmentPath } from '../attachments.js';
+import { HELP_TEXT, parseCommand } from '../../core/commands.js';
+import { ImapClient } from './imap.js';
+import { sendSmtpMail } from './smtp.js';
+import {
+  buildEmail,
+  createMessageId,
+  header,
+  parseEmail,
+  replySubject,
+  stripQuotedReply,
+  type OutgoingEmailAttachment,
+  type ParsedEmail,
+} from './mime.js';
+import type { EmailAdapterConfig, EmailThread } from './types.js';
+
+import { createLogger } from '../../logger.js';
+
+const log = createLogger('Email');
+
+const DEFAULT_POLL_INTERVAL_SEC = 30;
+const FETCH_BATCH_SIZE = 20;
+const MAX_THREADS = 1000;
+const MAX_REFERENCES = 20;
+
+export class EmailAdapter implements ChannelAdapter {
+  readonly id = 'email' as const;
+  readonly name = 'Email';
+
+  private config: EmailAdapterConfig;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
+  private nextUid = 1;
+  private uidValidity?: number;
+  private threads = new Map<string, EmailThread>();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean) => Promise<string | null>;
+
+  constructor(config: EmailAdapterConfig) {
+    this.config = {
+      ...config,
+      address: config.address.toLowerCase(),
+      dmPolicy: config.dmPolicy || 'pairing',
+      allowedUsers: config.allowedUsers?.map((address) => address.toLowerCase()),
+    };
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('email', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for email replies
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: ${code}
+
+Ask the bot owner to approve with:
+lettabot pairing approve email ${code}`;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    log.info('Starting adapter...');
+
+    // Establish the UID baseline so only mail arriving after startup is handled
+    const client = await this.openMailbox();
+    try {
+      this.uidValidity = client.status.uidValidity;
+      this.nextUid = client.status.uidNext ?? client.status.exists + 1;
+    } finally {
+      await client.imap.logout();
+    }
+
+    this.running = true;
+    log.info(`Watching ${this.config.mailbox || 'INBOX'} for ${this.config.address}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+    this.schedulePoll();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await this.polling?.catch(() => undefined);
+    log.info('Adapter stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    return this.sendReply(msg.chatId, msg.text, [], msg.replyToMessageId);
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const filename = basename(file.filePath);
+    const attachment: OutgoingEmailAttachment = {
+      filename,
+      contentType: guessMimeType(filename, file.kind),
+      content: await readFile(file.filePath),
+    };
+    return this.sendReply(file.chatId, file.caption || '', [attachment]);
+  }
+
+  async editMessage(_chatId: string, _messageId: string, _text: string): Promise<void> {
+    // Sent email can't be edited - no-op
+  }
+
+  async sendTypingIndicator(_chatId: string): Promise<void> {
+    // Email has no typing indicator
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: false,
+      supportsFiles: true,
+      formatHint: 'Plain text email only: no markdown, write in paragraphs',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return false;
+  }
+
+  // --- Private methods ---
+
+  private schedulePoll(): void {
+    if (!this.running) return;
+    const intervalMs = (this.config.pollIntervalSec ?? DEFAULT_POLL_INTERVAL_SEC) * 1000;
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.polling = this.poll()
+        .catch((err) => log.error('Mailbox poll failed:', err instanceof Error ? err.message : err))
+        .finally(() => {
+          this.polling = null;
+          this.schedulePoll();
+        });
+    }, intervalMs);
+  }
+
+  private async openMailbox() {
+    const imap = new ImapClient();
+    const port = this.config.imapPort ?? 993;
+    await imap.connect({
+      host: this.config.imapHost,
+      port,
+      secure: this.config.imapSecure ?? port === 993,
+    });
+    try {
+      await imap.login(this.config.user, this.config.password);
+      const status = await imap.select(this.config.mailbox || 'INBOX');
+      return { imap, status };
+    } catch (err) {
+      imap.close();
+      throw err;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const { imap, status } = await this.openMailbox();
+    try {
+      if (status.uidValidity !== undefined && this.uidValidity !== undefined && status.uidValidity !== this.uidValidity) {
+        // Mailbox was recreated; UIDs are meaningless now, so start over from the current end
+        log.warn('Mailbox UIDVALIDITY changed, resetting position');
+        this.uidValidity = status.uidValidity;
+        this.nextUid = status.uidNext ?? status.exists + 1;
+        return;
+      }
+
+      // "n:*" always matches the highest UID, even when it's below n
+      const uids = (await imap.uidSearch(`UID ${this.nextUid}:*`))
+        .filter((uid) => uid >= this.nextUid)
+        .sort((a, b) => a - b);
+
+      for (let i = 0; i < uids.length && this.running; i += FETCH_BATCH_SIZE) {
+        const batch = uids.slice(i, i + FETCH_BATCH_SIZE);
+        const messages = (await imap.fetchMessages(batch)).sort((a, b) => a.uid - b.uid);
+        for (const message of messages) {
+          this.nextUid = Math.max(this.nextUid, message.uid + 1);
+          try {
+            await this.handleEmail(parseEmail(message.raw));
+          } catch (err) {
+            log.error(`Failed to handle message UID ${message.uid}:`, err);
+          }
+        }
+        await imap.addFlags(messages.map((m) => m.uid), ['\\Seen']);
+      }
+    } finally {
+      await imap.logout();
+    }
+  }
+
+  private async handleEmail(email: ParsedEmail): Promise<void> {
+    const from = email.from;
+    if (!from) return;
+    if (from.address === this.config.address) return;
+    if (isAutomated(email)) {
+      log.info(`Skipping automated message from ${from.address}`);
+      return;
+    }
+    if (this.config.requireAuthentication !== false && !isAuthenticatedSender(email, from.address)) {
+      // No reply: the From address may be forged, so answering would be backscatter
+      log.info(`Ignoring email from ${from.address} (no DKIM/DMARC pass for the sender's domain)`);
+      return;
+    }
+
+    const messageId = email.messageId ?? createMessageId(this.config.address);
+    const chatId = stripBrackets(email.references[0] ?? email.inReplyTo ?? messageId);
+    const references = dedupe([
+      ...(email.references.length > 0 ? email.references : email.inReplyTo ? [email.inReplyTo] : []),
+      messageId,
+    ]);
+    this.rememberThread(chatId, {
+      subject: email.subject,
+      replyTo: email.replyTo ?? from,
+      lastMessageId: messageId,
+      references,
+    });
+
+    const userId = from.address;
+    const access = await this.checkAccess(userId);
+    if (access === 'blocked') {
+      // No bounce: replying to unknown senders would be backscatter
+      log.info(`Ignoring email from ${userId} (not allowed)`);
+      return;
+    }
+
+    if (access === 'pairing') {
+      const { code, created } = await upsertPairingRequest('email', userId, {
+        username: from.name || userId,
+      });
+
+      if (!code) {
+        await this.sendMessage({ chatId, text: 'Too many pending pairing requests. Please try again later.' });
+        return;
+      }
+
+      if (created) {
+        log.info(`New pairing request from ${userId}: ${code}`);
+      }
+      await this.sendMessage({ chatId, text: this.formatPairingMsg(code) });
+      return;
+    }
+
+    const text = stripQuotedReply(email.text) || (email.attachments.length === 0 ? email.subject.trim() : '');
+
+    // Commands require user-level authorization (paired or allowlisted).
+    const parsed = parseCommand(text);
+    if (parsed) {
+      const commandAllowed = await isUserAllowed('email', userId, this.config.allowedUsers);
+      if (!commandAllowed) return;
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId, text: HELP_TEXT });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined);
+        if (result) await this.sendMessage({ chatId, text: result });
+      }
+      return;
+    }
+
+    const attachments = await this.saveAttachments(email, chatId);
+    if (!text && attachments.length === 0) return;
+
+    await this.onMessage?.({
+      channel: 'email',
+      chatId,
+      userId,
+      userName: from.name,
+      userHandle: userId,
+      messageId: stripBrackets(messageId),
+      text,
+      timestamp: email.date ?? new Date(),
+      isGroup: false,
+      messageType: 'dm',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+      extraContext: email.subject ? { Subject: email.subject } : undefined,
+    });
+  }
+
+  private async saveAttachments(email: ParsedEmail, chatId: string): Promise<InboundAttachment[]> {
+    const results: InboundAttachment[] = [];
+    for (const attachment of email.attachments) {
+      const entry: InboundAttachment = {
+        name: attachment.filename,
+        mimeType: attachment.contentType,
+        size: attachment.content.length,
+        kind: attachment.contentType.startsWith('image/') ? 'image'
+          : attachment.contentType.startsWith('audio/') ? 'audio'
+          : attachment.contentType.startsWith('video/') ? 'video'
+          : 'file',
+      };
+      if (this.config.attachmentsDir && this.config.attachmentsMaxBytes !== 0) {
+        if (this.config.attachmentsMaxBytes && attachment.content.length > this.config.attachmentsMaxBytes) {
+          log.warn(`Attachment ${attachment.filename} exceeds size limit, skipping save.`);
+        } else {
+          const target = buildAttachmentPath(this.config.attachmentsDir, 'email', chatId, attachment.filename);
+          try {
+            await writeFile(target, attachment.content);
+            entry.localPath = target;
+            log.info(`Attachment saved to ${target}`);
+          } catch (err) {
+            log.warn('Failed to save attachment:', err);
+          }
+        }
+      }
+      results.push(entry);
+    }
+    return results;
+  }
+
+  private async sendReply(
+    chatId: string,
+    text: string,
+    attachments: OutgoingEmailAttachment[],
+    replyToMessageId?: string,
+  ): Promise<{ messageId: string }> {
+    const thread = this.threads.get(chatId);
+    if (!thread) {
+      throw new Error(`Email thread not found: ${chatId} (replies are only possible to threads received since startup)`);
+    }
+
+    const messageId = createMessageId(this.config.address);
+    const inReplyTo = replyToMessageId ? `<${stripBrackets(replyToMessageId)}>` : thread.lastMessageId;
+    const raw = buildEmail({
+      from: { name: this.config.fromName, address: this.config.address },
+      to: [thread.replyTo],
+      subject: replySubject(thread.subject),
+      text,
+      messageId,
+      inReplyTo,
+      references: thread.references.slice(-MAX_REFERENCES),
+      attachments,
+    });
+
+    const port = this.config.smtpPort ?? 465;
+    await sendSmtpMail({
+      host: this.config.smtpHost,
+      port,
+      secure: this.config.smtpSecure ?? port === 465,
+      user: this.config.smtpUser || this.config.user,
+      password: this.config.smtpPassword || this.config.password,
+    }, {
+      from: this.config.address,
+      to: [thread.replyTo.address],
+    }, raw);
+
+    thread.lastMessageId = messageId;
+    thread.references = dedupe([...thread.references, messageId]);
+    return { messageId: stripBrackets(messageId) };
+  }
+
+  private rememberThread(chatId: string, update: EmailThread): void {
+    const existing = this.threads.get(chatId);
+    this.threads.delete(chatId); // Re-insert to keep most recent threads last
+    this.threads.set(chatId, {
+      ...update,
+      subject: existing?.subject || update.subject,
+      references: dedupe([...(existing?.references ?? []), ...update.references]),
+    });
+    if (this.threads.size > MAX_THREADS) {
+      const oldest = this.threads.keys().next().value;
+      if (oldest !== undefined) this.threads.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Auto-replies, bounces and list mail must never get a response (mail loops).
+ */
+function isAutomated(email: ParsedEmail): boolean {
+  const autoSubmitted = header(email.headers, 'auto-submitted')?.toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  const precedence = header(email.headers, 'precedence')?.toLowerCase();
+  if (precedence && ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return true;
+  if (header(email.headers, 'list-id')) return true;
+  return /^(mailer-daemon|postmaster)@/.test(email.from?.address ?? '');
+}
+
+/**
+ * The From header is trivially forged, so access control only trusts it when
+ * the receiving server recorded a DMARC pass, or a DKIM pass for the From
+ * domain (or a parent domain). Only the topmost Authentication-Results header
+ * is read: it is the one our own server added, anything below it came with
+ * the message.
+ */
+function isAuthenticatedSender(email: ParsedEmail, address: string): boolean {
+  const results = header(email.headers, 'authentication-results');
+  const fromDomain = address.split('@').pop()?.toLowerCase();
+  if (!results || !fromDomain) return false;
+  const aligned = (domain: string | undefined) =>
+    !!domain && (fromDomain === domain || fromDomain.endsWith(`.${domain}`));
+
+  // "mx.example.com; dkim=pass header.d=example.com (comment); dmarc=pass header.from=example.com"
+  const methods = results.replace(/\([^)]*\)/g, ' ').split(';').slice(1);
+  return methods.some((method) => {
+    const props = new Map<string, string>();
+    for (const token of method.trim().split(/\s+/)) {
+      const eq = token.indexOf('=');
+      if (eq > 0) props.set(token.slice(0, eq).toLowerCase(), token.slice(eq + 1).replace(/^"|"$/g, '').toLowerCase());
+    }
+    if (props.get('dmarc') === 'pass') {
+      const headerFrom = props.get('header.from');
+      return !headerFrom || aligned(headerFrom);
+    }
+    if (props.get('dkim') === 'pass') {
+      return aligned(props.get('header.d') ?? props.get('header.i')?.split('@').pop());
+    }
+    return false;
+  });
+}
+
+function stripBrackets(messageId: string): string {
+  return messageId.replace(/^<|>$/g, '');
+}
+
+function dedupe(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+};
+
+function guessMimeType(filename: string, kind?: OutboundFile['kind']): string {
+  const known = MIME_TYPES[extname(filename).toLowerCase()];
+  if (known) return known;
+  if (kind === 'image') return 'image/png';
+  if (kind === 'audio') return 'audio/ogg';
+  return 'application/octet-stream';
+}
@@ -0,0 +1,224 @@
+/**
+ * Minimal IMAP4rev1 client (RFC 3501) for the email channel.
+ *
+ * Supports exactly what the adapter needs: LOGIN, SELECT, UID SEARCH,
+ * UID FETCH BODY.PEEK[], UID STORE and LOGOUT over plain TCP or implicit TLS.
+ */
+
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface ImapConnectOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  timeoutMs?: number;
+}
+
+export interface ImapMailboxStatus {
+  exists: number;
+  uidNext?: number;
+  uidValidity?: number;
+}
+
+export interface ImapFetchedMessage {
+  uid: number;
+  raw: Buffer;
+}
+
+/** One untagged or tagged response line, with any literals it carried. */
+interface ImapResponse {
+  text: string;
+  literals: Buffer[];
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: ImapResponse[];
+  resolve: (result: { untagged: ImapResponse[]; status: string }) => void;
+  reject: (err: Error) => void;
+}
+
+export class ImapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImapError';
+  }
+}
+
+export class ImapClient {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private current: ImapResponse = { text: '', literals: [] };
+  private pendingLiteral = 0;
+  private pending: PendingCommand | null = null;
+  private greeting: ((err?: Error) => void) | null = null;
+  private tagCounter = 0;
+  private timeoutMs = DEFAULT_TIMEOUT_MS;
+
+  async connect(options: ImapConnectOptions): Promise<void> {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    await new Promise<void>((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      this.socket = socket;
+      socket.setTimeout(this.timeoutMs);
+      this.greeting = (err) => (err ? reject(err) : resolve());
+      socket.on('data', (chunk: Buffer) => this.onData(chunk));
+      socket.on('timeout', () => this.fail(new ImapError('IMAP connection timed out')));
+      socket.on('error', (err) => this.fail(err));
+      socket.on('close', () => this.fail(new ImapError('IMAP connection closed')));
+    });
+  }
+
+  async login(user: string, password: string): Promise<void> {
+    await this.command(`LOGIN ${quote(user)} ${quote(password)}`);
+  }
+
+  async select(mailbox: string): Promise<ImapMailboxStatus> {
+    const untagged = await this.command(`SELECT ${quote(mailbox)}`);
+    const status: ImapMailboxStatus = { exists: 0 };
+    for (const { text } of untagged) {
+      const exists = text.match(/^\* (\d+) EXISTS/i);
+      if (exists) status.exists = Number(exists[1]);
+      const uidNext = text.match(/\[UIDNEXT (\d+)\]/i);
+      if (uidNext) status.uidNext = Number(uidNext[1]);
+      const uidValidity = text.match(/\[UIDVALIDITY (\d+)\]/i);
+      if (uidValidity) status.uidValidity = Number(uidValidity[1]);
+    }
+    return status;
+  }
+
+  async uidSearch(criteria: string): Promise<number[]> {
+    const untagged = await this.command(`UID SEARCH ${criteria}`);
+    const uids: number[] = [];
+    for (const { text } of untagged) {
+      const match = text.match(/^\* SEARCH\b(.*)$/i);
+      if (!match) continue;
+      for (const token of match[1].trim().split(/\s+/)) {
+        if (/^\d+$/.test(token)) uids.push(Number(token));
+      }
+    }
+    return uids;
+  }
+
+  async fetchMessages(uids: number[]): Promise<ImapFetchedMessage[]> {
+    if (uids.length === 0) return [];
+    const untagged = await this.command(`UID FETCH ${uids.join(',')} (UID BODY.PEEK[])`);
+    const messages: ImapFetchedMessage[] = [];
+    for (const response of untagged) {
+      if (!/^\* \d+ FETCH /i.test(response.text)) continue;
+      const uid = response.text.match(/\bUID (\d+)/i);
+      if (!uid || response.literals.length === 0) continue;
+      messages.push({ uid: Number(uid[1]), raw: response.literals[0] });
+    }
+    return messages;
+  }
+
+  async addFlags(uids: number[], flags: string[]): Promise<void> {
+    if (uids.length === 0) return;
+    await this.command(`UID STORE ${uids.join(',')} +FLAGS.SILENT (${flags.join(' ')})`);
+  }
+
+  async logout(): Promise<void> {
+    if (!this.socket) return;
+    try {
+      await this.command('LOGOUT');
+    } catch {
+      // Server may close before the tagged OK
+    }
+    this.close();
+  }
+
+  close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+  }
+
+  private command(command: string): Promise<ImapResponse[]> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new ImapError('IMAP client is not connected'));
+    if (this.pending) return Promise.reject(new ImapError('IMAP command already in progress'));
+    const tag = `A${++this.tagCounter}`;
+    return new Promise((resolve, reject) => {
+      this.pending = {
+        tag,
+        untagged: [],
+        resolve: ({ untagged, status }) => {
+          if (/^OK\b/i.test(status)) resolve(untagged);
+          else reject(new ImapError(`IMAP ${command.split(' ')[0]} failed: ${status}`));
+        },
+        reject,
+      };
+      socket.write(`${tag} ${command}\r\n`);
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length > 0) {
+      if (this.pendingLiteral > 0) {
+        if (this.buffer.length < this.pendingLiteral) return;
+        this.current.literals.push(this.buffer.subarray(0, this.pendingLiteral));
+        this.buffer = this.buffer.subarray(this.pendingLiteral);
+        this.pendingLiteral = 0;
+        continue;
+      }
+      const lineEnd = this.buffer.indexOf('\r\n');
+      if (lineEnd === -1) return;
+      const line = this.buffer.subarray(0, lineEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(lineEnd + 2);
+
+      const literal = line.match(/\{(\d+)\}$/);
+      this.current.text += line;
+      if (literal) {
+        this.pendingLiteral = Number(literal[1]);
+        if (this.pendingLiteral === 0) this.current.literals.push(Buffer.alloc(0));
+        continue;
+      }
+      const response = this.current;
+      this.current = { text: '', literals: [] };
+      this.handleResponse(response);
+    }
+  }
+
+  private handleResponse(response: ImapResponse): void {
+    if (this.greeting) {
+      const done = this.greeting;
+      this.greeting = null;
+      if (/^\* (OK|PREAUTH)\b/i.test(response.text)) done();
+      else done(new ImapError(`Unexpected IMAP greeting: ${response.text}`));
+      return;
+    }
+    const pending = this.pending;
+    if (!pending) return;
+    if (response.text.startsWith(`${pending.tag} `)) {
+      this.pending = null;
+      pending.resolve({ untagged: pending.untagged, status: response.text.slice(pending.tag.length + 1) });
+    } else {
+      pending.untagged.push(response);
+    }
+  }
+
+  private fail(err: Error): void {
+    if (this.greeting) {
+      const done = this.greeting;
+      this.greeting = null;
+      done(err);
+    }
+    if (this.pending) {
+      const pending = this.pending;
+      this.pending = null;
+      pending.reject(err);
+    }
+    this.close();
+  }
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
@@ -0,0 +1,2 @@
+export { EmailAdapter } from './adapter.js';
+export type { EmailAdapterConfig } from './types.js';
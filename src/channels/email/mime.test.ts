@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { buildEmail, decodeEncodedWords, parseAddressList, parseEmail, replySubject, stripQuotedReply } from './mime.js';
+
+function raw(lines: string[]): Buffer {
+  return Buffer.from(lines.join('\r\n'));
+}
+
+describe('parseEmail', () => {
+  it('parses threading headers and a plain-text body', () => {
+    const email = parseEmail(raw([
+      'From: "Alice Smith" <Alice@Example.com>',
+      'To: bot@example.com',
+      'Subject: Re: Plans',
+      'Message-ID: <m3@example.com>',
+      'In-Reply-To: <m2@example.com>',
+      'References: <m1@example.com>',
+      '  <m2@example.com>',
+      'Date: Tue, 1 Sep 2026 10:00:00 +0000',
+      '',
+      'Sounds good.',
+    ]));
+
+    expect(email.from).toEqual({ name: 'Alice Smith', address: 'alice@example.com' });
+    expect(email.messageId).toBe('<m3@example.com>');
+    expect(email.inReplyTo).toBe('<m2@example.com>');
+    expect(email.references).toEqual(['<m1@example.com>', '<m2@example.com>']);
+    expect(email.subject).toBe('Re: Plans');
+    expect(email.date?.toISOString()).toBe('2026-09-01T10:00:00.000Z');
+    expect(email.text).toBe('Sounds good.');
+  });
+
+  it('prefers text/plain in multipart/alternative and collects attachments', () => {
+    const email = parseEmail(raw([
+      'From: bob@example.com',
+      'Subject: =?UTF-8?B?Q2Fmw6k=?=',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Caf=C3=A9 au lait=',
+      ' please',
+      '--inner',
+      'Content-Type: text/html',
+      '',
+      '<p>Caf&eacute;</p>',
+      '--inner--',
+      '--outer',
+      'Content-Type: image/png; name="dot.png"',
+      'Content-Transfer-Encoding: base64',
+      'Content-Disposition: attachment; filename="dot.png"',
+      '',
+      Buffer.from('PNGDATA').toString('base64'),
+      '--outer--',
+      '',
+    ]));
+
+    expect(email.subject).toBe('Café');
+    expect(email.text).toBe('Café au lait please');
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({ filename: 'dot.png', contentType: 'image/png' });
+    expect(email.attachments[0].content.toString()).toBe('PNGDATA');
+  });
+
+  it('falls back to stripped HTML when there is no text part', () => {
+    const email = parseEmail(raw([
+      'From: bob@example.com',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<div>Hello<br>there &amp; <b>welcome</b></div>',
+    ]));
+    expect(email.text).toBe('Hello\nthere & welcome');
+  });
+
+  it('decodes RFC 2231 filenames', () => {
+    const email = parseEmail(raw([
+      'From: bob@example.com',
+      'Content-Type: multipart/mixed; boundary=b',
+      '',
+      '--b',
+      'Content-Type: application/pdf',
+      "Content-Disposition: attachment; filename*=utf-8''r%C3%A9sum%C3%A9.pdf",
+      '',
+      'data',
+      '--b--',
+    ]));
+    expect(email.attachments[0].filename).toBe('résumé.pdf');
+  });
+});
+
+describe('header helpers', () => {
+  it('parses address lists with quoted commas', () => {
+    expect(parseAddressList('"Doe, Jane" <jane@example.com>, bob@example.com')).toEqual([
+      { name: 'Doe, Jane', address: 'jane@example.com' },
+      { address: 'bob@example.com' },
+    ]);
+  });
+
+  it('joins adjacent encoded words', () => {
+    expect(decodeEncodedWords('=?UTF-8?Q?Hello_?= =?UTF-8?Q?W=C3=B6rld?=')).toBe('Hello Wörld');
+  });
+
+  it('adds a single Re: prefix', () => {
+    expect(replySubject('Plans')).toBe('Re: Plans');
+    expect(replySubject('RE: Plans')).toBe('RE: Plans');
+    expect(replySubject('')).toBe('Re: (no subject)');
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('drops quoted history and signatures', () => {
+    expect(stripQuotedReply('Yes!\n\nOn Tue, Sep 1, 2026 at 10:00 Bot <bot@example.com> wrote:\n> Want to meet?')).toBe('Yes!');
+    expect(stripQuotedReply('Sure\n-- \nAlice')).toBe('Sure');
+    expect(stripQuotedReply('Ok\n-----Original Message-----\nFrom: bot')).toBe('Ok');
+  });
+
+  it('keeps inline text that is not a quote', () => {
+    expect(stripQuotedReply('Line one\nLine two')).toBe('Line one\nLine two');
+  });
+});
+
+describe('buildEmail', () => {
+  it('round-trips through parseEmail with threading headers and attachments', () => {
+    const built = buildEmail({
+      from: { name: 'Letta Bot', address: 'bot@example.com' },
+      to: [{ address: 'alice@example.com' }],
+      subject: 'Re: Café',
+      text: 'Here you go ✨',
+      messageId: '<r1@example.com>',
+      inReplyTo: '<m1@example.com>',
+      references: ['<m1@example.com>'],
+      attachments: [{ filename: 'notes.txt', contentType: 'text/plain', content: Buffer.from('hello') }],
+    });
+
+    expect(built).toContain('\r\nIn-Reply-To: <m1@example.com>\r\n');
+    const parsed = parseEmail(Buffer.from(built));
+    expect(parsed.from).toEqual({ name: 'Letta Bot', address: 'bot@example.com' });
+    expect(parsed.subject).toBe('Re: Café');
+    expect(parsed.messageId).toBe('<r1@example.com>');
+    expect(parsed.references).toEqual(['<m1@example.com>']);
+    expect(parsed.text).toBe('Here you go ✨');
+    expect(parsed.attachments[0].filename).toBe('notes.txt');
+    expect(parsed.attachments[0].content.toString()).toBe('hello');
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Minimal RFC 5322 / MIME support for the email channel.
+ *
+ * Parses the subset of MIME that real mail clients send (multipart trees,
+ * base64 / quoted-printable bodies, RFC 2047 encoded words, RFC 2231
+ * filenames) and builds plain-text replies with optional attachments.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface ParsedEmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  headers: Map<string, string[]>;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  from?: EmailAddress;
+  to: EmailAddress[];
+  replyTo?: EmailAddress;
+  subject: string;
+  date?: Date;
+  text: string;
+  attachments: ParsedEmailAttachment[];
+}
+
+export interface OutgoingEmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface OutgoingEmail {
+  from: EmailAddress;
+  to: EmailAddress[];
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: OutgoingEmailAttachment[];
+  date?: Date;
+}
+
+interface MimePart {
+  headers: Map<string, string[]>;
+  body: Buffer;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a raw RFC 5322 message.
+ */
+export function parseEmail(raw: Buffer): ParsedEmail {
+  const root = splitPart(raw);
+  const headers = root.headers;
+  const texts: { plain: string[]; html: string[] } = { plain: [], html: [] };
+  const attachments: ParsedEmailAttachment[] = [];
+  walkPart(root, texts, attachments);
+
+  const text = texts.plain.length > 0
+    ? texts.plain.join('\n')
+    : texts.html.map(htmlToText).join('\n');
+
+  const dateHeader = header(headers, 'date');
+  const date = dateHeader ? new Date(dateHeader) : undefined;
+
+  return {
+    headers,
+    messageId: parseMessageIds(header(headers, 'message-id'))[0],
+    inReplyTo: parseMessageIds(header(headers, 'in-reply-to'))[0],
+    references: parseMessageIds(header(headers, 'references')),
+    from: parseAddressList(header(headers, 'from'))[0],
+    to: parseAddressList(header(headers, 'to')),
+    replyTo: parseAddressList(header(headers, 'reply-to'))[0],
+    subject: decodeEncodedWords(header(headers, 'subject') || ''),
+    date: date && !Number.isNaN(date.getTime()) ? date : undefined,
+    text: normalizeNewlines(text).trim(),
+    attachments,
+  };
+}
+
+/**
+ * First value of a header (names are case-insensitive).
+ */
+export function header(headers: Map<string, string[]>, name: string): string | undefined {
+  return headers.get(name.toLowerCase())?.[0];
+}
+
+/**
+ * Extract `<id>` tokens from Message-ID / In-Reply-To / References headers.
+ * Returned IDs keep their angle brackets.
+ */
+export function parseMessageIds(value: string | undefined): string[] {
+  if (!value) return [];
+  const ids = value.match(/<[^<>\s]+>/g);
+  if (ids) return ids;
+  const bare = value.trim();
+  return bare && !/\s/.test(bare) ? [`<${bare}>`] : [];
+}
+
+/**
+ * Parse an address list like `"Alice" <alice@example.com>, bob@example.com`.
+ */
+export function parseAddressList(value: string | undefined): EmailAddress[] {
+  if (!value) return [];
+  const results: EmailAddress[] = [];
+  for (const entry of splitOutsideQuotes(value, ',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const angle = trimmed.match(/^(.*)<([^<>]+)>\s*$/);
+    if (angle) {
+      const name = decodeEncodedWords(angle[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1')).trim();
+      results.push({ name: name || undefined, address: angle[2].trim().toLowerCase() });
+    } else if (trimmed.includes('@')) {
+      results.push({ address: trimmed.replace(/\s*\(.*\)\s*$/, '').toLowerCase() });
+    }
+  }
+  return results;
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?UTF-8?B?...?=`).
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not significant
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, data: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(data, 'base64')
+        : decodeQuotedPrintable(data.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/**
+ * Remove quoted history and signatures from a reply so the agent only sees
+ * the new text.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = normalizeNewlines(text).split('\n');
+  let end = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (
+      /^On .+wrote:\s*$/.test(line)
+      || /^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim())
+      || line === '-- '
+    ) {
+      end = i;
+      break;
+    }
+    // Multi-line "On <date>, <name>\n<address> wrote:" attribution
+    if (/^On .+/.test(line) && /wrote:\s*$/.test(lines[i + 1] ?? '') && (lines[i + 2] ?? '').startsWith('>')) {
+      end = i;
+      break;
+    }
+  }
+  const kept = lines.slice(0, end);
+  while (kept.length > 0 && (kept[kept.length - 1].startsWith('>') || kept[kept.length - 1].trim() === '')) {
+    kept.pop();
+  }
+  return kept.join('\n').trim();
+}
+
+function walkPart(
+  part: MimePart,
+  texts: { plain: string[]; html: string[] },
+  attachments: ParsedEmailAttachment[],
+): void {
+  const { type, params } = parseHeaderValue(header(part.headers, 'content-type') || 'text/plain');
+  const disposition = parseHeaderValue(header(part.headers, 'content-disposition') || '');
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    for (const child of splitMultipart(part.body, params.boundary)) {
+      walkPart(child, texts, attachments);
+    }
+    return;
+  }
+
+  const body = decodeTransferEncoding(part.body, header(part.headers, 'content-transfer-encoding'));
+  const filename = disposition.params.filename || params.name;
+  const isAttachment = disposition.type === 'attachment' || (!!filename && !type.startsWith('text/'));
+
+  if (!isAttachment && type === 'text/plain') {
+    texts.plain.push(decodeCharset(body, params.charset));
+  } else if (!isAttachment && type === 'text/html') {
+    texts.html.push(decodeCharset(body, params.charset));
+  } else {
+    attachments.push({
+      filename: filename ? decodeEncodedWords(filename) : `attachment${attachments.length + 1}`,
+      contentType: type,
+      content: body,
+    });
+  }
+}
+
+function splitPart(raw: Buffer): MimePart {
+  const { index, length } = findHeaderEnd(raw);
+  const headerText = raw.subarray(0, index).toString('latin1');
+  return {
+    headers: parseHeaders(headerText),
+    body: index < raw.length ? raw.subarray(index + length) : Buffer.alloc(0),
+  };
+}
+
+function findHeaderEnd(raw: Buffer): { index: number; length: number } {
+  const crlf = raw.indexOf('\r\n\r\n');
+  const lf = raw.indexOf('\n\n');
+  if (crlf !== -1 && (lf === -1 || crlf < lf)) return { index: crlf, length: 4 };
+  if (lf !== -1) return { index: lf, length: 2 };
+  return { index: raw.length, length: 0 };
+}
+
+function parseHeaders(text: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  // Unfold continuation lines
+  const unfolded = normalizeNewlines(text).replace(/\n[ \t]+/g, ' ');
+  for (const line of unfolded.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Headers are 7-bit in theory; decode UTF-8 bytes sent raw (RFC 6532)
+    const value = Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf8');
+    const list = headers.get(name) ?? [];
+    list.push(value);
+    headers.set(name, list);
+  }
+  return headers;
+}
+
+function parseHeaderValue(value: string): { type: string; params: Record<string, string> } {
+  const [first, ...rest] = splitOutsideQuotes(value, ';');
+  const params: Record<string, string> = {};
+  const continuations: Record<string, string[]> = {};
+  for (const raw of rest) {
+    const eq = raw.indexOf('=');
+    if (eq === -1) continue;
+    let key = raw.slice(0, eq).trim().toLowerCase();
+    let val = raw.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+    // RFC 2231: name*=charset''percent-encoded and name*0=, name*1= continuations
+    const extended = key.endsWith('*');
+    if (extended) {
+      key = key.slice(0, -1);
+      const match = val.match(/^([^']*)'[^']*'(.*)$/);
+      const charset = match ? match[1] : 'utf-8';
+      const encoded = match ? match[2] : val;
+      val = decodeCharset(Buffer.from(decodeURIComponentBytes(encoded)), charset || 'utf-8');
+    }
+    const section = key.match(/^(.+)\*(\d+)$/);
+    if (section) {
+      const list = continuations[section[1]] ?? [];
+      list[Number(section[2])] = val;
+      continuations[section[1]] = list;
+    } else {
+      params[key] = val;
+    }
+  }
+  for (const [key, parts] of Object.entries(continuations)) {
+    params[key] ??= parts.join('');
+  }
+  return { type: (first || '').trim().toLowerCase(), params };
+}
+
+function splitMultipart(body: Buffer, boundary: string): MimePart[] {
+  const delimiter = `--${boundary}`;
+  const parts: MimePart[] = [];
+  let start = -1;
+  let offset = 0;
+  while (offset <= body.length) {
+    const index = body.indexOf(delimiter, offset);
+    if (index === -1) break;
+    // Delimiters must start a line
+    if (index > 0 && body[index - 1] !== 0x0a) {
+      offset = index + delimiter.length;
+      continue;
+    }
+    if (start !== -1) {
+      let end = index;
+      if (body[end - 1] === 0x0a) end--;
+      if (body[end - 1] === 0x0d) end--;
+      parts.push(splitPart(body.subarray(start, Math.max(start, end))));
+    }
+    const after = index + delimiter.length;
+    if (body[after] === 0x2d && body[after + 1] === 0x2d) break; // closing --boundary--
+    const lineEnd = body.indexOf('\n', after);
+    if (lineEnd === -1) break;
+    start = lineEnd + 1;
+    offset = start;
+  }
+  return parts;
+}
+
+function decodeTransferEncoding(body: Buffer, encoding: string | undefined): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(input: string): Buffer {
+  const bytes: number[] = [];
+  const text = input.replace(/=\r?\n/g, ''); // soft line breaks
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '=' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeURIComponentBytes(value: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '\\' && quoted) {
+      current += ch + (value[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    else if (ch === '<' && !quoted) angle = true;
+    else if (ch === '>' && !quoted) angle = false;
+    if (ch === separator && !quoted && !angle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, '\n');
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * Generate a Message-ID for the given sender domain.
+ */
+export function createMessageId(fromAddress: string): string {
+  const domain = fromAddress.split('@')[1] || 'lettabot.local';
+  return `<${randomUUID()}@${domain}>`;
+}
+
+/**
+ * Serialize an outgoing message with CRLF line endings.
+ */
+export function buildEmail(email: OutgoingEmail): string {
+  const lines: string[] = [
+    `From: ${formatAddress(email.from)}`,
+    `To: ${email.to.map(formatAddress).join(', ')}`,
+    `Subject: ${encodeHeaderValue(email.subject)}`,
+    `Date: ${(email.date ?? new Date()).toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${email.messageId}`,
+  ];
+  if (email.inReplyTo) lines.push(`In-Reply-To: ${email.inReplyTo}`);
+  if (email.references?.length) lines.push(`References: ${email.references.join(' ')}`);
+  lines.push('MIME-Version: 1.0', 'Auto-Submitted: auto-replied');
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Lines(Buffer.from(email.text, 'utf8')),
+  ];
+
+  if (!email.attachments?.length) {
+    return [...lines, ...textPart, ''].join('\r\n');
+  }
+
+  const boundary = `lettabot-${randomUUID()}`;
+  const body: string[] = [
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+  ];
+  for (const attachment of email.attachments) {
+    const filename = attachment.filename.replace(/["\\\r\n]/g, '_');
+    const needsEncoding = /[^\x20-\x7e]/.test(filename);
+    const nameParam = needsEncoding
+      ? `filename*=utf-8''${encodeURIComponent(filename)}`
+      : `filename="${filename}"`;
+    body.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; ${nameParam}`,
+      '',
+      encodeBase64Lines(attachment.content),
+    );
+  }
+  body.push(`--${boundary}--`, '');
+  return [...lines, ...body].join('\r\n');
+}
+
+/**
+ * Prefix a subject with "Re:" unless it already has one.
+ */
+export function replySubject(subject: string): string {
+  const trimmed = subject.trim();
+  if (!trimmed) return 'Re: (no subject)';
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
+
+function formatAddress(address: EmailAddress): string {
+  if (!address.name) return address.address;
+  const name = /[^\x20-\x7e]/.test(address.name)
+    ? encodeHeaderValue(address.name)
+    : `"${address.name.replace(/(["\\])/g, '\\$1')}"`;
+  return `${name} <${address.address}>`;
+}
+
+function encodeHeaderValue(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  if (!/[^\x20-\x7e]/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBase64Lines(content: Buffer): string {
+  return content.toString('base64').replace(/.{1,76}/g, '$&\r\n').replace(/\r\n$/, '');
+}
@@ -0,0 +1,191 @@
+/**
+ * Minimal SMTP submission client (RFC 5321) for the email channel.
+ *
+ * Handles implicit TLS (port 465) or STARTTLS when advertised, AUTH PLAIN /
+ * LOGIN, and a single message per connection.
+ */
+
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+import { hostname } from 'node:os';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;           // Implicit TLS (465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Deliver one message. `message` is the full RFC 5322 text with CRLF line endings.
+ */
+export async function sendSmtpMail(options: SmtpOptions, envelope: SmtpEnvelope, message: string): Promise<void> {
+  const connection = new SmtpConnection(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    await connection.open(options);
+    expectCode(await connection.read(), 220, 'greeting');
+
+    const helo = `EHLO ${hostname() || 'localhost'}`;
+    let capabilities = expectCode(await connection.send(helo), 250, 'EHLO').lines;
+
+    if (!options.secure && hasCapability(capabilities, 'STARTTLS')) {
+      expectCode(await connection.send('STARTTLS'), 220, 'STARTTLS');
+      await connection.upgrade(options.host);
+      capabilities = expectCode(await connection.send(helo), 250, 'EHLO').lines;
+    }
+
+    if (options.user && options.password) {
+      const auth = capabilities.find((line) => /^AUTH\b/i.test(line)) ?? '';
+      if (/\bPLAIN\b/i.test(auth) || !/\bLOGIN\b/i.test(auth)) {
+        const token = Buffer.from(`\0${options.user}\0${options.password}`).toString('base64');
+        expectCode(await connection.send(`AUTH PLAIN ${token}`), 235, 'AUTH');
+      } else {
+        expectCode(await connection.send('AUTH LOGIN'), 334, 'AUTH');
+        expectCode(await connection.send(Buffer.from(options.user).toString('base64')), 334, 'AUTH');
+        expectCode(await connection.send(Buffer.from(options.password).toString('base64')), 235, 'AUTH');
+      }
+    }
+
+    expectCode(await connection.send(`MAIL FROM:<${envelope.from}>`), 250, 'MAIL FROM');
+    for (const recipient of envelope.to) {
+      const reply = await connection.send(`RCPT TO:<${recipient}>`);
+      if (reply.code !== 250 && reply.code !== 251) {
+        throw new SmtpError(`SMTP RCPT TO <${recipient}> rejected: ${reply.lines.join(' ')}`, reply.code);
+      }
+    }
+    expectCode(await connection.send('DATA'), 354, 'DATA');
+    // Dot-stuff lines that begin with "."
+    const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    expectCode(await connection.send(`${body.replace(/\r\n$/, '')}\r\n.`), 250, 'message');
+    await connection.send('QUIT').catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
+
+function expectCode(reply: SmtpReply, code: number, step: string): SmtpReply {
+  if (reply.code !== code) {
+    throw new SmtpError(`SMTP ${step} failed (${reply.code}): ${reply.lines.join(' ')}`, reply.code);
+  }
+  return reply;
+}
+
+function hasCapability(lines: string[], name: string): boolean {
+  return lines.some((line) => line.toUpperCase().split(/\s+/)[0] === name);
+}
+
+class SmtpConnection {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private error: Error | null = null;
+
+  constructor(private readonly timeoutMs: number) {}
+
+  open(options: SmtpOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve())
+        : net.connect({ host: options.host, port: options.port }, () => resolve());
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    if (!plain) return Promise.reject(new SmtpError('SMTP connection is closed'));
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () => resolve());
+      secure.once('error', reject);
+      this.attach(secure);
+    });
+  }
+
+  send(line: string): Promise<SmtpReply> {
+    if (!this.socket) return Promise.reject(this.error ?? new SmtpError('SMTP connection is closed'));
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.drain();
+    });
+  }
+
+  close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.drain();
+    });
+    socket.on('timeout', () => this.fail(new SmtpError('SMTP connection timed out')));
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  /** Resolve the waiting reader once a complete (possibly multi-line) reply is buffered. */
+  private drain(): void {
+    if (!this.waiter) return;
+    const last = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return;
+    const replyLines = this.lines.splice(0, last + 1);
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter.resolve({
+      code: Number(replyLines[last].slice(0, 3)),
+      lines: replyLines.map((line) => line.slice(4)),
+    });
+  }
+
+  private fail(err: Error): void {
+    this.error ??= err;
+    this.socket = null;
+    if (this.waiter) {
+      const waiter = this.waiter;
+      this.waiter = null;
+      waiter.reject(err);
+    }
+  }
+}
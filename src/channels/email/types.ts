@@ -0,0 +1,33 @@
+import type { DmPolicy } from '../../pairing/types.js';
+
+export interface EmailAdapterConfig {
+  address: string;            // Mailbox address used as From and to skip our own mail
+  fromName?: string;          // Display name on outgoing mail
+  user: string;               // IMAP login (also SMTP unless smtpUser is set)
+  password: string;
+  imapHost: string;
+  imapPort?: number;          // Default: 993
+  imapSecure?: boolean;       // Implicit TLS (default: true when port is 993)
+  mailbox?: string;           // Default: INBOX
+  smtpHost: string;
+  smtpPort?: number;          // Default: 465
+  smtpSecure?: boolean;       // Implicit TLS (default: true when port is 465; otherwise STARTTLS if offered)
+  smtpUser?: string;
+  smtpPassword?: string;
+  pollIntervalSec?: number;   // Default: 30
+  dmPolicy?: DmPolicy;        // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];    // Sender email addresses
+  requireAuthentication?: boolean; // Drop mail without a DKIM/DMARC pass for the From domain (default: true)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+}
+
+/**
+ * Reply state for one email thread (chatId = thread root Message-ID).
+ */
+export interface EmailThread {
+  subject: string;
+  replyTo: { name?: string; address: string };
+  lastMessageId: string;
+  references: string[];
+}
@@ -1,5 +1,10 @@
 import { BlueskyAdapter } from './bluesky.js';
 import { DiscordAdapter } from './discord.js';
+import { EmailAdapter } from './email.js';
+import { HttpChannelAdapter } from './http.js';
+import { IrcAdapter } from './irc.js';
+import { MatrixAdapter } from './matrix.js';
+import { MattermostAdapter } from './mattermost.js';
 import { SignalAdapter } from './signal.js';
 import { SlackAdapter } from './slack.js';
 import { TelegramMTProtoAdapter } from './telegram-mtproto.js';
@@ -95,6 +100,7 @@ const SHARED_CHANNEL_BUILDERS: SharedChannelBuilder[] = [
         httpHost: signal.httpHost || process.env.SIGNAL_HTTP_HOST || '127.0.0.1',
         httpPort: signal.httpPort || parseInt(process.env.SIGNAL_HTTP_PORT || '8090', 10),
         readReceipts: signal.readReceipts ?? (process.env.SIGNAL_READ_RECEIPTS !== 'false'),
+        streaming: signal.streaming,
         dmPolicy: signal.dmPolicy || 'pairing',
         allowedUsers: nonEmpty(signal.allowedUsers),
         selfChatMode,
@@ -123,6 +129,129 @@ const SHARED_CHANNEL_BUILDERS: SharedChannelBuilder[] = [
         groups: discord.groups,
         agentName: agentConfig.name,
         ignoreBotReactions: discord.ignoreBotReactions,
+        slashCommands: discord.slashCommands,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.matrix?.homeserverUrl && agentConfig.channels.matrix?.accessToken),
+    build: (agentConfig, options) => {
+      const matrix = agentConfig.channels.matrix;
+      if (!matrix?.homeserverUrl || !matrix.accessToken) {
+        throw new Error(`Matrix is enabled for agent "${agentConfig.name}" but homeserverUrl or accessToken is missing`);
+      }
+      return new MatrixAdapter({
+        homeserverUrl: matrix.homeserverUrl,
+        accessToken: matrix.accessToken,
+        userId: matrix.userId,
+        dmPolicy: matrix.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(matrix.allowedUsers),
+        streaming: matrix.streaming,
+        autoJoin: matrix.autoJoin,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        groups: matrix.groups,
+        mentionPatterns: matrix.mentionPatterns,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.http?.callbackUrl && agentConfig.channels.http?.secret),
+    build: (agentConfig, options) => {
+      const httpChannel = agentConfig.channels.http;
+      if (!httpChannel?.callbackUrl || !httpChannel.secret) {
+        throw new Error(`HTTP channel is enabled for agent "${agentConfig.name}" but callbackUrl or secret is missing`);
+      }
+      return new HttpChannelAdapter({
+        callbackUrl: httpChannel.callbackUrl,
+        secret: httpChannel.secret,
+        dmPolicy: httpChannel.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(httpChannel.allowedUsers),
+        streaming: httpChannel.streaming,
+        formatHint: httpChannel.formatHint,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        groups: httpChannel.groups,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.irc?.server && agentConfig.channels.irc?.nick),
+    build: (agentConfig) => {
+      const irc = agentConfig.channels.irc;
+      if (!irc?.server || !irc.nick) {
+        throw new Error(`IRC is enabled for agent "${agentConfig.name}" but server or nick is missing`);
+      }
+      return new IrcAdapter({
+        server: irc.server,
+        port: irc.port,
+        tls: irc.tls,
+        nick: irc.nick,
+        username: irc.username,
+        realname: irc.realname,
+        password: irc.password,
+        saslAccount: irc.saslAccount,
+        saslPassword: irc.saslPassword,
+        nickservPassword: irc.nickservPassword,
+        dmPolicy: irc.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(irc.allowedUsers),
+        mentionPatterns: irc.mentionPatterns,
+        floodDelayMs: irc.floodDelayMs,
+        groups: irc.groups,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.mattermost?.serverUrl && agentConfig.channels.mattermost?.token),
+    build: (agentConfig, options) => {
+      const mattermost = agentConfig.channels.mattermost;
+      if (!mattermost?.serverUrl || !mattermost.token) {
+        throw new Error(`Mattermost is enabled for agent "${agentConfig.name}" but serverUrl or token is missing`);
+      }
+      return new MattermostAdapter({
+        serverUrl: mattermost.serverUrl,
+        token: mattermost.token,
+        dmPolicy: mattermost.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(mattermost.allowedUsers),
+        streaming: mattermost.streaming,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        groups: mattermost.groups,
+        mentionPatterns: mattermost.mentionPatterns,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.email?.imapHost && agentConfig.channels.email?.smtpHost),
+    build: (agentConfig, options) => {
+      const email = agentConfig.channels.email;
+      if (!email?.imapHost || !email.smtpHost || !email.user || !email.password) {
+        throw new Error(`Email is enabled for agent "${agentConfig.name}" but imapHost, smtpHost, user or password is missing`);
+      }
+      return new EmailAdapter({
+        address: email.address || email.user,
+        fromName: email.fromName,
+        user: email.user,
+        password: email.password,
+        imapHost: email.imapHost,
+        imapPort: email.imapPort,
+        imapSecure: email.imapSecure,
+        mailbox: email.mailbox,
+        smtpHost: email.smtpHost,
+        smtpPort: email.smtpPort,
+        smtpSecure: email.smtpSecure,
+        smtpUser: email.smtpUser,
+        smtpPassword: email.smtpPassword,
+        pollIntervalSec: email.pollIntervalSec,
+        dmPolicy: email.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(email.allowedUsers),
+        requireAuthentication: email.requireAuthentication,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
       });
     },
   },
@@ -0,0 +1,222 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../pairing/store.js', () => ({
+  isUserAllowed: vi.fn(),
+  upsertPairingRequest: vi.fn(),
+}));
+
+import {
+  HttpChannelAdapter,
+  HTTP_SIGNATURE_HEADER,
+  HTTP_TIMESTAMP_HEADER,
+  signHttpPayload,
+  validateHttpInboundPayload,
+  verifyHttpSignature,
+} from './http.js';
+import type { InboundMessage } from '../core/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+
+const mockedIsUserAllowed = vi.mocked(isUserAllowed);
+const mockedUpsertPairingRequest = vi.mocked(upsertPairingRequest);
+
+const SECRET = 'test-secret';
+
+type Delivery = { headers: Record<string, string | string[] | undefined>; raw: string; body: Record<string, unknown> };
+
+/**
+ * Records outbound webhook deliveries from the adapter.
+ */
+class CallbackServer {
+  deliveries: Delivery[] = [];
+  status = 200;
+  response: unknown = {};
+  private server: Server;
+
+  constructor() {
+    this.server = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const raw = Buffer.concat(chunks).toString();
+      this.deliveries.push({ headers: req.headers, raw, body: JSON.parse(raw) });
+      res.writeHead(this.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(this.response));
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/hook`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  texts(): string[] {
+    return this.deliveries.filter((d) => d.body.type === 'message').map((d) => d.body.text as string);
+  }
+}
+
+describe('HTTP channel signatures', () => {
+  it('accepts a payload signed with the shared secret', () => {
+    const ts = String(Math.floor(Date.now() / 1000));
+    const body = '{"chatId":"c1"}';
+    expect(verifyHttpSignature(SECRET, body, signHttpPayload(SECRET, ts, body), ts)).toBe(true);
+  });
+
+  it('rejects a wrong secret or tampered body', () => {
+    const ts = String(Math.floor(Date.now() / 1000));
+    const sig = signHttpPayload(SECRET, ts, '{"chatId":"c1"}');
+    expect(verifyHttpSignature('other', '{"chatId":"c1"}', sig, ts)).toBe(false);
+    expect(verifyHttpSignature(SECRET, '{"chatId":"c2"}', sig, ts)).toBe(false);
+    expect(verifyHttpSignature(SECRET, '{"chatId":"c1"}', undefined, ts)).toBe(false);
+  });
+
+  it('rejects stale timestamps', () => {
+    const ts = String(Math.floor(Date.now() / 1000) - 600);
+    const body = '{}';
+    expect(verifyHttpSignature(SECRET, body, signHttpPayload(SECRET, ts, body), ts)).toBe(false);
+  });
+});
+
+describe('validateHttpInboundPayload', () => {
+  it('requires chatId, userId and content', () => {
+    expect(validateHttpInboundPayload(null)).toBe('Body must be a JSON object');
+    expect(validateHttpInboundPayload({ userId: 'u1', text: 'hi' })).toBe('Missing required field: chatId');
+    expect(validateHttpInboundPayload({ chatId: 'c1', text: 'hi' })).toBe('Missing required field: userId');
+    expect(validateHttpInboundPayload({ chatId: 'c1', userId: 'u1' })).toBe('Either text or attachments must be provided');
+    expect(validateHttpInboundPayload({ chatId: 'c1', userId: 'u1', text: 'hi' })).toBeNull();
+  });
+
+  it('requires reaction details for reaction events', () => {
+    expect(validateHttpInboundPayload({ type: 'reaction', chatId: 'c1', userId: 'u1' }))
+      .toBe('Reaction events require reaction.emoji and reaction.messageId');
+    expect(validateHttpInboundPayload({
+      type: 'reaction', chatId: 'c1', userId: 'u1', reaction: { emoji: '👍', messageId: 'm1' },
+    })).toBeNull();
+  });
+});
+
+describe('HttpChannelAdapter', () => {
+  let callback: CallbackServer;
+  let callbackUrl: string;
+  let adapter: HttpChannelAdapter | null = null;
+
+  beforeEach(async () => {
+    callback = new CallbackServer();
+    callbackUrl = await callback.listen();
+    mockedIsUserAllowed.mockResolvedValue(true);
+    mockedUpsertPairingRequest.mockResolvedValue({ code: 'ABCD1234', created: true });
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = null;
+    await callback.close();
+    vi.clearAllMocks();
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof HttpChannelAdapter>[0]> = {}) {
+    adapter = new HttpChannelAdapter({ callbackUrl, secret: SECRET, dmPolicy: 'open', ...overrides });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.start();
+    return { adapter, received };
+  }
+
+  it('rejects inbound events before start', async () => {
+    adapter = new HttpChannelAdapter({ callbackUrl, secret: SECRET });
+    await expect(adapter.handleInbound({ chatId: 'c1', userId: 'u1', text: 'hi' })).rejects.toThrow('not running');
+  });
+
+  it('delivers DM messages to onMessage', async () => {
+    const { adapter, received } = await startAdapter();
+    await adapter.handleInbound({ chatId: 'c1', userId: 'u1', userName: 'Alice', messageId: 'm1', text: ' hello ' });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      channel: 'http', chatId: 'c1', userId: 'u1', userName: 'Alice', messageId: 'm1', text: 'hello', isGroup: false,
+    });
+  });
+
+  it('sends a pairing code to unknown users', async () => {
+    mockedIsUserAllowed.mockResolvedValue(false);
+    const { adapter, received } = await startAdapter({ dmPolicy: 'pairing' });
+    await adapter.handleInbound({ chatId: 'c1', userId: 'u1', text: 'hi' });
+
+    expect(received).toHaveLength(0);
+    expect(mockedUpsertPairingRequest).toHaveBeenCalledWith('http', 'u1', { username: 'u1' });
+    expect(callback.texts()[0]).toContain('lettabot pairing approve http ABCD1234');
+  });
+
+  it('ignores groups that are not configured', async () => {
+    const { adapter, received } = await startAdapter();
+    await adapter.handleInbound({ chatId: 'room1', userId: 'u1', text: 'hi', isGroup: true });
+    expect(received).toHaveLength(0);
+  });
+
+  it('applies mention-only and listen group modes', async () => {
+    const { adapter, received } = await startAdapter({
+      groups: { room1: { mode: 'mention-only' }, room2: { mode: 'listen' } },
+    });
+    await adapter.handleInbound({ chatId: 'room1', userId: 'u1', text: 'hi', isGroup: true });
+    await adapter.handleInbound({ chatId: 'room1', userId: 'u1', text: 'hey bot', isGroup: true, mentioned: true });
+    await adapter.handleInbound({ chatId: 'room2', userId: 'u1', text: 'chatter', isGroup: true });
+
+    expect(received.map((m) => m.text)).toEqual(['hey bot', 'chatter']);
+    expect(received[0]).toMatchObject({ wasMentioned: true, isListeningMode: false });
+    expect(received[1]).toMatchObject({ isListeningMode: true });
+  });
+
+  it('forwards reactions', async () => {
+    const { adapter, received } = await startAdapter();
+    await adapter.handleInbound({
+      type: 'reaction', chatId: 'c1', userId: 'u1', reaction: { emoji: '👍', messageId: 'm9' },
+    });
+    expect(received[0].reaction).toEqual({ emoji: '👍', messageId: 'm9', action: 'added' });
+  });
+
+  it('routes commands to onCommand and replies with the result', async () => {
+    const { adapter, received } = await startAdapter();
+    adapter.onCommand = vi.fn().mockResolvedValue('status ok');
+    await adapter.handleInbound({ chatId: 'c1', userId: 'u1', text: '/status' });
+
+    expect(received).toHaveLength(0);
+    expect(adapter.onCommand).toHaveBeenCalledWith('status', 'c1', undefined);
+    expect(callback.texts()).toEqual(['status ok']);
+  });
+
+  it('signs outbound deliveries and uses the frontend message ID', async () => {
+    const { adapter } = await startAdapter();
+    callback.response = { messageId: 'frontend-42' };
+    const result = await adapter.sendMessage({ chatId: 'c1', text: 'hello', threadId: 't1' });
+
+    expect(result.messageId).toBe('frontend-42');
+    const delivery = callback.deliveries[0];
+    expect(delivery.body).toMatchObject({ type: 'message', chatId: 'c1', text: 'hello', threadId: 't1' });
+    const sig = delivery.headers[HTTP_SIGNATURE_HEADER] as string;
+    const ts = delivery.headers[HTTP_TIMESTAMP_HEADER] as string;
+    expect(verifyHttpSignature(SECRET, delivery.raw, sig, ts)).toBe(true);
+  });
+
+  it('delivers edits and reactions', async () => {
+    const { adapter } = await startAdapter();
+    await adapter.editMessage('c1', 'm1', 'updated');
+    await adapter.addReaction('c1', 'm1', 'thumbsup');
+
+    expect(callback.deliveries.map((d) => d.body)).toEqual([
+      { type: 'edit', chatId: 'c1', messageId: 'm1', text: 'updated' },
+      { type: 'reaction', chatId: 'c1', messageId: 'm1', emoji: '👍' },
+    ]);
+  });
+
+  it('throws when the callback rejects a message', async () => {
+    const { adapter } = await startAdapter();
+    callback.status = 500;
+    await expect(adapter.sendMessage({ chatId: 'c1', text: 'hello' })).rejects.toThrow('HTTP callback failed for message (500)');
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * HTTP Webhook Channel Adapter
+ *
+ * Connects custom frontends (support widgets, internal tools) as a native
+ * channel. Inbound messages arrive as signed POSTs on the API server
+ * (POST /api/v1/channels/http[/<agent>]); outbound sends, edits, files,
+ * reactions and typing indicators are delivered as signed webhook calls to
+ * the configured callback URL.
+ *
+ * Both directions are signed with HMAC-SHA256 over `${timestamp}.${body}`
+ * using the shared secret:
+ *   X-Lettabot-Timestamp: <unix seconds>
+ *   X-Lettabot-Signature: sha256=<hex digest>
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { ChannelAdapter } from './types.js';
+import type { InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { resolveEmoji } from './shared/emoji.js';
+import { buildAttachmentPath, downloadToFile } from './attachments.js';
+import { HELP_TEXT, parseCommand } from '../core/commands.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('HTTP');
+
+export const HTTP_SIGNATURE_HEADER = 'x-lettabot-signature';
+export const HTTP_TIMESTAMP_HEADER = 'x-lettabot-timestamp';
+const SIGNATURE_TOLERANCE_SEC = 300;
+const CALLBACK_TIMEOUT_MS = 10000;
+const ATTACHMENT_DOWNLOAD_TIMEOUT_MS = 15000;
+
+export interface HttpChannelConfig {
+  callbackUrl: string;      // Outbound webhook target
+  secret: string;           // Shared HMAC secret for inbound and outbound signatures
+  dmPolicy?: DmPolicy;      // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];  // Frontend user IDs
+  streaming?: boolean;      // Stream responses via progressive edit callbacks (default: false)
+  formatHint?: string;      // Formatting guidance shown to the agent (default: standard Markdown)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  groups?: Record<string, GroupModeConfig>;  // Per-room settings, "*" for defaults
+  agentName?: string;       // For scoping daily limit counters in multi-agent mode
+}
+
+/**
+ * Inbound event body accepted on the channel route.
+ */
+export interface HttpInboundPayload {
+  type?: 'message' | 'reaction';
+  chatId: string;
+  userId: string;
+  userName?: string;
+  messageId?: string;
+  text?: string;
+  timestamp?: string | number;
+  threadId?: string;
+  isGroup?: boolean;
+  groupName?: string;
+  serverId?: string;
+  mentioned?: boolean;
+  attachments?: Array<{ url: string; name?: string; mimeType?: string; size?: number }>;
+  reaction?: { emoji: string; messageId: string; action?: 'added' | 'removed' };
+}
+
+type HttpOutboundEvent =
+  | { type: 'message'; chatId: string; messageId: string; text: string; threadId?: string; replyToMessageId?: string }
+  | { type: 'edit'; chatId: string; messageId: string; text: string }
+  | { type: 'file'; chatId: string; messageId: string; threadId?: string; caption?: string; kind?: OutboundFile['kind']; file: { name: string; size: number; data: string } }
+  | { type: 'reaction'; chatId: string; messageId: string; emoji: string }
+  | { type: 'typing'; chatId: string };
+
+/**
+ * Compute the signature header value for a payload.
+ */
+export function signHttpPayload(secret: string, timestamp: string, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a signed request. Rejects stale timestamps to limit replay.
+ */
+export function verifyHttpSignature(
+  secret: string,
+  body: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  nowMs = Date.now(),
+): boolean {
+  if (!signature || !timestamp) return false;
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts) || Math.abs(nowMs / 1000 - ts) > SIGNATURE_TOLERANCE_SEC) return false;
+  const expected = Buffer.from(signHttpPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Validate an inbound payload. Returns an error message, or null when valid.
+ */
+export function validateHttpInboundPayload(payload: unknown): string | null {
+  if (!payload || typeof payload !== 'object') return 'Body must be a JSON object';
+  const p = payload as Partial<HttpInboundPayload>;
+  if (!p.chatId || typeof p.chatId !== 'string') return 'Missing required field: chatId';
+  if (!p.userId || typeof p.userId !== 'string') return 'Missing required field: userId';
+  if (p.type === 'reaction') {
+    if (!p.reaction?.emoji || !p.reaction.messageId) return 'Reaction events require reaction.emoji and reaction.messageId';
+    return null;
+  }
+  if (p.text !== undefined && typeof p.text !== 'string') return 'Field text must be a string';
+  if (!p.text && !p.attachments?.length) return 'Either text or attachments must be provided';
+  return null;
+}
+
+export class HttpChannelAdapter implements ChannelAdapter {
+  readonly id = 'http' as const;
+  readonly name = 'HTTP';
+
+  private config: HttpChannelConfig;
+  private running = false;
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean) => Promise<string | null>;
+  isAddressed?: (text: string) => boolean;
+
+  constructor(config: HttpChannelConfig) {
+    this.config = {
+      ...config,
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('http', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for HTTP frontends
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: **${code}**
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve http ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    // Inbound traffic arrives through the API server; nothing to connect.
+    this.running = true;
+    log.info(`Delivering to ${this.config.callbackUrl}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Verify the signature headers of an inbound request against this channel's secret.
+   */
+  verifyRequest(body: string, signature: string | undefined, timestamp: string | undefined): boolean {
+    return verifyHttpSignature(this.config.secret, body, signature, timestamp);
+  }
+
+  /**
+   * Handle a validated inbound event from the API route.
+   */
+  async handleInbound(payload: HttpInboundPayload): Promise<void> {
+    if (!this.running) {
+      throw new Error('HTTP channel is not running');
+    }
+
+    const { chatId, userId } = payload;
+    const isGroup = !!payload.isGroup;
+    const keys = [chatId, ...(payload.serverId ? [payload.serverId] : [])];
+
+    // Bypass pairing for group chats
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        if (payload.type !== 'reaction') {
+          await this.sendMessage({ chatId, text: "Sorry, you're not authorized to use this bot." });
+        }
+        return;
+      }
+
+      if (access === 'pairing') {
+        if (payload.type === 'reaction') return;
+        const { code, created } = await upsertPairingRequest('http', userId, {
+          username: payload.userName || userId,
+        });
+
+        if (!code) {
+          await this.sendMessage({ chatId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+
+        if (created) {
+          log.info(`New pairing request from ${userId}: ${code}`);
+        }
+        await this.sendMessage({ chatId, text: this.formatPairingMsg(code) });
+        return;
+      }
+    }
+
+    const wasMentioned = isGroup ? !!payload.mentioned : undefined;
+    let isListeningMode = false;
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        log.info(`Group ${chatId} not in allowlist, ignoring`);
+        return;
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return;
+      }
+      if (mode === 'mention-only' && (payload.type === 'reaction' || (!wasMentioned && !this.isAddressed?.(payload.text || '')))) {
+        return;
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:http:${limits.matchedKey ?? chatId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    const base = {
+      channel: 'http' as const,
+      chatId,
+      userId,
+      userName: payload.userName,
+      userHandle: userId,
+      timestamp: parseTimestamp(payload.timestamp),
+      threadId: payload.threadId,
+      isGroup,
+      groupName: payload.groupName,
+      serverId: payload.serverId,
+      isListeningMode,
+      formatterHints: this.getFormatterHints(),
+    };
+
+    if (payload.type === 'reaction' && payload.reaction) {
+      await this.onMessage?.({
+        ...base,
+        messageId: payload.reaction.messageId,
+        text: '',
+        reaction: {
+          emoji: payload.reaction.emoji,
+          messageId: payload.reaction.messageId,
+          action: payload.reaction.action === 'removed' ? 'removed' : 'added',
+        },
+      });
+      return;
+    }
+
+    const text = (payload.text || '').trim();
+
+    // Commands require user-level authorization (paired or allowlisted).
+    const parsed = parseCommand(text);
+    if (parsed) {
+      const commandAllowed = await isUserAllowed('http', userId, this.config.allowedUsers);
+      if (!commandAllowed) return;
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId, text: HELP_TEXT, threadId: payload.threadId });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined);
+        if (result) await this.sendMessage({ chatId, text: result, threadId: payload.threadId });
+      }
+      return;
+    }
+
+    const attachments = await this.collectAttachments(payload.attachments, chatId);
+    if (!text && attachments.length === 0) return;
+
+    await this.onMessage?.({
+      ...base,
+      messageId: payload.messageId,
+      text,
+      wasMentioned,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    });
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const messageId = await this.deliver({
+      type: 'message',
+      chatId: msg.chatId,
+      messageId: randomUUID(),
+      text: msg.text,
+      threadId: msg.threadId,
+      replyToMessageId: msg.replyToMessageId,
+    });
+    return { messageId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const [data, info] = await Promise.all([readFile(file.filePath), stat(file.filePath)]);
+    const messageId = await this.deliver({
+      type: 'file',
+      chatId: file.chatId,
+      messageId: randomUUID(),
+      threadId: file.threadId,
+      caption: file.caption,
+      kind: file.kind,
+      file: { name: basename(file.filePath), size: info.size, data: data.toString('base64') },
+    });
+    return { messageId };
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    await this.deliver({ type: 'edit', chatId, messageId, text });
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    await this.deliver({ type: 'reaction', chatId, messageId, emoji: resolveEmoji(emoji) });
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    try {
+      await this.deliver({ type: 'typing', chatId });
+    } catch (err) {
+      // Typing indicators are best-effort
+      log.warn('Failed to send typing indicator:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      supportsEdits: true,
+      supportsBreaks: true,
+      formatHint: this.config.formatHint || 'Markdown: **bold** *italic* `code` [links](url) ```code blocks```',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  // --- Private methods ---
+
+  /**
+   * POST a signed event to the callback URL. The frontend may return
+   * `{ "messageId": "..." }` to assign its own ID; otherwise ours is kept.
+   */
+  private async deliver(event: HttpOutboundEvent): Promise<string> {
+    const body = JSON.stringify(event);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const res = await fetch(this.config.callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [HTTP_TIMESTAMP_HEADER]: timestamp,
+        [HTTP_SIGNATURE_HEADER]: signHttpPayload(this.config.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    });
+
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => '')).slice(0, 200);
+      throw new Error(`HTTP callback failed for ${event.type} (${res.status})${detail ? `: ${detail}` : ''}`);
+    }
+
+    const fallbackId = 'messageId' in event ? event.messageId : '';
+    try {
+      const result = await res.json() as { messageId?: unknown };
+      return typeof result?.messageId === 'string' && result.messageId ? result.messageId : fallbackId;
+    } catch {
+      return fallbackId; // Empty or non-JSON response
+    }
+  }
+
+  private async collectAttachments(
+    attachments: HttpInboundPayload['attachments'],
+    chatId: string,
+  ): Promise<InboundAttachment[]> {
+    if (!attachments?.length) return [];
+    const results: InboundAttachment[] = [];
+    for (const attachment of attachments) {
+      if (!attachment?.url) continue;
+      const name = attachment.name || attachmentNameFromUrl(attachment.url);
+      const entry: InboundAttachment = {
+        name,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        kind: attachment.mimeType?.startsWith('image/') ? 'image'
+          : attachment.mimeType?.startsWith('audio/') ? 'audio'
+          : attachment.mimeType?.startsWith('video/') ? 'video'
+          : 'file',
+        url: attachment.url,
+      };
+      if (this.config.attachmentsDir) {
+        if (this.config.attachmentsMaxBytes === 0) {
+          results.push(entry);
+          continue;
+        }
+        if (this.config.attachmentsMaxBytes && attachment.size && attachment.size > this.config.attachmentsMaxBytes) {
+          log.warn(`Attachment ${name} exceeds size limit, skipping download.`);
+          results.push(entry);
+          continue;
+        }
+        const target = buildAttachmentPath(this.config.attachmentsDir, 'http', chatId, name);
+        try {
+          await downloadToFile(attachment.url, target, { timeoutMs: ATTACHMENT_DOWNLOAD_TIMEOUT_MS });
+          entry.localPath = target;
+          log.info(`Attachment saved to ${target}`);
+        } catch (err) {
+          log.warn('Failed to download attachment:', err);
+        }
+      }
+      results.push(entry);
+    }
+    return results;
+  }
+}
+
+function attachmentNameFromUrl(url: string): string {
+  try {
+    return basename(new URL(url).pathname) || 'attachment';
+  } catch {
+    return 'attachment';
+  }
+}
+
+function parseTimestamp(value: string | number | undefined): Date {
+  if (value === undefined) return new Date();
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
@@ -10,4 +10,9 @@ export * from './slack.js';
 export * from './whatsapp/index.js';
 export * from './signal.js';
 export * from './discord.js';
+export * from './matrix.js';
+export * from './mattermost.js';
+export * from './http.js';
+export * from './email.js';
+export * from './irc.js';
 export * from './bluesky.js';
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToIrc, stripIrcFormatting } from './irc-format.js';
+
+describe('markdownToIrc', () => {
+  it('leaves plain text alone', () => {
+    expect(markdownToIrc('just words')).toBe('just words');
+  });
+
+  it('converts bold and italics to control codes', () => {
+    expect(markdownToIrc('**bold** *italic* _also_ ~~gone~~')).toBe('\x02bold\x02 \x1Ditalic\x1D \x1Dalso\x1D gone');
+  });
+
+  it('inlines links and keeps code spans literal', () => {
+    expect(markdownToIrc('[docs](https://example.com) `**raw**`')).toBe('docs (https://example.com) **raw**');
+  });
+
+  it('drops code fences and bolds headers', () => {
+    expect(markdownToIrc('# Title\n```ts\nconst a = 1;\n```')).toBe('\x02Title\x02\nconst a = 1;');
+  });
+
+  it('does not treat snake_case as italics', () => {
+    expect(markdownToIrc('use my_var_name here')).toBe('use my_var_name here');
+  });
+});
+
+describe('stripIrcFormatting', () => {
+  it('removes control and color codes', () => {
+    expect(stripIrcFormatting('\x02bold\x02 \x0304,01red\x03 \x1Dit\x1D\x0F')).toBe('bold red it');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * IRC text formatting.
+ *
+ * Converts the agent's Markdown to mIRC control codes (bold, italics) and
+ * strips formatting/color codes from inbound lines.
+ */
+
+const BOLD = '\x02';
+const ITALIC = '\x1D';
+
+// Color (\x03 with optional fg[,bg]), hex color (\x04), and toggle codes
+const IRC_FORMATTING_RE = /\x03(?:\d{1,2}(?:,\d{1,2})?)?|\x04(?:[0-9A-Fa-f]{6}(?:,[0-9A-Fa-f]{6})?)?|[\x02\x0F\x11\x16\x1D\x1E\x1F]/g;
+
+/**
+ * Convert Markdown to IRC-formatted plain text.
+ */
+export function markdownToIrc(markdown: string): string {
+  const codeSpans: string[] = [];
+  let text = markdown
+    // Code fences: keep the code, drop the fence lines
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, (_m, code: string) => code.replace(/\n$/, ''))
+    // Protect inline code from further conversion
+    .replace(/`([^`\n]+)`/g, (_m, code: string) => {
+      codeSpans.push(code);
+      return `\u0000${codeSpans.length - 1}\u0000`;
+    });
+
+  text = text
+    .replace(/^#{1,6}\s+(.+)$/gm, `${BOLD}$1${BOLD}`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_m, label: string, url: string) => (label === url ? url : `${label} (${url})`))
+    .replace(/\*\*([^*\n]+)\*\*/g, `${BOLD}$1${BOLD}`)
+    .replace(/__([^_\n]+)__/g, `${BOLD}$1${BOLD}`)
+    .replace(/(^|[^*\w])\*([^*\n]+)\*(?![*\w])/g, `$1${ITALIC}$2${ITALIC}`)
+    .replace(/(^|[^_\w])_([^_\n]+)_(?![_\w])/g, `$1${ITALIC}$2${ITALIC}`)
+    .replace(/~~([^~\n]+)~~/g, '$1');
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_m, index: string) => codeSpans[Number(index)]);
+}
+
+/**
+ * Remove mIRC formatting and color codes.
+ */
+export function stripIrcFormatting(text: string): string {
+  return text.replace(IRC_FORMATTING_RE, '');
+}
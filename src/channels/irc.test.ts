@@ -0,0 +1,333 @@
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../pairing/store.js', () => ({
+  isUserAllowed: vi.fn(),
+  upsertPairingRequest: vi.fn(),
+}));
+
+import { IrcAdapter, isIrcMention, parseIrcLine, splitIrcMessage } from './irc.js';
+import type { InboundMessage } from '../core/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+
+const mockedIsUserAllowed = vi.mocked(isUserAllowed);
+const mockedUpsertPairingRequest = vi.mocked(upsertPairingRequest);
+
+/**
+ * Minimal IRC server: CAP/SASL negotiation, registration, JOIN and line capture.
+ * Tests inject traffic with `emit()`.
+ */
+class MockIrcServer {
+  lines: string[] = [];
+  takenNicks = new Set<string>();
+  saslSupported = true;
+  accountTagSupported = false;
+  saslPassword = 'sasl-secret';
+  connections = 0;
+  private server: Server;
+  private sockets = new Set<Socket>();
+  private client: Socket | null = null;
+
+  constructor() {
+    this.server = createServer((socket) => {
+      this.connections++;
+      this.sockets.add(socket);
+      this.client = socket;
+      socket.on('close', () => this.sockets.delete(socket));
+      let buffer = '';
+      let capNegotiating = false;
+      let nick = '';
+      let registered = false;
+      const tryWelcome = () => {
+        if (registered || capNegotiating || !nick) return;
+        registered = true;
+        socket.write(`:irc.test 001 ${nick} :Welcome\r\n`);
+      };
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          this.lines.push(line);
+          const [command, ...args] = line.split(' ');
+          if (command === 'CAP' && args[0] === 'LS') {
+            capNegotiating = true;
+            const caps = ['multi-prefix', ...(this.saslSupported ? ['sasl=PLAIN'] : []), ...(this.accountTagSupported ? ['account-tag'] : [])];
+            socket.write(`:irc.test CAP * LS :${caps.join(' ')}\r\n`);
+          } else if (command === 'CAP' && args[0] === 'REQ') {
+            socket.write(`:irc.test CAP * ACK ${args.slice(1).join(' ')}\r\n`);
+          } else if (command === 'AUTHENTICATE' && args[0] === 'PLAIN') {
+            socket.write('AUTHENTICATE +\r\n');
+          } else if (command === 'AUTHENTICATE') {
+            const ok = Buffer.from(args[0], 'base64').toString() === `bot\0bot\0${this.saslPassword}`;
+            socket.write(ok ? ':irc.test 903 * :SASL successful\r\n' : ':irc.test 904 * :SASL failed\r\n');
+          } else if (command === 'CAP' && args[0] === 'END') {
+            capNegotiating = false;
+            tryWelcome();
+          } else if (command === 'NICK') {
+            if (this.takenNicks.has(args[0])) {
+              socket.write(`:irc.test 433 * ${args[0]} :Nickname is already in use\r\n`);
+            } else {
+              nick = args[0];
+              tryWelcome();
+            }
+          } else if (command === 'PING') {
+            socket.write(`PONG ${args.join(' ')}\r\n`);
+          } else if (command === 'QUIT') {
+            socket.end();
+          }
+        }
+      });
+    });
+  }
+
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  emit(line: string): void {
+    this.client?.write(`${line}\r\n`);
+  }
+
+  dropClient(): void {
+    this.client?.destroy();
+  }
+
+  privmsgs(): string[] {
+    return this.lines.filter((line) => line.startsWith('PRIVMSG '));
+  }
+}
+
+describe('parseIrcLine', () => {
+  it('parses tags, prefix, params and trailing text', () => {
+    expect(parseIrcLine('@time=2026-01-01T00:00:00.000Z :alice!a@host PRIVMSG #chan :hello there')).toEqual({
+      tags: { time: '2026-01-01T00:00:00.000Z' },
+      prefix: 'alice!a@host',
+      nick: 'alice',
+      command: 'PRIVMSG',
+      params: ['#chan', 'hello there'],
+    });
+  });
+
+  it('does not treat server prefixes as nicks', () => {
+    expect(parseIrcLine(':irc.test 001 bot :Welcome')?.nick).toBeUndefined();
+    expect(parseIrcLine('PING :irc.test')).toMatchObject({ command: 'PING', params: ['irc.test'] });
+  });
+});
+
+describe('isIrcMention', () => {
+  it('matches the nick as a standalone word', () => {
+    expect(isIrcMention('lettabot: hi', 'lettabot')).toBe(true);
+    expect(isIrcMention('hey LettaBot, what time is it?', 'lettabot')).toBe(true);
+    expect(isIrcMention('lettabot_ is my twin', 'lettabot')).toBe(false);
+    expect(isIrcMention('lettabots everywhere', 'lettabot')).toBe(false);
+  });
+
+  it('handles nicks with special characters and mention patterns', () => {
+    expect(isIrcMention('[bot] ping', '[bot]')).toBe(true);
+    expect(isIrcMention('hey assistant', 'lettabot', ['\\bassistant\\b'])).toBe(true);
+  });
+});
+
+describe('splitIrcMessage', () => {
+  it('sends one line per text line and skips blanks', () => {
+    expect(splitIrcMessage('one\n\ntwo', 400)).toEqual(['one', 'two']);
+  });
+
+  it('breaks lines on bare CR and NUL so text cannot inject commands', () => {
+    expect(splitIrcMessage('hi\rQUIT :bye\0JOIN #x\r\nok', 400)).toEqual(['hi', 'QUIT :bye', 'JOIN #x', 'ok']);
+  });
+
+  it('splits long lines to the byte limit', () => {
+    const lines = splitIrcMessage('é'.repeat(300), 100);
+    expect(lines.every((line) => Buffer.byteLength(line) <= 100)).toBe(true);
+    expect(lines.join('')).toBe('é'.repeat(300));
+  });
+});
+
+describe('IrcAdapter', () => {
+  let server: MockIrcServer;
+  let port: number;
+  let adapter: IrcAdapter | null = null;
+
+  beforeEach(async () => {
+    server = new MockIrcServer();
+    port = await server.listen();
+    mockedIsUserAllowed.mockResolvedValue(true);
+    mockedUpsertPairingRequest.mockResolvedValue({ code: 'ABCD1234', created: true });
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = null;
+    await server.close();
+    vi.clearAllMocks();
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof IrcAdapter>[0]> = {}) {
+    adapter = new IrcAdapter({
+      server: '127.0.0.1',
+      port,
+      tls: false,
+      nick: 'bot',
+      dmPolicy: 'open',
+      floodDelayMs: 0,
+      ...overrides,
+    });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.start();
+    return { adapter, received };
+  }
+
+  it('authenticates with SASL, identifies with NickServ and joins configured channels', async () => {
+    await startAdapter({
+      saslPassword: 'sasl-secret',
+      nickservPassword: 'ns-secret',
+      groups: { '#Lettabot': { mode: 'open' }, '#dev': { mode: 'listen' }, '*': { mode: 'mention-only' } },
+    });
+
+    expect(server.lines.slice(0, 3)).toEqual(['CAP LS 302', 'NICK bot', 'USER bot 0 * :LettaBot']);
+    expect(server.lines).toContain('AUTHENTICATE PLAIN');
+    expect(server.lines).toContain('CAP END');
+    await vi.waitFor(() => expect(server.lines).toContain('JOIN #lettabot,#dev'));
+    expect(server.lines).toContain('PRIVMSG NickServ :IDENTIFY ns-secret');
+  });
+
+  it('fails to start when SASL is rejected', async () => {
+    adapter = new IrcAdapter({ server: '127.0.0.1', port, tls: false, nick: 'bot', saslPassword: 'wrong' });
+    await expect(adapter.start()).rejects.toThrow('SASL authentication failed');
+    adapter = null;
+  });
+
+  it('fails to start when the server lacks SASL', async () => {
+    server.saslSupported = false;
+    adapter = new IrcAdapter({ server: '127.0.0.1', port, tls: false, nick: 'bot', saslPassword: 'sasl-secret' });
+    await expect(adapter.start()).rejects.toThrow('does not support SASL');
+    adapter = null;
+  });
+
+  it('picks another nick when the configured one is taken', async () => {
+    server.takenNicks.add('bot');
+    await startAdapter();
+    expect(server.lines).toContain('NICK bot_');
+  });
+
+  it('delivers private messages as DMs', async () => {
+    const { received } = await startAdapter();
+    server.emit(':Alice!a@host PRIVMSG bot :\x02hello\x02 there');
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      channel: 'irc',
+      chatId: 'Alice',
+      userId: 'alice',
+      userName: 'Alice',
+      text: 'hello there',
+      isGroup: false,
+    });
+  });
+
+  it('sends a pairing code to unknown users', async () => {
+    mockedIsUserAllowed.mockResolvedValue(false);
+    const { received } = await startAdapter({ dmPolicy: 'pairing' });
+    server.emit(':alice!a@host PRIVMSG bot :hi');
+
+    await vi.waitFor(() => expect(server.privmsgs()).toHaveLength(2));
+    expect(received).toHaveLength(0);
+    expect(mockedUpsertPairingRequest).toHaveBeenCalledWith('irc', 'alice', { username: 'alice' });
+    expect(server.privmsgs()[1]).toBe('PRIVMSG alice :Ask the bot owner to approve with: lettabot pairing approve irc ABCD1234');
+  });
+
+  it('identifies users by services account when the server supports account-tag', async () => {
+    server.accountTagSupported = true;
+    mockedIsUserAllowed.mockImplementation(async (_channel, userId) => userId === 'alice');
+    const { received } = await startAdapter({ dmPolicy: 'pairing' });
+    expect(server.lines).toContain('CAP REQ :account-tag');
+
+    // Someone else using the nick "alice" without being logged in as her
+    server.emit(':alice!x@elsewhere PRIVMSG bot :hi');
+    await vi.waitFor(() => expect(server.privmsgs()).toHaveLength(1));
+    expect(server.privmsgs()[0]).toContain('log in to your account');
+    expect(mockedUpsertPairingRequest).not.toHaveBeenCalled();
+
+    server.emit('@account=Alice :al_away!a@host PRIVMSG bot :hello');
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({ chatId: 'al_away', userId: 'alice', userName: 'al_away' });
+  });
+
+  it('applies group modes per channel', async () => {
+    const { received } = await startAdapter({
+      groups: { '#quiet': { mode: 'mention-only' }, '#lurk': { mode: 'listen' } },
+    });
+    server.emit(':alice!a@host PRIVMSG #quiet :no mention');
+    server.emit(':alice!a@host PRIVMSG #Quiet :bot: are you there?');
+    server.emit(':alice!a@host PRIVMSG #lurk :background chatter');
+    server.emit(':alice!a@host PRIVMSG #elsewhere :bot: hello?');
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received[0]).toMatchObject({ chatId: '#quiet', groupName: '#Quiet', wasMentioned: true, isListeningMode: false });
+    expect(received[1]).toMatchObject({ chatId: '#lurk', text: 'background chatter', isListeningMode: true });
+  });
+
+  it('converts /me actions and ignores other CTCP', async () => {
+    const { received } = await startAdapter();
+    server.emit(':alice!a@host PRIVMSG bot :\x01VERSION\x01');
+    server.emit(':alice!a@host PRIVMSG bot :\x01ACTION waves\x01');
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].text).toBe('* alice waves');
+  });
+
+  it('routes commands addressed to the bot in channels', async () => {
+    const { adapter, received } = await startAdapter({ groups: { '#chan': { mode: 'mention-only' } } });
+    adapter.onCommand = vi.fn().mockResolvedValue('status ok');
+    server.emit(':alice!a@host PRIVMSG #chan :bot: /status');
+
+    await vi.waitFor(() => expect(server.privmsgs()).toContain('PRIVMSG #chan :status ok'));
+    expect(adapter.onCommand).toHaveBeenCalledWith('status', '#chan', undefined);
+    expect(received).toHaveLength(0);
+  });
+
+  it('splits long and multi-line replies into PRIVMSG lines', async () => {
+    const { adapter } = await startAdapter();
+    await adapter.sendMessage({ chatId: '#chan', text: `**Hi**\n\n${'word '.repeat(200)}` });
+
+    await vi.waitFor(() => expect(server.privmsgs().reduce((n, l) => n + (l.match(/word/g)?.length ?? 0), 0)).toBe(200));
+    const sent = server.privmsgs();
+    expect(sent[0]).toBe('PRIVMSG #chan :\x02Hi\x02');
+    expect(sent.length).toBeGreaterThan(2);
+    expect(sent.every((line) => Buffer.byteLength(`${line}\r\n`) <= 412)).toBe(true);
+  });
+
+  it('rejects targets that would break the command line', async () => {
+    const { adapter } = await startAdapter();
+    await expect(adapter.sendMessage({ chatId: '#chan\r\nQUIT', text: 'hi' })).rejects.toThrow('Invalid IRC target');
+    await expect(adapter.sendMessage({ chatId: 'a b', text: 'hi' })).rejects.toThrow('Invalid IRC target');
+  });
+
+  it('answers server PINGs', async () => {
+    await startAdapter();
+    server.emit('PING :irc.test');
+    await vi.waitFor(() => expect(server.lines).toContain('PONG :irc.test'));
+  });
+
+  it('reconnects after the connection drops', async () => {
+    const { adapter } = await startAdapter({ groups: { '#chan': { mode: 'open' } } });
+    await vi.waitFor(() => expect(server.lines).toContain('JOIN #chan'));
+    server.dropClient();
+
+    await vi.waitFor(() => expect(server.connections).toBe(2), { timeout: 5000 });
+    await vi.waitFor(() => expect(server.lines.filter((line) => line === 'JOIN #chan')).toHaveLength(2));
+    await adapter.sendMessage({ chatId: '#chan', text: 'back' });
+    await vi.waitFor(() => expect(server.privmsgs()).toContain('PRIVMSG #chan :back'));
+  }, 10000);
+});
@@ -0,0 +1,680 @@
+/**
+ * IRC Channel Adapter
+ *
+ * Speaks the IRC client protocol directly over TCP/TLS. Supports SASL PLAIN
+ * (via IRCv3 CAP negotiation), server passwords and NickServ IDENTIFY.
+ * Channels listed under `groups` are joined automatically and gated with the
+ * usual group modes; private messages are DMs gated by dmPolicy. Senders are
+ * identified by their services account when the server offers account-tag,
+ * and by nick otherwise.
+ */
+
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+import type { ChannelAdapter } from './types.js';
+import type { InboundMessage, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { HELP_TEXT, parseCommand } from '../core/commands.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+import { markdownToIrc, stripIrcFormatting } from './irc-format.js';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('IRC');
+
+// Servers relay lines as ":nick!user@host PRIVMSG target :text\r\n" within 512 bytes.
+// Leave room for the prefix the server prepends.
+const IRC_MAX_LINE_BYTES = 512;
+const IRC_PREFIX_RESERVE_BYTES = 100;
+const IRC_SPLIT_THRESHOLD = 350;
+const IRC_PING_INTERVAL_MS = 90000;
+const IRC_REGISTRATION_TIMEOUT_MS = 30000;
+const IRC_DEFAULT_FLOOD_DELAY_MS = 500;
+const IRC_FLOOD_BURST = 4;
+
+export interface IrcConfig {
+  server: string;
+  port?: number;                // Default: 6697 with TLS, 6667 without
+  tls?: boolean;                // Default: true
+  nick: string;
+  username?: string;            // Default: nick
+  realname?: string;            // Default: "LettaBot"
+  password?: string;            // Server password (PASS)
+  saslAccount?: string;         // SASL PLAIN account (default: nick when saslPassword is set)
+  saslPassword?: string;
+  nickservPassword?: string;    // Sent as "PRIVMSG NickServ :IDENTIFY <password>" after connecting
+  dmPolicy?: DmPolicy;          // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];      // Account names when the server supports account-tag, otherwise nicks (case-insensitive)
+  mentionPatterns?: string[];   // Extra regex patterns that count as a mention
+  floodDelayMs?: number;        // Delay between lines after a short burst (default: 500)
+  groups?: Record<string, GroupModeConfig>;  // Channel names (joined automatically), "*" for defaults
+  agentName?: string;           // For scoping daily limit counters in multi-agent mode
+}
+
+export interface IrcMessage {
+  tags: Record<string, string>;
+  prefix?: string;
+  nick?: string;
+  command: string;
+  params: string[];
+}
+
+/**
+ * Parse one raw IRC protocol line (without CRLF).
+ */
+export function parseIrcLine(line: string): IrcMessage | null {
+  let rest = line;
+  const tags: Record<string, string> = {};
+  if (rest.startsWith('@')) {
+    const space = rest.indexOf(' ');
+    if (space === -1) return null;
+    for (const tag of rest.slice(1, space).split(';')) {
+      const eq = tag.indexOf('=');
+      if (eq === -1) tags[tag] = '';
+      else tags[tag.slice(0, eq)] = tag.slice(eq + 1);
+    }
+    rest = rest.slice(space + 1).trimStart();
+  }
+
+  let prefix: string | undefined;
+  if (rest.startsWith(':')) {
+    const space = rest.indexOf(' ');
+    if (space === -1) return null;
+    prefix = rest.slice(1, space);
+    rest = rest.slice(space + 1).trimStart();
+  }
+
+  const params: string[] = [];
+  while (rest.length > 0) {
+    if (rest.startsWith(':')) {
+      params.push(rest.slice(1));
+      break;
+    }
+    const space = rest.indexOf(' ');
+    if (space === -1) {
+      params.push(rest);
+      break;
+    }
+    params.push(rest.slice(0, space));
+    rest = rest.slice(space + 1).trimStart();
+  }
+
+  const command = params.shift();
+  if (!command) return null;
+  // "nick!user@host" or a bare nick; server prefixes contain dots
+  const nick = prefix?.includes('!') ? prefix.split('!')[0] : prefix && !prefix.includes('.') ? prefix : undefined;
+  return { tags, prefix, nick, command: command.toUpperCase(), params };
+}
+
+/**
+ * Whether a channel message addresses the bot: its nick as a standalone word,
+ * or a configured mention pattern.
+ */
+export function isIrcMention(text: string, nick: string, mentionPatterns?: string[]): boolean {
+  const escaped = escapeRegex(nick);
+  // IRC nicks may contain []\`^{}|- so \b is not enough
+  const nickChars = 'A-Za-z0-9_\\-\\[\\]\\\\`^{}|';
+  if (new RegExp(`(^|[^${nickChars}])${escaped}($|[^${nickChars}])`, 'i').test(text)) return true;
+  for (const pattern of mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(text)) return true;
+    } catch {
+      log.warn(`Invalid mention pattern: ${pattern}`);
+    }
+  }
+  return false;
+}
+
+/**
+ * Split text into IRC lines: one per non-empty line of input, each split to
+ * fit the protocol line limit. CR, LF and NUL all end a line, so no text can
+ * smuggle an extra protocol command onto the wire.
+ */
+export function splitIrcMessage(text: string, maxBytes: number): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/[\r\n\0]/)) {
+    if (!line.trim()) continue;
+    for (const chunk of splitMessageText(line, IRC_SPLIT_THRESHOLD)) {
+      lines.push(...splitByBytes(chunk, maxBytes));
+    }
+  }
+  return lines;
+}
+
+function splitByBytes(text: string, maxBytes: number): string[] {
+  if (Buffer.byteLength(text) <= maxBytes) return [text];
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of text) {
+    if (Buffer.byteLength(current + char) > maxBytes) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function normalizeGroups(groups: Record<string, GroupModeConfig> | undefined): Record<string, GroupModeConfig> | undefined {
+  if (!groups) return undefined;
+  // Channel names and nicks are case-insensitive
+  return Object.fromEntries(Object.entries(groups).map(([key, value]) => [
+    key.toLowerCase(),
+    value.allowedUsers ? { ...value, allowedUsers: value.allowedUsers.map((u) => u.toLowerCase()) } : value,
+  ]));
+}
+
+export class IrcAdapter implements ChannelAdapter {
+  readonly id = 'irc' as const;
+  readonly name = 'IRC';
+
+  private config: IrcConfig;
+  private running = false;
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private currentNick: string;
+  private registered = false;
+  private awaitingPong = false;
+  private capLsBuffer: string[] = [];
+  // The server tags messages with the sender's services account (IRCv3 account-tag)
+  private accountTag = false;
+  private registration: { resolve: () => void; reject: (err: Error) => void } | null = null;
+  private reconnectAbort: AbortController | null = null;
+  private reconnecting = false;
+  private sendQueue: Promise<void> = Promise.resolve();
+  private lastSendAt = 0;
+  private burst = 0;
+  private messageCounter = 0;
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean) => Promise<string | null>;
+  isAddressed?: (text: string) => boolean;
+
+  constructor(config: IrcConfig) {
+    this.config = {
+      ...config,
+      dmPolicy: config.dmPolicy || 'pairing',
+      allowedUsers: config.allowedUsers?.map((nick) => nick.toLowerCase()),
+      groups: normalizeGroups(config.groups),
+    };
+    this.currentNick = config.nick;
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('irc', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for IRC (single-line friendly)
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing. Your pairing code: ${code}
+Ask the bot owner to approve with: lettabot pairing approve irc ${code}`;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    log.info('Starting adapter...');
+    try {
+      await this.connect();
+    } catch (err) {
+      this.socket?.destroy();
+      this.socket = null;
+      throw err;
+    }
+    this.running = true;
+    log.info(`Connected to ${this.config.server} as ${this.currentNick}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.reconnectAbort?.abort();
+    this.reconnectAbort = null;
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      if (this.registered) socket.write('QUIT :Goodbye\r\n');
+      socket.end();
+      socket.destroy();
+    }
+    this.registered = false;
+    log.info('Adapter stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const target = msg.chatId;
+    if (/[\s\0,]/.test(target)) {
+      throw new Error(`Invalid IRC target: ${JSON.stringify(target)}`);
+    }
+    const maxBytes = IRC_MAX_LINE_BYTES - IRC_PREFIX_RESERVE_BYTES - Buffer.byteLength(`PRIVMSG ${target} :\r\n`);
+    const lines = splitIrcMessage(markdownToIrc(msg.text), maxBytes);
+    await this.enqueue(lines.map((line) => `PRIVMSG ${target} :${line}`));
+    // IRC has no message IDs; return a local one so callers can track sends
+    return { messageId: `${Date.now()}-${++this.messageCounter}` };
+  }
+
+  async editMessage(_chatId: string, _messageId: string, _text: string): Promise<void> {
+    // IRC doesn't support editing messages - no-op
+  }
+
+  async sendTypingIndicator(_chatId: string): Promise<void> {
+    // No typing indicators on IRC
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: false,
+      supportsFiles: false,
+      supportsBreaks: true,
+      formatHint: 'IRC: plain text, short lines, **bold** and *italic* only. No tables, headers or images',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return false;
+  }
+
+  // --- Connection ---
+
+  private connect(): Promise<void> {
+    const useTls = this.config.tls ?? true;
+    const port = this.config.port ?? (useTls ? 6697 : 6667);
+    this.buffer = '';
+    this.registered = false;
+    this.awaitingPong = false;
+    this.capLsBuffer = [];
+    this.accountTag = false;
+    this.currentNick = this.config.nick;
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.failRegistration(new Error('IRC registration timed out'));
+        socket.destroy();
+      }, IRC_REGISTRATION_TIMEOUT_MS);
+      this.registration = {
+        resolve: () => { clearTimeout(timer); resolve(); },
+        reject: (err) => { clearTimeout(timer); reject(err); },
+      };
+
+      const onConnect = () => this.register();
+      const socket = useTls
+        ? tls.connect({ host: this.config.server, port, servername: this.config.server }, onConnect)
+        : net.connect({ host: this.config.server, port }, onConnect);
+      this.socket = socket;
+      socket.setEncoding('utf8');
+      socket.setTimeout(IRC_PING_INTERVAL_MS);
+      socket.on('data', (data: string) => this.onData(data));
+      socket.on('timeout', () => this.onIdle(socket));
+      socket.on('error', (err) => {
+        log.warn('Connection error:', err.message);
+        this.failRegistration(err);
+      });
+      socket.on('close', () => this.onClose(socket));
+    });
+  }
+
+  private register(): void {
+    // Servers without CAP support ignore this and register as usual
+    this.send('CAP LS 302');
+    if (this.config.password) {
+      this.send(`PASS ${this.config.password}`);
+    }
+    this.send(`NICK ${this.currentNick}`);
+    this.send(`USER ${this.config.username || this.config.nick} 0 * :${this.config.realname || 'LettaBot'}`);
+  }
+
+  private onData(data: string): void {
+    this.awaitingPong = false;
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      if (!line) continue;
+      const message = parseIrcLine(line);
+      if (!message) continue;
+      this.handleLine(message).catch((err) => {
+        log.error(`Error handling ${message.command}:`, err);
+      });
+    }
+  }
+
+  private onIdle(socket: net.Socket): void {
+    if (this.awaitingPong) {
+      log.warn('Ping timeout, reconnecting');
+      socket.destroy();
+      return;
+    }
+    this.awaitingPong = true;
+    socket.write(`PING :${this.config.server}\r\n`);
+  }
+
+  private onClose(socket: net.Socket): void {
+    if (socket !== this.socket) return;
+    this.socket = null;
+    this.registered = false;
+    this.failRegistration(new Error('IRC connection closed'));
+    if (this.running && !this.reconnecting) {
+      log.warn('Disconnected from server');
+      this.reconnectLoop();
+    }
+  }
+
+  private reconnectLoop(): void {
+    this.reconnectAbort = new AbortController();
+    const signal = this.reconnectAbort.signal;
+    const reconnect = createReconnectManager(DEFAULT_RECONNECT_POLICY);
+    this.reconnecting = true;
+
+    (async () => {
+      while (!signal.aborted && this.running) {
+        const delay = reconnect.nextDelay();
+        log.info(`Reconnecting (attempt ${reconnect.getAttempts()}) in ${delay}ms`);
+        try {
+          await sleepWithAbort(delay, signal);
+        } catch {
+          return;
+        }
+        try {
+          await this.connect();
+          reconnect.reset();
+          log.info(`Reconnected as ${this.currentNick}`);
+          return;
+        } catch (err) {
+          if (signal.aborted) return;
+          log.warn('Reconnect failed:', err instanceof Error ? err.message : err);
+        }
+      }
+    })()
+      .catch((err) => log.error('Reconnect loop error:', err))
+      .finally(() => { this.reconnecting = false; });
+  }
+
+  private failRegistration(err: Error): void {
+    const registration = this.registration;
+    this.registration = null;
+    registration?.reject(err);
+  }
+
+  private send(line: string): void {
+    this.socket?.write(`${line.replace(/[\r\n]+/g, ' ')}\r\n`);
+  }
+
+  /**
+   * Queue outbound lines with simple flood control: a short burst goes out
+   * immediately, then lines are spaced by floodDelayMs.
+   */
+  private enqueue(lines: string[]): Promise<void> {
+    if (!this.socket || !this.registered) {
+      return Promise.reject(new Error('IRC is not connected'));
+    }
+    const floodDelayMs = this.config.floodDelayMs ?? IRC_DEFAULT_FLOOD_DELAY_MS;
+    const task = this.sendQueue.then(async () => {
+      for (const line of lines) {
+        if (!this.socket) throw new Error('IRC connection lost while sending');
+        const idle = Date.now() - this.lastSendAt;
+        if (idle > floodDelayMs * IRC_FLOOD_BURST) this.burst = 0;
+        if (this.burst >= IRC_FLOOD_BURST && idle < floodDelayMs) {
+          await new Promise((resolve) => setTimeout(resolve, floodDelayMs - idle));
+        }
+        this.send(line);
+        this.burst++;
+        this.lastSendAt = Date.now();
+      }
+    });
+    this.sendQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  // --- Protocol handling ---
+
+  private async handleLine(message: IrcMessage): Promise<void> {
+    const { command, params } = message;
+    switch (command) {
+      case 'PING':
+        this.send(`PONG :${params[0] ?? ''}`);
+        return;
+      case 'CAP':
+        this.handleCap(params);
+        return;
+      case 'AUTHENTICATE':
+        if (params[0] === '+') {
+          const account = this.config.saslAccount || this.config.nick;
+          const payload = Buffer.from(`${account}\0${account}\0${this.config.saslPassword}`).toString('base64');
+          // Payloads are sent in 400-byte chunks; an exact multiple ends with "+"
+          for (let i = 0; i < payload.length; i += 400) {
+            this.send(`AUTHENTICATE ${payload.slice(i, i + 400)}`);
+          }
+          if (payload.length % 400 === 0) this.send('AUTHENTICATE +');
+        }
+        return;
+      case '903': // RPL_SASLSUCCESS
+        this.send('CAP END');
+        return;
+      case '902':
+      case '904':
+      case '905':
+      case '906':
+        this.send('QUIT');
+        this.failRegistration(new Error(`IRC SASL authentication failed: ${params[params.length - 1] ?? command}`));
+        return;
+      case '464': // ERR_PASSWDMISMATCH
+        this.failRegistration(new Error('IRC server password rejected'));
+        return;
+      case '433': // ERR_NICKNAMEINUSE
+        if (!this.registered) {
+          this.currentNick = `${this.currentNick}_`;
+          log.warn(`Nick in use, trying ${this.currentNick}`);
+          this.send(`NICK ${this.currentNick}`);
+        }
+        return;
+      case '001': // RPL_WELCOME
+        this.onRegistered(params[0]);
+        return;
+      case 'NICK':
+        if (message.nick && message.nick.toLowerCase() === this.currentNick.toLowerCase() && params[0]) {
+          this.currentNick = params[0];
+        }
+        return;
+      case 'KICK':
+        if (params[1]?.toLowerCase() === this.currentNick.toLowerCase()) {
+          log.warn(`Kicked from ${params[0]}: ${params[2] ?? ''}`);
+        }
+        return;
+      case 'ERROR':
+        log.warn(`Server error: ${params[0] ?? ''}`);
+        return;
+      case 'PRIVMSG':
+        await this.handlePrivmsg(message);
+        return;
+      default:
+        return;
+    }
+  }
+
+  private handleCap(params: string[]): void {
+    const subcommand = params[1]?.toUpperCase();
+    if (subcommand === 'LS') {
+      // Multi-line LS: "CAP * LS * :caps..." until the final line without "*"
+      const more = params[2] === '*';
+      this.capLsBuffer.push(...(params[more ? 3 : 2] ?? '').split(' '));
+      if (more) return;
+      const offered = this.capLsBuffer.map((cap) => cap.split('=')[0]);
+      const wanted: string[] = [];
+      if (this.config.saslPassword) {
+        if (!offered.includes('sasl')) {
+          this.send('QUIT');
+          this.failRegistration(new Error('IRC server does not support SASL'));
+          return;
+        }
+        wanted.push('sasl');
+      }
+      if (offered.includes('account-tag')) wanted.push('account-tag');
+      this.send(wanted.length > 0 ? `CAP REQ :${wanted.join(' ')}` : 'CAP END');
+    } else if (subcommand === 'ACK') {
+      const acked = (params[2] ?? '').trim().split(/\s+/);
+      if (acked.includes('account-tag')) this.accountTag = true;
+      this.send(acked.includes('sasl') ? 'AUTHENTICATE PLAIN' : 'CAP END');
+    } else if (subcommand === 'NAK') {
+      if (!this.config.saslPassword) {
+        this.send('CAP END');
+        return;
+      }
+      this.send('QUIT');
+      this.failRegistration(new Error('IRC server refused SASL capability'));
+    }
+  }
+
+  private onRegistered(nick: string | undefined): void {
+    if (nick) this.currentNick = nick;
+    this.registered = true;
+    if (this.config.nickservPassword) {
+      this.send(`PRIVMSG NickServ :IDENTIFY ${this.config.nickservPassword}`);
+    }
+    const channels = Object.keys(this.config.groups || {}).filter((key) => /^[#&+!]/.test(key));
+    if (channels.length > 0) {
+      this.send(`JOIN ${channels.join(',')}`);
+      log.info(`Joining ${channels.join(', ')}`);
+    }
+    const registration = this.registration;
+    this.registration = null;
+    registration?.resolve();
+  }
+
+  private async handlePrivmsg(message: IrcMessage): Promise<void> {
+    const [target, rawText] = message.params;
+    const nick = message.nick;
+    if (!nick || !target || !rawText) return;
+    if (nick.toLowerCase() === this.currentNick.toLowerCase()) return;
+
+    let text: string;
+    if (rawText.startsWith('\x01')) {
+      // CTCP: only ACTION (/me) is conversational
+      const ctcp = rawText.replace(/^\x01|\x01$/g, '');
+      if (!ctcp.startsWith('ACTION ')) return;
+      text = `* ${nick} ${stripIrcFormatting(ctcp.slice(7))}`;
+    } else {
+      text = stripIrcFormatting(rawText).trim();
+    }
+    if (!text) return;
+
+    // Nicks can be taken by anyone. With account-tag the server vouches for
+    // the sender's services account, which then identifies the user; senders
+    // who are not logged in are never matched against allowlists or pairings.
+    const account = this.accountTag ? message.tags.account : undefined;
+    const unidentified = this.accountTag && !account;
+    const userId = (account ?? nick).toLowerCase();
+    const isGroup = /^[#&+!]/.test(target);
+    const chatId = isGroup ? target.toLowerCase() : nick;
+
+    if (!isGroup) {
+      if (unidentified && this.config.dmPolicy !== 'open') {
+        await this.sendMessage({ chatId, text: 'Please log in to your account (SASL or NickServ) to use this bot.' });
+        return;
+      }
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+      if (access === 'pairing') {
+        const { code, created } = await upsertPairingRequest('irc', userId, { username: nick });
+        if (!code) {
+          await this.sendMessage({ chatId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+        if (created) {
+          log.info(`New pairing request from ${nick}: ${code}`);
+        }
+        await this.sendMessage({ chatId, text: this.formatPairingMsg(code) });
+        return;
+      }
+    }
+
+    let wasMentioned: boolean | undefined;
+    let isListeningMode = false;
+
+    if (isGroup) {
+      const keys = [chatId];
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        log.info(`Channel ${chatId} not in allowlist, ignoring`);
+        return;
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, unidentified ? '' : userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      wasMentioned = isIrcMention(text, this.currentNick, this.config.mentionPatterns);
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return;
+      }
+      if (mode === 'mention-only' && !wasMentioned && !this.isAddressed?.(text)) {
+        return;
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:irc:${limits.matchedKey ?? chatId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    // Commands require user-level authorization (paired or allowlisted).
+    // In channels, allow addressing the bot first ("lettabot: /status").
+    const commandText = isGroup ? text.replace(new RegExp(`^${escapeRegex(this.currentNick)}[:,]\\s*`, 'i'), '') : text;
+    const parsed = parseCommand(commandText);
+    if (parsed) {
+      const commandAllowed = !unidentified && await isUserAllowed('irc', userId, this.config.allowedUsers);
+      if (!commandAllowed) return;
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId, text: HELP_TEXT });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined);
+        if (result) await this.sendMessage({ chatId, text: result });
+      }
+      return;
+    }
+
+    await this.onMessage?.({
+      channel: 'irc',
+      chatId,
+      userId,
+      userName: nick,
+      userHandle: nick,
+      text,
+      timestamp: parseServerTime(message.tags.time),
+      isGroup,
+      groupName: isGroup ? target : undefined,
+      wasMentioned,
+      isListeningMode,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseServerTime(value: string | undefined): Date {
+  const date = value ? new Date(value) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
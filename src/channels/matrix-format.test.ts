@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToMatrixHtml } from './matrix-format.js';
+
+describe('markdownToMatrixHtml', () => {
+  it('returns null for plain text', () => {
+    expect(markdownToMatrixHtml('just words')).toBeNull();
+  });
+
+  it('converts inline styles', () => {
+    expect(markdownToMatrixHtml('**bold** *italic* ~~gone~~')).toBe('<strong>bold</strong> <em>italic</em> <del>gone</del>');
+  });
+
+  it('converts links and leaves code spans alone', () => {
+    expect(markdownToMatrixHtml('[docs](https://example.com) `**raw**`'))
+      .toBe('<a href="https://example.com">docs</a> <code>**raw**</code>');
+  });
+
+  it('converts code fences and escapes HTML', () => {
+    expect(markdownToMatrixHtml('```ts\nconst a = <b>;\n```')).toBe('<pre><code>const a = &lt;b&gt;;</code></pre>');
+  });
+
+  it('converts headers and quotes', () => {
+    expect(markdownToMatrixHtml('# Title\n> quoted\n> more')).toBe('<h1>Title</h1><br><br><blockquote>quoted<br>more</blockquote>');
+  });
+
+  it('preserves line breaks within paragraphs', () => {
+    expect(markdownToMatrixHtml('**a**\nb\n\nc')).toBe('<strong>a</strong><br>b<br><br>c');
+  });
+});
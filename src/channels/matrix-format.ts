@@ -0,0 +1,105 @@
+/**
+ * Matrix Text Formatting
+ *
+ * Converts standard Markdown into the `org.matrix.custom.html` subset that
+ * Matrix clients render. The plain-text `body` is always sent alongside, so
+ * this only needs to cover the common inline/block styles the agent emits.
+ */
+
+export const MATRIX_HTML_FORMAT = 'org.matrix.custom.html';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatInline(text: string): string {
+  // Protect inline code spans so their content is not styled
+  const codeSpans: string[] = [];
+  let out = text.replace(/`([^`\n]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  out = out
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(.+?)__/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*?)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w_])_([^_\s][^_]*?)_(?![\w_])/g, '$1<em>$2</em>')
+    .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, idx: string) => codeSpans[Number(idx)]);
+}
+
+/**
+ * Convert Markdown to Matrix HTML.
+ * Returns null when the text has no formatting worth sending as HTML,
+ * so callers can omit `format`/`formatted_body` for plain messages.
+ */
+export function markdownToMatrixHtml(markdown: string): string | null {
+  const escaped = escapeHtml(markdown);
+  const blocks: string[] = [];
+  const lines = escaped.split('\n');
+  let inFence = false;
+  let fence: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push(paragraph.map(formatInline).join('<br>'));
+    paragraph = [];
+  };
+
+  for (const line of lines) {
+    if (line.trimStart().startsWith('```')) {
+      if (inFence) {
+        blocks.push(`<pre><code>${fence.join('\n')}</code></pre>`);
+        fence = [];
+        inFence = false;
+      } else {
+        flushParagraph();
+        inFence = true;
+      }
+      continue;
+    }
+    if (inFence) {
+      fence.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${formatInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    const quote = line.match(/^&gt;\s?(.*)$/);
+    if (quote) {
+      flushParagraph();
+      blocks.push(`<blockquote>${formatInline(quote[1])}</blockquote>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line);
+  }
+
+  if (inFence) {
+    // Unterminated fence (e.g. mid-stream): render what we have as code
+    blocks.push(`<pre><code>${fence.join('\n')}</code></pre>`);
+  }
+  flushParagraph();
+
+  const html = blocks.join('<br><br>')
+    .replace(/<\/blockquote><br><br><blockquote>/g, '<br>');
+  return html === escaped ? null : html;
+}
@@ -0,0 +1,390 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../pairing/store.js', () => ({
+  isUserAllowed: vi.fn(),
+  upsertPairingRequest: vi.fn(),
+}));
+
+import { MatrixAdapter, isMatrixMention, stripReplyFallback } from './matrix.js';
+import type { InboundMessage } from '../core/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+
+const mockedIsUserAllowed = vi.mocked(isUserAllowed);
+const mockedUpsertPairingRequest = vi.mocked(upsertPairingRequest);
+
+const BOT = '@bot:localhost';
+const DM_ROOM = '!dm:localhost';
+const GROUP_ROOM = '!group:localhost';
+
+type RecordedRequest = { method: string; path: string; body: unknown };
+type SyncBody = Record<string, unknown>;
+
+/**
+ * Minimal in-process homeserver implementing the client-server endpoints
+ * the adapter uses. /sync responses are queued by tests via pushSync().
+ */
+class MockHomeserver {
+  requests: RecordedRequest[] = [];
+  members: Record<string, Record<string, { display_name?: string }>> = {
+    [DM_ROOM]: { [BOT]: { display_name: 'Bot' }, '@alice:localhost': { display_name: 'Alice' } },
+    [GROUP_ROOM]: {
+      [BOT]: { display_name: 'Bot' },
+      '@alice:localhost': { display_name: 'Alice' },
+      '@bob:localhost': { display_name: 'Bob' },
+    },
+  };
+  private server: Server;
+  private syncQueue: SyncBody[] = [];
+  private pendingSync: ((body: SyncBody) => void) | null = null;
+  private batch = 0;
+  private eventCounter = 0;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      this.handle(req).then(({ status, body }) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      }).catch((err) => {
+        res.writeHead(500);
+        res.end(String(err));
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async close(): Promise<void> {
+    this.pendingSync?.({});
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  pushSync(rooms: SyncBody): void {
+    const body = { rooms };
+    if (this.pendingSync) {
+      const resolve = this.pendingSync;
+      this.pendingSync = null;
+      resolve(body);
+    } else {
+      this.syncQueue.push(body);
+    }
+  }
+
+  sent(eventType: string): Array<{ roomId: string; content: Record<string, unknown> }> {
+    return this.requests
+      .filter((r) => r.method === 'PUT' && r.path.includes(`/send/${eventType}/`))
+      .map((r) => ({
+        roomId: decodeURIComponent(r.path.split('/rooms/')[1].split('/')[0]),
+        content: r.body as Record<string, unknown>,
+      }));
+  }
+
+  private async handle(req: IncomingMessage): Promise<{ status: number; body: unknown }> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = decodeURIComponent(url.pathname);
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks);
+    const isJson = req.headers['content-type'] === 'application/json';
+    this.requests.push({
+      method: req.method || 'GET',
+      path,
+      body: isJson && raw.length ? JSON.parse(raw.toString()) : raw.length,
+    });
+
+    if (req.headers.authorization !== 'Bearer test-token') {
+      return { status: 401, body: { errcode: 'M_UNKNOWN_TOKEN', error: 'Invalid token' } };
+    }
+
+    if (path === '/_matrix/client/v3/account/whoami') return { status: 200, body: { user_id: BOT } };
+    if (path.startsWith('/_matrix/client/v3/profile/')) return { status: 200, body: { displayname: 'Bot' } };
+    if (path === '/_matrix/client/v3/sync') {
+      if (!url.searchParams.get('since')) return { status: 200, body: { next_batch: 's0' } };
+      const next = this.syncQueue.shift() ?? await new Promise<SyncBody>((resolve) => {
+        this.pendingSync = resolve;
+      });
+      return { status: 200, body: { next_batch: `s${++this.batch}`, ...next } };
+    }
+    if (path.startsWith('/_matrix/client/v3/join/')) return { status: 200, body: { room_id: path.split('/join/')[1] } };
+    if (path.endsWith('/joined_members')) {
+      const roomId = path.split('/rooms/')[1].split('/')[0];
+      return { status: 200, body: { joined: this.members[roomId] || {} } };
+    }
+    if (path.includes('/state/m.room.name')) return { status: 200, body: { name: 'General' } };
+    if (path.includes('/typing/')) return { status: 200, body: {} };
+    if (path.includes('/send/')) return { status: 200, body: { event_id: `$sent${++this.eventCounter}` } };
+    if (path === '/_matrix/media/v3/upload') return { status: 200, body: { content_uri: 'mxc://localhost/uploaded' } };
+    return { status: 404, body: { errcode: 'M_UNRECOGNIZED', error: 'Unrecognized request' } };
+  }
+}
+
+function textEvent(sender: string, body: string, extra: Record<string, unknown> = {}) {
+  return {
+    type: 'm.room.message',
+    event_id: `$in-${Math.random().toString(36).slice(2)}`,
+    sender,
+    origin_server_ts: 1700000000000,
+    content: { msgtype: 'm.text', body, ...extra },
+  };
+}
+
+function timeline(roomId: string, ...events: unknown[]) {
+  return { join: { [roomId]: { timeline: { events } } } };
+}
+
+describe('MatrixAdapter (mock homeserver)', () => {
+  let homeserver: MockHomeserver;
+  let adapter: MatrixAdapter;
+  let received: InboundMessage[];
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof MatrixAdapter>[0]> = {}) {
+    const url = await homeserver.listen();
+    adapter = new MatrixAdapter({
+      homeserverUrl: url,
+      accessToken: 'test-token',
+      syncTimeoutMs: 1000,
+      ...overrides,
+    });
+    adapter.onMessage = async (msg) => {
+      received.push(msg);
+    };
+    await adapter.start();
+  }
+
+  beforeEach(() => {
+    homeserver = new MockHomeserver();
+    received = [];
+    mockedIsUserAllowed.mockResolvedValue(true);
+    mockedUpsertPairingRequest.mockReset();
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    await homeserver.close();
+  });
+
+  it('resolves its user ID and delivers DM messages from allowed users', async () => {
+    await startAdapter();
+    expect(homeserver.requests.some((r) => r.path === '/_matrix/client/v3/account/whoami')).toBe(true);
+
+    homeserver.pushSync(timeline(DM_ROOM, textEvent('@alice:localhost', 'hello bot')));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      channel: 'matrix',
+      chatId: DM_ROOM,
+      userId: '@alice:localhost',
+      userName: 'Alice',
+      text: 'hello bot',
+      isGroup: false,
+    });
+  });
+
+  it('ignores its own events and m.notice messages', async () => {
+    await startAdapter();
+    homeserver.pushSync(timeline(
+      DM_ROOM,
+      textEvent(BOT, 'echo'),
+      textEvent('@alice:localhost', 'from another bot', { msgtype: 'm.notice' }),
+      textEvent('@alice:localhost', 'real message'),
+    ));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].text).toBe('real message');
+  });
+
+  it('sends a pairing code to unknown DM users instead of forwarding', async () => {
+    mockedIsUserAllowed.mockResolvedValue(false);
+    mockedUpsertPairingRequest.mockResolvedValue({ code: 'ABCD1234', created: true });
+    await startAdapter({ dmPolicy: 'pairing' });
+
+    homeserver.pushSync(timeline(DM_ROOM, textEvent('@mallory:localhost', 'let me in')));
+
+    await vi.waitFor(() => expect(homeserver.sent('m.room.message')).toHaveLength(1));
+    const [pairing] = homeserver.sent('m.room.message');
+    expect(pairing.roomId).toBe(DM_ROOM);
+    expect(pairing.content.body).toContain('lettabot pairing approve matrix ABCD1234');
+    expect(mockedUpsertPairingRequest).toHaveBeenCalledWith('matrix', '@mallory:localhost', { username: '@mallory:localhost' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('applies mention-only group mode', async () => {
+    await startAdapter({ groups: { [GROUP_ROOM]: { mode: 'mention-only' } } });
+
+    homeserver.pushSync(timeline(
+      GROUP_ROOM,
+      textEvent('@alice:localhost', 'just chatting'),
+      textEvent('@alice:localhost', 'Bot: what do you think?', {
+        'm.mentions': { user_ids: [BOT] },
+      }),
+    ));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      chatId: GROUP_ROOM,
+      isGroup: true,
+      groupName: 'General',
+      wasMentioned: true,
+      isListeningMode: false,
+    });
+  });
+
+  it('drops group messages when no groups config is set', async () => {
+    await startAdapter();
+    homeserver.pushSync(timeline(GROUP_ROOM, textEvent('@alice:localhost', `hey ${BOT}`)));
+    homeserver.pushSync(timeline(DM_ROOM, textEvent('@alice:localhost', 'dm after')));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].chatId).toBe(DM_ROOM);
+  });
+
+  it('maps thread relations to threadId and strips reply fallbacks', async () => {
+    await startAdapter({ groups: { '*': { mode: 'open' } } });
+    homeserver.pushSync(timeline(GROUP_ROOM, textEvent('@bob:localhost', '> <@alice:localhost> earlier\n\nin thread', {
+      'm.relates_to': {
+        rel_type: 'm.thread',
+        event_id: '$root',
+        'm.in_reply_to': { event_id: '$earlier' },
+      },
+    })));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({ threadId: '$root', text: 'in thread' });
+  });
+
+  it('surfaces inbound reactions', async () => {
+    await startAdapter();
+    homeserver.pushSync(timeline(DM_ROOM, {
+      type: 'm.reaction',
+      event_id: '$reaction',
+      sender: '@alice:localhost',
+      origin_server_ts: 1700000000000,
+      content: { 'm.relates_to': { rel_type: 'm.annotation', event_id: '$target', key: '👍' } },
+    }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].reaction).toEqual({ emoji: '👍', messageId: '$target', action: 'added' });
+  });
+
+  it('routes commands through onCommand', async () => {
+    await startAdapter();
+    const onCommand = vi.fn().mockResolvedValue('status ok');
+    adapter.onCommand = onCommand;
+
+    homeserver.pushSync(timeline(DM_ROOM, textEvent('@alice:localhost', '/status')));
+
+    await vi.waitFor(() => expect(homeserver.sent('m.room.message')).toHaveLength(1));
+    expect(onCommand).toHaveBeenCalledWith('status', DM_ROOM, undefined);
+    expect(homeserver.sent('m.room.message')[0].content.body).toBe('status ok');
+    expect(received).toHaveLength(0);
+  });
+
+  it('auto-joins invited rooms', async () => {
+    await startAdapter();
+    homeserver.pushSync({ invite: { '!new:localhost': { invite_state: { events: [] } } } });
+
+    await vi.waitFor(() => {
+      expect(homeserver.requests.some((r) => r.path === '/_matrix/client/v3/join/!new:localhost')).toBe(true);
+    });
+  });
+
+  it('sends formatted messages, edits, reactions and typing', async () => {
+    await startAdapter();
+
+    const { messageId } = await adapter.sendMessage({ chatId: DM_ROOM, text: '**hi**', threadId: '$root' });
+    expect(messageId).toMatch(/^\$sent/);
+    await adapter.editMessage(DM_ROOM, messageId, 'updated');
+    await adapter.addReaction(DM_ROOM, '$target', 'thumbsup');
+    await adapter.sendTypingIndicator(DM_ROOM);
+
+    const messages = homeserver.sent('m.room.message');
+    expect(messages[0].content).toMatchObject({
+      msgtype: 'm.text',
+      body: '**hi**',
+      format: 'org.matrix.custom.html',
+      formatted_body: '<strong>hi</strong>',
+      'm.relates_to': { rel_type: 'm.thread', event_id: '$root' },
+    });
+    expect(messages[1].content).toMatchObject({
+      body: '* updated',
+      'm.new_content': { msgtype: 'm.text', body: 'updated' },
+      'm.relates_to': { rel_type: 'm.replace', event_id: messageId },
+    });
+    expect(homeserver.sent('m.reaction')[0].content).toEqual({
+      'm.relates_to': { rel_type: 'm.annotation', event_id: '$target', key: '👍' },
+    });
+    const typing = homeserver.requests.find((r) => r.path.includes('/typing/'));
+    expect(typing?.body).toMatchObject({ typing: true });
+  });
+
+  it('uploads files before sending media events', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'matrix-test-'));
+    try {
+      const filePath = join(dir, 'photo.png');
+      writeFileSync(filePath, 'not really a png');
+      await startAdapter();
+
+      await adapter.sendFile({ chatId: DM_ROOM, filePath, caption: 'look' });
+
+      const upload = homeserver.requests.find((r) => r.path === '/_matrix/media/v3/upload');
+      expect(upload?.method).toBe('POST');
+      expect(homeserver.sent('m.room.message')[0].content).toMatchObject({
+        msgtype: 'm.image',
+        body: 'look',
+        filename: 'photo.png',
+        url: 'mxc://localhost/uploaded',
+        info: { mimetype: 'image/png', size: 16 },
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('fails to start with an invalid token', async () => {
+    await expect(startAdapter({ accessToken: 'wrong' })).rejects.toThrow(/M_UNKNOWN_TOKEN/);
+  });
+});
+
+describe('isMatrixMention', () => {
+  const base = { selfUserId: BOT, selfDisplayName: 'Bot' };
+
+  it('detects intentional mentions', () => {
+    expect(isMatrixMention({ ...base, body: 'hi', mentionedUserIds: [BOT] })).toBe(true);
+  });
+
+  it('detects matrix.to pills', () => {
+    expect(isMatrixMention({
+      ...base,
+      body: 'hi',
+      formattedBody: `<a href="https://matrix.to/#/${BOT}">Bot</a> hi`,
+    })).toBe(true);
+  });
+
+  it('detects display name and custom patterns', () => {
+    expect(isMatrixMention({ ...base, body: 'hey bot, help' })).toBe(true);
+    expect(isMatrixMention({ selfUserId: BOT, body: 'hey assistant', mentionPatterns: ['\\bassistant\\b'] })).toBe(true);
+  });
+
+  it('returns false when not addressed', () => {
+    expect(isMatrixMention({ selfUserId: BOT, body: 'unrelated chatter' })).toBe(false);
+  });
+});
+
+describe('stripReplyFallback', () => {
+  it('removes quoted fallback lines', () => {
+    expect(stripReplyFallback('> <@a:b> original\n> more\n\nreply')).toBe('reply');
+  });
+
+  it('leaves regular text untouched', () => {
+    expect(stripReplyFallback('no quote here')).toBe('no quote here');
+  });
+});
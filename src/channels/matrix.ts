@@ -0,0 +1,804 @@
+/**
+ * Matrix Channel Adapter
+ *
+ * Talks to a Matrix homeserver over the client-server HTTP API using a bot
+ * account's access token. Inbound events arrive via /sync long-polling.
+ * Supports DM pairing, per-room group modes, edits (m.replace), reactions
+ * (m.annotation), typing notifications and media uploads.
+ *
+ * End-to-end encrypted rooms are not supported; encrypted events are ignored.
+ */
+
+import { readFile, stat } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import type { ChannelAdapter } from './types.js';
+import type { InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { resolveEmoji } from './shared/emoji.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { buildAttachmentPath, downloadToFile } from './attachments.js';
+import { HELP_TEXT, parseCommand } from '../core/commands.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { markdownToMatrixHtml, MATRIX_HTML_FORMAT } from './matrix-format.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Matrix');
+
+// Matrix caps events at 64 KiB including the HTML body, so keep chunks well below that
+const MATRIX_MAX_LENGTH = 16000;
+const MATRIX_SPLIT_THRESHOLD = 8000;
+const MATRIX_SYNC_TIMEOUT_MS = 30000;
+const MATRIX_REQUEST_TIMEOUT_MS = 15000;
+const MATRIX_TYPING_TIMEOUT_MS = 30000;
+const MATRIX_ATTACHMENT_DOWNLOAD_TIMEOUT_MS = 15000;
+const MATRIX_MAX_RATE_LIMIT_RETRIES = 3;
+
+export interface MatrixConfig {
+  homeserverUrl: string;    // e.g. https://matrix.example.org
+  accessToken: string;
+  userId?: string;          // Bot's full MXID; resolved via /account/whoami when omitted
+  dmPolicy?: DmPolicy;      // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];  // Matrix user IDs (@user:server)
+  streaming?: boolean;      // Stream responses via progressive message edits (default: false)
+  autoJoin?: boolean;       // Accept room invites automatically (default: true)
+  syncTimeoutMs?: number;   // Long-poll timeout for /sync (default: 30000)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  groups?: Record<string, GroupModeConfig>;  // Per-room settings, "*" for defaults
+  mentionPatterns?: string[];  // Extra regex patterns for mention detection
+  agentName?: string;       // For scoping daily limit counters in multi-agent mode
+}
+
+type MatrixEvent = {
+  type: string;
+  event_id?: string;
+  sender?: string;
+  state_key?: string;
+  origin_server_ts?: number;
+  content?: Record<string, unknown>;
+};
+
+type MatrixSyncResponse = {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, {
+      state?: { events?: MatrixEvent[] };
+      timeline?: { events?: MatrixEvent[] };
+    }>;
+    invite?: Record<string, unknown>;
+  };
+};
+
+type MatrixRelation = {
+  rel_type?: string;
+  event_id?: string;
+  key?: string;
+  'm.in_reply_to'?: { event_id?: string };
+};
+
+type MatrixRoomMembers = Record<string, { display_name?: string | null }>;
+
+/**
+ * Detect whether a room message addresses the bot.
+ * Checks intentional mentions (m.mentions), matrix.to pills, the raw MXID,
+ * the bot's display name, and any configured regex patterns.
+ */
+export function isMatrixMention(params: {
+  body: string;
+  formattedBody?: string;
+  mentionedUserIds?: string[];
+  selfUserId: string;
+  selfDisplayName?: string;
+  mentionPatterns?: string[];
+}): boolean {
+  const { body, formattedBody, mentionedUserIds, selfUserId, selfDisplayName, mentionPatterns } = params;
+  if (mentionedUserIds?.includes(selfUserId)) return true;
+  if (formattedBody) {
+    const pill = `matrix.to/#/${selfUserId}`;
+    if (formattedBody.includes(pill) || formattedBody.includes(`matrix.to/#/${encodeURIComponent(selfUserId)}`)) {
+      return true;
+    }
+  }
+  if (body.includes(selfUserId)) return true;
+  if (selfDisplayName && body.toLowerCase().includes(selfDisplayName.toLowerCase())) return true;
+  for (const pattern of mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(body)) return true;
+    } catch {
+      log.warn(`Invalid mention pattern: ${pattern}`);
+    }
+  }
+  return false;
+}
+
+/**
+ * Remove the quoted fallback that Matrix clients prepend to replies
+ * ("> <@user:server> original\n\nreply").
+ */
+export function stripReplyFallback(body: string): string {
+  const lines = body.split('\n');
+  let idx = 0;
+  while (idx < lines.length && lines[idx].startsWith('>')) idx++;
+  if (idx === 0) return body;
+  if (lines[idx] === '') idx++;
+  return lines.slice(idx).join('\n');
+}
+
+export class MatrixAdapter implements ChannelAdapter {
+  readonly id = 'matrix' as const;
+  readonly name = 'Matrix';
+
+  private config: MatrixConfig;
+  private baseUrl: string;
+  private running = false;
+  private selfUserId: string | null = null;
+  private selfDisplayName?: string;
+  private syncToken: string | null = null;
+  private syncAbortController: AbortController | null = null;
+  private txnCounter = 0;
+  private roomMembers = new Map<string, MatrixRoomMembers>();
+  private roomNames = new Map<string, string | undefined>();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean) => Promise<string | null>;
+  isAddressed?: (text: string) => boolean;
+
+  constructor(config: MatrixConfig) {
+    this.config = {
+      ...config,
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+    this.baseUrl = config.homeserverUrl.replace(/\/+$/, '');
+    this.selfUserId = config.userId || null;
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('matrix', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for Matrix
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: **${code}**
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve matrix ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    log.info('Starting adapter...');
+
+    if (!this.selfUserId) {
+      const whoami = await this.request<{ user_id: string }>('GET', '/_matrix/client/v3/account/whoami');
+      this.selfUserId = whoami.user_id;
+    }
+    try {
+      const profile = await this.request<{ displayname?: string }>(
+        'GET',
+        `/_matrix/client/v3/profile/${encodeURIComponent(this.selfUserId)}/displayname`,
+      );
+      this.selfDisplayName = profile.displayname || undefined;
+    } catch {
+      // Display name is optional (only used for mention detection)
+    }
+
+    // Initial sync establishes the stream position without replaying history.
+    const initial = await this.sync(null, 0);
+    this.syncToken = initial.next_batch;
+    await this.handleInvites(initial);
+
+    this.running = true;
+    this.startSyncLoop();
+    log.info(`Logged in as ${this.selfUserId}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.syncAbortController?.abort();
+    this.syncAbortController = null;
+    this.running = false;
+    log.info('Adapter stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const chunks = splitMessageText(msg.text, MATRIX_SPLIT_THRESHOLD);
+    let lastMessageId = '';
+    for (const chunk of chunks) {
+      const content = this.buildTextContent(chunk);
+      const relation = this.buildRelation(msg.threadId, msg.replyToMessageId);
+      if (relation) content['m.relates_to'] = relation;
+      lastMessageId = await this.sendEvent(msg.chatId, 'm.room.message', content);
+    }
+    return { messageId: lastMessageId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const filename = basename(file.filePath);
+    const mimetype = guessMimeType(filename, file.kind);
+    const [data, info] = await Promise.all([readFile(file.filePath), stat(file.filePath)]);
+
+    const upload = await this.request<{ content_uri: string }>(
+      'POST',
+      `/_matrix/media/v3/upload?filename=${encodeURIComponent(filename)}`,
+      { raw: new Blob([data]), contentType: mimetype },
+    );
+
+    const msgtype = file.kind === 'image' || mimetype.startsWith('image/') ? 'm.image'
+      : file.kind === 'audio' || mimetype.startsWith('audio/') ? 'm.audio'
+      : mimetype.startsWith('video/') ? 'm.video'
+      : 'm.file';
+
+    const content: Record<string, unknown> = {
+      msgtype,
+      body: file.caption || filename,
+      filename,
+      url: upload.content_uri,
+      info: { mimetype, size: info.size },
+    };
+    const relation = this.buildRelation(file.threadId);
+    if (relation) content['m.relates_to'] = relation;
+
+    const messageId = await this.sendEvent(file.chatId, 'm.room.message', content);
+    return { messageId };
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    // Edits can't split, so truncate to the single-event limit
+    const truncated = text.length > MATRIX_MAX_LENGTH
+      ? text.slice(0, MATRIX_MAX_LENGTH - 1) + '…'
+      : text;
+    const newContent = this.buildTextContent(truncated);
+    const content: Record<string, unknown> = {
+      ...this.buildTextContent(`* ${truncated}`),
+      'm.new_content': newContent,
+      'm.relates_to': { rel_type: 'm.replace', event_id: messageId },
+    };
+    await this.sendEvent(chatId, 'm.room.message', content);
+  }
+
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    const txnId = `lettabot-${Date.now()}-${++this.txnCounter}`;
+    await this.request(
+      'PUT',
+      `/_matrix/client/v3/rooms/${encodeURIComponent(chatId)}/redact/${encodeURIComponent(messageId)}/${encodeURIComponent(txnId)}`,
+      { json: {} },
+    );
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    await this.sendEvent(chatId, 'm.reaction', {
+      'm.relates_to': {
+        rel_type: 'm.annotation',
+        event_id: messageId,
+        key: resolveEmoji(emoji),
+      },
+    });
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    await this.setTyping(chatId, true);
+  }
+
+  async stopTypingIndicator(chatId: string): Promise<void> {
+    await this.setTyping(chatId, false);
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      supportsEdits: true,
+      supportsDeletes: true,
+      supportsReplies: true,
+      supportsBreaks: true,
+      formatHint: 'Matrix markdown: **bold** *italic* `code` [links](url) ```code blocks``` — supports headers and quotes',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  // --- Private methods ---
+
+  private buildTextContent(text: string): Record<string, unknown> {
+    const content: Record<string, unknown> = { msgtype: 'm.text', body: text };
+    const html = markdownToMatrixHtml(text);
+    if (html) {
+      content.format = MATRIX_HTML_FORMAT;
+      content.formatted_body = html;
+    }
+    return content;
+  }
+
+  private buildRelation(threadId?: string, replyToMessageId?: string): Record<string, unknown> | undefined {
+    if (threadId) {
+      return {
+        rel_type: 'm.thread',
+        event_id: threadId,
+        is_falling_back: !replyToMessageId,
+        'm.in_reply_to': { event_id: replyToMessageId || threadId },
+      };
+    }
+    if (replyToMessageId) {
+      return { 'm.in_reply_to': { event_id: replyToMessageId } };
+    }
+    return undefined;
+  }
+
+  private async setTyping(roomId: string, typing: boolean): Promise<void> {
+    if (!this.selfUserId) return;
+    try {
+      await this.request(
+        'PUT',
+        `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/typing/${encodeURIComponent(this.selfUserId)}`,
+        { json: typing ? { typing: true, timeout: MATRIX_TYPING_TIMEOUT_MS } : { typing: false } },
+      );
+    } catch (err) {
+      // Typing indicators are best-effort
+      log.warn('Failed to update typing indicator:', err);
+    }
+  }
+
+  private async sendEvent(roomId: string, eventType: string, content: Record<string, unknown>): Promise<string> {
+    const txnId = `lettabot-${Date.now()}-${++this.txnCounter}`;
+    const result = await this.request<{ event_id: string }>(
+      'PUT',
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(eventType)}/${encodeURIComponent(txnId)}`,
+      { json: content },
+    );
+    return result.event_id;
+  }
+
+  private async sync(since: string | null, timeoutMs: number, signal?: AbortSignal): Promise<MatrixSyncResponse> {
+    const params = new URLSearchParams({ timeout: String(timeoutMs) });
+    if (since) {
+      params.set('since', since);
+    } else {
+      // Only the stream position matters on the first sync
+      params.set('filter', JSON.stringify({ room: { timeline: { limit: 1 } } }));
+    }
+    return this.request<MatrixSyncResponse>('GET', `/_matrix/client/v3/sync?${params.toString()}`, {
+      signal,
+      timeoutMs: timeoutMs + MATRIX_REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  private startSyncLoop(): void {
+    this.syncAbortController = new AbortController();
+    const signal = this.syncAbortController.signal;
+
+    this.runSyncLoop(signal).catch((err) => {
+      if (!signal.aborted) {
+        log.error('Sync loop error:', err);
+      }
+    });
+  }
+
+  private async runSyncLoop(signal: AbortSignal): Promise<void> {
+    const reconnect = createReconnectManager(DEFAULT_RECONNECT_POLICY);
+    const timeoutMs = this.config.syncTimeoutMs ?? MATRIX_SYNC_TIMEOUT_MS;
+
+    while (!signal.aborted) {
+      try {
+        const response = await this.sync(this.syncToken, timeoutMs, signal);
+        reconnect.reset();
+        this.syncToken = response.next_batch;
+        await this.handleSync(response);
+      } catch (err) {
+        if (signal.aborted) return;
+        const delay = reconnect.nextDelay();
+        log.warn(`Sync failed (attempt ${reconnect.getAttempts()}), retrying in ${delay}ms:`, err instanceof Error ? err.message : err);
+        try {
+          await sleepWithAbort(delay, signal);
+        } catch {
+          return;
+        }
+      }
+    }
+  }
+
+  private async handleInvites(response: MatrixSyncResponse): Promise<void> {
+    if (this.config.autoJoin === false) return;
+    for (const roomId of Object.keys(response.rooms?.invite || {})) {
+      try {
+        await this.request('POST', `/_matrix/client/v3/join/${encodeURIComponent(roomId)}`, { json: {} });
+        log.info(`Joined room ${roomId}`);
+      } catch (err) {
+        log.warn(`Failed to join room ${roomId}:`, err);
+      }
+    }
+  }
+
+  private async handleSync(response: MatrixSyncResponse): Promise<void> {
+    await this.handleInvites(response);
+
+    for (const [roomId, room] of Object.entries(response.rooms?.join || {})) {
+      const events = [...(room.state?.events || []), ...(room.timeline?.events || [])];
+      for (const event of events) {
+        if (event.type === 'm.room.member') this.roomMembers.delete(roomId);
+        if (event.type === 'm.room.name') this.roomNames.delete(roomId);
+      }
+
+      for (const event of room.timeline?.events || []) {
+        if (!event.sender || event.sender === this.selfUserId) continue;
+        try {
+          if (event.type === 'm.room.message') {
+            await this.handleRoomMessage(roomId, event);
+          } else if (event.type === 'm.reaction') {
+            await this.handleReactionEvent(roomId, event);
+          } else if (event.type === 'm.room.encrypted') {
+            log.warn(`Ignoring encrypted event in ${roomId} (E2EE is not supported)`);
+          }
+        } catch (err) {
+          log.error('Error handling event:', err);
+        }
+      }
+    }
+  }
+
+  private async handleRoomMessage(roomId: string, event: MatrixEvent): Promise<void> {
+    const content = event.content || {};
+    const relation = content['m.relates_to'] as MatrixRelation | undefined;
+    // Edits arrive as new events; the original was already processed
+    if (relation?.rel_type === 'm.replace') return;
+
+    const msgtype = typeof content.msgtype === 'string' ? content.msgtype : '';
+    // m.notice is reserved for bots -- never respond to it (avoids bot loops)
+    if (msgtype === 'm.notice') return;
+
+    const userId = event.sender!;
+    const rawBody = typeof content.body === 'string' ? content.body : '';
+    const isMedia = msgtype === 'm.image' || msgtype === 'm.file' || msgtype === 'm.audio' || msgtype === 'm.video';
+    // Media captions: when `filename` is set and differs from `body`, body is the caption
+    const caption = typeof content.filename === 'string' && content.filename !== rawBody ? rawBody : '';
+    let text = isMedia ? caption : rawBody;
+    if (relation?.['m.in_reply_to']) text = stripReplyFallback(text);
+    text = text.trim();
+
+    const isGroup = await this.isGroupRoom(roomId);
+
+    // Bypass pairing for group rooms
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId: roomId, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+
+      if (access === 'pairing') {
+        const { code, created } = await upsertPairingRequest('matrix', userId, {
+          username: userId,
+        });
+
+        if (!code) {
+          await this.sendMessage({ chatId: roomId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+
+        if (created) {
+          log.info(`New pairing request from ${userId}: ${code}`);
+          await this.sendMessage({ chatId: roomId, text: this.formatPairingMsg(code) });
+        }
+        return;
+      }
+    }
+
+    const keys = [roomId];
+    let wasMentioned: boolean | undefined;
+    let isListeningMode = false;
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      const mentions = content['m.mentions'] as { user_ids?: string[] } | undefined;
+      wasMentioned = isMatrixMention({
+        body: text,
+        formattedBody: typeof content.formatted_body === 'string' ? content.formatted_body : undefined,
+        mentionedUserIds: mentions?.user_ids,
+        selfUserId: this.selfUserId!,
+        selfDisplayName: this.selfDisplayName,
+        mentionPatterns: this.config.mentionPatterns,
+      });
+
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        log.info(`Room ${roomId} not in allowlist, ignoring`);
+        return;
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return;
+      }
+      if (mode === 'mention-only' && !wasMentioned && !this.isAddressed?.(text)) {
+        return;
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:matrix:${limits.matchedKey ?? roomId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    // Commands require user-level authorization (paired or allowlisted).
+    // Room membership alone should not imply command access.
+    const parsed = parseCommand(text);
+    if (parsed) {
+      const commandAllowed = await isUserAllowed('matrix', userId, this.config.allowedUsers);
+      if (!commandAllowed) return;
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId: roomId, text: HELP_TEXT });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, roomId, parsed.args || undefined);
+        if (result) await this.sendMessage({ chatId: roomId, text: result });
+      }
+      return;
+    }
+
+    const attachments = isMedia ? await this.collectAttachment(content, roomId) : [];
+    if (!text && attachments.length === 0) return;
+
+    const members = await this.getRoomMembers(roomId);
+    const threadId = relation?.rel_type === 'm.thread' ? relation.event_id : undefined;
+
+    await this.onMessage?.({
+      channel: 'matrix',
+      chatId: roomId,
+      userId,
+      userName: members[userId]?.display_name || undefined,
+      userHandle: userId,
+      messageId: event.event_id || '',
+      text,
+      timestamp: new Date(event.origin_server_ts || Date.now()),
+      threadId,
+      isGroup,
+      groupName: isGroup ? await this.getRoomName(roomId) : undefined,
+      wasMentioned,
+      isListeningMode,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async handleReactionEvent(roomId: string, event: MatrixEvent): Promise<void> {
+    const relation = event.content?.['m.relates_to'] as MatrixRelation | undefined;
+    if (relation?.rel_type !== 'm.annotation' || !relation.event_id || !relation.key) return;
+
+    const userId = event.sender!;
+    const isGroup = await this.isGroupRoom(roomId);
+
+    // DM policy should only gate DMs, not group reactions.
+    let isListeningMode = false;
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access !== 'allowed') return;
+    } else {
+      const keys = [roomId];
+      if (!isGroupAllowed(this.config.groups, keys)) return;
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) return;
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled' || mode === 'mention-only') return;
+      isListeningMode = mode === 'listen';
+
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:matrix:${limits.matchedKey ?? roomId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    const members = await this.getRoomMembers(roomId);
+    await this.onMessage?.({
+      channel: 'matrix',
+      chatId: roomId,
+      userId,
+      userName: members[userId]?.display_name || undefined,
+      userHandle: userId,
+      messageId: relation.event_id,
+      text: '',
+      timestamp: new Date(event.origin_server_ts || Date.now()),
+      isGroup,
+      groupName: isGroup ? await this.getRoomName(roomId) : undefined,
+      isListeningMode,
+      reaction: {
+        emoji: relation.key,
+        messageId: relation.event_id,
+        action: 'added',
+      },
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  /**
+   * Rooms with more than two joined members are treated as groups.
+   */
+  private async isGroupRoom(roomId: string): Promise<boolean> {
+    const members = await this.getRoomMembers(roomId);
+    return Object.keys(members).length > 2;
+  }
+
+  private async getRoomMembers(roomId: string): Promise<MatrixRoomMembers> {
+    const cached = this.roomMembers.get(roomId);
+    if (cached) return cached;
+    try {
+      const result = await this.request<{ joined?: MatrixRoomMembers }>(
+        'GET',
+        `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/joined_members`,
+      );
+      const members = result.joined || {};
+      this.roomMembers.set(roomId, members);
+      return members;
+    } catch (err) {
+      log.warn(`Failed to fetch members for ${roomId}:`, err);
+      return {};
+    }
+  }
+
+  private async getRoomName(roomId: string): Promise<string | undefined> {
+    if (this.roomNames.has(roomId)) return this.roomNames.get(roomId);
+    let name: string | undefined;
+    try {
+      const result = await this.request<{ name?: string }>(
+        'GET',
+        `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/state/m.room.name`,
+      );
+      name = result.name || undefined;
+    } catch {
+      // Unnamed rooms return 404
+    }
+    this.roomNames.set(roomId, name);
+    return name;
+  }
+
+  private async collectAttachment(content: Record<string, unknown>, roomId: string): Promise<InboundAttachment[]> {
+    const url = typeof content.url === 'string' ? content.url : undefined;
+    if (!url) return []; // Encrypted media (content.file) is not supported
+    const info = (content.info || {}) as { mimetype?: string; size?: number };
+    const name = (typeof content.filename === 'string' && content.filename)
+      || (typeof content.body === 'string' && content.body)
+      || 'attachment';
+    const msgtype = content.msgtype;
+
+    const entry: InboundAttachment = {
+      id: url,
+      name,
+      mimeType: info.mimetype,
+      size: info.size,
+      kind: msgtype === 'm.image' ? 'image'
+        : msgtype === 'm.audio' ? 'audio'
+        : msgtype === 'm.video' ? 'video'
+        : 'file',
+      url,
+    };
+
+    const downloadUrl = this.resolveMediaUrl(url);
+    if (this.config.attachmentsDir && downloadUrl) {
+      if (this.config.attachmentsMaxBytes === 0) return [entry];
+      if (this.config.attachmentsMaxBytes && info.size && info.size > this.config.attachmentsMaxBytes) {
+        log.warn(`Attachment ${name} exceeds size limit, skipping download.`);
+        return [entry];
+      }
+      const target = buildAttachmentPath(this.config.attachmentsDir, 'matrix', roomId, name);
+      try {
+        await downloadToFile(downloadUrl, target, {
+          headers: { Authorization: `Bearer ${this.config.accessToken}` },
+          timeoutMs: MATRIX_ATTACHMENT_DOWNLOAD_TIMEOUT_MS,
+        });
+        entry.localPath = target;
+        log.info(`Attachment saved to ${target}`);
+      } catch (err) {
+        log.warn('Failed to download attachment:', err);
+      }
+    }
+    return [entry];
+  }
+
+  /**
+   * Map an mxc:// URI to the authenticated media download endpoint.
+   */
+  private resolveMediaUrl(mxc: string): string | null {
+    const match = mxc.match(/^mxc:\/\/([^/]+)\/([^/?#]+)$/);
+    if (!match) return null;
+    const [, serverName, mediaId] = match;
+    return `${this.baseUrl}/_matrix/client/v1/media/download/${encodeURIComponent(serverName)}/${encodeURIComponent(mediaId)}`;
+  }
+
+  private async request<T = unknown>(
+    method: string,
+    path: string,
+    options: {
+      json?: unknown;
+      raw?: Blob;
+      contentType?: string;
+      signal?: AbortSignal;
+      timeoutMs?: number;
+    } = {},
+  ): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.config.accessToken}` };
+    let body: string | Blob | undefined;
+    if (options.raw) {
+      headers['Content-Type'] = options.contentType || 'application/octet-stream';
+      body = options.raw;
+    } else if (options.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.json);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const timeoutSignal = AbortSignal.timeout(options.timeoutMs ?? MATRIX_REQUEST_TIMEOUT_MS);
+      const res = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body,
+        signal: options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal,
+      });
+
+      const text = await res.text();
+      const parsed = text ? JSON.parse(text) as Record<string, unknown> : {};
+      if (res.ok) return parsed as T;
+
+      if (res.status === 429 && attempt < MATRIX_MAX_RATE_LIMIT_RETRIES) {
+        const retryAfterMs = typeof parsed.retry_after_ms === 'number' ? parsed.retry_after_ms : 1000;
+        log.warn(`Rate limited on ${method} ${path.split('?')[0]}, retrying in ${retryAfterMs}ms`);
+        await sleepWithAbort(retryAfterMs, options.signal);
+        continue;
+      }
+
+      const errcode = typeof parsed.errcode === 'string' ? parsed.errcode : 'unknown';
+      const error = typeof parsed.error === 'string' ? parsed.error : res.statusText;
+      throw new Error(`Matrix ${method} ${path.split('?')[0]} failed (${res.status}) ${errcode}: ${error}`);
+    }
+  }
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+};
+
+function guessMimeType(filename: string, kind?: OutboundFile['kind']): string {
+  const known = MIME_TYPES[extname(filename).toLowerCase()];
+  if (known) return known;
+  if (kind === 'image') return 'image/png';
+  if (kind === 'audio') return 'audio/ogg';
+  return 'application/octet-stream';
+}
@@ -0,0 +1,444 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Stand-in for undici's WebSocket. Tests drive the event stream with emit();
+ * authentication challenges are answered according to FakeWebSocket.acceptAuth.
+ */
+const { FakeWebSocket } = vi.hoisted(() => {
+  type Listener = (event: { data?: unknown }) => void;
+
+  class FakeWebSocket {
+    static instances: FakeWebSocket[] = [];
+    static acceptAuth = true;
+
+    url: string;
+    sent: Array<{ seq: number; action: string; data: Record<string, unknown> }> = [];
+    closed = false;
+    private listeners = new Map<string, Listener[]>();
+
+    constructor(url: string) {
+      this.url = url;
+      FakeWebSocket.instances.push(this);
+      setTimeout(() => this.dispatch('open', {}), 0);
+    }
+
+    addEventListener(type: string, listener: Listener): void {
+      this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+    }
+
+    send(data: string): void {
+      const message = JSON.parse(data);
+      this.sent.push(message);
+      if (message.action === 'authentication_challenge') {
+        const ok = FakeWebSocket.acceptAuth && message.data.token === 'test-token';
+        setTimeout(() => this.emit(ok
+          ? { status: 'OK', seq_reply: message.seq }
+          : { status: 'FAIL', seq_reply: message.seq, error: { message: 'Invalid token' } }), 0);
+      }
+    }
+
+    close(): void {
+      if (this.closed) return;
+      this.closed = true;
+      setTimeout(() => this.dispatch('close', {}), 0);
+    }
+
+    emit(payload: unknown): void {
+      this.dispatch('message', { data: JSON.stringify(payload) });
+    }
+
+    private dispatch(type: string, event: { data?: unknown }): void {
+      for (const listener of this.listeners.get(type) || []) listener(event);
+    }
+  }
+
+  return { FakeWebSocket };
+});
+
+vi.mock('undici', () => ({ WebSocket: FakeWebSocket }));
+
+vi.mock('../pairing/store.js', () => ({
+  isUserAllowed: vi.fn(),
+  upsertPairingRequest: vi.fn(),
+}));
+
+import { MattermostAdapter, isMattermostMention } from './mattermost.js';
+import type { InboundMessage } from '../core/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+
+const mockedIsUserAllowed = vi.mocked(isUserAllowed);
+const mockedUpsertPairingRequest = vi.mocked(upsertPairingRequest);
+
+const BOT_ID = 'botuserid';
+const DM_CHANNEL = 'dmchannel';
+const TOWN_SQUARE = 'townsquare';
+
+type RecordedRequest = { method: string; path: string; body: unknown; contentType?: string };
+
+/**
+ * Minimal in-process Mattermost REST API covering the endpoints the adapter uses.
+ */
+class MockMattermostServer {
+  requests: RecordedRequest[] = [];
+  users: Record<string, Record<string, string>> = {
+    [BOT_ID]: { id: BOT_ID, username: 'lettabot' },
+    alice: { id: 'alice', username: 'alice', first_name: 'Alice', last_name: 'Liddell' },
+    bob: { id: 'bob', username: 'bob', nickname: 'Bobby' },
+  };
+  channels: Record<string, Record<string, string>> = {
+    [DM_CHANNEL]: { id: DM_CHANNEL, type: 'D', display_name: '' },
+    [TOWN_SQUARE]: { id: TOWN_SQUARE, type: 'O', display_name: 'Town Square' },
+  };
+  private server: Server;
+  private postCounter = 0;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      this.handle(req).then(({ status, body }) => {
+        if (Buffer.isBuffer(body)) {
+          res.writeHead(status, { 'Content-Type': 'application/octet-stream' });
+          res.end(body);
+          return;
+        }
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      }).catch((err) => {
+        res.writeHead(500);
+        res.end(String(err));
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  posts(): Array<Record<string, unknown>> {
+    return this.requests
+      .filter((r) => r.method === 'POST' && r.path === '/api/v4/posts')
+      .map((r) => r.body as Record<string, unknown>);
+  }
+
+  private async handle(req: IncomingMessage): Promise<{ status: number; body: unknown }> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks);
+    const contentType = req.headers['content-type'];
+    this.requests.push({
+      method: req.method || 'GET',
+      path,
+      body: contentType === 'application/json' && raw.length ? JSON.parse(raw.toString()) : raw.toString(),
+      contentType,
+    });
+
+    if (req.headers.authorization !== 'Bearer test-token') {
+      return { status: 401, body: { id: 'api.context.session_expired.app_error', message: 'Invalid or expired session' } };
+    }
+
+    if (path === '/api/v4/users/me') return { status: 200, body: this.users[BOT_ID] };
+    if (path.startsWith('/api/v4/users/')) {
+      const user = this.users[path.split('/').pop()!];
+      return user ? { status: 200, body: user } : { status: 404, body: { message: 'Unable to find the user.' } };
+    }
+    if (path.startsWith('/api/v4/channels/')) {
+      const channel = this.channels[path.split('/').pop()!];
+      return channel ? { status: 200, body: channel } : { status: 404, body: { message: 'Unable to find the channel.' } };
+    }
+    if (path === '/api/v4/posts') return { status: 201, body: { id: `post${++this.postCounter}` } };
+    if (path.endsWith('/patch')) return { status: 200, body: { id: path.split('/')[4] } };
+    if (path === '/api/v4/reactions') return { status: 201, body: {} };
+    if (path === '/api/v4/files') return { status: 201, body: { file_infos: [{ id: 'uploaded1' }] } };
+    if (path.startsWith('/api/v4/files/')) return { status: 200, body: Buffer.from('file-bytes') };
+    return { status: 404, body: { message: 'Not found' } };
+  }
+}
+
+function postedEvent(
+  post: Record<string, unknown>,
+  data: Record<string, unknown> = {},
+) {
+  const channelId = (post.channel_id as string) || DM_CHANNEL;
+  return {
+    event: 'posted',
+    data: {
+      channel_type: channelId === DM_CHANNEL ? 'D' : 'O',
+      channel_display_name: channelId === DM_CHANNEL ? '@alice' : 'Town Square',
+      ...data,
+      post: JSON.stringify({
+        id: `in-${Math.random().toString(36).slice(2)}`,
+        create_at: 1700000000000,
+        user_id: 'alice',
+        channel_id: channelId,
+        root_id: '',
+        message: '',
+        type: '',
+        ...post,
+      }),
+    },
+    broadcast: { channel_id: channelId },
+    seq: 1,
+  };
+}
+
+describe('isMattermostMention', () => {
+  const base = { selfUserId: BOT_ID, selfUsername: 'lettabot' };
+
+  it('uses the server-computed mention list', () => {
+    expect(isMattermostMention({ ...base, text: 'hello', mentionedUserIds: [BOT_ID] })).toBe(true);
+  });
+
+  it('matches @username as a standalone mention', () => {
+    expect(isMattermostMention({ ...base, text: '@lettabot hi' })).toBe(true);
+    expect(isMattermostMention({ ...base, text: 'thanks @LettaBot.' })).toBe(true);
+    expect(isMattermostMention({ ...base, text: '@lettabot.dev hi' })).toBe(false);
+    expect(isMattermostMention({ ...base, text: '@lettabot-old hi' })).toBe(false);
+    expect(isMattermostMention({ ...base, text: 'mail me at me@lettabot' })).toBe(false);
+  });
+
+  it('supports mention patterns', () => {
+    expect(isMattermostMention({ ...base, text: 'hey assistant', mentionPatterns: ['\\bassistant\\b'] })).toBe(true);
+  });
+});
+
+describe('MattermostAdapter', () => {
+  let server: MockMattermostServer;
+  let serverUrl: string;
+  let adapter: MattermostAdapter | null = null;
+  let tempDir: string | null = null;
+
+  beforeEach(async () => {
+    FakeWebSocket.instances = [];
+    FakeWebSocket.acceptAuth = true;
+    server = new MockMattermostServer();
+    serverUrl = await server.listen();
+    mockedIsUserAllowed.mockResolvedValue(true);
+    mockedUpsertPairingRequest.mockResolvedValue({ code: 'ABCD1234', created: true });
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = null;
+    await server.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+    vi.clearAllMocks();
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof MattermostAdapter>[0]> = {}) {
+    adapter = new MattermostAdapter({
+      serverUrl: `${serverUrl}/`,
+      token: 'test-token',
+      dmPolicy: 'open',
+      ...overrides,
+    });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.start();
+    const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    return { adapter, received, ws };
+  }
+
+  it('authenticates the event stream with the token', async () => {
+    const { ws } = await startAdapter();
+
+    expect(ws.url).toBe(`${serverUrl.replace('http', 'ws')}/api/v4/websocket`);
+    expect(ws.sent[0]).toEqual({ seq: 1, action: 'authentication_challenge', data: { token: 'test-token' } });
+  });
+
+  it('fails to start when WebSocket authentication is rejected', async () => {
+    FakeWebSocket.acceptAuth = false;
+    adapter = new MattermostAdapter({ serverUrl, token: 'test-token' });
+    await expect(adapter.start()).rejects.toThrow('authentication failed: Invalid token');
+    expect(adapter.isRunning()).toBe(false);
+    adapter = null;
+  });
+
+  it('fails to start with an invalid token', async () => {
+    adapter = new MattermostAdapter({ serverUrl, token: 'wrong' });
+    await expect(adapter.start()).rejects.toThrow('(401): Invalid or expired session');
+    adapter = null;
+  });
+
+  it('delivers direct messages with user details and thread IDs', async () => {
+    const { ws, received } = await startAdapter();
+    ws.emit(postedEvent({ id: 'p1', message: 'hello bot', root_id: 'root1' }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      channel: 'mattermost',
+      chatId: DM_CHANNEL,
+      userId: 'alice',
+      userName: 'Alice Liddell',
+      userHandle: 'alice',
+      messageId: 'p1',
+      text: 'hello bot',
+      threadId: 'root1',
+      isGroup: false,
+    });
+    expect(received[0].timestamp).toEqual(new Date(1700000000000));
+  });
+
+  it('ignores its own, system and bot posts', async () => {
+    const { ws, received } = await startAdapter();
+    ws.emit(postedEvent({ user_id: BOT_ID, message: 'echo' }));
+    ws.emit(postedEvent({ type: 'system_join_channel', message: 'alice joined' }));
+    ws.emit(postedEvent({ message: 'beep', props: { from_bot: 'true' } }));
+    ws.emit(postedEvent({ message: 'real' }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].text).toBe('real');
+  });
+
+  it('sends a pairing code to unknown users', async () => {
+    mockedIsUserAllowed.mockResolvedValue(false);
+    const { ws, received } = await startAdapter({ dmPolicy: 'pairing' });
+    ws.emit(postedEvent({ message: 'hi' }));
+
+    await vi.waitFor(() => expect(server.posts()).toHaveLength(1));
+    expect(received).toHaveLength(0);
+    expect(mockedUpsertPairingRequest).toHaveBeenCalledWith('mattermost', 'alice', { username: 'alice' });
+    expect(server.posts()[0].message).toContain('lettabot pairing approve mattermost ABCD1234');
+  });
+
+  it('gates channel posts by group mode', async () => {
+    const { ws, received } = await startAdapter({
+      groups: { [TOWN_SQUARE]: { mode: 'mention-only' }, offtopic: { mode: 'listen' } },
+    });
+    ws.emit(postedEvent({ channel_id: TOWN_SQUARE, message: 'no mention' }));
+    ws.emit(postedEvent({ channel_id: TOWN_SQUARE, message: 'what now?' }, { mentions: JSON.stringify([BOT_ID]) }));
+    ws.emit(postedEvent({ channel_id: 'offtopic', user_id: 'bob', message: 'chatter' }));
+    ws.emit(postedEvent({ channel_id: 'unlisted', message: '@lettabot hi' }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received.find((m) => m.chatId === TOWN_SQUARE)).toMatchObject({
+      text: 'what now?',
+      isGroup: true,
+      groupName: 'Town Square',
+      wasMentioned: true,
+      isListeningMode: false,
+    });
+    expect(received.find((m) => m.chatId === 'offtopic')).toMatchObject({
+      userName: 'Bobby',
+      isListeningMode: true,
+    });
+  });
+
+  it('routes commands addressed to the bot and replies in the thread', async () => {
+    const { adapter, ws, received } = await startAdapter({ groups: { '*': { mode: 'mention-only' } } });
+    adapter.onCommand = vi.fn().mockResolvedValue('status ok');
+    ws.emit(postedEvent({ channel_id: TOWN_SQUARE, message: '@lettabot /status', root_id: 'root9' }));
+
+    await vi.waitFor(() => expect(server.posts()).toHaveLength(1));
+    expect(adapter.onCommand).toHaveBeenCalledWith('status', TOWN_SQUARE, undefined, undefined, 'root9');
+    expect(server.posts()[0]).toEqual({ channel_id: TOWN_SQUARE, message: 'status ok', root_id: 'root9' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('downloads attachments when an attachments directory is set', async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mattermost-test-'));
+    const { ws, received } = await startAdapter({ attachmentsDir: tempDir });
+    ws.emit(postedEvent({
+      message: '',
+      file_ids: ['f1'],
+      metadata: { files: [{ id: 'f1', name: 'notes.txt', mime_type: 'text/plain', size: 10 }] },
+    }));
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [attachment] = received[0].attachments!;
+    expect(attachment).toMatchObject({ id: 'f1', name: 'notes.txt', kind: 'file' });
+    expect(readFileSync(attachment.localPath!, 'utf-8')).toBe('file-bytes');
+  });
+
+  it('delivers reactions on channel posts', async () => {
+    const { ws, received } = await startAdapter({ groups: { [TOWN_SQUARE]: { mode: 'open' } } });
+    ws.emit({
+      event: 'reaction_added',
+      data: { reaction: JSON.stringify({ user_id: 'alice', post_id: 'post1', emoji_name: 'thumbsup' }) },
+      broadcast: { channel_id: TOWN_SQUARE },
+    });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      chatId: TOWN_SQUARE,
+      isGroup: true,
+      groupName: 'Town Square',
+      reaction: { emoji: ':thumbsup:', messageId: 'post1', action: 'added' },
+    });
+  });
+
+  it('posts, splits, edits and reacts through the REST API', async () => {
+    const { adapter } = await startAdapter();
+
+    const first = await adapter.sendMessage({ chatId: TOWN_SQUARE, text: 'hi', threadId: 'root1' });
+    expect(first.messageId).toBe('post1');
+    expect(server.posts()[0]).toEqual({ channel_id: TOWN_SQUARE, message: 'hi', root_id: 'root1' });
+
+    const long = await adapter.sendMessage({ chatId: TOWN_SQUARE, text: `${'a'.repeat(3000)}\n\n${'b'.repeat(3000)}` });
+    expect(server.posts()).toHaveLength(3);
+    expect(long.messageId).toBe('post3');
+
+    await adapter.editMessage(TOWN_SQUARE, 'post1', 'edited');
+    expect(server.requests.find((r) => r.method === 'PUT')).toMatchObject({
+      path: '/api/v4/posts/post1/patch',
+      body: { message: 'edited' },
+    });
+
+    await adapter.addReaction(TOWN_SQUARE, 'post1', '👍');
+    await adapter.addReaction(TOWN_SQUARE, 'post1', ':rocket:');
+    const reactions = server.requests.filter((r) => r.path === '/api/v4/reactions').map((r) => r.body);
+    expect(reactions).toEqual([
+      { user_id: BOT_ID, post_id: 'post1', emoji_name: '+1' },
+      { user_id: BOT_ID, post_id: 'post1', emoji_name: 'rocket' },
+    ]);
+  });
+
+  it('uploads files and attaches them to a post', async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mattermost-test-'));
+    const filePath = join(tempDir, 'report.txt');
+    writeFileSync(filePath, 'report body');
+    const { adapter } = await startAdapter();
+
+    await adapter.sendFile({ chatId: TOWN_SQUARE, filePath, caption: 'Here you go', threadId: 'root1' });
+
+    const upload = server.requests.find((r) => r.path === '/api/v4/files' && r.method === 'POST')!;
+    expect(upload.contentType).toMatch(/^multipart\/form-data/);
+    expect(upload.body).toContain('filename="report.txt"');
+    expect(upload.body).toContain('report body');
+    expect(server.posts()[0]).toEqual({
+      channel_id: TOWN_SQUARE,
+      message: 'Here you go',
+      root_id: 'root1',
+      file_ids: ['uploaded1'],
+    });
+  });
+
+  it('sends typing over the event stream', async () => {
+    const { adapter, ws } = await startAdapter();
+    await adapter.sendTypingIndicator(TOWN_SQUARE);
+    expect(ws.sent[1]).toMatchObject({ action: 'user_typing', data: { channel_id: TOWN_SQUARE } });
+  });
+
+  it('reconnects after the event stream closes', async () => {
+    const { ws, received } = await startAdapter();
+    ws.close();
+
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2), { timeout: 5000 });
+    const next = FakeWebSocket.instances[1];
+    await vi.waitFor(() => expect(next.sent[0]?.action).toBe('authentication_challenge'));
+    next.emit(postedEvent({ message: 'after reconnect' }));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+  }, 10000);
+});
@@ -0,0 +1,736 @@
+/**
+ * Mattermost Channel Adapter
+ *
+ * Inbound events arrive over the Mattermost WebSocket event stream; posting,
+ * edits, reactions, file uploads and typing go through the REST API (v4)
+ * with a bot or personal access token. Replies in threads map `root_id` to
+ * `threadId`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { WebSocket } from 'undici';
+import type { ChannelAdapter } from './types.js';
+import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { isUserAllowed, upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { EMOJI_ALIASES } from './shared/emoji.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { buildAttachmentPath, downloadToFile } from './attachments.js';
+import { HELP_TEXT, parseCommand } from '../core/commands.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Mattermost');
+
+// Default server limit is 16383 characters per post
+const MATTERMOST_MAX_LENGTH = 16000;
+const MATTERMOST_SPLIT_THRESHOLD = 4000;
+const MATTERMOST_REQUEST_TIMEOUT_MS = 15000;
+const MATTERMOST_AUTH_TIMEOUT_MS = 15000;
+const MATTERMOST_ATTACHMENT_DOWNLOAD_TIMEOUT_MS = 15000;
+const MATTERMOST_MAX_RATE_LIMIT_RETRIES = 3;
+
+export interface MattermostConfig {
+  serverUrl: string;        // e.g. https://chat.example.com
+  token: string;            // Bot account or personal access token
+  dmPolicy?: DmPolicy;      // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];  // Mattermost user IDs
+  streaming?: boolean;      // Stream responses via progressive message edits (default: false)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  groups?: Record<string, GroupModeConfig>;  // Per-channel settings (channel IDs), "*" for defaults
+  mentionPatterns?: string[];  // Extra regex patterns for mention detection
+  agentName?: string;       // For scoping daily limit counters in multi-agent mode
+}
+
+type MattermostPost = {
+  id: string;
+  create_at?: number;
+  user_id: string;
+  channel_id: string;
+  root_id?: string;
+  message?: string;
+  type?: string;
+  props?: Record<string, unknown>;
+  file_ids?: string[];
+  metadata?: {
+    files?: Array<{ id: string; name?: string; mime_type?: string; size?: number }>;
+  };
+};
+
+type MattermostEvent = {
+  event?: string;
+  data?: Record<string, unknown>;
+  broadcast?: { channel_id?: string; user_id?: string; team_id?: string };
+  seq?: number;
+  // Replies to client actions (e.g. authentication_challenge)
+  status?: string;
+  seq_reply?: number;
+  error?: { message?: string };
+};
+
+type MattermostUser = {
+  id: string;
+  username: string;
+  nickname?: string;
+  first_name?: string;
+  last_name?: string;
+};
+
+type MattermostChannel = {
+  id: string;
+  type: string;           // 'O' public, 'P' private, 'D' direct, 'G' group DM
+  display_name?: string;
+  name?: string;
+};
+
+/**
+ * Detect whether a post addresses the bot: the server-computed mention list,
+ * an @username mention, or a configured regex pattern.
+ */
+export function isMattermostMention(params: {
+  text: string;
+  mentionedUserIds?: string[];
+  selfUserId: string;
+  selfUsername: string;
+  mentionPatterns?: string[];
+}): boolean {
+  const { text, mentionedUserIds, selfUserId, selfUsername, mentionPatterns } = params;
+  if (mentionedUserIds?.includes(selfUserId)) return true;
+  if (mentionRegex(selfUsername).test(text)) return true;
+  for (const pattern of mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(text)) return true;
+    } catch {
+      log.warn(`Invalid mention pattern: ${pattern}`);
+    }
+  }
+  return false;
+}
+
+function mentionRegex(username: string): RegExp {
+  const escaped = username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Mattermost usernames may contain '.', '-' and '_', so a trailing '.' is punctuation only
+  return new RegExp(`(^|[^\\w@])@${escaped}(?![\\w-]|\\.\\w)`, 'i');
+}
+
+export class MattermostAdapter implements ChannelAdapter {
+  readonly id = 'mattermost' as const;
+  readonly name = 'Mattermost';
+
+  private config: MattermostConfig;
+  private baseUrl: string;
+  private running = false;
+  private selfUserId: string | null = null;
+  private selfUsername = '';
+  private ws: WebSocket | null = null;
+  private wsSeq = 0;
+  private connectionAbort: AbortController | null = null;
+  private users = new Map<string, MattermostUser>();
+  private channels = new Map<string, MattermostChannel>();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean, threadId?: string) => Promise<string | null>;
+  isAddressed?: (text: string) => boolean;
+
+  constructor(config: MattermostConfig) {
+    this.config = {
+      ...config,
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+    this.baseUrl = config.serverUrl.replace(/\/+$/, '');
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('mattermost', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for Mattermost
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: **${code}**
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve mattermost ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    log.info('Starting adapter...');
+
+    const me = await this.request<MattermostUser>('GET', '/api/v4/users/me');
+    this.selfUserId = me.id;
+    this.selfUsername = me.username;
+
+    this.connectionAbort = new AbortController();
+    try {
+      await this.connect(this.connectionAbort.signal);
+    } catch (err) {
+      this.connectionAbort.abort();
+      this.connectionAbort = null;
+      throw err;
+    }
+
+    this.running = true;
+    log.info(`Logged in as @${this.selfUsername}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.connectionAbort?.abort();
+    this.connectionAbort = null;
+    const ws = this.ws;
+    this.ws = null;
+    try {
+      ws?.close();
+    } catch {
+      // Already closed
+    }
+    log.info('Adapter stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const chunks = splitMessageText(msg.text, MATTERMOST_SPLIT_THRESHOLD);
+    let lastMessageId = '';
+    for (const chunk of chunks) {
+      const post = await this.request<MattermostPost>('POST', '/api/v4/posts', {
+        json: { channel_id: msg.chatId, message: chunk, root_id: msg.threadId || '' },
+      });
+      lastMessageId = post.id;
+    }
+    return { messageId: lastMessageId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const filename = basename(file.filePath);
+    const data = await readFile(file.filePath);
+
+    const form = new FormData();
+    form.append('channel_id', file.chatId);
+    form.append('files', new Blob([data]), filename);
+    const upload = await this.request<{ file_infos?: Array<{ id: string }> }>('POST', '/api/v4/files', { form });
+    const fileId = upload.file_infos?.[0]?.id;
+    if (!fileId) throw new Error('Mattermost file upload returned no file ID');
+
+    const post = await this.request<MattermostPost>('POST', '/api/v4/posts', {
+      json: {
+        channel_id: file.chatId,
+        message: file.caption || '',
+        root_id: file.threadId || '',
+        file_ids: [fileId],
+      },
+    });
+    return { messageId: post.id };
+  }
+
+  async editMessage(_chatId: string, messageId: string, text: string): Promise<void> {
+    // Edits can't split, so truncate to the single-post limit
+    const truncated = text.length > MATTERMOST_MAX_LENGTH
+      ? text.slice(0, MATTERMOST_MAX_LENGTH - 1) + '…'
+      : text;
+    await this.request('PUT', `/api/v4/posts/${encodeURIComponent(messageId)}/patch`, {
+      json: { message: truncated },
+    });
+  }
+
+  async deleteMessage(_chatId: string, messageId: string): Promise<void> {
+    await this.request('DELETE', `/api/v4/posts/${encodeURIComponent(messageId)}`);
+  }
+
+  async addReaction(_chatId: string, messageId: string, emoji: string): Promise<void> {
+    const name = resolveMattermostEmojiName(emoji);
+    if (!name) {
+      throw new Error('Unknown emoji alias for Mattermost');
+    }
+    await this.request('POST', '/api/v4/reactions', {
+      json: { user_id: this.selfUserId, post_id: messageId, emoji_name: name },
+    });
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    // Typing is a WebSocket action; best-effort
+    this.sendAction('user_typing', { channel_id: chatId, parent_id: '' });
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      supportsEdits: true,
+      supportsDeletes: true,
+      supportsBreaks: true,
+      formatHint: 'Mattermost markdown: **bold** *italic* `code` [links](url) ```code blocks``` — supports headers, tables and quotes',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  // --- WebSocket connection ---
+
+  private websocketUrl(): string {
+    return `${this.baseUrl.replace(/^http/, 'ws')}/api/v4/websocket`;
+  }
+
+  /**
+   * Open the event stream and authenticate. Resolves once the server accepts
+   * the token; later disconnects trigger a reconnect with backoff.
+   */
+  private connect(signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.websocketUrl());
+      this.ws = ws;
+      this.wsSeq = 0;
+      let authSeq = -1;
+      let settled = false;
+      let authenticated = false;
+
+      const settle = (err?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(authTimer);
+        if (err) {
+          try { ws.close(); } catch { /* ignore */ }
+          reject(err);
+        } else {
+          resolve();
+        }
+      };
+      const authTimer = setTimeout(() => settle(new Error('Mattermost WebSocket authentication timed out')), MATTERMOST_AUTH_TIMEOUT_MS);
+
+      ws.addEventListener('open', () => {
+        authSeq = this.sendAction('authentication_challenge', { token: this.config.token });
+      });
+
+      ws.addEventListener('message', (event) => {
+        let parsed: MattermostEvent;
+        try {
+          parsed = JSON.parse(String(event.data)) as MattermostEvent;
+        } catch {
+          return;
+        }
+        if (parsed.seq_reply !== undefined && parsed.seq_reply === authSeq) {
+          if (parsed.status === 'OK') {
+            authenticated = true;
+            settle();
+          }
+          else settle(new Error(`Mattermost WebSocket authentication failed: ${parsed.error?.message || parsed.status}`));
+          return;
+        }
+        if (!parsed.event) return;
+        this.handleEvent(parsed).catch((err) => {
+          log.error(`Error handling ${parsed.event} event:`, err);
+        });
+      });
+
+      ws.addEventListener('error', () => {
+        // "close" follows; some errors never emit it, so force one
+        try { ws.close(); } catch { /* ignore */ }
+      });
+
+      ws.addEventListener('close', () => {
+        const wasAuthenticated = settled && authenticated;
+        settle(new Error('Mattermost WebSocket closed before authentication'));
+        if (this.ws !== ws) return;
+        this.ws = null;
+        // Failures before authentication are reported to the caller instead
+        if (wasAuthenticated && this.running && !signal.aborted) {
+          log.warn('WebSocket disconnected');
+          this.reconnect(signal).catch((err) => {
+            if (!signal.aborted) log.error('Reconnect loop error:', err);
+          });
+        }
+      });
+    });
+  }
+
+  private async reconnect(signal: AbortSignal): Promise<void> {
+    const reconnect = createReconnectManager(DEFAULT_RECONNECT_POLICY);
+    while (!signal.aborted && this.running) {
+      const delay = reconnect.nextDelay();
+      log.info(`Reconnecting (attempt ${reconnect.getAttempts()}) in ${delay}ms`);
+      try {
+        await sleepWithAbort(delay, signal);
+      } catch {
+        return;
+      }
+      try {
+        await this.connect(signal);
+        log.info('Reconnected');
+        return;
+      } catch (err) {
+        if (signal.aborted) return;
+        log.warn('Reconnect failed:', err instanceof Error ? err.message : err);
+      }
+    }
+  }
+
+  private sendAction(action: string, data: Record<string, unknown>): number {
+    const seq = ++this.wsSeq;
+    try {
+      this.ws?.send(JSON.stringify({ seq, action, data }));
+    } catch (err) {
+      log.warn(`Failed to send ${action}:`, err);
+    }
+    return seq;
+  }
+
+  // --- Event handling ---
+
+  private async handleEvent(event: MattermostEvent): Promise<void> {
+    switch (event.event) {
+      case 'posted':
+        await this.handlePosted(event);
+        break;
+      case 'reaction_added':
+        await this.handleReaction(event, 'added');
+        break;
+      case 'reaction_removed':
+        await this.handleReaction(event, 'removed');
+        break;
+      case 'channel_updated':
+      case 'channel_converted':
+        if (event.broadcast?.channel_id) this.channels.delete(event.broadcast.channel_id);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private async handlePosted(event: MattermostEvent): Promise<void> {
+    const data = event.data || {};
+    const post = parseJsonField<MattermostPost>(data.post);
+    if (!post?.id || !post.user_id) return;
+    if (post.user_id === this.selfUserId) return;
+    // System posts (joins, header changes, ...) carry a non-empty type
+    if (post.type) return;
+    // Never respond to other bots (avoids bot loops)
+    if (post.props?.from_bot === 'true' || post.props?.from_bot === true) return;
+
+    const chatId = post.channel_id;
+    const userId = post.user_id;
+    const text = (post.message || '').trim();
+    const channelType = typeof data.channel_type === 'string' ? data.channel_type : (await this.getChannel(chatId))?.type;
+    const isGroup = channelType !== 'D';
+    const threadId = post.root_id || undefined;
+
+    // Bypass pairing for channels
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+
+      if (access === 'pairing') {
+        const user = await this.getUser(userId);
+        const { code, created } = await upsertPairingRequest('mattermost', userId, {
+          username: user?.username,
+        });
+
+        if (!code) {
+          await this.sendMessage({ chatId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+
+        if (created) {
+          log.info(`New pairing request from ${userId}: ${code}`);
+          await this.sendMessage({ chatId, text: this.formatPairingMsg(code) });
+        }
+        return;
+      }
+    }
+
+    const keys = [chatId];
+    let wasMentioned: boolean | undefined;
+    let isListeningMode = false;
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      wasMentioned = isMattermostMention({
+        text,
+        mentionedUserIds: parseJsonField<string[]>(data.mentions),
+        selfUserId: this.selfUserId!,
+        selfUsername: this.selfUsername,
+        mentionPatterns: this.config.mentionPatterns,
+      });
+
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        log.info(`Channel ${chatId} not in allowlist, ignoring`);
+        return;
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return;
+      }
+      if (mode === 'mention-only' && !wasMentioned && !this.isAddressed?.(text)) {
+        return;
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:mattermost:${limits.matchedKey ?? chatId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    // Mattermost clients intercept leading "/" as their own slash commands,
+    // so also accept commands addressed to the bot ("@bot /status").
+    // Commands require user-level authorization (paired or allowlisted).
+    const parsed = parseCommand(text.replace(mentionRegex(this.selfUsername), '$1').trim());
+    if (parsed) {
+      const commandAllowed = await isUserAllowed('mattermost', userId, this.config.allowedUsers);
+      if (!commandAllowed) return;
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId, text: HELP_TEXT, threadId });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined, undefined, threadId);
+        if (result) await this.sendMessage({ chatId, text: result, threadId });
+      }
+      return;
+    }
+
+    const attachments = await this.collectAttachments(post);
+    if (!text && attachments.length === 0) return;
+
+    const user = await this.getUser(userId);
+    const channelName = typeof data.channel_display_name === 'string' ? data.channel_display_name : undefined;
+
+    await this.onMessage?.({
+      channel: 'mattermost',
+      chatId,
+      userId,
+      userName: user ? displayName(user) : undefined,
+      userHandle: user?.username,
+      messageId: post.id,
+      text,
+      timestamp: new Date(post.create_at || Date.now()),
+      threadId,
+      isGroup,
+      groupName: isGroup ? channelName || (await this.getChannel(chatId))?.display_name : undefined,
+      wasMentioned,
+      isListeningMode,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async handleReaction(event: MattermostEvent, action: InboundReaction['action']): Promise<void> {
+    const reaction = parseJsonField<{ user_id?: string; post_id?: string; emoji_name?: string }>(event.data?.reaction);
+    const chatId = event.broadcast?.channel_id;
+    if (!reaction?.user_id || !reaction.post_id || !reaction.emoji_name || !chatId) return;
+    if (reaction.user_id === this.selfUserId) return;
+
+    const userId = reaction.user_id;
+    const channel = await this.getChannel(chatId);
+    const isGroup = channel?.type !== 'D';
+
+    // DM policy should only gate DMs, not channel reactions.
+    let isListeningMode = false;
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access !== 'allowed') return;
+    } else {
+      const keys = [chatId];
+      if (!isGroupAllowed(this.config.groups, keys)) return;
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) return;
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled' || mode === 'mention-only') return;
+      isListeningMode = mode === 'listen';
+
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:mattermost:${limits.matchedKey ?? chatId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    const user = await this.getUser(userId);
+    await this.onMessage?.({
+      channel: 'mattermost',
+      chatId,
+      userId,
+      userName: user ? displayName(user) : undefined,
+      userHandle: user?.username,
+      messageId: reaction.post_id,
+      text: '',
+      timestamp: new Date(),
+      isGroup,
+      groupName: isGroup ? channel?.display_name : undefined,
+      isListeningMode,
+      reaction: {
+        emoji: `:${reaction.emoji_name}:`,
+        messageId: reaction.post_id,
+        action,
+      },
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async getUser(userId: string): Promise<MattermostUser | undefined> {
+    const cached = this.users.get(userId);
+    if (cached) return cached;
+    try {
+      const user = await this.request<MattermostUser>('GET', `/api/v4/users/${encodeURIComponent(userId)}`);
+      this.users.set(userId, user);
+      return user;
+    } catch (err) {
+      log.warn(`Failed to fetch user ${userId}:`, err);
+      return undefined;
+    }
+  }
+
+  private async getChannel(channelId: string): Promise<MattermostChannel | undefined> {
+    const cached = this.channels.get(channelId);
+    if (cached) return cached;
+    try {
+      const channel = await this.request<MattermostChannel>('GET', `/api/v4/channels/${encodeURIComponent(channelId)}`);
+      this.channels.set(channelId, channel);
+      return channel;
+    } catch (err) {
+      log.warn(`Failed to fetch channel ${channelId}:`, err);
+      return undefined;
+    }
+  }
+
+  private async collectAttachments(post: MattermostPost): Promise<InboundAttachment[]> {
+    const files = post.metadata?.files
+      || (post.file_ids || []).map((id) => ({ id, name: undefined, mime_type: undefined, size: undefined }));
+    const attachments: InboundAttachment[] = [];
+
+    for (const file of files) {
+      const name = file.name || file.id;
+      const mimeType = file.mime_type;
+      const entry: InboundAttachment = {
+        id: file.id,
+        name,
+        mimeType,
+        size: file.size,
+        kind: mimeType?.startsWith('image/') ? 'image'
+          : mimeType?.startsWith('audio/') ? 'audio'
+          : mimeType?.startsWith('video/') ? 'video'
+          : 'file',
+      };
+      attachments.push(entry);
+
+      if (!this.config.attachmentsDir) continue;
+      if (this.config.attachmentsMaxBytes === 0) continue;
+      if (this.config.attachmentsMaxBytes && file.size && file.size > this.config.attachmentsMaxBytes) {
+        log.warn(`Attachment ${name} exceeds size limit, skipping download.`);
+        continue;
+      }
+      const target = buildAttachmentPath(this.config.attachmentsDir, 'mattermost', post.channel_id, name);
+      try {
+        await downloadToFile(`${this.baseUrl}/api/v4/files/${encodeURIComponent(file.id)}`, target, {
+          headers: { Authorization: `Bearer ${this.config.token}` },
+          timeoutMs: MATTERMOST_ATTACHMENT_DOWNLOAD_TIMEOUT_MS,
+        });
+        entry.localPath = target;
+        log.info(`Attachment saved to ${target}`);
+      } catch (err) {
+        log.warn('Failed to download attachment:', err);
+      }
+    }
+    return attachments;
+  }
+
+  private async request<T = unknown>(
+    method: string,
+    path: string,
+    options: { json?: unknown; form?: FormData } = {},
+  ): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.config.token}` };
+    let body: string | FormData | undefined;
+    if (options.form) {
+      body = options.form;
+    } else if (options.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.json);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const res = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(MATTERMOST_REQUEST_TIMEOUT_MS),
+      });
+
+      const text = await res.text();
+      let parsed: Record<string, unknown> = {};
+      try {
+        parsed = text ? JSON.parse(text) as Record<string, unknown> : {};
+      } catch {
+        // Non-JSON error pages (proxies) fall through to the status check
+      }
+      if (res.ok) return parsed as T;
+
+      if (res.status === 429 && attempt < MATTERMOST_MAX_RATE_LIMIT_RETRIES) {
+        // X-Ratelimit-Reset is the number of seconds until the bucket refills
+        const resetSec = Number(res.headers.get('x-ratelimit-reset'));
+        const retryAfterMs = Number.isFinite(resetSec) && resetSec > 0 ? resetSec * 1000 : 1000;
+        log.warn(`Rate limited on ${method} ${path}, retrying in ${retryAfterMs}ms`);
+        await sleepWithAbort(retryAfterMs);
+        continue;
+      }
+
+      const message = typeof parsed.message === 'string' ? parsed.message : res.statusText;
+      throw new Error(`Mattermost ${method} ${path} failed (${res.status}): ${message}`);
+    }
+  }
+}
+
+function parseJsonField<T>(value: unknown): T | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function displayName(user: MattermostUser): string {
+  const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ');
+  return user.nickname || fullName || user.username;
+}
+
+// Reverse lookup: unicode -> alias name (Mattermost reactions use names, not unicode)
+const UNICODE_TO_ALIAS = new Map<string, string>(
+  Object.entries(EMOJI_ALIASES).map(([name, value]) => [value, name])
+);
+
+function resolveMattermostEmojiName(input: string): string | null {
+  const aliasMatch = input.match(/^:([^:]+):$/);
+  const name = aliasMatch ? aliasMatch[1] : input;
+  // thumbs_up is our alias; Mattermost knows +1 / thumbsup
+  if (name === 'thumbs_up') return 'thumbsup';
+  if (/^[a-z0-9_+-]+$/i.test(name)) return name;
+  return UNICODE_TO_ALIAS.get(input) || null;
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
+import { existsSync, readFileSync } from 'node:fs';
 import { SignalAdapter } from './signal.js';
+import { EditLimitError } from './types.js';
 
 type SignalAdapterWithInternals = {
   config: {
@@ -95,6 +97,33 @@ describe('SignalAdapter sendFile', () => {
   });
 });
 
+describe('SignalAdapter quoted replies', () => {
+  it('quotes inbound messages by timestamp and author', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555' });
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue({ timestamp: 3 });
+
+    await adapter.sendMessage({ chatId: 'group:abc', text: 'Agreed', replyToMessageId: '1700000000000:+12223334444' });
+
+    expect(rpcSpy).toHaveBeenCalledWith('send', expect.objectContaining({
+      groupId: 'abc',
+      'quote-timestamp': 1700000000000,
+      'quote-author': '+12223334444',
+    }));
+  });
+
+  it('quotes the bot\'s own messages with its number as author', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555' });
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue({ timestamp: 4 });
+
+    await adapter.sendMessage({ chatId: '+12223334444', text: 'Following up', replyToMessageId: '1700000000001' });
+
+    expect(rpcSpy).toHaveBeenCalledWith('send', expect.objectContaining({
+      'quote-timestamp': 1700000000001,
+      'quote-author': '+15555555555',
+    }));
+  });
+});
+
 describe('SignalAdapter read receipts', () => {
   it('defaults readReceipts to true', () => {
     const adapter = new SignalAdapter({ phoneNumber: '+15555555555' });
@@ -113,3 +142,214 @@ describe('SignalAdapter read receipts', () => {
     expect(internal.buildDaemonArgs()).not.toContain('--send-read-receipts');
   });
 });
+
+describe('SignalAdapter edits and deletes', () => {
+  function createAdapter(streaming?: boolean) {
+    return new SignalAdapter({ phoneNumber: '+15555555555', streaming });
+  }
+
+  it('advertises editing only when streaming is enabled', () => {
+    expect(createAdapter().supportsEditing()).toBe(false);
+    expect(createAdapter(true).supportsEditing()).toBe(true);
+  });
+
+  it('edits a message by its original timestamp', async () => {
+    const adapter = createAdapter(true);
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue({ timestamp: 2 });
+
+    await adapter.editMessage('+12223334444', '1700000000000', 'Updated text');
+    await adapter.editMessage('group:abc123', '1700000000001:+12223334444', 'Group edit');
+
+    expect(rpcSpy).toHaveBeenNthCalledWith(1, 'send', {
+      message: 'Updated text',
+      editTimestamp: 1700000000000,
+      account: '+15555555555',
+      recipient: ['+12223334444'],
+    });
+    expect(rpcSpy).toHaveBeenNthCalledWith(2, 'send', {
+      message: 'Group edit',
+      editTimestamp: 1700000000001,
+      account: '+15555555555',
+      groupId: 'abc123',
+    });
+  });
+
+  it('rejects message IDs without a timestamp', async () => {
+    const adapter = createAdapter(true);
+    vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue(undefined);
+
+    await expect(adapter.editMessage('+12223334444', 'unknown', 'text')).rejects.toThrow('invalid message ID');
+  });
+
+  it('throws EditLimitError once the edit budget is spent', async () => {
+    const adapter = createAdapter(true);
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue(undefined);
+
+    for (let i = 1; i <= 10; i++) {
+      await adapter.editMessage('+12223334444', '1700000000000', `partial ${i}`);
+    }
+    expect(rpcSpy).toHaveBeenCalledTimes(10);
+
+    await expect(adapter.editMessage('+12223334444', '1700000000000', 'too many')).rejects.toBeInstanceOf(EditLimitError);
+    expect(rpcSpy).toHaveBeenCalledTimes(10);
+    expect(adapter.remainingEdits('+12223334444', '1700000000000')).toBe(0);
+    expect(adapter.remainingEdits('+12223334444', '1700000000001')).toBe(10);
+  });
+
+  it('deletes a message for everyone', async () => {
+    const adapter = createAdapter();
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue(undefined);
+
+    await adapter.deleteMessage('note-to-self', '1700000000000:+15555555555');
+
+    expect(rpcSpy).toHaveBeenCalledWith('remoteDelete', {
+      targetTimestamp: 1700000000000,
+      account: '+15555555555',
+      recipient: ['+15555555555'],
+    });
+  });
+});
+
+describe('SignalAdapter inbound edits and deletes', () => {
+  function createAdapter() {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', dmPolicy: 'open' });
+    const onMessage = vi.fn(async () => {});
+    adapter.onMessage = onMessage;
+    return { adapter, onMessage };
+  }
+
+  async function receive(adapter: SignalAdapter, envelope: Record<string, unknown>) {
+    await (adapter as any).handleSseData(JSON.stringify({ envelope }));
+  }
+
+  it('forwards edits with the original message ID', async () => {
+    const { adapter, onMessage } = createAdapter();
+
+    await receive(adapter, {
+      source: '+12223334444',
+      timestamp: 1700000005000,
+      editMessage: {
+        targetSentTimestamp: 1700000000000,
+        dataMessage: { message: 'fixed typo', timestamp: 1700000005000 },
+      },
+    });
+
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({
+      chatId: '+12223334444',
+      text: 'fixed typo',
+      messageId: '1700000000000:+12223334444',
+      extraContext: { 'Edited message': '1700000000000:+12223334444' },
+    }));
+  });
+
+  it('does not run commands from edited messages', async () => {
+    const { adapter, onMessage } = createAdapter();
+    const onCommand = vi.fn(async () => null);
+    adapter.onCommand = onCommand;
+
+    await receive(adapter, {
+      source: '+12223334444',
+      timestamp: 1700000005000,
+      editMessage: {
+        targetSentTimestamp: 1700000000000,
+        dataMessage: { message: '/reset' },
+      },
+    });
+
+    expect(onCommand).not.toHaveBeenCalled();
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ text: '/reset' }));
+  });
+
+  it('forwards remote deletes as a deleted-message notice', async () => {
+    const { adapter, onMessage } = createAdapter();
+
+    await receive(adapter, {
+      source: '+12223334444',
+      timestamp: 1700000009000,
+      dataMessage: { timestamp: 1700000009000, remoteDelete: { timestamp: 1700000000000 } },
+    });
+
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({
+      chatId: '+12223334444',
+      text: '[Message deleted]',
+      messageId: '1700000000000:+12223334444',
+      extraContext: { 'Deleted message': '1700000000000:+12223334444' },
+    }));
+  });
+
+  it('ignores deletes from unapproved users without replying', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', dmPolicy: 'allowlist', allowedUsers: ['+19990000000'] });
+    const onMessage = vi.fn(async () => {});
+    adapter.onMessage = onMessage;
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue(undefined);
+
+    await receive(adapter, {
+      source: '+12223334444',
+      dataMessage: { remoteDelete: { timestamp: 1700000000000 } },
+    });
+
+    expect(onMessage).not.toHaveBeenCalled();
+    expect(rpcSpy).not.toHaveBeenCalled();
+  });
+
+  it('ignores deletes in mention-only groups', async () => {
+    const adapter = new SignalAdapter({
+      phoneNumber: '+15555555555',
+      groups: { '*': { mode: 'mention-only' } },
+    });
+    const onMessage = vi.fn(async () => {});
+    adapter.onMessage = onMessage;
+
+    await receive(adapter, {
+      source: '+12223334444',
+      dataMessage: { groupInfo: { groupId: 'abc123' }, remoteDelete: { timestamp: 1700000000000 } },
+    });
+
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('SignalAdapter contact cards', () => {
+  it('sends contacts as a temporary vcf attachment', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555' });
+    let sentPath = '';
+    let sentCard = '';
+    vi.spyOn(adapter as any, 'rpcRequest').mockImplementation(async (_method, params: any) => {
+      sentPath = params.attachment[0];
+      sentCard = readFileSync(sentPath, 'utf-8');
+      return { timestamp: 5 };
+    });
+
+    const result = await adapter.sendContact({ chatId: '+12223334444', name: 'Ada Lovelace', phone: '+15550102030' });
+
+    expect(result.messageId).toBe('5');
+    expect(sentPath).toMatch(/Ada Lovelace\.vcf$/);
+    expect(sentCard).toContain('FN:Ada Lovelace');
+    expect(existsSync(sentPath)).toBe(false);
+  });
+
+  it('parses shared contacts into extraContext', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', dmPolicy: 'open' });
+    const onMessage = vi.fn(async () => {});
+    adapter.onMessage = onMessage;
+
+    await (adapter as any).handleSseData(JSON.stringify({
+      envelope: {
+        source: '+12223334444',
+        timestamp: 1700000000000,
+        dataMessage: {
+          timestamp: 1700000000000,
+          sharedContacts: [{
+            name: { given: 'Ada', family: 'Lovelace' },
+            phone: [{ value: '+15550102030', type: 'MOBILE' }],
+          }],
+        },
+      },
+    }));
+
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({
+      text: '[Shared a contact]',
+      extraContext: { 'Shared contact': 'Ada Lovelace | +15550102030' },
+    }));
+  });
+});
@@ -5,8 +5,8 @@
  * Based on moltbot's implementation.
  */
 
-import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import { EditLimitError, type ChannelAdapter } from './types.js';
+import type { ContactShare, InboundAttachment, InboundMessage, OutboundContact, OutboundFile, OutboundMessage } from '../core/types.js';
 import { applySignalGroupGating } from './signal/group-gating.js';
 import { resolveDailyLimits, checkDailyLimit } from './group-mode.js';
 import type { DmPolicy } from '../pairing/types.js';
@@ -16,11 +16,13 @@ import {
 import { checkDmAccess } from './shared/access-control.js';
 import { buildAttachmentPath } from './attachments.js';
 import { parseCommand, HELP_TEXT } from '../core/commands.js';
+import { describeSharedContacts } from '../core/display.js';
+import { buildVCard } from '../utils/vcard.js';
 import { spawn, type ChildProcess } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
-import { homedir } from 'node:os';
+import { homedir, tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { copyFile, stat, access } from 'node:fs/promises';
+import { copyFile, stat, access, mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { constants } from 'node:fs';
 import type { GroupModeConfig } from './group-mode.js';
 
@@ -36,6 +38,7 @@ export interface SignalConfig {
   httpPort?: number;          // Daemon HTTP port (default: 8090)
   startupTimeoutMs?: number;  // Max time to wait for daemon startup (default: 30000)
   readReceipts?: boolean;     // Send read receipts for incoming messages (default: true)
+  streaming?: boolean;        // Stream responses via progressive message edits (default: false)
   // Security
   dmPolicy?: DmPolicy;        // 'pairing' (default), 'allowlist', or 'open'
   allowedUsers?: string[];    // Phone numbers (config allowlist)
@@ -48,6 +51,12 @@ export interface SignalConfig {
   agentName?: string;       // For scoping daily limit counters in multi-agent mode
 }
 
+/** Signal clients accept at most 10 edits per message */
+const SIGNAL_MAX_EDITS = 10;
+
+/** Maximum number of messages whose edit counts are tracked */
+const EDIT_TRACKING_MAX = 500;
+
 type SignalRpcResponse<T> = {
   jsonrpc?: string;
   result?: T;
@@ -55,71 +64,65 @@ type SignalRpcResponse<T> = {
   id?: string | number | null;
 };
 
+type SignalDataMessage = {
+  message?: string;
+  timestamp?: number;
+  groupInfo?: {
+    groupId?: string;
+    groupName?: string;
+  };
+  attachments?: Array<{
+    contentType?: string;
+    filename?: string;
+    id?: string;
+    size?: number;
+    width?: number;
+    height?: number;
+    caption?: string;
+  }>;
+  mentions?: Array<{
+    start?: number;
+    length?: number;
+    uuid?: string;
+    number?: string;
+  }>;
+  quote?: {
+    id?: number;
+    author?: string;
+    authorUuid?: string;
+    text?: string;
+  };
+  remoteDelete?: {
+    timestamp?: number;
+  };
+  sharedContacts?: SignalSharedContact[];
+};
+
+/** Contact card as reported by signal-cli */
+type SignalSharedContact = {
+  name?: { display?: string; given?: string; family?: string };
+  phone?: Array<{ value?: string }>;
+  email?: Array<{ value?: string }>;
+};
+
+/** An edit carries the full replacement message plus the original's timestamp */
+type SignalEditMessage = {
+  targetSentTimestamp?: number;
+  dataMessage?: SignalDataMessage;
+};
+
 type SignalSseEvent = {
   envelope?: {
     source?: string;
     sourceUuid?: string;
     timestamp?: number;
-    dataMessage?: {
-      message?: string;
-      timestamp?: number;
-      groupInfo?: {
-        groupId?: string;
-        groupName?: string;
-      };
-      attachments?: Array<{
-        contentType?: string;
-        filename?: string;
-        id?: string;
-        size?: number;
-        width?: number;
-        height?: number;
-        caption?: string;
-      }>;
-      mentions?: Array<{
-        start?: number;
-        length?: number;
-        uuid?: string;
-        number?: string;
-      }>;
-      quote?: {
-        id?: number;
-        author?: string;
-        authorUuid?: string;
-        text?: string;
-      };
-    };
+    dataMessage?: SignalDataMessage;
+    editMessage?: SignalEditMessage;
     syncMessage?: {
-      sentMessage?: {
+      sentMessage?: SignalDataMessage & {
         destination?: string;
         destinationUuid?: string;
-        message?: string;
-        timestamp?: number;
-        groupInfo?: {
-          groupId?: string;
-          groupName?: string;
-        };
-        attachments?: Array<{
-          contentType?: string;
-          filename?: string;
-          id?: string;
-          size?: number;
-          width?: number;
-          height?: number;
-          caption?: string;
-        }>;
-        mentions?: Array<{
-          start?: number;
-          length?: number;
-          uuid?: string;
-          number?: string;
-        }>;
-        quote?: {
-          id?: number;
-          author?: string;
-          authorUuid?: string;
-          text?: string;
-        };
+        editMessage?: SignalEditMessage;
       };
     };
     typingMessage?: {
@@ -128,6 +131,37 @@ type SignalSseEvent = {
   };
 };
 
+/**
+ * Parse the Signal timestamp from a message ID.
+ * Outbound IDs are plain timestamps; inbound IDs are "timestamp:author".
+ */
+function parseSignalTimestamp(messageId: string): number {
+  const colonIdx = messageId.indexOf(':');
+  const timestamp = Number(colonIdx === -1 ? messageId : messageId.slice(0, colonIdx));
+  if (!Number.isSafeInteger(timestamp) || timestamp <= 0) {
+    throw new Error(`Signal: invalid message ID "${messageId}" (expected a timestamp)`);
+  }
+  return timestamp;
+}
+
+/**
+ * Convert a signal-cli shared contact; null when it has no usable fields.
+ */
+function toContactShare(contact: SignalSharedContact): ContactShare | null {
+  const phone = contact.phone?.find(p => p.value)?.value;
+  const email = contact.email?.find(e => e.value)?.value;
+  const name = contact.name?.display
+    || [contact.name?.given, contact.name?.family].filter(Boolean).join(' ')
+    || phone
+    || email;
+  if (!name) return null;
+  return {
+    name,
+    ...(phone ? { phone } : {}),
+    ...(email ? { email } : {}),
+  };
+}
+
 /**
  * Wait for a file to exist on disk with exponential backoff.
  * Signal-cli may still be downloading attachments when the SSE event fires.
@@ -164,9 +198,12 @@ export class SignalAdapter implements ChannelAdapter {
   private daemonProcess: ChildProcess | null = null;
   private sseAbortController: AbortController | null = null;
   private baseUrl: string;
+  // Edits sent per message ("chatId:timestamp"), oldest first
+  private editCounts = new Map<string, number>();
   
   onMessage?: (msg: InboundMessage) => Promise<void>;
   onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  isAddressed?: (text: string) => boolean;
   
   constructor(config: SignalConfig) {
     this.config = {
@@ -221,6 +258,8 @@ This code expires in 1 hour.`;
     
     log.info('Stopping adapter...');
     
+    this.editCounts.clear();
+    
     // Stop SSE loop
     this.sseAbortController?.abort();
     this.sseAbortController = null;
@@ -277,6 +316,15 @@ This code expires in 1 hour.`;
       // Direct message - recipient is a phone number or UUID
       params.recipient = [target];
     }
+
+    // Quote a message: inbound IDs are "timestamp:author", our own are plain timestamps
+    if (msg.replyToMessageId) {
+      const colonIdx = msg.replyToMessageId.indexOf(':');
+      params['quote-timestamp'] = parseSignalTimestamp(msg.replyToMessageId);
+      params['quote-author'] = colonIdx === -1
+        ? this.config.phoneNumber
+        : msg.replyToMessageId.slice(colonIdx + 1);
+    }
     
     const result = await this.rpcRequest<{ timestamp?: number }>('send', params);
     const timestamp = result?.timestamp;
@@ -316,6 +364,22 @@ This code expires in 1 hour.`;
     };
   }
 
+  /**
+   * Send a contact card as a .vcf attachment (signal-cli cannot send
+   * native shared contacts).
+   */
+  async sendContact(contact: OutboundContact): Promise<{ messageId: string }> {
+    const dir = await mkdtemp(join(tmpdir(), 'lettabot-contact-'));
+    const fileName = `${contact.name.replace(/[^\w .-]/g, '').trim() || 'contact'}.vcf`;
+    const filePath = join(dir, fileName);
+    try {
+      await writeFile(filePath, buildVCard(contact));
+      return await this.sendFile({ chatId: contact.chatId, filePath });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
   getDmPolicy(): string {
     return this.config.dmPolicy || 'pairing';
   }
@@ -324,16 +388,59 @@ This code expires in 1 hour.`;
     return {
       supportsReactions: true,
       supportsFiles: false,
+      supportsEdits: true,
+      supportsDeletes: true,
+      supportsReplies: true,
+      supportsBreaks: true,
       formatHint: 'ONLY: *bold* _italic_ `code` — NO: headers, code fences, links, quotes, tables',
     };
   }
 
   supportsEditing(): boolean {
-    return false;
+    return this.config.streaming ?? false;
   }
   
-  async editMessage(_chatId: string, _messageId: string, _text: string): Promise<void> {
-    // Signal doesn't support editing messages - no-op
+  /**
+   * Edit a message we sent. Signal edits always point at the original
+   * timestamp, so the message ID stays stable across edits.
+   *
+   * Signal clients ignore more than 10 edits per message. Streaming checks
+   * remainingEdits() to keep the last one for the finished text; if the budget
+   * is spent anyway, editMessage throws an EditLimitError and the caller sends
+   * the text as a new message instead.
+   */
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    const targetTimestamp = parseSignalTimestamp(messageId);
+    const key = `${chatId}:${targetTimestamp}`;
+    const count = this.editCounts.get(key) ?? 0;
+    if (count >= SIGNAL_MAX_EDITS) {
+      throw new EditLimitError(`Signal edit limit reached for message ${targetTimestamp}`);
+    }
+
+    this.editCounts.set(key, count + 1);
+    this.pruneEditCounts();
+    await this.sendEdit(chatId, targetTimestamp, text);
+  }
+
+  remainingEdits(chatId: string, messageId: string): number {
+    const key = `${chatId}:${parseSignalTimestamp(messageId)}`;
+    return SIGNAL_MAX_EDITS - (this.editCounts.get(key) ?? 0);
+  }
+
+  /**
+   * Delete a message we sent for everyone in the chat (remote delete).
+   */
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    const targetTimestamp = parseSignalTimestamp(messageId);
+
+    this.editCounts.delete(`${chatId}:${targetTimestamp}`);
+
+    const params: Record<string, unknown> = {
+      targetTimestamp,
+    };
+    this.addTarget(params, chatId);
+
+    await this.rpcRequest('remoteDelete', params);
   }
 
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
@@ -397,6 +504,42 @@ This code expires in 1 hour.`;
   
   // --- Private methods ---
 
+  private async sendEdit(chatId: string, targetTimestamp: number, text: string): Promise<void> {
+    const { markdownToSignal, formatStylesForCli } = await import('./signal-format.js');
+    const formatted = markdownToSignal(text);
+
+    const params: Record<string, unknown> = {
+      message: formatted.text,
+      editTimestamp: targetTimestamp,
+    };
+    if (formatted.styles.length > 0) {
+      params['text-style'] = formatStylesForCli(formatted.styles);
+    }
+    this.addTarget(params, chatId);
+
+    await this.rpcRequest('send', params);
+  }
+
+  /**
+   * Add account and recipient/groupId params for a chat ID.
+   */
+  private addTarget(params: Record<string, unknown>, chatId: string): void {
+    if (this.config.phoneNumber) {
+      params.account = this.config.phoneNumber;
+    }
+    if (chatId.startsWith('group:')) {
+      params.groupId = chatId.slice('group:'.length);
+    } else {
+      params.recipient = [chatId === 'note-to-self' ? this.config.phoneNumber : chatId];
+    }
+  }
+
+  private pruneEditCounts(): void {
+    while (this.editCounts.size > EDIT_TRACKING_MAX) {
+      this.editCounts.delete(this.editCounts.keys().next().value!);
+    }
+  }
+
   private buildDaemonArgs(): string[] {
     const args: string[] = [];
 
@@ -594,15 +737,28 @@ This code expires in 1 hour.`;
       if (!envelope) return;
       
       // Debug: log when we receive any message
-      if (envelope.dataMessage || envelope.syncMessage) {
+      if (envelope.dataMessage || envelope.editMessage || envelope.syncMessage) {
         log.info('Received envelope:', JSON.stringify(envelope, null, 2));
       }
       
       // Handle incoming data messages (from others)
-      const dataMessage = envelope.dataMessage;
+      let dataMessage = envelope.dataMessage;
       
       // Handle sync messages (Note to Self, messages we sent from another device)
-      const syncMessage = envelope.syncMessage?.sentMessage;
+      let syncMessage = envelope.syncMessage?.sentMessage;
+      
+      // Edits wrap a full replacement message; unwrap it and remember the original
+      let editTargetTimestamp: number | undefined;
+      if (!dataMessage && envelope.editMessage?.dataMessage) {
+        dataMessage = envelope.editMessage.dataMessage;
+        editTargetTimestamp = envelope.editMessage.targetSentTimestamp;
+      } else if (syncMessage?.editMessage?.dataMessage) {
+        editTargetTimestamp = syncMessage.editMessage.targetSentTimestamp;
+        syncMessage = { ...syncMessage, ...syncMessage.editMessage.dataMessage };
+      }
+      
+      // Remote deletes ("delete for everyone") only carry the deleted message's timestamp
+      const deleteTargetTimestamp = dataMessage?.remoteDelete?.timestamp ?? syncMessage?.remoteDelete?.timestamp;
       
       // Get the message text and source from either type
       let messageText: string | undefined;
@@ -610,25 +766,30 @@ This code expires in 1 hour.`;
       let chatId: string | undefined;
       let groupInfo: { groupId?: string; groupName?: string } | undefined;
       let attachments: Array<{ contentType?: string; filename?: string; id?: string }> | undefined;
+      let sharedContacts: SignalSharedContact[] | undefined;
       
-      if (dataMessage?.message || dataMessage?.attachments?.length) {
+      if (dataMessage?.message || dataMessage?.attachments?.length || dataMessage?.remoteDelete
+        || dataMessage?.sharedContacts?.length) {
         // Regular incoming message
         messageText = dataMessage.message;
         source = envelope.source || envelope.sourceUuid;
         groupInfo = dataMessage.groupInfo;
         attachments = dataMessage.attachments;
+        sharedContacts = dataMessage.sharedContacts;
         
         if (groupInfo?.groupId) {
           chatId = `group:${groupInfo.groupId}`;
         } else {
           chatId = source;
         }
-      } else if (syncMessage?.message || syncMessage?.attachments?.length) {
+      } else if (syncMessage?.message || syncMessage?.attachments?.length || syncMessage?.remoteDelete
+        || syncMessage?.sharedContacts?.length) {
         // Sync message (Note to Self or sent from another device)
         messageText = syncMessage.message;
         source = syncMessage.destination || syncMessage.destinationUuid;
         groupInfo = syncMessage.groupInfo;
         attachments = syncMessage.attachments;
+        sharedContacts = syncMessage.sharedContacts;
         
         // For Note to Self, destination is our own number
         const isNoteToSelf = source === this.config.phoneNumber || 
@@ -649,6 +810,11 @@ This code expires in 1 hour.`;
         return;
       }
       
+      if (deleteTargetTimestamp) {
+        await this.handleRemoteDelete(chatId, source, groupInfo, deleteTargetTimestamp);
+        return;
+      }
+      
       // Handle voice message attachments
       // Log all attachments for debugging
       if (attachments?.length) {
@@ -751,6 +917,12 @@ This code expires in 1 hour.`;
       if (!messageText && voiceAttachment?.id) {
         messageText = '[Voice message received]';
       }
+      const contacts = (sharedContacts ?? [])
+        .map(toContactShare)
+        .filter((contact): contact is ContactShare => contact !== null);
+      if (!messageText && contacts.length > 0) {
+        messageText = contacts.length === 1 ? '[Shared a contact]' : `[Shared ${contacts.length} contacts]`;
+      }
       if (!messageText && collectedAttachments.length === 0) {
         return;
       }
@@ -805,8 +977,8 @@ This code expires in 1 hour.`;
         }
       }
       
-      // Handle slash commands
-      const parsed = parseCommand(messageText);
+      // Handle slash commands (edits are never treated as commands)
+      const parsed = editTargetTimestamp ? null : parseCommand(messageText);
       if (parsed) {
         if (parsed.command === 'help' || parsed.command === 'start') {
           await this.sendMessage({ chatId, text: HELP_TEXT });
@@ -837,7 +1009,8 @@ This code expires in 1 hour.`;
           mentionPatterns: this.config.mentionPatterns,
         });
         
-        if (!gatingResult.shouldProcess) {
+        const addressed = gatingResult.reason === 'mention-required' && !!this.isAddressed?.(messageText || '');
+        if (!gatingResult.shouldProcess && !addressed) {
           log.info(`Group message filtered: ${gatingResult.reason}`);
           return;
         }
@@ -861,12 +1034,14 @@ This code expires in 1 hour.`;
       
       // Signal uses timestamps as message IDs. Encode as "timestamp:author" so
       // addReaction() can extract the target-author for sendReaction.
+      // Edits keep the original message's ID (reactions and replies target it).
       const signalTimestamp = envelope.timestamp || Date.now();
+      const messageId = `${editTargetTimestamp ?? signalTimestamp}:${source}`;
       const msg: InboundMessage = {
         channel: 'signal',
         chatId,
         userId: source,
-        messageId: `${signalTimestamp}:${source}`,
+        messageId,
         text: messageText || '',
         timestamp: new Date(signalTimestamp),
         isGroup,
@@ -875,6 +1050,12 @@ This code expires in 1 hour.`;
         isListeningMode,
         attachments: collectedAttachments.length > 0 ? collectedAttachments : undefined,
         formatterHints: this.getFormatterHints(),
+        extraContext: editTargetTimestamp || contacts.length > 0
+          ? {
+            ...(editTargetTimestamp ? { 'Edited message': messageId } : {}),
+            ...describeSharedContacts(contacts),
+          }
+          : undefined,
       };
       
       this.onMessage?.(msg).catch((err) => {
@@ -886,6 +1067,67 @@ This code expires in 1 hour.`;
     }
   }
   
+  /**
+   * Forward a remote delete to the agent. Unlike regular messages, deletes
+   * never trigger pairing replies, and mention-only groups ignore them.
+   */
+  private async handleRemoteDelete(
+    chatId: string,
+    source: string,
+    groupInfo: { groupId?: string; groupName?: string } | undefined,
+    targetTimestamp: number,
+  ): Promise<void> {
+    const isGroup = chatId.startsWith('group:');
+    let isListeningMode = false;
+    
+    if (chatId === 'note-to-self') {
+      if (!this.config.selfChatMode) return;
+    } else if (isGroup && groupInfo?.groupId) {
+      const gatingResult = applySignalGroupGating({
+        text: '',
+        groupId: groupInfo.groupId,
+        senderId: source,
+        selfPhoneNumber: this.config.phoneNumber,
+        groupsConfig: this.config.groups,
+        mentionPatterns: this.config.mentionPatterns,
+      });
+      if (!gatingResult.shouldProcess) {
+        log.info(`Group delete filtered: ${gatingResult.reason}`);
+        return;
+      }
+      
+      const groupKeys = [groupInfo.groupId, `group:${groupInfo.groupId}`];
+      const limits = resolveDailyLimits(this.config.groups, groupKeys);
+      const counterKey = `${this.config.agentName ?? ''}:signal:${limits.matchedKey ?? groupInfo.groupId}`;
+      const limitResult = checkDailyLimit(counterKey, source, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+      isListeningMode = gatingResult.mode === 'listen';
+    } else if (await this.checkAccess(source) !== 'allowed') {
+      log.info(`Ignoring delete from unapproved user: ${source}`);
+      return;
+    }
+    
+    const messageId = `${targetTimestamp}:${source}`;
+    this.onMessage?.({
+      channel: 'signal',
+      chatId,
+      userId: source,
+      messageId,
+      text: '[Message deleted]',
+      timestamp: new Date(),
+      isGroup,
+      groupName: groupInfo?.groupName,
+      isListeningMode,
+      formatterHints: this.getFormatterHints(),
+      extraContext: { 'Deleted message': messageId },
+    }).catch((err) => {
+      log.error('Error handling delete:', err);
+    });
+  }
+  
   private async rpcRequest<T = unknown>(
     method: string,
     params: Record<string, unknown>,
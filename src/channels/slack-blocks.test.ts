@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildApprovalBlocks,
+  buildPollBlocks,
+  buildQuestionBlocks,
+  buildResolvedBlocks,
+  decodeSlackInteraction,
+} from './slack-blocks.js';
+
+describe('buildApprovalBlocks', () => {
+  it('shows the tool name and escaped arguments with Approve/Deny buttons', () => {
+    const blocks = buildApprovalBlocks({ toolCallId: 'call-1', toolName: 'shell', arguments: '{"cmd":"a < b"}' }) as any[];
+
+    expect(blocks[0].text.text).toContain('`shell`');
+    expect(blocks[0].text.text).toContain('a &lt; b');
+    expect(blocks[1].elements.map((e: any) => [e.action_id, e.value])).toEqual([
+      ['lettabot_approve', 'call-1'],
+      ['lettabot_deny', 'call-1'],
+    ]);
+  });
+});
+
+describe('buildQuestionBlocks', () => {
+  const options = [
+    { label: 'Option A', description: 'First approach' },
+    { label: 'Option B', description: 'Second approach' },
+  ];
+
+  it('renders a single short single-select question as buttons', () => {
+    const blocks = buildQuestionBlocks([{ question: 'Which?', header: 'H', options, multiSelect: false }]) as any[];
+
+    expect(blocks[0].text.text).toContain('*Which?*');
+    expect(blocks[0].text.text).toContain('*Option A*: First approach');
+    expect(blocks[1].type).toBe('actions');
+    expect(blocks[1].elements.map((e: any) => e.value)).toEqual(['Option A', 'Option B']);
+    expect(blocks.some(b => b.elements?.some((e: any) => e.action_id === 'lettabot_submit'))).toBe(false);
+  });
+
+  it('uses select menus and a Submit button for multiple or multi-select questions', () => {
+    const blocks = buildQuestionBlocks([
+      { question: 'Q1?', header: 'H1', options, multiSelect: false },
+      { question: 'Q2?', header: 'H2', options, multiSelect: true },
+    ]) as any[];
+
+    expect(blocks[0].block_id).toBe('lettabot_q_0');
+    expect(blocks[0].accessory.type).toBe('static_select');
+    expect(blocks[1].accessory.type).toBe('multi_static_select');
+    expect(blocks[1].accessory.action_id).toBe('lettabot_select_1');
+    expect(blocks[2].elements[0].action_id).toBe('lettabot_submit');
+  });
+
+  it('truncates option labels to Slack limits', () => {
+    const long = 'x'.repeat(200);
+    const blocks = buildQuestionBlocks([
+      { question: 'Q?', header: 'H', options: [{ label: long, description: '' }], multiSelect: true },
+    ]) as any[];
+
+    const option = blocks[0].accessory.options[0];
+    expect(option.text.text.length).toBeLessThanOrEqual(75);
+    expect(option.value.length).toBeLessThanOrEqual(150);
+  });
+});
+
+describe('buildPollBlocks', () => {
+  it('renders one button per option and shows vote counts', () => {
+    const blocks = buildPollBlocks({ question: 'Lunch?', options: ['Pizza', 'Sushi'] }, [2, 0]) as any[];
+
+    expect(blocks[0].text.text).toBe('*Lunch?*\n• Pizza: *2*\n• Sushi');
+    expect(blocks[1].elements.map((e: any) => [e.action_id, e.value])).toEqual([
+      ['lettabot_poll_0', '0'],
+      ['lettabot_poll_1', '1'],
+    ]);
+    expect(blocks[2].elements[0].text).toBe('Choose one.');
+  });
+});
+
+describe('decodeSlackInteraction', () => {
+  it('decodes approve and deny buttons', () => {
+    expect(decodeSlackInteraction({ action_id: 'lettabot_approve', value: 'call-1' }))
+      .toEqual({ kind: 'approval', toolCallId: 'call-1', approve: true });
+    expect(decodeSlackInteraction({ action_id: 'lettabot_deny', value: 'call-1' }))
+      .toEqual({ kind: 'approval', toolCallId: 'call-1', approve: false });
+  });
+
+  it('decodes answer buttons', () => {
+    expect(decodeSlackInteraction({ action_id: 'lettabot_answer_1', value: 'Option B' }))
+      .toEqual({ kind: 'answer', answers: ['Option B'], complete: true });
+  });
+
+  it('reads select menu state on submit', () => {
+    const state = {
+      lettabot_q_0: { lettabot_select_0: { selected_option: { value: 'A' } } },
+      lettabot_q_1: { lettabot_select_1: { selected_options: [{ value: 'B' }, { value: 'C' }] } },
+    };
+    const blocks = [{ block_id: 'lettabot_q_0' }, { block_id: 'lettabot_q_1' }];
+
+    expect(decodeSlackInteraction({ action_id: 'lettabot_submit' }, state, blocks))
+      .toEqual({ kind: 'answer', answers: ['A', 'B, C'], complete: true });
+  });
+
+  it('marks submissions with unanswered questions as incomplete', () => {
+    const state = {
+      lettabot_q_0: { lettabot_select_0: { selected_option: { value: 'A' } } },
+    };
+    const blocks = [{ block_id: 'lettabot_q_0' }, { block_id: 'lettabot_q_1' }];
+
+    expect(decodeSlackInteraction({ action_id: 'lettabot_submit' }, state, blocks))
+      .toEqual({ kind: 'answer', answers: ['A', ''], complete: false });
+  });
+
+  it('decodes poll buttons', () => {
+    expect(decodeSlackInteraction({ action_id: 'lettabot_poll_2', value: '2' }))
+      .toEqual({ kind: 'poll', optionIndex: 2 });
+  });
+
+  it('ignores select menu changes', () => {
+    expect(decodeSlackInteraction({ action_id: 'lettabot_select_0' })).toEqual({ kind: 'ignore' });
+  });
+});
+
+describe('buildResolvedBlocks', () => {
+  it('drops controls and appends the summary', () => {
+    const blocks = buildQuestionBlocks([
+      { question: 'Q1?', header: 'H1', options: [{ label: 'A', description: '' }], multiSelect: true },
+    ]);
+
+    const resolved = buildResolvedBlocks(blocks, '<@U1> answered *A*') as any[];
+
+    expect(resolved).toHaveLength(2);
+    expect(resolved[0].accessory).toBeUndefined();
+    expect(resolved[1]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: '<@U1> answered *A*' }] });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Slack Block Kit
+ *
+ * Builds interactive messages for tool approvals, AskUserQuestion and polls, plus
+ * the helpers the adapter uses to decode block_actions payloads received
+ * over Socket Mode.
+ */
+
+import type { types } from '@slack/bolt';
+import type { ApprovalRequest, OutboundPoll, QuestionRequest } from '../core/types.js';
+import { formatApprovalArguments } from '../core/display.js';
+
+type KnownBlock = types.KnownBlock;
+
+/** All interactive elements share this prefix so one handler can match them */
+export const SLACK_ACTION_PREFIX = 'lettabot_';
+
+const APPROVE_ACTION_ID = 'lettabot_approve';
+const DENY_ACTION_ID = 'lettabot_deny';
+const ANSWER_ACTION_PREFIX = 'lettabot_answer_';
+const SELECT_ACTION_PREFIX = 'lettabot_select_';
+const QUESTION_BLOCK_PREFIX = 'lettabot_q_';
+const SUBMIT_ACTION_ID = 'lettabot_submit';
+const POLL_ACTION_PREFIX = 'lettabot_poll_';
+
+/** Slack limits button and option text to 75 characters */
+const MAX_ELEMENT_TEXT = 75;
+
+/** Slack limits option values to 150 characters */
+const MAX_OPTION_VALUE = 150;
+
+/** Slack limits section text to 3000 characters */
+const MAX_SECTION_TEXT = 3000;
+
+/** Single-select questions with up to this many options render as buttons */
+const MAX_BUTTON_OPTIONS = 5;
+
+/** Slack allows at most 100 options in a select menu */
+const MAX_SELECT_OPTIONS = 100;
+
+/** Minimal view of a block_actions element */
+export interface SlackBlockActionElement {
+  action_id: string;
+  value?: string;
+}
+
+/** Minimal view of block_actions state (current select menu values) */
+export type SlackBlockActionState = Record<string, Record<string, {
+  selected_option?: { value: string } | null;
+  selected_options?: Array<{ value: string }>;
+}>>;
+
+/** Decoded meaning of a block action */
+export type SlackInteraction =
+  | { kind: 'approval'; toolCallId: string; approve: boolean }
+  | { kind: 'answer'; answers: string[]; complete: boolean }
+  | { kind: 'poll'; optionIndex: number }
+  | { kind: 'ignore' };
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 3) + '...' : text;
+}
+
+/** Escape text for Slack mrkdwn (&, <, > are control characters) */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function plainText(text: string) {
+  return { type: 'plain_text' as const, text: truncate(text, MAX_ELEMENT_TEXT) };
+}
+
+/**
+ * Build the blocks for one pending tool call with Approve/Deny buttons.
+ */
+export function buildApprovalBlocks(approval: ApprovalRequest): KnownBlock[] {
+  const args = formatApprovalArguments(approval.arguments);
+  const header = `*Tool approval needed:* \`${escapeMrkdwn(approval.toolName)}\``;
+  const text = args ? `${header}\n\`\`\`${escapeMrkdwn(args)}\`\`\`` : header;
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text: truncate(text, MAX_SECTION_TEXT) } },
+    {
+      type: 'actions',
+      elements: [
+        { type: 'button', action_id: APPROVE_ACTION_ID, text: plainText('Approve'), style: 'primary', value: approval.toolCallId },
+        { type: 'button', action_id: DENY_ACTION_ID, text: plainText('Deny'), style: 'danger', value: approval.toolCallId },
+      ],
+    },
+  ];
+}
+
+/**
+ * Build the blocks for AskUserQuestion. A single short single-select
+ * question renders as buttons; anything else uses select menus and a
+ * Submit button.
+ */
+export function buildQuestionBlocks(questions: QuestionRequest[]): KnownBlock[] {
+  const blocks: KnownBlock[] = [];
+  const single = questions.length === 1
+    && !questions[0].multiSelect
+    && questions[0].options.length <= MAX_BUTTON_OPTIONS;
+
+  for (const [i, q] of questions.entries()) {
+    const lines = [`*${escapeMrkdwn(q.question)}*`];
+    for (const option of q.options) {
+      lines.push(option.description
+        ? `• *${escapeMrkdwn(option.label)}*: ${escapeMrkdwn(option.description)}`
+        : `• *${escapeMrkdwn(option.label)}*`);
+    }
+    const text = { type: 'mrkdwn' as const, text: truncate(lines.join('\n'), MAX_SECTION_TEXT) };
+
+    if (single) {
+      blocks.push({ type: 'section', text });
+      blocks.push({
+        type: 'actions',
+        elements: q.options.map((option, j) => ({
+          type: 'button' as const,
+          action_id: `${ANSWER_ACTION_PREFIX}${j}`,
+          text: plainText(option.label),
+          value: truncate(option.label, MAX_OPTION_VALUE),
+        })),
+      });
+      continue;
+    }
+
+    const options = q.options.slice(0, MAX_SELECT_OPTIONS).map(option => ({
+      text: plainText(option.label),
+      value: truncate(option.label, MAX_OPTION_VALUE),
+    }));
+    const placeholder = plainText(q.multiSelect ? 'Choose one or more' : 'Choose one');
+    blocks.push({
+      type: 'section',
+      block_id: `${QUESTION_BLOCK_PREFIX}${i}`,
+      text,
+      accessory: q.multiSelect
+        ? { type: 'multi_static_select', action_id: `${SELECT_ACTION_PREFIX}${i}`, placeholder, options }
+        : { type: 'static_select', action_id: `${SELECT_ACTION_PREFIX}${i}`, placeholder, options },
+    });
+  }
+
+  if (!single) {
+    blocks.push({
+      type: 'actions',
+      elements: [{ type: 'button', action_id: SUBMIT_ACTION_ID, text: plainText('Submit'), style: 'primary', value: 'submit' }],
+    });
+  }
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: 'Or reply with your own answer.' }],
+  });
+  return blocks;
+}
+
+/**
+ * Build the blocks for a poll: the question with per-option vote counts and
+ * one button per option. Buttons stay in place so votes can be changed.
+ */
+export function buildPollBlocks(
+  poll: Pick<OutboundPoll, 'question' | 'options' | 'multiple'>,
+  counts: number[] = [],
+): KnownBlock[] {
+  const lines = [`*${escapeMrkdwn(poll.question)}*`];
+  for (const [j, option] of poll.options.entries()) {
+    const count = counts[j] ?? 0;
+    lines.push(count > 0
+      ? `• ${escapeMrkdwn(option)}: *${count}*`
+      : `• ${escapeMrkdwn(option)}`);
+  }
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text: truncate(lines.join('\n'), MAX_SECTION_TEXT) } },
+    {
+      type: 'actions',
+      elements: poll.options.map((option, j) => ({
+        type: 'button' as const,
+        action_id: `${POLL_ACTION_PREFIX}${j}`,
+        text: plainText(option),
+        value: String(j),
+      })),
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: poll.multiple ? 'Choose one or more.' : 'Choose one.' }],
+    },
+  ];
+}
+
+/**
+ * Decode a block action. Select menu changes are ignored; the Submit button
+ * reads every menu's current value from the payload state. Untouched menus
+ * may be missing from state, so the question count comes from the message.
+ */
+export function decodeSlackInteraction(
+  action: SlackBlockActionElement,
+  state?: SlackBlockActionState,
+  messageBlocks: Array<{ block_id?: string }> = [],
+): SlackInteraction {
+  const actionId = action.action_id;
+  if (actionId === APPROVE_ACTION_ID || actionId === DENY_ACTION_ID) {
+    if (!action.value) return { kind: 'ignore' };
+    return { kind: 'approval', toolCallId: action.value, approve: actionId === APPROVE_ACTION_ID };
+  }
+  if (actionId.startsWith(POLL_ACTION_PREFIX)) {
+    const optionIndex = Number(actionId.slice(POLL_ACTION_PREFIX.length));
+    if (!Number.isInteger(optionIndex) || optionIndex < 0) return { kind: 'ignore' };
+    return { kind: 'poll', optionIndex };
+  }
+  if (actionId.startsWith(ANSWER_ACTION_PREFIX)) {
+    return { kind: 'answer', answers: [action.value ?? ''], complete: true };
+  }
+  if (actionId === SUBMIT_ACTION_ID) {
+    const questionCount = messageBlocks.filter(b => b.block_id?.startsWith(QUESTION_BLOCK_PREFIX)).length;
+    const answers: string[] = new Array(questionCount).fill('');
+    for (const [blockId, values] of Object.entries(state ?? {})) {
+      if (!blockId.startsWith(QUESTION_BLOCK_PREFIX)) continue;
+      const index = Number(blockId.slice(QUESTION_BLOCK_PREFIX.length));
+      const value = values[`${SELECT_ACTION_PREFIX}${index}`];
+      const selected = value?.selected_options?.map(o => o.value).join(', ')
+        || value?.selected_option?.value
+        || '';
+      answers[index] = selected;
+    }
+    const filled = Array.from(answers, a => a ?? '');
+    return { kind: 'answer', answers: filled, complete: filled.length > 0 && filled.every(Boolean) };
+  }
+  return { kind: 'ignore' };
+}
+
+/**
+ * Replace the interactive parts of a message with a summary line:
+ * actions blocks are dropped and select menus removed from sections.
+ */
+export function buildResolvedBlocks(blocks: KnownBlock[], summary: string): KnownBlock[] {
+  const resolved: KnownBlock[] = [];
+  for (const block of blocks) {
+    if (block.type === 'actions' || block.type === 'context') continue;
+    if (block.type === 'section' && block.accessory) {
+      const { accessory: _accessory, ...rest } = block;
+      resolved.push(rest);
+      continue;
+    }
+    resolved.push(block);
+  }
+  resolved.push({ type: 'context', elements: [{ type: 'mrkdwn', text: summary }] });
+  return resolved;
+}
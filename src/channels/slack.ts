@@ -4,13 +4,24 @@
  * Uses @slack/bolt for Slack API with Socket Mode.
  */
 
+import type { types } from '@slack/bolt';
 import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { ApprovalDecisionResult, ApprovalRequest, InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage, OutboundPoll, QuestionRequest } from '../core/types.js';
 import { createReadStream } from 'node:fs';
 import { basename } from 'node:path';
 import { buildAttachmentPath, downloadToFile } from './attachments.js';
 import { parseCommand, HELP_TEXT } from '../core/commands.js';
 import { markdownToSlackMrkdwn } from './slack-format.js';
+import {
+  SLACK_ACTION_PREFIX,
+  buildApprovalBlocks,
+  buildPollBlocks,
+  buildQuestionBlocks,
+  buildResolvedBlocks,
+  decodeSlackInteraction,
+  type SlackBlockActionElement,
+  type SlackBlockActionState,
+} from './slack-blocks.js';
 import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupMode, type GroupModeConfig } from './group-mode.js';
 
 import { EMOJI_ALIASES } from './shared/emoji.js';
@@ -41,9 +52,14 @@ export class SlackAdapter implements ChannelAdapter {
   private running = false;
   private attachmentsDir?: string;
   private attachmentsMaxBytes?: number;
+  // Polls posted by the bot (message ts -> options and per-user votes)
+  private sentPolls: Map<string, { question: string; options: string[]; multiple: boolean; votes: Map<string, Set<number>> }> = new Map();
   
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean, threadId?: string) => Promise<string | null>;
+  onApprovalDecision?: (toolCallId: string, approve: boolean, chatId?: string, forcePerChat?: boolean, threadId?: string) => Promise<ApprovalDecisionResult>;
+  onQuestionAnswer?: (answers: string[], chatId?: string, forcePerChat?: boolean, threadId?: string) => Promise<string>;
+  isAddressed?: (text: string) => boolean;
   
   constructor(config: SlackConfig) {
     this.config = config;
@@ -122,7 +138,7 @@ export class SlackAdapter implements ChannelAdapter {
         if (parsed.command === 'help' || parsed.command === 'start') {
           await say(await markdownToSlackMrkdwn(HELP_TEXT));
         } else if (this.onCommand) {
-          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined);
+          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined, undefined, message.thread_ts);
           if (result) await say(await markdownToSlackMrkdwn(result));
         }
         return; // Don't pass commands to agent
@@ -150,7 +166,7 @@ export class SlackAdapter implements ChannelAdapter {
           if (mode === 'disabled') {
             return; // Groups disabled for this channel -- silent drop
           }
-          if (mode === 'mention-only') {
+          if (mode === 'mention-only' && !this.isAddressed?.(text)) {
             // Non-mention message in channel that requires mentions.
             // The app_mention handler will process actual @mentions.
             return;
@@ -249,7 +265,7 @@ export class SlackAdapter implements ChannelAdapter {
         if (parsed.command === 'help' || parsed.command === 'start') {
           await this.sendMessage({ chatId: channelId, text: HELP_TEXT, threadId: threadTs });
         } else if (this.onCommand) {
-          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined);
+          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined, undefined, event.thread_ts);
           if (result) await this.sendMessage({ chatId: channelId, text: result, threadId: threadTs });
         }
         return; // Don't pass commands to agent
@@ -297,6 +313,12 @@ export class SlackAdapter implements ChannelAdapter {
     this.app.event('reaction_removed', async ({ event }) => {
       await this.handleReactionEvent(event as SlackReactionEvent, 'removed');
     });
+
+    // Block Kit buttons and menus (tool approvals, AskUserQuestion, polls)
+    this.app.action(new RegExp(`^${SLACK_ACTION_PREFIX}`), async ({ ack, body, action }) => {
+      await ack();
+      await this.handleBlockAction(body as SlackBlockActionBody, action as SlackBlockActionElement);
+    });
     
     log.info('Connecting via Socket Mode...');
     await this.app.start();
@@ -364,6 +386,62 @@ export class SlackAdapter implements ChannelAdapter {
     });
   }
 
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.app) throw new Error('Slack not started');
+    await this.app.client.chat.delete({ channel: chatId, ts: messageId });
+  }
+
+  /**
+   * Post one Block Kit message per pending tool call with Approve/Deny buttons.
+   */
+  async sendApprovalRequest(chatId: string, approvals: ApprovalRequest[], threadId?: string): Promise<void> {
+    if (!this.app) throw new Error('Slack not started');
+    for (const approval of approvals) {
+      await this.app.client.chat.postMessage({
+        channel: chatId,
+        text: `Tool approval needed: ${approval.toolName}`,
+        blocks: buildApprovalBlocks(approval),
+        thread_ts: threadId,
+      });
+    }
+  }
+
+  /**
+   * Post AskUserQuestion options as buttons or select menus.
+   */
+  async sendQuestionRequest(chatId: string, questions: QuestionRequest[], threadId?: string): Promise<void> {
+    if (!this.app) throw new Error('Slack not started');
+    await this.app.client.chat.postMessage({
+      channel: chatId,
+      text: questions.map(q => q.question).join('\n'),
+      blocks: buildQuestionBlocks(questions),
+      thread_ts: threadId,
+    });
+  }
+
+  /**
+   * Post a poll as Block Kit buttons. Slack has no native polls, so votes
+   * are tallied here (in memory) and the counts shown by updating the message.
+   */
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    if (!this.app) throw new Error('Slack not started');
+    const result = await this.app.client.chat.postMessage({
+      channel: poll.chatId,
+      text: poll.question,
+      blocks: buildPollBlocks(poll),
+      thread_ts: poll.threadId,
+    });
+    const ts = result.ts || '';
+    if (ts) {
+      this.sentPolls.set(ts, { question: poll.question, options: poll.options, multiple: !!poll.multiple, votes: new Map() });
+      if (this.sentPolls.size > SENT_POLL_CACHE_MAX) {
+        const oldest = this.sentPolls.keys().next().value;
+        if (oldest) this.sentPolls.delete(oldest);
+      }
+    }
+    return { messageId: ts };
+  }
+
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
     if (!this.app) throw new Error('Slack not started');
     const name = resolveSlackEmojiName(emoji);
@@ -385,6 +463,9 @@ export class SlackAdapter implements ChannelAdapter {
     return {
       supportsReactions: true,
       supportsFiles: true,
+      supportsEdits: true,
+      supportsDeletes: true,
+      supportsBreaks: true,
       formatHint: 'Slack mrkdwn: *bold* _italic_ `code` <URL|text> — NO standard markdown headers',
     };
   }
@@ -404,6 +485,137 @@ export class SlackAdapter implements ChannelAdapter {
     // This is a no-op
   }
 
+  /**
+   * Resolve a tool approval or question answer from a Block Kit interaction,
+   * then replace the controls with who answered and what they chose.
+   */
+  private async handleBlockAction(body: SlackBlockActionBody, action: SlackBlockActionElement): Promise<void> {
+    if (!this.app) return;
+    const userId = body.user?.id || '';
+    const channelId = body.channel?.id;
+    const message = body.message;
+    if (!userId || !channelId || !message) return;
+
+    const interaction = decodeSlackInteraction(action, body.state?.values, message.blocks);
+    if (interaction.kind === 'ignore') return;
+
+    if (this.config.allowedUsers && this.config.allowedUsers.length > 0) {
+      if (!this.config.allowedUsers.includes(userId)) return;
+    }
+    if (!channelId.startsWith('D')) {
+      if (!this.isChannelAllowed(channelId) || this.resolveChannelMode(channelId) === 'disabled') return;
+      if (!isGroupUserAllowed(this.config.groups, [channelId], userId)) return;
+    }
+
+    if (interaction.kind === 'poll') {
+      await this.handlePollVote(channelId, userId, message, interaction.optionIndex);
+      return;
+    }
+
+    let summary: string;
+    if (interaction.kind === 'approval') {
+      if (!this.onApprovalDecision) return;
+      const result = await this.onApprovalDecision(interaction.toolCallId, interaction.approve, channelId, undefined, message.thread_ts);
+      if (!result.applied) {
+        // Keep the controls while sibling calls are undecided or the submit failed
+        await this.app.client.chat.postEphemeral({
+          channel: channelId,
+          user: userId,
+          text: result.text,
+          thread_ts: message.thread_ts,
+        });
+        return;
+      }
+      summary = `*${interaction.approve ? 'Approve' : 'Deny'}* by <@${userId}> ${result.text}`;
+    } else {
+      if (!this.onQuestionAnswer) return;
+      if (!interaction.complete) {
+        await this.app.client.chat.postEphemeral({
+          channel: channelId,
+          user: userId,
+          text: 'Answer every question before submitting.',
+          thread_ts: message.thread_ts,
+        });
+        return;
+      }
+      const result = await this.onQuestionAnswer(interaction.answers, channelId, undefined, message.thread_ts);
+      summary = `<@${userId}> answered *${interaction.answers.join(' / ')}* ${result}`;
+    }
+
+    try {
+      await this.app.client.chat.update({
+        channel: channelId,
+        ts: message.ts,
+        text: summary,
+        blocks: buildResolvedBlocks(message.blocks ?? [], summary),
+      });
+    } catch (err) {
+      log.warn('Failed to update interactive message:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  /**
+   * Record a poll button click. Single-choice polls replace the user's vote;
+   * multiple-choice polls toggle the clicked option. Clicking the current
+   * single choice again retracts it.
+   */
+  private async handlePollVote(
+    channelId: string,
+    userId: string,
+    message: NonNullable<SlackBlockActionBody['message']>,
+    optionIndex: number,
+  ): Promise<void> {
+    if (!this.app) return;
+    const poll = this.sentPolls.get(message.ts);
+    if (!poll || optionIndex >= poll.options.length) return;
+
+    const selected = new Set(poll.votes.get(userId));
+    if (selected.has(optionIndex)) {
+      selected.delete(optionIndex);
+    } else {
+      if (!poll.multiple) selected.clear();
+      selected.add(optionIndex);
+    }
+    if (selected.size > 0) {
+      poll.votes.set(userId, selected);
+    } else {
+      poll.votes.delete(userId);
+    }
+
+    const counts = poll.options.map((_, j) =>
+      [...poll.votes.values()].filter(votes => votes.has(j)).length);
+    try {
+      await this.app.client.chat.update({
+        channel: channelId,
+        ts: message.ts,
+        text: poll.question,
+        blocks: buildPollBlocks(poll, counts),
+      });
+    } catch (err) {
+      log.warn('Failed to update poll message:', err instanceof Error ? err.message : err);
+    }
+
+    const options = [...selected].sort((a, b) => a - b).map(j => poll.options[j]);
+    await this.onMessage?.({
+      channel: 'slack',
+      chatId: channelId,
+      userId,
+      messageId: message.ts,
+      text: '',
+      timestamp: new Date(),
+      threadId: message.thread_ts,
+      isGroup: !channelId.startsWith('D'),
+      pollVote: {
+        pollId: message.ts,
+        messageId: message.ts,
+        question: poll.question,
+        options,
+        action: options.length > 0 ? 'added' : 'removed',
+      },
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
   private async handleReactionEvent(
     event: SlackReactionEvent,
     action: InboundReaction['action']
@@ -480,6 +692,17 @@ type SlackReactionEvent = {
   event_ts?: string;
 };
 
+type SlackBlockActionBody = {
+  user?: { id?: string };
+  channel?: { id?: string };
+  message?: {
+    ts: string;
+    thread_ts?: string;
+    blocks?: types.KnownBlock[];
+  };
+  state?: { values?: SlackBlockActionState };
+};
+
 async function maybeDownloadSlackFile(
   attachmentsDir: string | undefined,
   attachmentsMaxBytes: number | undefined,
@@ -538,6 +761,8 @@ async function collectSlackAttachments(
   return attachments;
 }
 
+const SENT_POLL_CACHE_MAX = 500;
+
 // Reverse lookup: unicode -> alias name (for Slack API which uses names, not unicode)
 const UNICODE_TO_ALIAS = new Map<string, string>(
   Object.entries(EMOJI_ALIASES).map(([name, value]) => [value, name])
@@ -59,7 +59,7 @@ function escapeMarkdownV2(text: string): string {
 /**
  * Escape HTML special characters (for HTML parse mode fallback)
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
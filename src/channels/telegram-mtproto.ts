@@ -738,6 +738,7 @@ Reply **approve** or **deny** to this message.`;
     return {
       supportsReactions: false,
       supportsFiles: false,
+      supportsBreaks: true,
       formatHint: 'MarkdownV2: *bold* _italic_ `code` [link](url) — NO: headers, tables',
     };
   }
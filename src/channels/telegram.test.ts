@@ -78,3 +78,306 @@ describe('TelegramAdapter audio fallback', () => {
     expect(sendAudio).not.toHaveBeenCalled();
   });
 });
+
+describe('TelegramAdapter approval buttons', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function makeAdapter() {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open' });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Bot', username: 'lettabot' } as any;
+    return { adapter, bot };
+  }
+
+  // Capture raw Bot API calls made through ctx helpers (answerCallbackQuery etc.)
+  function recordApiCalls(bot: ReturnType<TelegramAdapter['getBot']>) {
+    const calls: Array<{ method: string; payload: any }> = [];
+    bot.api.config.use(async (_prev, method, payload) => {
+      calls.push({ method, payload });
+      const result = method === 'sendMessage' ? { message_id: 78 } : true;
+      return { ok: true, result } as any;
+    });
+    return calls;
+  }
+
+  function callbackUpdate(data: string, message: Record<string, unknown> = {}) {
+    return {
+      update_id: 1,
+      callback_query: {
+        id: 'cb-1',
+        from: { id: 42, is_bot: false, first_name: 'Sam', username: 'sam' },
+        chat_instance: 'ci',
+        data,
+        message: {
+          message_id: 77,
+          date: 0,
+          chat: { id: 123, type: 'private', first_name: 'Sam' },
+          text: 'Tool approval needed: shell',
+          ...message,
+        },
+      },
+    } as any;
+  }
+
+  it('sends one message with Approve/Deny buttons per tool call', async () => {
+    const { adapter, bot } = makeAdapter();
+    const sendMessage = vi.spyOn(bot.api, 'sendMessage').mockResolvedValue({ message_id: 1 } as any);
+
+    await adapter.sendApprovalRequest('123', [
+      { toolCallId: 'call-1', toolName: 'shell', arguments: '{"command":"rm -rf <tmp>"}' },
+      { toolCallId: 'call-2', toolName: 'web_search' },
+    ]);
+
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+    const [chatId, text, options] = sendMessage.mock.calls[0] as any[];
+    expect(chatId).toBe('123');
+    expect(text).toContain('<code>shell</code>');
+    expect(text).toContain('rm -rf &lt;tmp&gt;');
+    expect(options.parse_mode).toBe('HTML');
+    expect(options.reply_markup.inline_keyboard[0]).toEqual([
+      { text: 'Approve', callback_data: 'apv:a:call-1' },
+      { text: 'Deny', callback_data: 'apv:d:call-1' },
+    ]);
+    expect((sendMessage.mock.calls[1] as any[])[1]).not.toContain('<pre>');
+  });
+
+  it('resolves only the tapped tool call and removes the buttons', async () => {
+    const { adapter, bot } = makeAdapter();
+    const onApprovalDecision = vi.fn().mockResolvedValue({ text: '(Denied shell.)', applied: true });
+    adapter.onApprovalDecision = onApprovalDecision;
+    const calls = recordApiCalls(bot);
+
+    await bot.handleUpdate(callbackUpdate('apv:d:call-1'));
+
+    expect(onApprovalDecision).toHaveBeenCalledWith('call-1', false, '123', undefined, undefined);
+    expect(calls.map(c => c.method)).toEqual(['answerCallbackQuery', 'editMessageReplyMarkup', 'sendMessage']);
+    expect(calls[0].payload).toMatchObject({ callback_query_id: 'cb-1', text: '(Denied shell.)' });
+    expect(calls[1].payload).toMatchObject({ chat_id: 123, message_id: 77 });
+    expect(calls[2].payload.text).toContain('@sam');
+    expect(calls[2].payload.reply_to_message_id).toBe(77);
+  });
+
+  it('keeps the buttons until the decision is applied and passes the topic thread', async () => {
+    const { adapter, bot } = makeAdapter();
+    const onApprovalDecision = vi.fn().mockResolvedValue({
+      text: '(Approved shell. Waiting on 1 more tool call(s) from this run.)',
+      applied: false,
+    });
+    adapter.onApprovalDecision = onApprovalDecision;
+    const calls = recordApiCalls(bot);
+
+    await bot.handleUpdate(callbackUpdate('apv:a:call-1', { message_thread_id: 9, is_topic_message: true }));
+
+    expect(onApprovalDecision).toHaveBeenCalledWith('call-1', true, '123', undefined, '9');
+    expect(calls.map(c => c.method)).toEqual(['answerCallbackQuery']);
+    expect(calls[0].payload.text).toContain('Waiting on 1 more');
+  });
+
+  it('maps long tool call IDs to short callback tokens', async () => {
+    const { adapter, bot } = makeAdapter();
+    const onApprovalDecision = vi.fn().mockResolvedValue({ text: '(Approved shell.)', applied: true });
+    adapter.onApprovalDecision = onApprovalDecision;
+    const calls = recordApiCalls(bot);
+    const longId = `call-${'x'.repeat(80)}`;
+
+    await adapter.sendApprovalRequest('123', [{ toolCallId: longId, toolName: 'shell' }]);
+    const approveData = calls[0].payload.reply_markup.inline_keyboard[0][0].callback_data;
+    expect(Buffer.byteLength(approveData)).toBeLessThanOrEqual(64);
+
+    await bot.handleUpdate(callbackUpdate(approveData));
+    expect(onApprovalDecision).toHaveBeenCalledWith(longId, true, '123', undefined, undefined);
+  });
+
+  it('reports expired tokens without resolving anything', async () => {
+    const { adapter, bot } = makeAdapter();
+    const onApprovalDecision = vi.fn();
+    adapter.onApprovalDecision = onApprovalDecision;
+    const calls = recordApiCalls(bot);
+
+    await bot.handleUpdate(callbackUpdate('apv:a:~zz'));
+
+    expect(onApprovalDecision).not.toHaveBeenCalled();
+    expect(calls).toHaveLength(1);
+    expect(calls[0].payload).toMatchObject({ text: 'This approval request has expired.' });
+  });
+});
+
+describe('TelegramAdapter polls', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function makeAdapter() {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open' });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Bot', username: 'lettabot' } as any;
+    return { adapter, bot };
+  }
+
+  function pollAnswerUpdate(pollId: string, optionIds: number[]) {
+    return {
+      update_id: 2,
+      poll_answer: {
+        poll_id: pollId,
+        user: { id: 42, is_bot: false, first_name: 'Sam', username: 'sam' },
+        option_ids: optionIds,
+      },
+    } as any;
+  }
+
+  it('sends a non-anonymous poll and forwards votes as pollVote events', async () => {
+    const { adapter, bot } = makeAdapter();
+    const sendPoll = vi.spyOn(bot.api, 'sendPoll').mockResolvedValue({
+      message_id: 90,
+      chat: { id: 123, type: 'private' },
+      poll: { id: 'poll-1' },
+    } as any);
+    const onMessage = vi.fn().mockResolvedValue(undefined);
+    adapter.onMessage = onMessage;
+
+    const result = await adapter.sendPoll({ chatId: '123', question: 'Lunch?', options: ['Pizza', 'Sushi'], multiple: true });
+    expect(result).toEqual({ messageId: '90' });
+    const [chatId, question, options, other] = sendPoll.mock.calls[0] as any[];
+    expect([chatId, question, options]).toEqual(['123', 'Lunch?', [{ text: 'Pizza' }, { text: 'Sushi' }]]);
+    expect(other).toMatchObject({ is_anonymous: false, allows_multiple_answers: true });
+
+    await bot.handleUpdate(pollAnswerUpdate('poll-1', [1]));
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({
+      chatId: '123',
+      userId: '42',
+      text: '',
+      pollVote: { pollId: 'poll-1', messageId: '90', question: 'Lunch?', options: ['Sushi'], action: 'added' },
+    }));
+
+    await bot.handleUpdate(pollAnswerUpdate('poll-1', []));
+    expect(onMessage.mock.calls[1][0].pollVote).toMatchObject({ options: [], action: 'removed' });
+  });
+
+  it('ignores votes on polls it did not send', async () => {
+    const { adapter, bot } = makeAdapter();
+    const onMessage = vi.fn();
+    adapter.onMessage = onMessage;
+
+    await bot.handleUpdate(pollAnswerUpdate('unknown', [0]));
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('TelegramAdapter locations and contacts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function makeAdapter() {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open' });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Bot', username: 'lettabot' } as any;
+    return { adapter, bot };
+  }
+
+  function messageUpdate(fields: Record<string, unknown>) {
+    return {
+      update_id: 3,
+      message: {
+        message_id: 7,
+        date: 1700000000,
+        chat: { id: 123, type: 'private', first_name: 'Sam' },
+        from: { id: 42, is_bot: false, first_name: 'Sam', username: 'sam' },
+        ...fields,
+      },
+    } as any;
+  }
+
+  it('sends named places as venues and bare coordinates as pins', async () => {
+    const { adapter, bot } = makeAdapter();
+    const sendVenue = vi.spyOn(bot.api, 'sendVenue').mockResolvedValue({ message_id: 11 } as any);
+    const sendLocation = vi.spyOn(bot.api, 'sendLocation').mockResolvedValue({ message_id: 12 } as any);
+
+    expect(await adapter.sendLocation({ chatId: '123', latitude: 1.5, longitude: 2.5, name: 'Cafe' })).toEqual({ messageId: '11' });
+    expect(sendVenue.mock.calls[0].slice(0, 5)).toEqual(['123', 1.5, 2.5, 'Cafe', '1.5, 2.5']);
+
+    expect(await adapter.sendLocation({ chatId: '123', latitude: 1.5, longitude: 2.5 })).toEqual({ messageId: '12' });
+    expect(sendLocation.mock.calls[0].slice(0, 3)).toEqual(['123', 1.5, 2.5]);
+  });
+
+  it('sends contacts with a vCard, or as text without a phone number', async () => {
+    const { adapter, bot } = makeAdapter();
+    const sendContact = vi.spyOn(bot.api, 'sendContact').mockResolvedValue({ message_id: 13 } as any);
+    const sendMessage = vi.spyOn(adapter, 'sendMessage').mockResolvedValue({ messageId: '14' });
+
+    await adapter.sendContact({ chatId: '123', name: 'Ada', phone: '+15550102030', email: 'ada@example.com' });
+    const [chatId, phone, name, other] = sendContact.mock.calls[0] as any[];
+    expect([chatId, phone, name]).toEqual(['123', '+15550102030', 'Ada']);
+    expect(other.vcard).toContain('EMAIL:ada@example.com');
+
+    expect(await adapter.sendContact({ chatId: '123', name: 'Bob', email: 'bob@example.com' })).toEqual({ messageId: '14' });
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ text: expect.stringContaining('Email: bob@example.com') }));
+  });
+
+  it('forwards shared locations and contacts with structured context', async () => {
+    const { adapter, bot } = makeAdapter();
+    const onMessage = vi.fn().mockResolvedValue(undefined);
+    adapter.onMessage = onMessage;
+
+    await bot.handleUpdate(messageUpdate({
+      location: { latitude: 1.5, longitude: 2.5 },
+      venue: { location: { latitude: 1.5, longitude: 2.5 }, title: 'Cafe', address: '1 Main St' },
+    }));
+    expect(onMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      text: '[Shared a location]',
+      extraContext: {
+        'Shared location': '1.5, 2.5',
+        'Location name': 'Cafe',
+        'Location address': '1 Main St',
+        'Map': 'https://maps.google.com/?q=1.5,2.5',
+      },
+    }));
+
+    await bot.handleUpdate(messageUpdate({
+      contact: { phone_number: '+15550102030', first_name: 'Ada', last_name: 'Lovelace' },
+    }));
+    expect(onMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      text: '[Shared a contact]',
+      extraContext: { 'Shared contact': 'Ada Lovelace | +15550102030' },
+    }));
+  });
+});
+
+describe('TelegramAdapter shared channel gating', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function groupUpdate(text: string) {
+    return {
+      update_id: 5,
+      message: {
+        message_id: 8,
+        date: 1700000000,
+        chat: { id: -100, type: 'supergroup', title: 'Team' },
+        from: { id: 42, is_bot: false, first_name: 'Sam', username: 'sam' },
+        text,
+      },
+    } as any;
+  }
+
+  it('lets mention-only groups through when the text addresses a sharing agent', async () => {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open', groups: { '*': { mode: 'mention-only' } } });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Bot', username: 'lettabot' } as any;
+    const onMessage = vi.fn().mockResolvedValue(undefined);
+    adapter.onMessage = onMessage;
+
+    await bot.handleUpdate(groupUpdate('Muninn, recall the plan'));
+    expect(onMessage).not.toHaveBeenCalled();
+
+    adapter.isAddressed = (text) => /\bmuninn\b/i.test(text);
+    await bot.handleUpdate(groupUpdate('Muninn, recall the plan'));
+    await bot.handleUpdate(groupUpdate('morning all'));
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ text: 'Muninn, recall the plan', isGroup: true }));
+  });
+});
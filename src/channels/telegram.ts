@@ -5,9 +5,9 @@
  * Supports DM pairing for secure access control.
  */
 
-import { Bot, InputFile } from 'grammy';
+import { Bot, InlineKeyboard, InputFile } from 'grammy';
 import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { ApprovalDecisionResult, ApprovalRequest, ContactShare, InboundAttachment, InboundMessage, InboundReaction, OutboundContact, OutboundFile, OutboundForward, OutboundLocation, OutboundMessage, OutboundPoll } from '../core/types.js';
 import type { DmPolicy } from '../pairing/types.js';
 import {
   isUserAllowed,
@@ -23,6 +23,8 @@ import { buildAttachmentPath, downloadToFile } from './attachments.js';
 import { applyTelegramGroupGating } from './telegram-group-gating.js';
 import { resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
 import { HELP_TEXT } from '../core/commands.js';
+import { buildVCard, parseVCard } from '../utils/vcard.js';
+import { describeSharedContacts, describeSharedLocation, formatApprovalArguments, formatContactAsText } from '../core/display.js';
 
 import { createLogger } from '../logger.js';
 
@@ -36,6 +38,7 @@ const KNOWN_TELEGRAM_COMMANDS = new Set([
   'approve',
   'disapprove',
   'setconv',
+  'handback',
   'help',
   'start',
 ]);
@@ -84,6 +87,15 @@ export class TelegramAdapter implements ChannelAdapter {
   
   onMessage?: (msg: InboundMessage) => Promise<void>;
   onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onApprovalDecision?: (toolCallId: string, approve: boolean, chatId?: string, forcePerChat?: boolean, threadId?: string) => Promise<ApprovalDecisionResult>;
+  isAddressed?: (text: string) => boolean;
+
+  // Short callback tokens for tool call IDs too long for callback_data
+  private approvalCallbackIds: Map<string, string> = new Map();
+  private approvalCallbackSeq = 0;
+
+  // Polls sent by the bot, keyed by Telegram poll ID (poll_answer only carries the ID)
+  private sentPolls: Map<string, { chatId: string; messageId: string; isGroup: boolean; question: string; options: string[] }> = new Map();
   
   constructor(config: TelegramConfig) {
     this.config = {
@@ -126,7 +138,8 @@ export class TelegramAdapter implements ChannelAdapter {
       mentionPatterns: this.config.mentionPatterns,
     });
 
-    if (!gatingResult.shouldProcess) {
+    const addressed = gatingResult.reason === 'mention-required' && !!this.isAddressed?.(text);
+    if (!gatingResult.shouldProcess && !addressed) {
       log.info(`Group message filtered: ${gatingResult.reason}`);
       return null;
     }
@@ -193,6 +206,58 @@ export class TelegramAdapter implements ChannelAdapter {
       }
     });
 
+    // Handle votes on polls the bot sent (requires non-anonymous polls).
+    // Registered before the access middleware: poll answers carry no chat or
+    // ctx.from, so access is checked here against the poll's chat instead.
+    this.bot.on('poll_answer', async (ctx) => {
+      const answer = ctx.update.poll_answer;
+      const userId = answer?.user?.id;
+      if (!answer || !userId) return;
+
+      const poll = this.sentPolls.get(answer.poll_id);
+      if (!poll) return;
+
+      if (poll.isGroup) {
+        const dmPolicy = this.config.dmPolicy || 'pairing';
+        if (dmPolicy !== 'open' && !await isGroupApproved('telegram', poll.chatId)) return;
+      } else {
+        const access = await this.checkAccess(
+          String(userId),
+          answer.user?.username,
+          answer.user?.first_name
+        );
+        if (access !== 'allowed') {
+          return;
+        }
+      }
+
+      const options = answer.option_ids
+        .map((index) => poll.options[index])
+        .filter((option): option is string => option !== undefined);
+
+      if (this.onMessage) {
+        await this.onMessage({
+          channel: 'telegram',
+          chatId: poll.chatId,
+          userId: String(userId),
+          userName: answer.user?.username || answer.user?.first_name || undefined,
+          messageId: poll.messageId,
+          text: '',
+          timestamp: new Date(),
+          isGroup: poll.isGroup,
+          pollVote: {
+            pollId: answer.poll_id,
+            messageId: poll.messageId,
+            question: poll.question,
+            options,
+            // An empty selection means the user retracted their vote
+            action: options.length > 0 ? 'added' : 'removed',
+          },
+          formatterHints: this.getFormatterHints(),
+        });
+      }
+    });
+
     // Middleware: Check access based on dmPolicy (bypass for groups)
     this.bot.use(async (ctx, next) => {
       const userId = ctx.from?.id;
@@ -206,7 +271,7 @@ export class TelegramAdapter implements ChannelAdapter {
           // Commands in groups require user-level authorization (paired or allowlisted).
           // Chat access (mode: open) should not imply command access.
           const msgText = ctx.message && 'text' in ctx.message ? ctx.message.text : undefined;
-          if (msgText?.startsWith('/')) {
+          if (msgText?.startsWith('/') || ctx.callbackQuery) {
             const allowed = await isUserAllowed('telegram', String(userId), this.config.allowedUsers?.map(String));
             if (!allowed) return; // silently drop unauthorized commands
           }
@@ -327,6 +392,24 @@ export class TelegramAdapter implements ChannelAdapter {
       }
     });
 
+    // Handle /handback
+    this.bot.command('handback', async (ctx) => {
+      if (this.onCommand) {
+        const result = await this.onCommand('handback', String(ctx.chat.id));
+        if (result) {
+          const replyToMessageId =
+            'message' in ctx && ctx.message
+              ? String(ctx.message.message_id)
+              : undefined;
+          await this.sendMessage({
+            chatId: String(ctx.chat.id),
+            text: result,
+            replyToMessageId,
+          });
+        }
+      }
+    });
+
     // Handle /model [handle]
     this.bot.command('model', async (ctx) => {
       if (this.onCommand) {
@@ -381,6 +464,46 @@ export class TelegramAdapter implements ChannelAdapter {
       });
     }
 
+    // Handle inline approve/deny buttons on tool approval prompts
+    this.bot.on('callback_query:data', async (ctx) => {
+      const parsed = this.parseApprovalCallback(ctx.callbackQuery.data);
+      if (!parsed) {
+        await ctx.answerCallbackQuery();
+        return;
+      }
+      if (!parsed.toolCallId) {
+        await ctx.answerCallbackQuery({ text: 'This approval request has expired.' });
+        return;
+      }
+      const chatId = ctx.chat?.id;
+      if (!this.onApprovalDecision || chatId === undefined) {
+        await ctx.answerCallbackQuery();
+        return;
+      }
+
+      const prompt = ctx.callbackQuery.message;
+      const threadId = prompt && 'message_thread_id' in prompt && prompt.message_thread_id !== undefined
+        ? String(prompt.message_thread_id)
+        : undefined;
+      const result = await this.onApprovalDecision(parsed.toolCallId, parsed.approve, String(chatId), undefined, threadId);
+      await ctx.answerCallbackQuery({ text: result.text });
+
+      // Keep the buttons while sibling calls are undecided or the submit failed
+      if (!result.applied || !prompt) return;
+      const promptMessageId = prompt.message_id;
+      try {
+        await ctx.editMessageReplyMarkup({ reply_markup: undefined });
+      } catch (err) {
+        log.warn('Failed to remove approval buttons:', getTelegramErrorReason(err));
+      }
+      const by = ctx.from.username ? `@${ctx.from.username}` : ctx.from.first_name;
+      await this.sendMessage({
+        chatId: String(chatId),
+        text: `${result.text} -- ${by}`,
+        replyToMessageId: String(promptMessageId),
+      });
+    });
+
     // Handle text messages
     this.bot.on('message:text', async (ctx) => {
       const userId = ctx.from?.id;
@@ -565,7 +688,8 @@ export class TelegramAdapter implements ChannelAdapter {
       const { isGroup, groupName, wasMentioned, isListeningMode } = gating;
 
       const { attachments, caption } = await this.collectAttachments(ctx.message, String(chatId));
-      if (attachments.length === 0 && !caption) return;
+      const share = describeTelegramShare(ctx.message);
+      if (attachments.length === 0 && !caption && !share) return;
 
       if (this.onMessage) {
         await this.onMessage({
@@ -574,13 +698,14 @@ export class TelegramAdapter implements ChannelAdapter {
           userId: String(userId),
           userName: ctx.from.username || ctx.from.first_name,
           messageId: String(ctx.message.message_id),
-          text: caption || '',
+          text: caption || share?.text || '',
           timestamp: new Date(),
           isGroup,
           groupName,
           wasMentioned,
           isListeningMode,
           attachments,
+          extraContext: share?.extraContext,
           formatterHints: this.getFormatterHints(),
         });
       }
@@ -734,6 +859,57 @@ export class TelegramAdapter implements ChannelAdapter {
     return this.config.streaming ?? false;
   }
 
+  /**
+   * Send one message per pending tool call, each with Approve/Deny buttons.
+   */
+  async sendApprovalRequest(chatId: string, approvals: ApprovalRequest[]): Promise<void> {
+    const { escapeHtml } = await import('./telegram-format.js');
+    for (const approval of approvals) {
+      const args = formatApprovalArguments(approval.arguments);
+      const text = `<b>Tool approval needed:</b> <code>${escapeHtml(approval.toolName)}</code>`
+        + (args ? `\n<pre>${escapeHtml(args)}</pre>` : '');
+      const keyboard = new InlineKeyboard()
+        .text('Approve', this.buildApprovalCallback('a', approval.toolCallId))
+        .text('Deny', this.buildApprovalCallback('d', approval.toolCallId));
+      await this.bot.api.sendMessage(chatId, text, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+    }
+  }
+
+  /**
+   * Encode an approval button as callback_data (max 64 bytes). Tool call IDs
+   * that don't fit are swapped for a short in-memory token.
+   */
+  private buildApprovalCallback(action: 'a' | 'd', toolCallId: string): string {
+    const direct = `${APPROVAL_CALLBACK_PREFIX}:${action}:${toolCallId}`;
+    if (Buffer.byteLength(direct) <= TELEGRAM_CALLBACK_DATA_MAX) return direct;
+
+    let token = [...this.approvalCallbackIds].find(([, id]) => id === toolCallId)?.[0];
+    if (!token) {
+      token = `~${(++this.approvalCallbackSeq).toString(36)}`;
+      this.approvalCallbackIds.set(token, toolCallId);
+      if (this.approvalCallbackIds.size > APPROVAL_CALLBACK_CACHE_MAX) {
+        const oldest = this.approvalCallbackIds.keys().next().value;
+        if (oldest) this.approvalCallbackIds.delete(oldest);
+      }
+    }
+    return `${APPROVAL_CALLBACK_PREFIX}:${action}:${token}`;
+  }
+
+  /**
+   * Decode approval callback_data. Returns null for unrelated buttons and an
+   * empty toolCallId when a short token is no longer known (e.g. after restart).
+   */
+  private parseApprovalCallback(data: string): { approve: boolean; toolCallId: string } | null {
+    const match = data.match(new RegExp(`^${APPROVAL_CALLBACK_PREFIX}:([ad]):(.+)$`));
+    if (!match) return null;
+    const id = match[2];
+    const toolCallId = id.startsWith('~') ? this.approvalCallbackIds.get(id) ?? '' : id;
+    return { approve: match[1] === 'a', toolCallId };
+  }
+
   async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
     const { markdownToTelegramV2 } = await import('./telegram-format.js');
     try {
@@ -748,6 +924,74 @@ export class TelegramAdapter implements ChannelAdapter {
     }
   }
 
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    await this.bot.api.deleteMessage(chatId, Number(messageId));
+  }
+
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    const result = await this.bot.api.sendPoll(
+      poll.chatId,
+      poll.question,
+      poll.options.map((text) => ({ text })),
+      {
+        // Votes on anonymous polls are not delivered to the bot
+        is_anonymous: false,
+        allows_multiple_answers: !!poll.multiple,
+        message_thread_id: poll.threadId ? Number(poll.threadId) : undefined,
+      },
+    );
+    const messageId = String(result.message_id);
+    if (result.poll) {
+      this.sentPolls.set(result.poll.id, {
+        chatId: poll.chatId,
+        messageId,
+        isGroup: result.chat.type === 'group' || result.chat.type === 'supergroup',
+        question: poll.question,
+        options: poll.options,
+      });
+      if (this.sentPolls.size > SENT_POLL_CACHE_MAX) {
+        const oldest = this.sentPolls.keys().next().value;
+        if (oldest) this.sentPolls.delete(oldest);
+      }
+    }
+    return { messageId };
+  }
+
+  async sendLocation(location: OutboundLocation): Promise<{ messageId: string }> {
+    const threadOptions = { message_thread_id: location.threadId ? Number(location.threadId) : undefined };
+    // Named places render as a venue card; bare coordinates as a pin
+    const result = location.name
+      ? await this.bot.api.sendVenue(
+        location.chatId,
+        location.latitude,
+        location.longitude,
+        location.name,
+        location.address || `${location.latitude}, ${location.longitude}`,
+        threadOptions,
+      )
+      : await this.bot.api.sendLocation(location.chatId, location.latitude, location.longitude, threadOptions);
+    return { messageId: String(result.message_id) };
+  }
+
+  async sendContact(contact: OutboundContact): Promise<{ messageId: string }> {
+    // Telegram contacts need a phone number; email-only cards go out as text
+    if (!contact.phone) {
+      return this.sendMessage({ chatId: contact.chatId, text: formatContactAsText(contact), threadId: contact.threadId });
+    }
+    const result = await this.bot.api.sendContact(contact.chatId, contact.phone, contact.name, {
+      vcard: buildVCard(contact),
+      message_thread_id: contact.threadId ? Number(contact.threadId) : undefined,
+    });
+    return { messageId: String(result.message_id) };
+  }
+
+  async forwardMessage(forward: OutboundForward): Promise<{ messageId: string }> {
+    const result = await this.bot.api.forwardMessage(forward.chatId, forward.fromChatId, Number(forward.messageId), {
+      message_thread_id: forward.threadId ? Number(forward.threadId) : undefined,
+    });
+    return { messageId: String(result.message_id) };
+  }
+
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
     const resolved = resolveTelegramEmoji(emoji);
     if (!TELEGRAM_REACTION_SET.has(resolved)) {
@@ -766,6 +1010,10 @@ export class TelegramAdapter implements ChannelAdapter {
     return {
       supportsReactions: true,
       supportsFiles: true,
+      supportsEdits: true,
+      supportsDeletes: true,
+      supportsReplies: true,
+      supportsBreaks: true,
       formatHint: 'MarkdownV2: *bold* _italic_ `code` [link](url) — NO: headers, tables',
     };
   }
@@ -927,6 +1175,44 @@ export class TelegramAdapter implements ChannelAdapter {
   }
 }
 
+/**
+ * Describe a shared location, venue or contact for the agent.
+ * Returns null for messages that carry none of them.
+ */
+function describeTelegramShare(message: {
+  location?: { latitude: number; longitude: number };
+  venue?: { location: { latitude: number; longitude: number }; title: string; address: string };
+  contact?: { phone_number: string; first_name: string; last_name?: string; vcard?: string };
+}): { text: string; extraContext: Record<string, string> } | null {
+  if (message.venue) {
+    const { location, title, address } = message.venue;
+    return {
+      text: '[Shared a location]',
+      extraContext: describeSharedLocation({ ...location, name: title, address }),
+    };
+  }
+  if (message.location) {
+    return {
+      text: '[Shared a location]',
+      extraContext: describeSharedLocation(message.location),
+    };
+  }
+  if (message.contact) {
+    const { phone_number, first_name, last_name, vcard } = message.contact;
+    const contact: ContactShare = {
+      name: [first_name, last_name].filter(Boolean).join(' '),
+      phone: phone_number,
+    };
+    const email = vcard ? parseVCard(vcard)?.email : undefined;
+    if (email) contact.email = email;
+    return {
+      text: '[Shared a contact]',
+      extraContext: describeSharedContacts([contact]),
+    };
+  }
+  return null;
+}
+
 function extractTelegramReaction(reaction?: {
   type?: string;
   emoji?: string;
@@ -966,3 +1252,9 @@ const TELEGRAM_REACTION_SET = new Set<string>(TELEGRAM_REACTION_EMOJIS);
 // Telegram message length limits
 const TELEGRAM_MAX_LENGTH = 4096;
 const TELEGRAM_SPLIT_THRESHOLD = 3800;
+
+// Inline keyboard callback_data for tool approvals
+const APPROVAL_CALLBACK_PREFIX = 'apv';
+const TELEGRAM_CALLBACK_DATA_MAX = 64;
+const APPROVAL_CALLBACK_CACHE_MAX = 500;
+const SENT_POLL_CACHE_MAX = 500;
@@ -4,7 +4,7 @@
  * Each channel (Telegram, Slack, Discord, WhatsApp, Signal) implements this interface.
  */
 
-import type { ChannelId, InboundMessage, OutboundMessage, OutboundFile, FormatterHints } from '../core/types.js';
+import type { ChannelId, InboundMessage, OutboundMessage, OutboundFile, OutboundPoll, OutboundLocation, OutboundContact, OutboundForward, FormatterHints, ApprovalRequest, ApprovalDecisionResult, QuestionRequest } from '../core/types.js';
 
 /**
  * Channel adapter - implement this for each messaging platform
@@ -26,14 +26,49 @@ export interface ChannelAdapter {
 
   // Capabilities (optional)
   supportsEditing?(): boolean;
+  /** Edits still allowed on a sent message, for platforms that cap them */
+  remainingEdits?(chatId: string, messageId: string): number;
   sendFile?(file: OutboundFile): Promise<{ messageId: string }>;
   addReaction?(chatId: string, messageId: string, emoji: string): Promise<void>;
+  /** Delete a message the bot sent */
+  deleteMessage?(chatId: string, messageId: string): Promise<void>;
+  /** Send a native poll; votes come back as InboundMessage.pollVote */
+  sendPoll?(poll: OutboundPoll): Promise<{ messageId: string }>;
+  /** Send a native map pin */
+  sendLocation?(location: OutboundLocation): Promise<{ messageId: string }>;
+  /** Send a native contact card */
+  sendContact?(contact: OutboundContact): Promise<{ messageId: string }>;
+  /** Forward a message to another chat on this channel, keeping its original attribution */
+  forwardMessage?(forward: OutboundForward): Promise<{ messageId: string }>;
   getDmPolicy?(): string;
   getFormatterHints(): FormatterHints;
+  /** Render pending tool approvals with per-call approve/deny controls */
+  sendApprovalRequest?(chatId: string, approvals: ApprovalRequest[], threadId?: string): Promise<void>;
+  /** Render AskUserQuestion options as interactive controls */
+  sendQuestionRequest?(chatId: string, questions: QuestionRequest[], threadId?: string): Promise<void>;
   
   // Event handlers (set by bot core)
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean) => Promise<string | null>;
+  /** threadId scopes the command to a thread's conversation in per-thread mode */
+  onCommand?: (command: string, chatId?: string, args?: string, forcePerChat?: boolean, threadId?: string) => Promise<string | null>;
+  /** Resolve a single tool call; controls should only be replaced once the decision was applied */
+  onApprovalDecision?: (toolCallId: string, approve: boolean, chatId?: string, forcePerChat?: boolean, threadId?: string) => Promise<ApprovalDecisionResult>;
+  /** Answer the pending AskUserQuestion; answers are in question order */
+  onQuestionAnswer?: (answers: string[], chatId?: string, forcePerChat?: boolean, threadId?: string) => Promise<string>;
+  /** Extra mention check for group gating; set on shared channels so naming an agent counts as a mention */
+  isAddressed?: (text: string) => boolean;
+}
+
+/**
+ * Thrown by editMessage when the platform caps how often a message can be
+ * edited and the cap is reached. The caller should send the text as a new
+ * message instead.
+ */
+export class EditLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EditLimitError';
+  }
 }
 
 /**
@@ -229,6 +229,23 @@ export async function checkInboundAccess(
   return { allowed: false, reason: "pairing" };
 }
 
+/**
+ * Check whether a DM sender may reach the bot, without side effects.
+ *
+ * Used for events like reactions that should never trigger pairing
+ * or rejection messages: only already-approved senders pass.
+ */
+export async function isDmSenderAllowed(
+  params: Pick<AccessCheckParams, "userId" | "isSelfChat" | "dmPolicy" | "allowedUsers" | "selfChatMode">
+): Promise<boolean> {
+  const { userId, isSelfChat, dmPolicy, allowedUsers, selfChatMode } = params;
+
+  if (isSelfChat) return true;
+  if (selfChatMode) return false;
+  if (dmPolicy === "open") return true;
+  return isUserAllowed("whatsapp", userId, allowedUsers);
+}
+
 /**
  * Export formatPairingMessage for use in access control flow
  */
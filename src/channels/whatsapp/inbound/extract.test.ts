@@ -161,3 +161,94 @@ describe('extractInboundMessage (LID DM resolution)', () => {
     expect(extracted?.senderE164).toBe('15552223333');
   });
 });
+
+describe('extractInboundMessage (reactions)', () => {
+  const reactionMessage = (text: string) => createMessage({
+    key: { remoteJid: '15551234567@s.whatsapp.net', id: 'reaction-1' },
+    message: {
+      conversation: undefined,
+      reactionMessage: {
+        key: { remoteJid: '15551234567@s.whatsapp.net', id: 'target-1', fromMe: true },
+        text,
+      },
+    },
+  });
+
+  it('extracts reactions even though they carry no text', async () => {
+    const extracted = await extractInboundMessage(
+      reactionMessage('👍') as any,
+      createSocket() as any,
+      createGroupMetaCache()
+    );
+
+    expect(extracted?.body).toBe('');
+    expect(extracted?.reaction).toEqual({ emoji: '👍', messageId: 'target-1' });
+  });
+
+  it('reports removed reactions with an empty emoji', async () => {
+    const extracted = await extractInboundMessage(
+      reactionMessage('') as any,
+      createSocket() as any,
+      createGroupMetaCache()
+    );
+
+    expect(extracted?.reaction).toEqual({ emoji: '', messageId: 'target-1' });
+  });
+
+  it('leaves reaction unset for regular messages', async () => {
+    const extracted = await extractInboundMessage(
+      createMessage() as any,
+      createSocket() as any,
+      createGroupMetaCache()
+    );
+
+    expect(extracted?.reaction).toBeUndefined();
+  });
+});
+
+describe('extractInboundMessage (location and contact shares)', () => {
+  const shareMessage = (message: Record<string, unknown>) => createMessage({
+    key: { remoteJid: '15551234567@s.whatsapp.net', id: 'share-1' },
+    message: { conversation: undefined, ...message },
+  });
+
+  it('parses shared locations into extraContext', async () => {
+    const extracted = await extractInboundMessage(
+      shareMessage({
+        locationMessage: { degreesLatitude: 38.7223, degreesLongitude: -9.1393, name: 'Cafe', address: 'Rua Augusta 1' },
+      }) as any,
+      createSocket() as any,
+      createGroupMetaCache()
+    );
+
+    expect(extracted?.body).toBe('[Shared a location]');
+    expect(extracted?.extraContext).toEqual({
+      'Shared location': '38.7223, -9.1393',
+      'Location name': 'Cafe',
+      'Location address': 'Rua Augusta 1',
+      'Map': 'https://maps.google.com/?q=38.7223,-9.1393',
+    });
+  });
+
+  it('parses shared contact cards from their vCards', async () => {
+    const vcard = 'BEGIN:VCARD\nVERSION:3.0\nFN:Ada\nTEL;type=CELL;waid=15550102030:+1 555 010 2030\nEND:VCARD';
+    const extracted = await extractInboundMessage(
+      shareMessage({
+        contactsArrayMessage: {
+          contacts: [
+            { displayName: 'Ada Lovelace', vcard },
+            { vcard: 'BEGIN:VCARD\nVERSION:3.0\nFN:Bob\nEMAIL:bob@example.com\nEND:VCARD' },
+          ],
+        },
+      }) as any,
+      createSocket() as any,
+      createGroupMetaCache()
+    );
+
+    expect(extracted?.body).toBe('[Shared 2 contacts]');
+    expect(extracted?.extraContext).toEqual({
+      'Shared contact': 'Ada Lovelace | +1 555 010 2030',
+      'Shared contact 2': 'Bob | bob@example.com',
+    });
+  });
+});
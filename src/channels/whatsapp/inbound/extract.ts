@@ -6,10 +6,12 @@
  */
 
 import { jidToE164, isGroupJid, isLid } from "../utils.js";
-import type { WebInboundMessage, AttachmentExtractionConfig } from "./types.js";
+import type { WebInboundMessage, WebInboundReaction, AttachmentExtractionConfig } from "./types.js";
 import type { GroupMetaCache } from "../utils.js";
 import { unwrapMessageContent, extractMediaPreview, collectAttachments } from "./media.js";
-import type { InboundAttachment } from "../../../core/types.js";
+import type { ContactShare, InboundAttachment } from "../../../core/types.js";
+import { describeSharedContacts, describeSharedLocation } from "../../../core/display.js";
+import { parseVCard } from "../../../utils/vcard.js";
 
 /**
  * Extract text content from a Baileys message.
@@ -101,6 +103,68 @@ export function extractMentionedJids(message: import("@whiskeysockets/baileys").
   return mentions.filter(Boolean);
 }
 
+/**
+ * Extract a reaction from a message.
+ *
+ * @param message - Baileys proto message (unwrapped)
+ * @returns Reaction (empty emoji = removed) or undefined
+ */
+export function extractReaction(message: import("@whiskeysockets/baileys").proto.IMessage | undefined): WebInboundReaction | undefined {
+  const reactionMessage = message?.reactionMessage;
+  const messageId = reactionMessage?.key?.id;
+  if (!reactionMessage || !messageId) {
+    return undefined;
+  }
+
+  return {
+    emoji: reactionMessage.text ?? '',
+    messageId,
+  };
+}
+
+/**
+ * Extract a shared location or contact card(s) from a message.
+ *
+ * @param message - Baileys proto message (unwrapped)
+ * @returns Placeholder text and structured context, or undefined
+ */
+export function extractShare(
+  message: import("@whiskeysockets/baileys").proto.IMessage | undefined
+): { text: string; extraContext: Record<string, string> } | undefined {
+  const location = message?.locationMessage || message?.liveLocationMessage;
+  if (location?.degreesLatitude != null && location.degreesLongitude != null) {
+    const locationMessage = message?.locationMessage;
+    return {
+      text: "[Shared a location]",
+      extraContext: describeSharedLocation({
+        latitude: location.degreesLatitude,
+        longitude: location.degreesLongitude,
+        name: locationMessage?.name || undefined,
+        address: locationMessage?.address || undefined,
+      }),
+    };
+  }
+
+  const cards = message?.contactMessage
+    ? [message.contactMessage]
+    : message?.contactsArrayMessage?.contacts ?? [];
+  const contacts = cards
+    .map((card: { displayName?: string | null; vcard?: string | null }): ContactShare | null => {
+      const parsed = card.vcard ? parseVCard(card.vcard) : null;
+      if (card.displayName) return { ...parsed, name: card.displayName };
+      return parsed;
+    })
+    .filter((contact: ContactShare | null): contact is ContactShare => contact !== null);
+  if (contacts.length > 0) {
+    return {
+      text: contacts.length === 1 ? "[Shared a contact]" : `[Shared ${contacts.length} contacts]`,
+      extraContext: describeSharedContacts(contacts),
+    };
+  }
+
+  return undefined;
+}
+
 /**
  * Extract full inbound message data from Baileys message.
  *
@@ -201,6 +265,12 @@ export async function extractInboundMessage(
   // Extract text from unwrapped content
   const body = extractText(messageContent ?? undefined);
 
+  // Reactions carry no text or media of their own
+  const reaction = extractReaction(messageContent ?? undefined);
+
+  // Location and contact shares carry structured data instead of text
+  const share = extractShare(messageContent ?? undefined);
+
   // Detect media
   const preview = extractMediaPreview(messageContent);
 
@@ -221,9 +291,9 @@ export async function extractInboundMessage(
 
   // Use caption as fallback text (for media-only messages)
   // For voice messages, use transcription if available
-  const finalBody = voiceTranscription || body || preview.caption || '';
-  if (!finalBody && attachments.length === 0) {
-    return null; // Skip messages with no text and no media
+  const finalBody = voiceTranscription || body || preview.caption || share?.text || '';
+  if (!finalBody && attachments.length === 0 && !reaction) {
+    return null; // Skip messages with no text, media, share or reaction
   }
 
   // Determine sender and chatId
@@ -313,6 +383,8 @@ export async function extractInboundMessage(
     isSelfChat,
     wasMentioned,
     attachments: attachments.length > 0 ? attachments : undefined,
+    reaction,
+    extraContext: share?.extraContext,
   };
 
   return inboundMessage;
@@ -83,6 +83,24 @@ export interface WebInboundMessage {
 
   /** Downloaded media attachments (images, videos, documents, etc.) */
   attachments?: InboundAttachment[];
+
+  /** Reaction details (if this message is a reaction to another message) */
+  reaction?: WebInboundReaction;
+
+  /** Structured details of a shared location or contact card */
+  extraContext?: Record<string, string>;
+}
+
+/**
+ * Reaction carried by a WhatsApp reactionMessage.
+ * WhatsApp signals removal with an empty emoji.
+ */
+export interface WebInboundReaction {
+  /** Reaction emoji (empty string when the reaction was removed) */
+  emoji: string;
+
+  /** ID of the message being reacted to */
+  messageId: string;
 }
 
 /**
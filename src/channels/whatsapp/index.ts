@@ -18,7 +18,8 @@
  */
 
 import type { ChannelAdapter } from "../types.js";
-import type { InboundMessage, OutboundMessage, OutboundFile } from "../../core/types.js";
+import type { InboundMessage, OutboundMessage, OutboundFile, OutboundPoll, OutboundLocation, OutboundContact } from "../../core/types.js";
+import type { WebInboundMessage } from "./inbound/types.js";
 import type {
   WhatsAppConfig,
   ReconnectState,
@@ -28,7 +29,7 @@ import type {
   BaileysDisconnectReasonType,
   MessagesUpsertData,
 } from "./types.js";
-import type { GroupMetadata, WAMessageKey } from '@whiskeysockets/baileys';
+import type { GroupMetadata, WAMessageKey, WAMessageUpdate } from '@whiskeysockets/baileys';
 import type { CredsSaveQueue } from "../../utils/creds-queue.js";
 
 // Session management
@@ -38,15 +39,21 @@ import { createWaSocket, installConsoleFilters, type SocketResult } from "./sess
 import { extractInboundMessage } from "./inbound/extract.js";
 import {
   checkInboundAccess,
+  isDmSenderAllowed,
   formatPairingMessage,
 } from "./inbound/access-control.js";
 import { applyGroupGating } from "./inbound/group-gating.js";
-import { resolveDailyLimits, checkDailyLimit } from "../group-mode.js";
+import { resolveDailyLimits, checkDailyLimit, isGroupAllowed, isGroupUserAllowed, resolveGroupMode } from "../group-mode.js";
 
 // Outbound message handling
 import {
   sendWhatsAppMessage,
   sendWhatsAppFile,
+  sendWhatsAppReaction,
+  sendWhatsAppPoll,
+  sendWhatsAppLocation,
+  sendWhatsAppContact,
+  deleteWhatsAppMessage,
   sendTypingIndicator,
   stopTypingIndicator,
   sendReadReceipt,
@@ -73,6 +80,7 @@ import { createDedupeCache, type DedupeCache } from "../../utils/dedupe-cache.js
 import { createInboundDebouncer, type Debouncer } from "../../utils/debouncer.js";
 import { normalizePhoneForStorage } from "../../utils/phone.js";
 import { parseCommand, HELP_TEXT } from "../../core/commands.js";
+import { resolveEmoji } from "../../core/emoji.js";
 
 // Node imports
 
@@ -99,6 +107,10 @@ const DEDUPE_TTL_MS = 20 * 60 * 1000;
 /** Maximum dedupe cache size */
 const DEDUPE_MAX_SIZE = 5000;
 
+/** Maximum tracked reactions (WhatsApp removals don't say which emoji was removed) */
+const REACTION_CACHE_MAX_SIZE = 1000;
+const SENT_POLL_CACHE_MAX_SIZE = 500;
+
 /** Sent message ID cleanup delay (1 minute) */
 const SENT_MESSAGE_CLEANUP_MS = 60 * 1000;
 
@@ -177,16 +189,24 @@ export class WhatsAppAdapter implements ChannelAdapter {
   // One-time hint for missing groups config
   private loggedNoGroupsHint = false;
 
+  // Last emoji per chat:message:user, so removals can report what was removed
+  private reactionEmojis: Map<string, string> = new Map();
+
+  // Polls sent by the bot (message ID -> question), for forwarding votes
+  private sentPolls: Map<string, string> = new Map();
+
   // Credential save queue
   private credsSaveQueue: CredsSaveQueue | null = null;
 
   // Event handlers (set by bot core)
   onMessage?: (msg: InboundMessage) => Promise<void>;
   onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  isAddressed?: (text: string) => boolean;
 
   // Pre-bound handlers (created once to avoid bind() overhead)
   private boundHandleConnectionUpdate: (update: Partial<import("@whiskeysockets/baileys").ConnectionState>) => void;
   private boundHandleMessagesUpsert: (data: MessagesUpsertData) => void;
+  private boundHandleMessagesUpdate: (updates: WAMessageUpdate[]) => void;
 
   constructor(config: WhatsAppConfig) {
     this.config = {
@@ -225,6 +245,11 @@ export class WhatsAppAdapter implements ChannelAdapter {
     // Pre-bound handlers (avoid creating new functions each reconnect)
     this.boundHandleConnectionUpdate = this.handleConnectionUpdate.bind(this);
     this.boundHandleMessagesUpsert = this.handleMessagesUpsert.bind(this);
+    this.boundHandleMessagesUpdate = (updates) => {
+      this.handlePollUpdates(updates).catch((err) => {
+        log.error('Error handling poll update:', err);
+      });
+    };
   }
 
   /**
@@ -242,9 +267,13 @@ export class WhatsAppAdapter implements ChannelAdapter {
     // Combine all text with newlines
     const combinedText = messages.map((m) => m.text).join('\n');
 
+    // Keep shared location/contact details from every message
+    const contexts = messages.map((m) => m.extraContext).filter((c) => c !== undefined);
+
     return {
       ...last,
       text: combinedText,
+      ...(contexts.length > 0 ? { extraContext: Object.assign({}, ...contexts) } : {}),
     };
   }
 
@@ -519,10 +548,12 @@ export class WhatsAppAdapter implements ChannelAdapter {
     // Store refs for cleanup
     this.listenerRefs.connectionUpdate = this.boundHandleConnectionUpdate;
     this.listenerRefs.messagesUpsert = this.boundHandleMessagesUpsert;
+    this.listenerRefs.messagesUpdate = this.boundHandleMessagesUpdate;
 
     // Attach listeners
     this.sock.ev.on("connection.update", this.listenerRefs.connectionUpdate);
     this.sock.ev.on("messages.upsert", this.listenerRefs.messagesUpsert);
+    this.sock.ev.on("messages.update", this.listenerRefs.messagesUpdate);
   }
 
   /**
@@ -537,6 +568,9 @@ export class WhatsAppAdapter implements ChannelAdapter {
     if (this.listenerRefs.messagesUpsert) {
       this.sock.ev.off("messages.upsert", this.listenerRefs.messagesUpsert);
     }
+    if (this.listenerRefs.messagesUpdate) {
+      this.sock.ev.off("messages.update", this.listenerRefs.messagesUpdate);
+    }
 
     this.listenerRefs = {};
     this.stopWatchdog();
@@ -705,6 +739,14 @@ export class WhatsAppAdapter implements ChannelAdapter {
         continue;
       }
 
+      // Reactions take a lighter path: no pairing prompts, read receipts or debouncing
+      if (extracted.reaction) {
+        if (type === "notify") {
+          await this.handleInboundReaction(extracted, remoteJid, userId);
+        }
+        continue;
+      }
+
       log.debug(`Post-extraction: from=${from}, chatId=${chatId}, isGroup=${isGroup}, isExtractedSelfChat=${isExtractedSelfChat}, body="${body.slice(0, 50)}"`);
 
       // Check access control for DMs only (groups are open, self-chat always allowed)
@@ -779,7 +821,8 @@ export class WhatsAppAdapter implements ChannelAdapter {
           mentionPatterns: this.config.mentionPatterns,
         });
 
-        if (!gatingResult.shouldProcess) {
+        const addressed = gatingResult.reason === 'mention-required' && !!this.isAddressed?.(extracted.body);
+        if (!gatingResult.shouldProcess && !addressed) {
           if (gatingResult.reason === 'no-groups-config' && !this.loggedNoGroupsHint) {
             log.info(`Group messages ignored (no groups config). Add a "groups" section to your agent config to enable.`);
             this.loggedNoGroupsHint = true;
@@ -848,6 +891,178 @@ export class WhatsAppAdapter implements ChannelAdapter {
           isListeningMode,
           replyToUser: extracted.replyContext?.senderE164,
           attachments: extracted.attachments,
+          extraContext: extracted.extraContext,
+          formatterHints: this.getFormatterHints(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Forward an inbound reaction to the bot core.
+   * DMs only pass for already-approved senders; groups use the normal gating
+   * (so mention-only groups ignore reactions).
+   */
+  private async handleInboundReaction(
+    extracted: WebInboundMessage,
+    remoteJid: string,
+    userId: string
+  ): Promise<void> {
+    const reaction = extracted.reaction;
+    if (!reaction) return;
+
+    const { chatId, pushName, chatType, isSelfChat } = extracted;
+    const isGroup = chatType === "group";
+
+    if (!isGroup) {
+      const allowed = await isDmSenderAllowed({
+        userId,
+        isSelfChat: isSelfChat || false,
+        dmPolicy: this.config.dmPolicy || "pairing",
+        allowedUsers: this.config.allowedUsers,
+        selfChatMode: this.config.selfChatMode,
+      });
+      if (!allowed) {
+        log.debug(`DROPPED: reaction from unapproved sender ${userId}`);
+        return;
+      }
+    }
+
+    let isListeningMode = false;
+    if (isGroup) {
+      const gatingResult = applyGroupGating({
+        msg: extracted,
+        groupJid: remoteJid,
+        senderId: userId,
+        selfJid: this.myJid,
+        selfLid: this.myLid,
+        selfE164: this.myNumber,
+        groupsConfig: this.config.groups,
+        mentionPatterns: this.config.mentionPatterns,
+      });
+      if (!gatingResult.shouldProcess) {
+        log.debug(`Group reaction skipped: ${gatingResult.reason}`);
+        return;
+      }
+      isListeningMode = gatingResult.mode === 'listen';
+
+      const limits = resolveDailyLimits(this.config.groups, [remoteJid]);
+      const counterKey = `${this.config.agentName ?? ''}:whatsapp:${limits.matchedKey ?? remoteJid}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    // An empty emoji means the reaction was removed; look up what it was
+    const reactionKey = `${chatId}:${reaction.messageId}:${userId}`;
+    let emoji = reaction.emoji;
+    const action = emoji ? 'added' : 'removed';
+    if (emoji) {
+      this.reactionEmojis.delete(reactionKey);
+      this.reactionEmojis.set(reactionKey, emoji);
+      if (this.reactionEmojis.size > REACTION_CACHE_MAX_SIZE) {
+        const oldest = this.reactionEmojis.keys().next().value;
+        if (oldest !== undefined) this.reactionEmojis.delete(oldest);
+      }
+    } else {
+      emoji = this.reactionEmojis.get(reactionKey) || '';
+      this.reactionEmojis.delete(reactionKey);
+      if (!emoji) {
+        log.debug(`DROPPED: removal of unknown reaction on ${reaction.messageId}`);
+        return;
+      }
+    }
+
+    this.onMessage?.({
+      channel: "whatsapp",
+      chatId,
+      userId,
+      userName: pushName || undefined,
+      messageId: reaction.messageId,
+      text: '',
+      timestamp: extracted.timestamp,
+      isGroup,
+      groupName: extracted.groupSubject,
+      isListeningMode,
+      reaction: {
+        emoji,
+        messageId: reaction.messageId,
+        action,
+      },
+      formatterHints: this.getFormatterHints(),
+    }).catch((err) => {
+      log.error('Error handling reaction:', err);
+    });
+  }
+
+  /**
+   * Forward votes on polls the bot sent.
+   * Baileys delivers decrypted votes as pollUpdates on the poll creation
+   * message; the aggregate gives each voter's current selection.
+   */
+  private async handlePollUpdates(updates: WAMessageUpdate[]): Promise<void> {
+    for (const { key, update } of updates) {
+      const pollUpdates = update.pollUpdates;
+      const pollId = key.id || "";
+      const remoteJid = key.remoteJid || "";
+      if (!pollUpdates?.length || !this.sentPolls.has(pollId)) continue;
+
+      const pollMessage = this.messageStore.get(pollId);
+      if (!pollMessage?.message) continue;
+
+      const { getAggregateVotesInPollMessage } = await import("@whiskeysockets/baileys");
+      const aggregate = getAggregateVotesInPollMessage(
+        { message: pollMessage.message, pollUpdates },
+        this.myJid || undefined,
+      );
+
+      const isGroup = remoteJid.endsWith("@g.us");
+      for (const pollUpdate of pollUpdates) {
+        const voterKey = pollUpdate.pollUpdateMessageKey;
+        if (!voterKey || voterKey.fromMe) continue;
+        const voterJid = (isGroup ? voterKey.participant : voterKey.remoteJid) || "";
+        if (!voterJid) continue;
+        const userId = normalizePhoneForStorage(jidToE164(voterJid));
+
+        if (!isGroup) {
+          const allowed = await isDmSenderAllowed({
+            userId,
+            isSelfChat: false,
+            dmPolicy: this.config.dmPolicy || "pairing",
+            allowedUsers: this.config.allowedUsers,
+            selfChatMode: this.config.selfChatMode,
+          });
+          if (!allowed) {
+            log.debug(`DROPPED: poll vote from unapproved sender ${userId}`);
+            continue;
+          }
+        } else if (this.config.groups) {
+          if (!isGroupAllowed(this.config.groups, [remoteJid])) continue;
+          if (!isGroupUserAllowed(this.config.groups, [remoteJid], userId)) continue;
+          if (resolveGroupMode(this.config.groups, [remoteJid], 'open') === 'disabled') continue;
+        }
+
+        const options = aggregate
+          .filter((option: { voters: string[] }) => option.voters.includes(voterJid))
+          .map((option: { name: string }) => option.name);
+
+        await this.onMessage?.({
+          channel: "whatsapp",
+          chatId: remoteJid,
+          userId,
+          messageId: pollId,
+          text: '',
+          timestamp: new Date(),
+          isGroup,
+          pollVote: {
+            pollId,
+            messageId: pollId,
+            question: this.sentPolls.get(pollId),
+            options,
+            action: options.length > 0 ? 'added' : 'removed',
+          },
           formatterHints: this.getFormatterHints(),
         });
       }
@@ -1017,8 +1232,11 @@ export class WhatsAppAdapter implements ChannelAdapter {
 
   getFormatterHints() {
     return {
-      supportsReactions: false,
+      supportsReactions: true,
       supportsFiles: true,
+      supportsDeletes: true,
+      supportsReplies: true,
+      supportsBreaks: true,
       formatHint: 'WhatsApp: *bold* _italic_ `code` — NO: headers, code fences, links, tables',
     };
   }
@@ -1035,9 +1253,78 @@ export class WhatsAppAdapter implements ChannelAdapter {
     // WhatsApp doesn't support editing messages - no-op
   }
 
-  async addReaction(_chatId: string, _messageId: string, _emoji: string): Promise<void> {
-    // WhatsApp reactions via Baileys are not supported here yet
-    log.warn('addReaction not implemented -- directive skipped');
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    const { unicode } = resolveEmoji(emoji);
+    await sendWhatsAppReaction(this.sock, chatId, messageId, unicode, lidMapper, this.sentMessageIds);
+  }
+
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    const result = await sendWhatsAppPoll(this.sock, poll, lidMapper, this.sentMessageIds);
+    if (result.messageId) {
+      this.sentPolls.set(result.messageId, poll.question);
+      if (this.sentPolls.size > SENT_POLL_CACHE_MAX_SIZE) {
+        const oldest = this.sentPolls.keys().next().value;
+        if (oldest !== undefined) this.sentPolls.delete(oldest);
+      }
+    }
+    return result;
+  }
+
+  async sendLocation(location: OutboundLocation): Promise<{ messageId: string }> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    return sendWhatsAppLocation(this.sock, location, lidMapper, this.sentMessageIds);
+  }
+
+  async sendContact(contact: OutboundContact): Promise<{ messageId: string }> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    return sendWhatsAppContact(this.sock, contact, lidMapper, this.sentMessageIds);
+  }
+
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    await deleteWhatsAppMessage(this.sock, chatId, messageId, lidMapper);
   }
 
   async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
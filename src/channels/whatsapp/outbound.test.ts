@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { sendWhatsAppFile, type LidMapper } from './outbound.js';
+import { sendWhatsAppFile, sendWhatsAppMessage, sendWhatsAppReaction, type LidMapper } from './outbound.js';
 
 describe('sendWhatsAppFile', () => {
   it('sends audio as native voice note payload', async () => {
@@ -34,3 +34,71 @@ describe('sendWhatsAppFile', () => {
     );
   });
 });
+
+describe('sendWhatsAppReaction', () => {
+  it('reacts using the stored message key when available', async () => {
+    const sock = {
+      sendMessage: vi.fn(async () => ({ key: { id: 'reaction-1' } })),
+    } as any;
+    const storedKey = {
+      remoteJid: '120363000000000000@g.us',
+      id: 'msg-1',
+      fromMe: false,
+      participant: '15551234567@s.whatsapp.net',
+    };
+    const lidMapper: LidMapper = {
+      selfChatLid: '',
+      myNumber: '',
+      lidToJid: new Map(),
+      messageStore: new Map([['msg-1', { key: storedKey } as any]]),
+    };
+    const sentMessageIds = new Set<string>();
+
+    await sendWhatsAppReaction(sock, '120363000000000000@g.us', 'msg-1', '👍', lidMapper, sentMessageIds);
+
+    expect(sock.sendMessage).toHaveBeenCalledWith(
+      '120363000000000000@g.us',
+      { react: { text: '👍', key: storedKey } },
+    );
+    expect(sentMessageIds.has('reaction-1')).toBe(true);
+  });
+
+  it('builds a key from the chat and message ID when the message is not stored', async () => {
+    const sock = {
+      sendMessage: vi.fn(async () => ({ key: { id: '' } })),
+    } as any;
+    const lidMapper: LidMapper = {
+      selfChatLid: '',
+      myNumber: '',
+      lidToJid: new Map(),
+    };
+
+    await sendWhatsAppReaction(sock, '12345@s.whatsapp.net', 'msg-2', '🔥', lidMapper, new Set<string>());
+
+    expect(sock.sendMessage).toHaveBeenCalledWith(
+      '12345@s.whatsapp.net',
+      { react: { text: '🔥', key: { remoteJid: '12345@s.whatsapp.net', id: 'msg-2', fromMe: false } } },
+    );
+  });
+});
+
+describe('sendWhatsAppMessage', () => {
+  it('quotes the replied-to message when it is in the store', async () => {
+    const sock = {
+      sendMessage: vi.fn(async () => ({ key: { id: '' } })),
+    } as any;
+    const stored = { key: { remoteJid: '12345@s.whatsapp.net', id: 'in-1' }, message: { conversation: 'Hi' } } as any;
+    const lidMapper: LidMapper = {
+      selfChatLid: '',
+      myNumber: '',
+      lidToJid: new Map(),
+      messageStore: new Map([['in-1', stored]]),
+    };
+
+    await sendWhatsAppMessage(sock, { chatId: '12345@s.whatsapp.net', text: 'Hello', replyToMessageId: 'in-1' }, lidMapper, new Set());
+    await sendWhatsAppMessage(sock, { chatId: '12345@s.whatsapp.net', text: 'Again', replyToMessageId: 'gone' }, lidMapper, new Set());
+
+    expect(sock.sendMessage).toHaveBeenNthCalledWith(1, '12345@s.whatsapp.net', { text: 'Hello' }, { quoted: stored });
+    expect(sock.sendMessage).toHaveBeenNthCalledWith(2, '12345@s.whatsapp.net', { text: 'Again' });
+  });
+});
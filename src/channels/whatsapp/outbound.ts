@@ -5,9 +5,10 @@
  * Based on OpenClaw's outbound.ts pattern.
  */
 
-import type { OutboundMessage, OutboundFile } from "../../core/types.js";
+import type { OutboundMessage, OutboundFile, OutboundPoll, OutboundLocation, OutboundContact } from "../../core/types.js";
 import type { WAMessage, WAUrlInfo } from '@whiskeysockets/baileys';
 import { isLid } from "./utils.js";
+import { buildVCard } from "../../utils/vcard.js";
 import { basename } from "node:path";
 
 import { createLogger } from '../../logger.js';
@@ -155,8 +156,17 @@ export async function sendWhatsAppMessage(
       };
     }
 
+    // Quote the replied-to message. Baileys builds the contextInfo from the
+    // full stored message, so only messages still in the store can be quoted.
+    const quoted = msg.replyToMessageId ? lidMapper.messageStore?.get(msg.replyToMessageId) : undefined;
+    if (msg.replyToMessageId && !quoted) {
+      log.debug(`Cannot quote ${msg.replyToMessageId}: not in message store`);
+    }
+
     // Send message
-    const result = await sock.sendMessage(targetJid, messageContent);
+    const result = quoted
+      ? await sock.sendMessage(targetJid, messageContent, { quoted })
+      : await sock.sendMessage(targetJid, messageContent);
     const messageId = result?.key?.id || "";
     const message = result?.message;
 
@@ -186,6 +196,86 @@ export async function sendWhatsAppMessage(
   }
 }
 
+/**
+ * React to a message with an emoji.
+ *
+ * WhatsApp identifies the target by its full message key (chat, id, sender),
+ * so the stored WAMessage key is preferred. Without it we fall back to a key
+ * built from the chat and message ID, which works for DMs; group reactions
+ * also need the original sender (participant) and are only reliable for
+ * messages still in the store.
+ *
+ * An empty emoji removes the bot's reaction.
+ *
+ * @param sock - Baileys socket instance
+ * @param chatId - Chat containing the message (may be LID)
+ * @param messageId - ID of the message to react to
+ * @param emoji - Unicode emoji (already resolved from aliases)
+ * @param lidMapper - LID mapping data
+ * @param sentMessageIds - Set to track sent messages (prevents self-echo)
+ */
+export async function sendWhatsAppReaction(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  chatId: string,
+  messageId: string,
+  emoji: string,
+  lidMapper: LidMapper,
+  sentMessageIds: Set<string>
+): Promise<void> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(chatId, sock, lidMapper);
+  const storedKey = lidMapper.messageStore?.get(messageId)?.key;
+  const key = storedKey?.id
+    ? storedKey
+    : { remoteJid: targetJid, id: messageId, fromMe: false };
+
+  try {
+    const result = await sock.sendMessage(targetJid, { react: { text: emoji, key } });
+    const reactionId = result?.key?.id;
+
+    // Track the reaction message so its echo isn't processed as inbound
+    if (reactionId) {
+      sentMessageIds.add(reactionId);
+      setTimeout(() => {
+        sentMessageIds.delete(reactionId);
+      }, 60000);
+    }
+  } catch (error) {
+    log.error("sendReaction error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a message the bot sent, for everyone in the chat.
+ *
+ * @param sock - Baileys socket instance
+ * @param chatId - Chat containing the message (may be LID)
+ * @param messageId - ID of the bot's message to delete
+ * @param lidMapper - LID mapping data
+ */
+export async function deleteWhatsAppMessage(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  chatId: string,
+  messageId: string,
+  lidMapper: LidMapper
+): Promise<void> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(chatId, sock, lidMapper);
+  const storedKey = lidMapper.messageStore?.get(messageId)?.key;
+  const key = storedKey?.id
+    ? storedKey
+    : { remoteJid: targetJid, id: messageId, fromMe: true };
+
+  await sock.sendMessage(targetJid, { delete: key });
+}
+
 /**
  * Send typing indicator to a chat.
  *
@@ -317,3 +407,156 @@ export async function sendWhatsAppFile(
     throw error;
   }
 }
+
+/**
+ * Send a native WhatsApp poll.
+ *
+ * The sent message is kept in the message store: Baileys needs the poll
+ * creation message to decrypt incoming votes.
+ *
+ * @param sock - Baileys socket instance
+ * @param poll - Poll to send
+ * @param lidMapper - LID mapping data
+ * @param sentMessageIds - Set to track sent messages
+ * @returns Message ID
+ */
+export async function sendWhatsAppPoll(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  poll: OutboundPoll,
+  lidMapper: LidMapper,
+  sentMessageIds: Set<string>
+): Promise<{ messageId: string }> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(poll.chatId, sock, lidMapper);
+
+  try {
+    const result = await sock.sendMessage(targetJid, {
+      poll: {
+        name: poll.question,
+        values: poll.options,
+        selectableCount: poll.multiple ? poll.options.length : 1,
+      },
+    });
+    const messageId = result?.key?.id || "";
+
+    if (messageId) {
+      sentMessageIds.add(messageId);
+
+      if (result && lidMapper.messageStore) {
+        lidMapper.messageStore.set(messageId, result);
+        setTimeout(() => {
+          lidMapper.messageStore?.delete(messageId);
+        }, 24 * 60 * 60 * 1000);
+      }
+
+      setTimeout(() => {
+        sentMessageIds.delete(messageId);
+      }, 60000);
+    }
+
+    return { messageId };
+  } catch (error) {
+    log.error("sendPoll error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Track a sent location/contact like other outbound messages: in the
+ * echo-filter set briefly, and in the message store for quoting.
+ */
+function trackSentMessage(
+  result: WAMessage | undefined,
+  lidMapper: LidMapper,
+  sentMessageIds: Set<string>
+): string {
+  const messageId = result?.key?.id || "";
+  if (!messageId) return messageId;
+
+  sentMessageIds.add(messageId);
+  if (result && lidMapper.messageStore) {
+    lidMapper.messageStore.set(messageId, result);
+    setTimeout(() => {
+      lidMapper.messageStore?.delete(messageId);
+    }, 24 * 60 * 60 * 1000);
+  }
+  setTimeout(() => {
+    sentMessageIds.delete(messageId);
+  }, 60000);
+  return messageId;
+}
+
+/**
+ * Send a native WhatsApp location pin.
+ *
+ * @param sock - Baileys socket instance
+ * @param location - Location to send
+ * @param lidMapper - LID mapping data
+ * @param sentMessageIds - Set to track sent messages
+ * @returns Message ID
+ */
+export async function sendWhatsAppLocation(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  location: OutboundLocation,
+  lidMapper: LidMapper,
+  sentMessageIds: Set<string>
+): Promise<{ messageId: string }> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(location.chatId, sock, lidMapper);
+
+  try {
+    const result = await sock.sendMessage(targetJid, {
+      location: {
+        degreesLatitude: location.latitude,
+        degreesLongitude: location.longitude,
+        ...(location.name ? { name: location.name } : {}),
+        ...(location.address ? { address: location.address } : {}),
+      },
+    });
+    return { messageId: trackSentMessage(result, lidMapper, sentMessageIds) };
+  } catch (error) {
+    log.error("sendLocation error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send a native WhatsApp contact card (vCard).
+ *
+ * @param sock - Baileys socket instance
+ * @param contact - Contact to send
+ * @param lidMapper - LID mapping data
+ * @param sentMessageIds - Set to track sent messages
+ * @returns Message ID
+ */
+export async function sendWhatsAppContact(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  contact: OutboundContact,
+  lidMapper: LidMapper,
+  sentMessageIds: Set<string>
+): Promise<{ messageId: string }> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(contact.chatId, sock, lidMapper);
+
+  try {
+    const result = await sock.sendMessage(targetJid, {
+      contacts: {
+        displayName: contact.name,
+        contacts: [{ vcard: buildVCard(contact) }],
+      },
+    });
+    return { messageId: trackSentMessage(result, lidMapper, sentMessageIds) };
+  } catch (error) {
+    log.error("sendContact error:", error);
+    throw error;
+  }
+}
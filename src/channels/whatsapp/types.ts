@@ -98,6 +98,7 @@ export interface ListenerRefs {
   credsUpdate?: () => void;
   connectionUpdate?: (update: Partial<import("@whiskeysockets/baileys").ConnectionState>) => void;
   messagesUpsert?: (data: MessagesUpsertData) => void;
+  messagesUpdate?: (updates: import("@whiskeysockets/baileys").WAMessageUpdate[]) => void;
 }
 
 /**
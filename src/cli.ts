@@ -257,6 +257,7 @@ Commands:
   todo remove <id>     Remove a todo
   todo snooze <id>     Snooze a todo until a date
   set-conversation <id>  Set a specific conversation ID
+  conversations explain <channel> <chat>  Show which conversation a chat routes to
   reset-conversation   Clear conversation ID (fixes corrupted conversations)
   destroy              Delete all local data and start fresh
   pairing list <ch>    List pending pairing requests
@@ -698,6 +699,12 @@ async function main() {
       await blueskyCommand(subCommand, args.slice(2));
       break;
     }
+
+    case 'conversations': {
+      const { conversationsCommand } = await import('./cli/conversations.js');
+      await conversationsCommand(subCommand, args.slice(2));
+      break;
+    }
     
     case 'pairing': {
       const channel = subCommand;
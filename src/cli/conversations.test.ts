@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { explainConversationRouting } from './conversations.js';
+import type { AgentConfig } from '../config/index.js';
+
+function agent(conversations: AgentConfig['conversations']): AgentConfig {
+  return { name: 'Muninn', channels: {}, conversations };
+}
+
+describe('explainConversationRouting', () => {
+  it('reports the matching route and its stored conversation', () => {
+    const lines = explainConversationRouting(
+      agent({
+        mode: 'shared',
+        routes: [
+          { match: { channel: 'slack', messageType: 'group' }, key: 'slack:{chatId}' },
+          { match: { messageType: 'dm' }, key: '{channel}:{userId}' },
+        ],
+      }),
+      { channel: 'telegram', chatId: '42', userId: '7', messageType: 'dm' },
+      key => (key === 'telegram:7' ? 'conv-7' : null),
+    );
+
+    expect(lines).toEqual([
+      'Agent: Muninn (mode: shared, 2 routes)',
+      'Rule: routes[1] (messageType=dm) -> key "{channel}:{userId}"',
+      'Conversation key: telegram:7',
+      'Conversation: conv-7',
+    ]);
+  });
+
+  it('shows pinned conversation IDs from the config', () => {
+    const lines = explainConversationRouting(
+      agent({ routes: [{ match: { chatId: 'C1' }, pinned: 'support' }], pinned: { support: 'conv-support' } }),
+      { channel: 'slack', chatId: 'C1', messageType: 'group' },
+    );
+
+    expect(lines.slice(2)).toEqual(['Conversation key: pinned:support', 'Conversation: conv-support']);
+  });
+
+  it('falls back to the mode and perChannel overrides', () => {
+    expect(explainConversationRouting(agent({ mode: 'per-chat' }), { channel: 'slack', chatId: 'C1' }))
+      .toEqual([
+        'Agent: Muninn (mode: per-chat, 0 routes)',
+        'Rule: no route matched; per-chat mode',
+        'Conversation key: slack:C1',
+        'Conversation: (none yet; created on the first message)',
+      ]);
+    expect(explainConversationRouting(agent({ perChannel: ['Slack'] }), { channel: 'slack', chatId: 'C1' })[1])
+      .toBe('Rule: no route matched; perChannel override for slack');
+    expect(explainConversationRouting(agent({ mode: 'disabled', routes: [{ key: 'x' }] }), { channel: 'slack', chatId: 'C1' }))
+      .toEqual([
+        'Agent: Muninn (mode: disabled, 1 route)',
+        'Rule: conversations are disabled; routes are ignored',
+        'Conversation key: default',
+      ]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * lettabot conversations - inspect conversation routing
+ *
+ * Usage:
+ *   lettabot conversations explain <channel> <chat> [--user <id>] [--type dm|group|public]
+ *                                  [--group <name>] [--server <id>] [--thread <id>] [--agent <name>]
+ */
+
+import { loadAppConfigOrExit, normalizeAgents, type AgentConfig } from '../config/index.js';
+import {
+  compileConversationRoutes,
+  describeConversationRoute,
+  matchConversationRoute,
+  resolveConversationKey,
+  type ConversationRouteContext,
+} from '../core/conversation-routes.js';
+import { Store } from '../core/store.js';
+import type { MessageType } from '../core/types.js';
+
+const MESSAGE_TYPES: MessageType[] = ['dm', 'group', 'public'];
+
+function showUsage(): void {
+  console.log(`
+Usage: lettabot conversations explain <channel> <chat> [options]
+
+Shows which conversations.routes rule (or conversation mode) a message
+from that chat would use, and the conversation it maps to.
+
+Options:
+  --user <id>           Sender user ID
+  --type <type>         Message type: dm, group or public (default: dm)
+  --group <name>        Group name, for groupName patterns
+  --server <id>         Server/guild ID
+  --thread <id>         Thread ID (per-thread mode, {threadId} templates)
+  --agent <name>        Agent name (default: first configured agent)
+
+Examples:
+  lettabot conversations explain slack C0123ABCD --type group --user U0456
+  lettabot conversations explain telegram 123456789 --user 123456789
+`);
+}
+
+function parseArgs(argv: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const current = argv[i];
+    if (!current.startsWith('--')) {
+      positional.push(current);
+      continue;
+    }
+    const next = argv[i + 1];
+    if (!next || next.startsWith('--')) {
+      throw new Error(`Missing value for ${current}`);
+    }
+    flags[current.slice(2)] = next;
+    i += 1;
+  }
+  return { positional, flags };
+}
+
+/**
+ * Describe how a message would be routed for an agent. `lookup` returns the
+ * stored conversation ID for a key, if any.
+ */
+export function explainConversationRouting(
+  agent: AgentConfig,
+  ctx: ConversationRouteContext,
+  lookup: (key: string) => string | null = () => null,
+): string[] {
+  const conversations = agent.conversations ?? {};
+  const mode = conversations.mode || 'shared';
+  const routes = compileConversationRoutes(conversations.routes, conversations.pinned);
+  const lines = [
+    `Agent: ${agent.name} (mode: ${mode}, ${routes.length} route${routes.length === 1 ? '' : 's'})`,
+  ];
+
+  let key: string;
+  let pinnedName: string | undefined;
+  if (mode === 'disabled') {
+    key = 'default';
+    lines.push('Rule: conversations are disabled; routes are ignored');
+  } else {
+    const match = matchConversationRoute(routes, ctx);
+    if (match) {
+      key = match.key;
+      pinnedName = match.route.config.pinned;
+      lines.push(`Rule: ${describeConversationRoute(match.route)}`);
+    } else {
+      const overrides = new Set((conversations.perChannel ?? []).map(ch => ch.toLowerCase()));
+      key = resolveConversationKey(ctx.channel, mode, overrides, ctx.chatId, false, ctx.threadId);
+      const source = overrides.has(ctx.channel.toLowerCase()) && mode === 'shared'
+        ? `perChannel override for ${ctx.channel.toLowerCase()}`
+        : `${mode} mode`;
+      lines.push(`Rule: no route matched; ${source}`);
+    }
+  }
+
+  lines.push(`Conversation key: ${key}`);
+  if (key !== 'default') {
+    const conversationId = pinnedName ? conversations.pinned?.[pinnedName] ?? null : lookup(key);
+    lines.push(`Conversation: ${conversationId ?? '(none yet; created on the first message)'}`);
+  }
+  return lines;
+}
+
+export async function conversationsCommand(subCommand: string | undefined, argv: string[]): Promise<void> {
+  if (subCommand !== 'explain') {
+    showUsage();
+    if (subCommand && subCommand !== 'help') process.exit(1);
+    return;
+  }
+
+  try {
+    const { positional, flags } = parseArgs(argv);
+    const [channel, chatId] = positional;
+    if (!channel || !chatId) {
+      throw new Error('Usage: lettabot conversations explain <channel> <chat> [--user <id>] [--type dm|group|public]');
+    }
+    const messageType = (flags.type ?? 'dm') as MessageType;
+    if (!MESSAGE_TYPES.includes(messageType)) {
+      throw new Error(`Invalid --type "${flags.type}" (expected dm, group or public)`);
+    }
+
+    const agents = normalizeAgents(loadAppConfigOrExit());
+    const agent = flags.agent
+      ? agents.find(a => a.name.toLowerCase() === flags.agent.toLowerCase())
+      : agents[0];
+    if (!agent) {
+      throw new Error(`Agent "${flags.agent}" not found in config`);
+    }
+
+    const store = new Store('lettabot-agent.json', agent.name);
+    const lines = explainConversationRouting(agent, {
+      channel,
+      chatId,
+      userId: flags.user,
+      messageType,
+      groupName: flags.group,
+      serverId: flags.server,
+      threadId: flags.thread,
+    }, key => (key === 'shared' ? store.conversationId : store.getConversationId(key)));
+    for (const line of lines) console.log(line);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
@@ -29,6 +29,12 @@ describe('normalizeAgents', () => {
     'WHATSAPP_ENABLED', 'WHATSAPP_SELF_CHAT_MODE', 'WHATSAPP_DM_POLICY', 'WHATSAPP_ALLOWED_USERS',
     'SIGNAL_PHONE_NUMBER', 'SIGNAL_SELF_CHAT_MODE', 'SIGNAL_READ_RECEIPTS', 'SIGNAL_DM_POLICY', 'SIGNAL_ALLOWED_USERS',
     'DISCORD_BOT_TOKEN', 'DISCORD_DM_POLICY', 'DISCORD_ALLOWED_USERS',
+    'MATRIX_HOMESERVER_URL', 'MATRIX_ACCESS_TOKEN', 'MATRIX_USER_ID', 'MATRIX_DM_POLICY', 'MATRIX_ALLOWED_USERS',
+    'HTTP_CHANNEL_CALLBACK_URL', 'HTTP_CHANNEL_SECRET', 'HTTP_CHANNEL_DM_POLICY', 'HTTP_CHANNEL_ALLOWED_USERS',
+    'EMAIL_IMAP_HOST', 'EMAIL_SMTP_HOST', 'EMAIL_USER', 'EMAIL_PASSWORD', 'EMAIL_ADDRESS', 'EMAIL_DM_POLICY', 'EMAIL_ALLOWED_USERS',
+    'IRC_SERVER', 'IRC_NICK', 'IRC_PORT', 'IRC_TLS', 'IRC_CHANNELS', 'IRC_SASL_ACCOUNT', 'IRC_SASL_PASSWORD',
+    'IRC_NICKSERV_PASSWORD', 'IRC_DM_POLICY', 'IRC_ALLOWED_USERS',
+    'MATTERMOST_URL', 'MATTERMOST_TOKEN', 'MATTERMOST_DM_POLICY', 'MATTERMOST_ALLOWED_USERS',
     'BLUESKY_WANTED_DIDS', 'BLUESKY_WANTED_COLLECTIONS', 'BLUESKY_JETSTREAM_URL', 'BLUESKY_CURSOR',
     'BLUESKY_HANDLE', 'BLUESKY_APP_PASSWORD', 'BLUESKY_SERVICE_URL', 'BLUESKY_APPVIEW_URL',
     'BLUESKY_NOTIFICATIONS_ENABLED', 'BLUESKY_NOTIFICATIONS_INTERVAL_SEC', 'BLUESKY_NOTIFICATIONS_LIMIT',
@@ -660,6 +666,190 @@ describe('normalizeAgents', () => {
       expect(agents[0].channels.discord?.token).toBe('discord-token');
     });
 
+    it('should pick up Matrix from env vars and merge into YAML blocks', () => {
+      process.env.MATRIX_HOMESERVER_URL = 'https://matrix.example.org';
+      process.env.MATRIX_ACCESS_TOKEN = 'syt_env';
+      process.env.MATRIX_ALLOWED_USERS = '@alice:example.org,@bob:example.org';
+
+      const envOnly = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: {},
+      });
+      expect(envOnly[0].channels.matrix).toMatchObject({
+        homeserverUrl: 'https://matrix.example.org',
+        accessToken: 'syt_env',
+        allowedUsers: ['@alice:example.org', '@bob:example.org'],
+      });
+
+      const merged = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { matrix: { enabled: true, homeserverUrl: 'https://yaml.example.org', dmPolicy: 'open' } },
+      });
+      expect(merged[0].channels.matrix?.homeserverUrl).toBe('https://yaml.example.org');
+      expect(merged[0].channels.matrix?.accessToken).toBe('syt_env');
+      expect(merged[0].channels.matrix?.dmPolicy).toBe('open');
+    });
+
+    it('should reject Matrix config missing an access token', () => {
+      const config: LettaBotConfig = {
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { matrix: { enabled: true, homeserverUrl: 'https://matrix.example.org' } },
+      };
+
+      expect(() => normalizeAgents(config)).toThrow('channels.matrix: missing required field(s): homeserverUrl, accessToken');
+    });
+
+    it('should pick up the HTTP channel from env vars', () => {
+      process.env.HTTP_CHANNEL_CALLBACK_URL = 'https://app.example.com/hook';
+      process.env.HTTP_CHANNEL_SECRET = 'env-secret';
+      process.env.HTTP_CHANNEL_DM_POLICY = 'open';
+
+      const agents = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: {},
+      });
+      expect(agents[0].channels.http).toMatchObject({
+        callbackUrl: 'https://app.example.com/hook',
+        secret: 'env-secret',
+        dmPolicy: 'open',
+      });
+    });
+
+    it('should reject an HTTP channel config missing a secret', () => {
+      const config: LettaBotConfig = {
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { http: { enabled: true, callbackUrl: 'https://app.example.com/hook' } },
+      };
+
+      expect(() => normalizeAgents(config)).toThrow('channels.http: missing required field(s): callbackUrl, secret');
+    });
+
+    it('should pick up email from env vars and merge credentials into YAML blocks', () => {
+      process.env.EMAIL_IMAP_HOST = 'imap.example.com';
+      process.env.EMAIL_SMTP_HOST = 'smtp.example.com';
+      process.env.EMAIL_USER = 'bot@example.com';
+      process.env.EMAIL_PASSWORD = 'app-password';
+      process.env.EMAIL_ALLOWED_USERS = 'alice@example.com';
+
+      const envOnly = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: {},
+      });
+      expect(envOnly[0].channels.email).toMatchObject({
+        imapHost: 'imap.example.com',
+        smtpHost: 'smtp.example.com',
+        user: 'bot@example.com',
+        password: 'app-password',
+        allowedUsers: ['alice@example.com'],
+      });
+
+      const merged = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { email: { enabled: true, imapHost: 'mail.example.org', smtpHost: 'mail.example.org', smtpPort: 587 } },
+      });
+      expect(merged[0].channels.email?.imapHost).toBe('mail.example.org');
+      expect(merged[0].channels.email?.smtpPort).toBe(587);
+      expect(merged[0].channels.email?.password).toBe('app-password');
+    });
+
+    it('should reject email config missing credentials', () => {
+      const config: LettaBotConfig = {
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { email: { enabled: true, imapHost: 'imap.example.com', smtpHost: 'smtp.example.com' } },
+      };
+
+      expect(() => normalizeAgents(config)).toThrow('channels.email: missing required field(s): imapHost, smtpHost, user, password');
+    });
+
+    it('should pick up IRC from env vars with channels as mention-only groups', () => {
+      process.env.IRC_SERVER = 'irc.libera.chat';
+      process.env.IRC_NICK = 'lettabot';
+      process.env.IRC_TLS = 'false';
+      process.env.IRC_PORT = '6667';
+      process.env.IRC_CHANNELS = '#lettabot,#dev';
+      process.env.IRC_SASL_PASSWORD = 'sasl-secret';
+
+      const envOnly = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: {},
+      });
+      expect(envOnly[0].channels.irc).toMatchObject({
+        server: 'irc.libera.chat',
+        nick: 'lettabot',
+        port: 6667,
+        tls: false,
+        saslPassword: 'sasl-secret',
+        groups: { '#lettabot': { mode: 'mention-only' }, '#dev': { mode: 'mention-only' } },
+      });
+
+      const merged = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { irc: { enabled: true, server: 'irc.oftc.net', groups: { '#ops': { mode: 'open' } } } },
+      });
+      expect(merged[0].channels.irc?.server).toBe('irc.oftc.net');
+      expect(merged[0].channels.irc?.nick).toBe('lettabot');
+      expect(merged[0].channels.irc?.saslPassword).toBe('sasl-secret');
+      expect(merged[0].channels.irc?.groups).toEqual({ '#ops': { mode: 'open' } });
+    });
+
+    it('should reject IRC config missing server or nick', () => {
+      const config: LettaBotConfig = {
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { irc: { enabled: true, server: 'irc.libera.chat' } },
+      };
+
+      expect(() => normalizeAgents(config)).toThrow('channels.irc: missing required field(s): server, nick');
+    });
+
+    it('should pick up Mattermost from env vars and merge credentials into YAML blocks', () => {
+      process.env.MATTERMOST_URL = 'https://chat.example.com';
+      process.env.MATTERMOST_TOKEN = 'mm-token';
+      process.env.MATTERMOST_ALLOWED_USERS = 'user1,user2';
+
+      const envOnly = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: {},
+      });
+      expect(envOnly[0].channels.mattermost).toMatchObject({
+        serverUrl: 'https://chat.example.com',
+        token: 'mm-token',
+        dmPolicy: 'pairing',
+        allowedUsers: ['user1', 'user2'],
+      });
+
+      const merged = normalizeAgents({
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { mattermost: { enabled: true, streaming: true, instantGroups: ['abc'], listeningGroups: ['def'] } },
+      });
+      expect(merged[0].channels.mattermost?.serverUrl).toBe('https://chat.example.com');
+      expect(merged[0].channels.mattermost?.token).toBe('mm-token');
+      expect(merged[0].channels.mattermost?.streaming).toBe(true);
+      expect(merged[0].channels.mattermost?.groups?.def).toEqual({ mode: 'listen' });
+    });
+
+    it('should reject Mattermost config missing credentials', () => {
+      const config: LettaBotConfig = {
+        server: { mode: 'cloud' },
+        agent: { name: 'TestBot', model: 'test' },
+        channels: { mattermost: { enabled: true, serverUrl: 'https://chat.example.com' } },
+      };
+
+      expect(() => normalizeAgents(config)).toThrow('channels.mattermost: missing required field(s): serverUrl, token');
+    });
+
     it('should allow disabling Signal read receipts via env var', () => {
       process.env.SIGNAL_PHONE_NUMBER = '+1234567890';
       process.env.SIGNAL_READ_RECEIPTS = 'false';
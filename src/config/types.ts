@@ -41,6 +41,26 @@ export interface DisplayConfig {
   reasoningMaxChars?: number;
 }
 
+/**
+ * Conversation routing rule (conversations.routes).
+ * Every field in `match` must match; a rule without `match` matches all messages.
+ * Set either `key` or `pinned`.
+ */
+export interface ConversationRouteConfig {
+  match?: {
+    channel?: string | string[];
+    chatId?: string | string[];
+    userId?: string | string[];
+    messageType?: 'dm' | 'group' | 'public';
+    groupName?: string;               // Regular expression, case-insensitive
+    serverId?: string | string[];
+  };
+  /** Conversation key template, e.g. "{channel}:{userId}" */
+  key?: string;
+  /** Name of an entry in conversations.pinned */
+  pinned?: string;
+}
+
 export type SleeptimeTrigger = 'off' | 'step-count' | 'compaction-event';
 export type SleeptimeBehavior = 'reminder' | 'auto-launch';
 
@@ -61,10 +81,18 @@ export interface AgentConfig {
   id?: string;
   /** Display name prefixed to outbound messages (e.g. "💜 Signo") */
   displayName?: string;
+  /** Other names that address this agent in groups on a shared channel */
+  aliases?: string[];
   /** Model for initial agent creation */
   model?: string;
   /** Working directory for this agent's SDK sessions (overrides global) */
   workingDir?: string;
+  /**
+   * Channels configured on another agent that this agent also answers on.
+   * Group messages naming this agent (displayName, name or aliases) are
+   * routed to it; the configuring agent handles everything else.
+   */
+  sharedChannels?: string[];
   /** Channels this agent connects to */
   channels: {
     telegram?: TelegramConfig;
@@ -73,15 +101,22 @@ export interface AgentConfig {
     whatsapp?: WhatsAppConfig;
     signal?: SignalConfig;
     discord?: DiscordConfig;
+    matrix?: MatrixConfig;
+    http?: HttpChannelConfig;
+    email?: EmailConfig;
+    irc?: IrcConfig;
+    mattermost?: MattermostConfig;
     bluesky?: BlueskyConfig;
   };
   /** Conversation routing */
   conversations?: {
-    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat';  // Default: shared (single conversation across all channels)
+    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat' | 'per-thread';  // Default: shared (single conversation across all channels)
     heartbeat?: string;               // "dedicated" | "last-active" | "<channel>" (default: last-active)
     perChannel?: string[];            // Channels that should always have their own conversation
-    maxSessions?: number;             // Max concurrent sessions in per-chat mode (default: 10, LRU eviction)
+    maxSessions?: number;             // Max concurrent sessions in per-chat/per-thread mode (default: 10, LRU eviction)
     reuseSession?: boolean;           // Reuse SDK subprocess across messages (default: true). Set false to eliminate stream state bleed.
+    routes?: ConversationRouteConfig[]; // Routing rules checked in order before the mode (first match wins)
+    pinned?: Record<string, string>;  // Named conversation IDs that routes can pin to
   };
   /** Features for this agent */
   features?: {
@@ -103,6 +138,8 @@ export interface AgentConfig {
     sendFileDir?: string;    // Restrict <send-file> directive to this directory (default: data/outbound)
     sendFileMaxSize?: number; // Max file size in bytes for <send-file> (default: 50MB)
     sendFileCleanup?: boolean; // Allow <send-file cleanup="true"> to delete after send (default: false)
+    forwardTo?: string[];    // Destinations <forward> may deliver to ("telegram:123", "discord:*"); unset = disabled
+    directives?: string[];   // Plugin modules that register custom directives (process-wide)
     display?: DisplayConfig;
     /** Per-channel display overrides (keys are channel IDs: telegram, bluesky, etc.) */
     channelDisplay?: Record<string, DisplayConfig>;
@@ -175,16 +212,23 @@ export interface LettaBotConfig {
     whatsapp?: WhatsAppConfig;
     signal?: SignalConfig;
     discord?: DiscordConfig;
+    matrix?: MatrixConfig;
+    http?: HttpChannelConfig;
+    email?: EmailConfig;
+    irc?: IrcConfig;
+    mattermost?: MattermostConfig;
     bluesky?: BlueskyConfig;
   };
 
   // Conversation routing
   conversations?: {
-    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat';  // Default: shared (single conversation across all channels)
+    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat' | 'per-thread';  // Default: shared (single conversation across all channels)
     heartbeat?: string;               // "dedicated" | "last-active" | "<channel>" (default: last-active)
     perChannel?: string[];            // Channels that should always have their own conversation
-    maxSessions?: number;             // Max concurrent sessions in per-chat mode (default: 10, LRU eviction)
+    maxSessions?: number;             // Max concurrent sessions in per-chat/per-thread mode (default: 10, LRU eviction)
     reuseSession?: boolean;           // Reuse SDK subprocess across messages (default: true). Set false to eliminate stream state bleed.
+    routes?: ConversationRouteConfig[]; // Routing rules checked in order before the mode (first match wins)
+    pinned?: Record<string, string>;  // Named conversation IDs that routes can pin to
   };
 
   // Features
@@ -208,6 +252,8 @@ export interface LettaBotConfig {
     sendFileDir?: string;   // Restrict <send-file> directive to this directory (default: data/outbound)
     sendFileMaxSize?: number; // Max file size in bytes for <send-file> (default: 50MB)
     sendFileCleanup?: boolean; // Allow <send-file cleanup="true"> to delete after send (default: false)
+    forwardTo?: string[];   // Destinations <forward> may deliver to ("telegram:123", "discord:*"); unset = disabled
+    directives?: string[];  // Plugin modules that register custom directives (see docs/directives.md)
     display?: DisplayConfig;  // Show tool calls / reasoning in channel output
     allowedTools?: string[];       // Global tool whitelist (overridden by per-agent, falls back to ALLOWED_TOOLS env)
     disallowedTools?: string[];    // Global tool blocklist (overridden by per-agent, falls back to DISALLOWED_TOOLS env)
@@ -387,6 +433,7 @@ export interface SignalConfig {
   httpHost?: string;    // Daemon HTTP host (default: "127.0.0.1")
   httpPort?: number;    // Daemon HTTP port (default: 8090)
   readReceipts?: boolean; // Send read receipts for incoming messages (default: true)
+  streaming?: boolean;  // Stream responses via progressive message edits (default: false)
   selfChat?: boolean;
   dmPolicy?: 'pairing' | 'allowlist' | 'open';
   allowedUsers?: string[];
@@ -411,6 +458,102 @@ export interface DiscordConfig {
   listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
   groups?: Record<string, GroupConfig>;  // Per-guild/channel settings, "*" for defaults
   ignoreBotReactions?: boolean;   // Ignore all bot reactions (default: true). Set false for multi-bot setups.
+  slashCommands?: boolean;        // Register native slash commands on startup (default: true)
+}
+
+export interface MatrixConfig {
+  enabled: boolean;
+  homeserverUrl?: string;         // e.g. https://matrix.example.org
+  accessToken?: string;           // Bot account access token
+  userId?: string;                // Bot MXID (@bot:example.org); resolved via whoami when omitted
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Matrix user IDs (@user:server)
+  streaming?: boolean;            // Stream responses via progressive message edits (default: false)
+  autoJoin?: boolean;             // Accept room invites automatically (default: true)
+  mentionPatterns?: string[];     // Regex patterns for mention detection (e.g., ["@bot"])
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Room IDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-room settings, "*" for defaults
+}
+
+/**
+ * Generic HTTP webhook channel for custom frontends.
+ * Inbound: signed POST /api/v1/channels/http[/<agent>]. Outbound: signed POSTs to callbackUrl.
+ */
+export interface HttpChannelConfig {
+  enabled: boolean;
+  callbackUrl?: string;           // Webhook URL that receives outbound messages, edits, files, reactions
+  secret?: string;                // Shared HMAC-SHA256 secret for signing both directions
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Frontend user IDs
+  streaming?: boolean;            // Stream responses via progressive edit callbacks (default: false)
+  formatHint?: string;            // Formatting guidance for the agent (default: standard Markdown)
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Chat IDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-chat settings, "*" for defaults
+}
+
+export interface IrcConfig {
+  enabled: boolean;
+  server?: string;                // e.g. irc.libera.chat
+  port?: number;                  // Default: 6697 with TLS, 6667 without
+  tls?: boolean;                  // Default: true
+  nick?: string;
+  username?: string;              // Default: nick
+  realname?: string;              // Default: "LettaBot"
+  password?: string;              // Server password (PASS)
+  saslAccount?: string;           // SASL PLAIN account (default: nick)
+  saslPassword?: string;          // Enables SASL PLAIN
+  nickservPassword?: string;      // IDENTIFY with NickServ after connecting
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Account names when the server supports account-tag, otherwise nicks (case-insensitive)
+  mentionPatterns?: string[];     // Regex patterns for mention detection (nick is always matched)
+  floodDelayMs?: number;          // Delay between lines after a short burst (default: 500)
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Channel names that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Channel names (joined automatically), "*" for defaults
+}
+
+export interface MattermostConfig {
+  enabled: boolean;
+  serverUrl?: string;             // e.g. https://chat.example.com
+  token?: string;                 // Bot account or personal access token
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Mattermost user IDs
+  streaming?: boolean;            // Stream responses via progressive message edits (default: false)
+  mentionPatterns?: string[];     // Regex patterns for mention detection (@username is always matched)
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Channel IDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-channel settings (channel IDs), "*" for defaults
+}
+
+export interface EmailConfig {
+  enabled: boolean;
+  imapHost?: string;              // e.g. imap.example.com
+  imapPort?: number;              // Default: 993
+  imapSecure?: boolean;           // Implicit TLS (default: true when imapPort is 993)
+  mailbox?: string;               // Mailbox to watch (default: INBOX)
+  smtpHost?: string;              // e.g. smtp.example.com
+  smtpPort?: number;              // Default: 465
+  smtpSecure?: boolean;           // Implicit TLS (default: true when smtpPort is 465; otherwise STARTTLS if offered)
+  smtpUser?: string;              // Default: user
+  smtpPassword?: string;          // Default: password
+  user?: string;                  // IMAP login
+  password?: string;              // IMAP password (use an app password where required)
+  address?: string;               // Bot's email address (default: user)
+  fromName?: string;              // Display name on replies
+  pollIntervalSec?: number;       // Mailbox poll interval (default: 30)
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Sender email addresses
+  requireAuthentication?: boolean; // Drop mail without a DKIM/DMARC pass for the From domain (default: true)
 }
 
 export interface BlueskyConfig {
@@ -600,6 +743,30 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
     if (channels.discord && !channels.discord.token && process.env.DISCORD_BOT_TOKEN) {
       channels.discord.token = process.env.DISCORD_BOT_TOKEN;
     }
+    if (channels.matrix) {
+      if (!channels.matrix.homeserverUrl && process.env.MATRIX_HOMESERVER_URL) channels.matrix.homeserverUrl = process.env.MATRIX_HOMESERVER_URL;
+      if (!channels.matrix.accessToken && process.env.MATRIX_ACCESS_TOKEN) channels.matrix.accessToken = process.env.MATRIX_ACCESS_TOKEN;
+    }
+    if (channels.http) {
+      if (!channels.http.callbackUrl && process.env.HTTP_CHANNEL_CALLBACK_URL) channels.http.callbackUrl = process.env.HTTP_CHANNEL_CALLBACK_URL;
+      if (!channels.http.secret && process.env.HTTP_CHANNEL_SECRET) channels.http.secret = process.env.HTTP_CHANNEL_SECRET;
+    }
+    if (channels.irc) {
+      if (!channels.irc.server && process.env.IRC_SERVER) channels.irc.server = process.env.IRC_SERVER;
+      if (!channels.irc.nick && process.env.IRC_NICK) channels.irc.nick = process.env.IRC_NICK;
+      if (!channels.irc.saslPassword && process.env.IRC_SASL_PASSWORD) channels.irc.saslPassword = process.env.IRC_SASL_PASSWORD;
+      if (!channels.irc.nickservPassword && process.env.IRC_NICKSERV_PASSWORD) channels.irc.nickservPassword = process.env.IRC_NICKSERV_PASSWORD;
+    }
+    if (channels.mattermost) {
+      if (!channels.mattermost.serverUrl && process.env.MATTERMOST_URL) channels.mattermost.serverUrl = process.env.MATTERMOST_URL;
+      if (!channels.mattermost.token && process.env.MATTERMOST_TOKEN) channels.mattermost.token = process.env.MATTERMOST_TOKEN;
+    }
+    if (channels.email) {
+      if (!channels.email.imapHost && process.env.EMAIL_IMAP_HOST) channels.email.imapHost = process.env.EMAIL_IMAP_HOST;
+      if (!channels.email.smtpHost && process.env.EMAIL_SMTP_HOST) channels.email.smtpHost = process.env.EMAIL_SMTP_HOST;
+      if (!channels.email.user && process.env.EMAIL_USER) channels.email.user = process.env.EMAIL_USER;
+      if (!channels.email.password && process.env.EMAIL_PASSWORD) channels.email.password = process.env.EMAIL_PASSWORD;
+    }
     if (channels['telegram-mtproto']) {
       if (channels['telegram-mtproto'].apiId === undefined && process.env.TELEGRAM_API_ID) {
         const parsedApiId = parseInt(process.env.TELEGRAM_API_ID, 10);
@@ -649,6 +816,30 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
       normalizeLegacyGroupFields(discord, `${sourcePath}.discord`);
       normalized.discord = discord;
     }
+    if (channels.matrix?.enabled !== false && channels.matrix?.homeserverUrl && channels.matrix?.accessToken) {
+      const matrix = { ...channels.matrix };
+      normalizeLegacyGroupFields(matrix, `${sourcePath}.matrix`);
+      normalized.matrix = matrix;
+    }
+    if (channels.http?.enabled !== false && channels.http?.callbackUrl && channels.http?.secret) {
+      const httpChannel = { ...channels.http };
+      normalizeLegacyGroupFields(httpChannel, `${sourcePath}.http`);
+      normalized.http = httpChannel;
+    }
+    if (channels.irc?.enabled !== false && channels.irc?.server && channels.irc?.nick) {
+      const irc = { ...channels.irc };
+      normalizeLegacyGroupFields(irc, `${sourcePath}.irc`);
+      normalized.irc = irc;
+    }
+    if (channels.mattermost?.enabled !== false && channels.mattermost?.serverUrl && channels.mattermost?.token) {
+      const mattermost = { ...channels.mattermost };
+      normalizeLegacyGroupFields(mattermost, `${sourcePath}.mattermost`);
+      normalized.mattermost = mattermost;
+    }
+    if (channels.email?.enabled !== false && channels.email?.imapHost && channels.email?.smtpHost
+      && channels.email?.user && channels.email?.password) {
+      normalized.email = channels.email;
+    }
     if (channels.bluesky && channels.bluesky.enabled !== false) {
       const bluesky = { ...channels.bluesky, enabled: channels.bluesky.enabled ?? true };
       const wantsDids = Array.isArray(bluesky.wantedDids) && bluesky.wantedDids.length > 0;
@@ -666,6 +857,11 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
       { name: 'slack', raw: channels.slack, included: !!normalized.slack, required: 'botToken, appToken' },
       { name: 'signal', raw: channels.signal, included: !!normalized.signal, required: 'phone' },
       { name: 'discord', raw: channels.discord, included: !!normalized.discord, required: 'token' },
+      { name: 'matrix', raw: channels.matrix, included: !!normalized.matrix, required: 'homeserverUrl, accessToken' },
+      { name: 'http', raw: channels.http, included: !!normalized.http, required: 'callbackUrl, secret' },
+      { name: 'irc', raw: channels.irc, included: !!normalized.irc, required: 'server, nick' },
+      { name: 'mattermost', raw: channels.mattermost, included: !!normalized.mattermost, required: 'serverUrl, token' },
+      { name: 'email', raw: channels.email, included: !!normalized.email, required: 'imapHost, smtpHost, user, password' },
     ];
 
     const invalidChannels = channelCredentials
@@ -773,6 +969,65 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
       allowedUsers: parseList(process.env.DISCORD_ALLOWED_USERS),
     };
   }
+  if (!channels.matrix && process.env.MATRIX_HOMESERVER_URL && process.env.MATRIX_ACCESS_TOKEN) {
+    channels.matrix = {
+      enabled: true,
+      homeserverUrl: process.env.MATRIX_HOMESERVER_URL,
+      accessToken: process.env.MATRIX_ACCESS_TOKEN,
+      userId: process.env.MATRIX_USER_ID,
+      dmPolicy: (process.env.MATRIX_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.MATRIX_ALLOWED_USERS),
+    };
+  }
+  if (!channels.http && process.env.HTTP_CHANNEL_CALLBACK_URL && process.env.HTTP_CHANNEL_SECRET) {
+    channels.http = {
+      enabled: true,
+      callbackUrl: process.env.HTTP_CHANNEL_CALLBACK_URL,
+      secret: process.env.HTTP_CHANNEL_SECRET,
+      dmPolicy: (process.env.HTTP_CHANNEL_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.HTTP_CHANNEL_ALLOWED_USERS),
+    };
+  }
+  if (!channels.irc && process.env.IRC_SERVER && process.env.IRC_NICK) {
+    const ircChannels = parseList(process.env.IRC_CHANNELS) ?? [];
+    channels.irc = {
+      enabled: true,
+      server: process.env.IRC_SERVER,
+      port: process.env.IRC_PORT ? parseInt(process.env.IRC_PORT, 10) : undefined,
+      tls: process.env.IRC_TLS ? process.env.IRC_TLS !== 'false' : undefined,
+      nick: process.env.IRC_NICK,
+      saslAccount: process.env.IRC_SASL_ACCOUNT,
+      saslPassword: process.env.IRC_SASL_PASSWORD,
+      nickservPassword: process.env.IRC_NICKSERV_PASSWORD,
+      dmPolicy: (process.env.IRC_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.IRC_ALLOWED_USERS),
+      groups: ircChannels.length > 0
+        ? Object.fromEntries(ircChannels.map((channel) => [channel, { mode: 'mention-only' as const }]))
+        : undefined,
+    };
+  }
+  if (!channels.mattermost && process.env.MATTERMOST_URL && process.env.MATTERMOST_TOKEN) {
+    channels.mattermost = {
+      enabled: true,
+      serverUrl: process.env.MATTERMOST_URL,
+      token: process.env.MATTERMOST_TOKEN,
+      dmPolicy: (process.env.MATTERMOST_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.MATTERMOST_ALLOWED_USERS),
+    };
+  }
+  if (!channels.email && process.env.EMAIL_IMAP_HOST && process.env.EMAIL_SMTP_HOST
+    && process.env.EMAIL_USER && process.env.EMAIL_PASSWORD) {
+    channels.email = {
+      enabled: true,
+      imapHost: process.env.EMAIL_IMAP_HOST,
+      smtpHost: process.env.EMAIL_SMTP_HOST,
+      user: process.env.EMAIL_USER,
+      password: process.env.EMAIL_PASSWORD,
+      address: process.env.EMAIL_ADDRESS,
+      dmPolicy: (process.env.EMAIL_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.EMAIL_ALLOWED_USERS),
+    };
+  }
   if (!channels.bluesky && process.env.BLUESKY_WANTED_DIDS) {
     channels.bluesky = {
       enabled: true,
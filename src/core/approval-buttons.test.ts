@@ -0,0 +1,168 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import type { ApprovalDecisionResult, InboundMessage, OutboundMessage } from './types.js';
+import {
+  approvePendingApproval,
+  getPendingApprovals,
+  rejectApproval,
+  submitApprovalDecisions,
+} from '../tools/letta-api.js';
+
+vi.mock('../tools/letta-api.js', () => ({
+  getPendingApprovals: vi.fn(),
+  rejectApproval: vi.fn().mockResolvedValue(true),
+  approvePendingApproval: vi.fn().mockResolvedValue(true),
+  submitApprovalDecisions: vi.fn().mockResolvedValue(true),
+  cancelRuns: vi.fn(),
+  cancelConversation: vi.fn(),
+  recoverOrphanedConversationApproval: vi.fn().mockResolvedValue({ recovered: false }),
+  recoverPendingApprovalsForAgent: vi.fn(),
+  isRecoverableConversationId: vi.fn(() => false),
+  getLatestRunError: vi.fn().mockResolvedValue(null),
+  getAgentModel: vi.fn(),
+  updateAgentModel: vi.fn(),
+}));
+
+const PENDING = [
+  { runId: 'run-1', toolCallId: 'call-a', toolName: 'shell', messageId: 'm-1', arguments: '{"command":"ls"}' },
+  { runId: 'run-1', toolCallId: 'call-b', toolName: 'web_search', messageId: 'm-1' },
+];
+
+describe('per-call tool approvals', () => {
+  let dataDir: string;
+  let workingDir: string;
+  const originalDataDir = process.env.DATA_DIR;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dataDir = mkdtempSync(join(tmpdir(), 'lettabot-data-'));
+    workingDir = mkdtempSync(join(tmpdir(), 'lettabot-work-'));
+    process.env.DATA_DIR = dataDir;
+    writeFileSync(
+      join(dataDir, 'lettabot-agent.json'),
+      JSON.stringify({
+        version: 2,
+        agents: {
+          LettaBot: {
+            agentId: 'agent-1',
+            conversationId: 'conv-1',
+            createdAt: '2026-01-01T00:00:00.000Z',
+            lastUsedAt: '2026-01-01T00:00:01.000Z',
+          },
+        },
+      }),
+      'utf-8',
+    );
+  });
+
+  afterEach(() => {
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR;
+    } else {
+      process.env.DATA_DIR = originalDataDir;
+    }
+    rmSync(dataDir, { recursive: true, force: true });
+    rmSync(workingDir, { recursive: true, force: true });
+  });
+
+  function makeAdapter() {
+    return {
+      id: 'telegram' as const,
+      name: 'Telegram',
+      start: vi.fn(async () => {}),
+      stop: vi.fn(async () => {}),
+      isRunning: vi.fn(() => true),
+      sendMessage: vi.fn(async (_msg: OutboundMessage) => ({ messageId: 'msg-1' })),
+      editMessage: vi.fn(async () => {}),
+      sendTypingIndicator: vi.fn(async () => {}),
+      stopTypingIndicator: vi.fn(async () => {}),
+      supportsEditing: vi.fn(() => false),
+      getFormatterHints: vi.fn(() => ({})),
+      sendApprovalRequest: vi.fn(async () => {}),
+      onApprovalDecision: undefined as undefined | ((toolCallId: string, approve: boolean, chatId?: string) => Promise<ApprovalDecisionResult>),
+    };
+  }
+
+  it('submits a single tool call as soon as it is decided', async () => {
+    vi.mocked(getPendingApprovals).mockResolvedValue([PENDING[0]]);
+    const bot = new LettaBot({ workingDir, allowedTools: [] });
+    const adapter = makeAdapter();
+    bot.registerChannel(adapter);
+
+    const result = await adapter.onApprovalDecision!('call-a', true, 'chat-1');
+
+    expect(result).toEqual({ text: '(Approved shell.)', applied: true });
+    expect(getPendingApprovals).toHaveBeenCalledWith('agent-1', 'conv-1');
+    expect(approvePendingApproval).toHaveBeenCalledWith(
+      'agent-1',
+      [{ toolCallId: 'call-a', reason: 'Approved by user from chat' }],
+      'conv-1',
+    );
+  });
+
+  it('holds parallel calls until the whole run is decided', async () => {
+    vi.mocked(getPendingApprovals).mockResolvedValue(PENDING);
+    const bot = new LettaBot({ workingDir, allowedTools: [] });
+    const adapter = makeAdapter();
+    bot.registerChannel(adapter);
+
+    const first = await adapter.onApprovalDecision!('call-a', true, 'chat-1');
+    expect(first.applied).toBe(false);
+    expect(first.text).toContain('Waiting on 1 more tool call(s)');
+    expect(submitApprovalDecisions).not.toHaveBeenCalled();
+
+    const second = await adapter.onApprovalDecision!('call-b', false, 'chat-1');
+    expect(second).toEqual({ text: '(Denied web_search.)', applied: true });
+    expect(submitApprovalDecisions).toHaveBeenCalledWith('agent-1', [
+      { toolCallId: 'call-a', approve: true, reason: 'Approved by user from chat' },
+      { toolCallId: 'call-b', approve: false, reason: 'Denied by user from chat' },
+    ], 'conv-1');
+    expect(approvePendingApproval).not.toHaveBeenCalled();
+    expect(rejectApproval).not.toHaveBeenCalled();
+  });
+
+  it('reports tool calls that are no longer pending', async () => {
+    vi.mocked(getPendingApprovals).mockResolvedValue([]);
+    const bot = new LettaBot({ workingDir, allowedTools: [] });
+    const adapter = makeAdapter();
+    bot.registerChannel(adapter);
+
+    const result = await adapter.onApprovalDecision!('call-a', false, 'chat-1');
+
+    expect(result).toEqual({ text: '(This tool call is no longer pending.)', applied: false });
+    expect(rejectApproval).not.toHaveBeenCalled();
+  });
+
+  it('renders pending approvals when a run stops for approval', async () => {
+    vi.mocked(getPendingApprovals).mockResolvedValue(PENDING);
+    const bot = new LettaBot({ workingDir, allowedTools: [] });
+    const adapter = makeAdapter();
+
+    (bot as any).sessionManager.runSession = vi.fn(async () => ({
+      session: { abort: vi.fn(async () => {}) },
+      stream: async function* () {
+        yield { type: 'tool_call', toolCallId: 'call-a', toolName: 'shell', toolInput: { command: 'ls' } };
+        yield { type: 'result', success: true, result: '', stopReason: 'requires_approval' };
+      },
+    }));
+
+    const msg: InboundMessage = {
+      channel: 'telegram',
+      chatId: 'chat-1',
+      userId: 'user-1',
+      text: 'list files',
+      timestamp: new Date(),
+    };
+
+    await (bot as any).processMessage(msg, adapter);
+
+    expect(adapter.sendApprovalRequest).toHaveBeenCalledWith('chat-1', [
+      { toolCallId: 'call-a', toolName: 'shell', arguments: '{"command":"ls"}' },
+      { toolCallId: 'call-b', toolName: 'web_search', arguments: undefined },
+    ], undefined);
+    expect(adapter.sendMessage).not.toHaveBeenCalled();
+  });
+});
@@ -5,10 +5,16 @@
  * - formatQuestionsForChannel output
  * - handleMessage interceptor (pendingQuestionResolver)
  * - canUseTool callback wiring
+ * - interactive answers (adapter.onQuestionAnswer)
  */
 
-import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
 import { formatQuestionsForChannel } from './display.js';
+import { LettaBot } from './bot.js';
+import type { InboundMessage } from './types.js';
 
 describe('formatQuestionsForChannel', () => {
   test('single question with 2 options', () => {
@@ -178,3 +184,89 @@ describe('AskUserQuestion canUseTool callback', () => {
     });
   });
 });
+
+// ---------------------------------------------------------------------------
+// 4. Interactive answers from channels with buttons/menus
+// ---------------------------------------------------------------------------
+
+describe('AskUserQuestion interactive answers', () => {
+  let workingDir: string;
+
+  beforeEach(() => {
+    workingDir = mkdtempSync(join(tmpdir(), 'lettabot-ask-'));
+  });
+
+  afterEach(() => {
+    rmSync(workingDir, { recursive: true, force: true });
+  });
+
+  const questions = [
+    { question: 'Q1?', header: 'H1', options: [{ label: 'A', description: 'd' }], multiSelect: false },
+    { question: 'Q2?', header: 'H2', options: [{ label: 'B', description: 'd' }, { label: 'C', description: 'd' }], multiSelect: true },
+  ];
+
+  function makeAdapter() {
+    return {
+      id: 'slack' as const,
+      name: 'Slack',
+      start: vi.fn(async () => {}),
+      stop: vi.fn(async () => {}),
+      isRunning: vi.fn(() => true),
+      sendMessage: vi.fn(async () => ({ messageId: 'msg-1' })),
+      editMessage: vi.fn(async () => {}),
+      sendTypingIndicator: vi.fn(async () => {}),
+      getFormatterHints: vi.fn(() => ({})),
+      sendQuestionRequest: vi.fn(async () => {}),
+      onQuestionAnswer: undefined as undefined | ((answers: string[], chatId?: string) => Promise<string>),
+    };
+  }
+
+  const msg: InboundMessage = {
+    channel: 'slack',
+    chatId: 'C123',
+    userId: 'U1',
+    text: 'help me decide',
+    timestamp: new Date(),
+  };
+
+  test('renders questions interactively and maps answers by question', async () => {
+    const bot = new LettaBot({ workingDir, allowedTools: [] });
+    const adapter = makeAdapter();
+    const sendMessage = adapter.sendMessage; // registerChannel wraps it for redaction
+    bot.registerChannel(adapter);
+
+    const canUseTool = (bot as any).buildCanUseToolCallback(msg, adapter);
+    const pending = canUseTool('AskUserQuestion', { questions });
+    await vi.waitFor(() => expect(adapter.sendQuestionRequest).toHaveBeenCalledWith('C123', questions, undefined));
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    const result = await adapter.onQuestionAnswer!(['A', 'B, C'], 'C123');
+    expect(result).toBe('(Answer sent.)');
+
+    const decision = await pending;
+    expect(decision.updatedInput.answers).toEqual({ 'Q1?': 'A', 'Q2?': 'B, C' });
+  });
+
+  test('falls back to text when the interactive message fails', async () => {
+    const bot = new LettaBot({ workingDir, allowedTools: [] });
+    const adapter = makeAdapter();
+    adapter.sendQuestionRequest.mockRejectedValueOnce(new Error('invalid_blocks'));
+    const sendMessage = adapter.sendMessage;
+    bot.registerChannel(adapter);
+
+    const canUseTool = (bot as any).buildCanUseToolCallback(msg, adapter);
+    const pending = canUseTool('AskUserQuestion', { questions });
+    await vi.waitFor(() => expect(sendMessage).toHaveBeenCalledTimes(1));
+
+    await adapter.onQuestionAnswer!(['A', 'B'], 'C123');
+    await pending;
+  });
+
+  test('reports answers when no question is pending', async () => {
+    const bot = new LettaBot({ workingDir, allowedTools: [] });
+    const adapter = makeAdapter();
+    bot.registerChannel(adapter);
+
+    expect(await adapter.onQuestionAnswer!(['A'], 'C123')).toBe('(This question is no longer pending.)');
+  });
+});
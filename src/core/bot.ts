@@ -10,28 +10,45 @@ import { readFile, access, unlink, realpath, stat, constants } from 'node:fs/pro
 import sharp from 'sharp';
 import { execFile } from 'node:child_process';
 import { extname, resolve, join } from 'node:path';
-import type { ChannelAdapter } from '../channels/types.js';
-import type { BotConfig, InboundMessage, TriggerContext, TriggerType, StreamMsg } from './types.js';
+import { EditLimitError, type ChannelAdapter } from '../channels/types.js';
+import type { ApprovalDecisionResult, BotConfig, ChannelId, InboundMessage, QuestionRequest, TriggerContext, TriggerType, StreamMsg } from './types.js';
+import type { CronJob, CronJobCreate } from '../cron/types.js';
+import { describeSchedule, parseScheduleSpec } from '../cron/schedule-spec.js';
 import { formatApiErrorForUser } from './errors.js';
-import { formatToolCallDisplay, formatReasoningDisplay, formatQuestionsForChannel } from './display.js';
-import type { AgentSession } from './interfaces.js';
+import { formatToolCallDisplay, formatReasoningDisplay, formatQuestionsForChannel, formatPollAsText, formatLocationAsText, formatContactAsText, formatForwardedMessage } from './display.js';
+import type { AgentSession, HandoffRouter } from './interfaces.js';
 import { Store } from './store.js';
-import { getPendingApprovals, rejectApproval, approvePendingApproval, cancelRuns, cancelConversation, recoverOrphanedConversationApproval, getLatestRunError, getAgentModel, updateAgentModel, isRecoverableConversationId, recoverPendingApprovalsForAgent } from '../tools/letta-api.js';
+import { getPendingApprovals, rejectApproval, approvePendingApproval, submitApprovalDecisions, cancelRuns, cancelConversation, recoverOrphanedConversationApproval, getLatestRunError, getAgentModel, updateAgentModel, isRecoverableConversationId, recoverPendingApprovalsForAgent } from '../tools/letta-api.js';
 import { getAgentSkillExecutableDirs, isVoiceMemoConfigured } from '../skills/loader.js';
-import { formatMessageEnvelope, formatGroupBatchEnvelope, type SessionContextOptions } from './formatter.js';
+import { formatActionNotesReminder, formatMessageEnvelope, formatGroupBatchEnvelope, type SessionContextOptions } from './formatter.js';
 import type { GroupBatcher } from './group-batcher.js';
 import { recoverPendingApprovalsWithSdk } from './session-sdk-compat.js';
 import { redactOutbound } from './redact.js';
 import {
-  hasIncompleteActionsTag,
-  hasUnclosedActionsBlock,
+  getStreamingDisplayText,
   parseDirectives,
-  stripActionsBlock,
+  splitAtBreak,
+  stripBreaks,
+  StreamingDirectiveParser,
+  directiveTag,
+  formatDirectiveOutcome,
   type Directive,
+  type DirectiveOutcome,
 } from './directives.js';
+import { directiveRegistry } from './directive-registry.js';
 import { resolveEmoji } from './emoji.js';
 import { SessionManager } from './session-manager.js';
+import {
+  compileConversationRoutes,
+  isPinnedConversationKey,
+  matchConversationRoute,
+  pinnedConversationKey,
+  resolveConversationKey,
+  routeContextForMessage,
+  type ConversationRoute,
+} from './conversation-routes.js';
 import { createDisplayPipeline, type DisplayEvent, type CompleteEvent, type ErrorEvent } from './display-pipeline.js';
+import { InboundQueue } from './inbound-queue.js';
 import { TurnLogger, TurnAccumulator, generateTurnId, type TurnRecord } from './turn-logger.js';
 
 
@@ -53,6 +70,35 @@ const AUDIO_FILE_EXTENSIONS = new Set([
 /** Anthropic recommends max 1568px on longest side; larger images waste bandwidth for no benefit. */
 const MAX_IMAGE_DIMENSION = 1568;
 
+/** Outbound message IDs remembered per chat for edit/delete directives */
+const MAX_SENT_MESSAGE_IDS = 10;
+/** Chats whose outbound IDs are remembered before the least recent is dropped */
+const MAX_SENT_MESSAGE_CHATS = 500;
+
+/** Directive results kept per chat for the agent's next turn; older ones are dropped */
+const MAX_ACTION_NOTES = 20;
+/** Chats with pending directive results before the least recent is dropped */
+const MAX_ACTION_NOTE_CHATS = 500;
+
+/** Inbound messages remembered per chat so <forward> can copy them */
+const MAX_RECENT_INBOUND_MESSAGES = 50;
+
+/** Most options any native poll supports (Telegram, Discord and WhatsApp all allow at least 10) */
+const MAX_POLL_OPTIONS = 10;
+
+/** Messages one response can be split into with <break/>; later markers become paragraph breaks */
+const MAX_BREAK_MESSAGES = 10;
+/** Minimum pause between <break/> messages, keeping bursts under each channel's per-chat send limit */
+const BREAK_MIN_GAP_MS: Partial<Record<string, number>> = {
+  telegram: 1000,
+  'telegram-mtproto': 1000,
+  slack: 1000,
+  discord: 1000,
+  whatsapp: 1500,
+  signal: 1000,
+};
+const DEFAULT_BREAK_MIN_GAP_MS = 500;
+
 const MIME_FROM_EXT: Record<string, ImageContent['source']['media_type']> = {
   '.png': 'image/png',
   '.gif': 'image/gif',
@@ -205,11 +251,23 @@ async function buildMultimodalMessage(
 }
 
 export { type StreamMsg } from './types.js';
+export { resolveConversationKey } from './conversation-routes.js';
 
 export function isResponseDeliverySuppressed(msg: Pick<InboundMessage, 'isListeningMode'>): boolean {
   return msg.isListeningMode === true;
 }
 
+/**
+ * Message the response should quote: the first self-closing <reply-to />.
+ * Reply-to directives with text are sent separately by executeDirectives.
+ */
+export function resolveReplyTarget(directives: Directive[]): string | undefined {
+  for (const directive of directives) {
+    if (directive.type === 'reply-to' && !directive.text) return directive.messageId;
+  }
+  return undefined;
+}
+
 /**
  * Combine multiple pending messages into a single synthetic message.
  * Text is joined with newlines; metadata comes from the last message.
@@ -230,24 +288,16 @@ export function combinePendingMessages(messages: InboundMessage[]): InboundMessa
 }
 
 /**
- * Pure function: resolve the conversation key for a channel message.
- * Returns `${channel}:${chatId}` in per-chat mode.
- * Returns the channel id in per-channel mode or when the channel is in overrides.
- * Returns 'shared' otherwise.
+ * Thread that an inbound message belongs to, for per-thread routing. Slack
+ * sets threadId to the message's own ts on top-level posts (so replies open
+ * a thread); those are not thread messages and keep the top-level key.
  */
-export function resolveConversationKey(
-  channel: string,
-  conversationMode: string | undefined,
-  conversationOverrides: Set<string>,
-  chatId?: string,
-  forcePerChat?: boolean,
-): string {
-  if (conversationMode === 'disabled') return 'default';
-  const normalized = channel.toLowerCase();
-  if ((conversationMode === 'per-chat' || forcePerChat) && chatId) return `${normalized}:${chatId}`;
-  if (conversationMode === 'per-channel') return normalized;
-  if (conversationOverrides.has(normalized)) return normalized;
-  return 'shared';
+export function conversationThreadId(msg: Pick<InboundMessage, 'threadId' | 'messageId'>): string | undefined {
+  return msg.threadId && msg.threadId !== msg.messageId ? msg.threadId : undefined;
+}
+
+function routedChatKey(channel: string, chatId?: string, threadId?: string): string {
+  return [channel.toLowerCase(), chatId ?? '', ...(threadId ? [threadId] : [])].join(':');
 }
 
 /**
@@ -303,6 +353,10 @@ export class LettaBot implements AgentSession {
   
   // Callback to trigger heartbeat (set by main.ts)
   public onTriggerHeartbeat?: () => Promise<void>;
+  // Callback to create cron jobs from <schedule> directives (set by main.ts when cron is enabled)
+  public onScheduleJob?: (input: CronJobCreate) => CronJob;
+  // Other agents <handoff> can pass chats to (set by main.ts in multi-agent mode)
+  public handoffRouter?: HandoffRouter;
   private groupBatcher?: GroupBatcher;
   private groupIntervals: Map<string, number> = new Map();
   private instantGroupIds: Set<string> = new Set();
@@ -321,11 +375,42 @@ export class LettaBot implements AgentSession {
   // AskUserQuestion support: resolves when the next user message arrives.
   // In per-chat mode, keyed by convKey so each chat resolves independently.
   // In shared mode, a single entry keyed by 'shared' provides legacy behavior.
-  private pendingQuestionResolvers: Map<string, (text: string) => void> = new Map();
+  // Interactive channels resolve with per-question answers instead of free text.
+  private pendingQuestionResolvers: Map<string, (answer: string | string[]) => void> = new Map();
+
+  // Per-call approval decisions (inline buttons) waiting for the rest of their
+  // run: the API requires all parallel tool calls of a run to be resolved together.
+  private approvalDecisions: Map<string, { approve: boolean; reason: string }> = new Map();
+
+  // Recent outbound message IDs per channel:chat, oldest first. Surfaced in the
+  // chat context so the agent can target them with edit/delete directives.
+  private sentMessageIds: Map<string, string[]> = new Map();
+
+  // Directive results to report to the agent on its next turn in a chat,
+  // keyed by channel:chat, least recent first (e.g. the ID of a job created
+  // by <schedule>).
+  private pendingActionNotes: Map<string, string[]> = new Map();
+
+  // Recent inbound messages per channel:chat, oldest first, for <forward>
+  // copies on channels without native forwarding.
+  private recentInbound: Map<string, InboundMessage[]> = new Map();
+
+  // Chats other agents handed to this one, keyed by channel:chat, with the
+  // name of the agent to hand them back to.
+  private handedOffChats: Map<string, string> = new Map();
 
   private conversationOverrides: Set<string> = new Set();
+  private readonly conversationRoutes: ConversationRoute[];
+  // Key the latest message in each channel:chat[:thread] was routed to by
+  // conversations.routes, so commands (which carry no sender details) act
+  // on the same conversation.
+  private routedChats: Map<string, string> = new Map();
   private readonly sessionManager: SessionManager;
   private readonly turnLogger: TurnLogger | null;
+  private readonly inboundQueue: InboundQueue | null;
+  // Set while start() is bringing channels up; queues wait on it so replayed
+  // messages are processed first and nothing runs before adapters can reply.
+  private channelsReady: Promise<void> | null = null;
 
   constructor(config: BotConfig) {
     this.config = config;
@@ -335,12 +420,20 @@ export class LettaBot implements AgentSession {
     this.turnLogger = config.logging?.turnLogFile
       ? new TurnLogger(config.logging.turnLogFile, config.logging.maxTurns)
       : null;
+    this.inboundQueue = config.inboundQueueFile ? new InboundQueue(config.inboundQueueFile) : null;
     if (config.reuseSession === false) {
       this.log.warn('Session reuse disabled (conversations.reuseSession=false): each foreground/background message uses a fresh SDK subprocess (~5s overhead per turn).');
     }
     if (config.conversationOverrides?.length) {
       this.conversationOverrides = new Set(config.conversationOverrides.map((ch) => ch.toLowerCase()));
     }
+    this.conversationRoutes = compileConversationRoutes(config.conversationRoutes, config.pinnedConversations);
+    for (const [name, conversationId] of Object.entries(config.pinnedConversations ?? {})) {
+      const key = pinnedConversationKey(name);
+      if (this.store.getConversationId(key) !== conversationId) {
+        this.store.setConversationId(key, conversationId);
+      }
+    }
     this.sessionManager = new SessionManager(this.store, config, this.processingKeys, this.lastResultRunFingerprints);
     this.log.info(`LettaBot initialized. Agent ID: ${this.store.agentId || '(new)'}`);
   }
@@ -380,26 +473,46 @@ export class LettaBot implements AgentSession {
   // Approval resolution (shared by /approve and /disapprove)
   // =========================================================================
 
+  /**
+   * Resolve the conversation whose approvals a chat may act on.
+   * Returns null for a per-chat conversation that doesn't exist yet, so callers
+   * never scan agent-wide (would leak approvals from other conversations).
+   */
+  private resolveApprovalConversation(
+    channelId?: string,
+    chatId?: string,
+    forcePerChat?: boolean,
+    threadId?: string,
+  ): { convId?: string } | null {
+    const convKey = channelId ? this.resolveConversationKey(channelId, chatId, forcePerChat, threadId) : 'shared';
+    const convId = convKey === 'shared'
+      ? this.store.conversationId || undefined
+      : this.store.getConversationId(convKey) || undefined;
+    if (convKey !== 'shared' && !convId) {
+      // Slack answers top-level posts in a thread, so controls and commands
+      // for a top-level conversation can arrive with that thread's id.
+      if (threadId) return this.resolveApprovalConversation(channelId, chatId, forcePerChat);
+      return null;
+    }
+    return { convId };
+  }
+
   private async resolveApprovals(
     approve: boolean,
     channelId?: string,
     chatId?: string,
     forcePerChat?: boolean,
     args?: string,
+    threadId?: string,
   ): Promise<string> {
     const agentId = this.store.agentId;
     if (!agentId) return '(No agent configured.)';
 
-    const convKey = channelId ? this.resolveConversationKey(channelId, chatId, forcePerChat) : 'shared';
-    const convId = convKey === 'shared'
-      ? this.store.conversationId || undefined
-      : this.store.getConversationId(convKey) || undefined;
-
-    // If this is a non-shared conversation but we have no conversation ID yet,
-    // refuse to scan agent-wide (would leak approvals from other conversations).
-    if (convKey !== 'shared' && !convId) {
+    const conversation = this.resolveApprovalConversation(channelId, chatId, forcePerChat, threadId);
+    if (!conversation) {
       return '(No conversation found for this chat yet.)';
     }
+    const { convId } = conversation;
 
     const pending = await getPendingApprovals(agentId, convId);
     if (pending.length === 0) {
@@ -434,6 +547,124 @@ export class LettaBot implements AgentSession {
     return `(${action} ${count} pending tool call(s).)`;
   }
 
+  /**
+   * Resolve a single tool call from an inline approve/deny control.
+   * Parallel calls of the same run are held until every call has a decision,
+   * then submitted together.
+   */
+  private async resolveApprovalDecision(
+    toolCallId: string,
+    approve: boolean,
+    channelId?: string,
+    chatId?: string,
+    forcePerChat?: boolean,
+    threadId?: string,
+  ): Promise<ApprovalDecisionResult> {
+    const agentId = this.store.agentId;
+    if (!agentId) return { text: '(No agent configured.)', applied: false };
+
+    const conversation = this.resolveApprovalConversation(channelId, chatId, forcePerChat, threadId);
+    if (!conversation) {
+      return { text: '(No conversation found for this chat yet.)', applied: false };
+    }
+    const { convId } = conversation;
+
+    const pending = await getPendingApprovals(agentId, convId);
+    const target = pending.find(p => p.toolCallId === toolCallId);
+    if (!target) {
+      this.approvalDecisions.delete(toolCallId);
+      return { text: '(This tool call is no longer pending.)', applied: false };
+    }
+
+    const action = approve ? 'Approved' : 'Denied';
+    this.approvalDecisions.set(toolCallId, {
+      approve,
+      reason: approve ? 'Approved by user from chat' : 'Denied by user from chat',
+    });
+
+    const siblings = pending.filter(p => p.runId === target.runId);
+    const undecided = siblings.filter(p => !this.approvalDecisions.has(p.toolCallId));
+    if (undecided.length > 0) {
+      return {
+        text: `(${action} ${target.toolName}. Waiting on ${undecided.length} more tool call(s) from this run.)`,
+        applied: false,
+      };
+    }
+
+    const decisions = siblings.map(p => ({ toolCallId: p.toolCallId, ...this.approvalDecisions.get(p.toolCallId)! }));
+    for (const decision of decisions) {
+      this.approvalDecisions.delete(decision.toolCallId);
+    }
+
+    let ok: boolean;
+    const batch = decisions.map(d => ({ toolCallId: d.toolCallId, reason: d.reason }));
+    if (decisions.every(d => d.approve)) {
+      ok = await approvePendingApproval(agentId, batch, convId);
+    } else if (decisions.every(d => !d.approve)) {
+      ok = await rejectApproval(agentId, batch, convId);
+    } else {
+      ok = await submitApprovalDecisions(agentId, decisions, convId);
+    }
+
+    if (!ok) {
+      return {
+        text: `(Failed to submit the decision for ${target.toolName}. Try /${approve ? 'approve' : 'disapprove'}.)`,
+        applied: false,
+      };
+    }
+    return { text: `(${action} ${target.toolName}.)`, applied: true };
+  }
+
+  /**
+   * Answer a pending AskUserQuestion from an interactive control.
+   */
+  private resolveQuestionAnswer(
+    answers: string[],
+    channelId: string,
+    chatId?: string,
+    forcePerChat?: boolean,
+    threadId?: string,
+  ): string {
+    const convKey = this.resolveConversationKey(channelId, chatId, forcePerChat, threadId);
+    const resolver = this.pendingQuestionResolvers.get(convKey);
+    if (!resolver) {
+      // Top-level question posted into the reply thread (see resolveApprovalConversation)
+      if (threadId) return this.resolveQuestionAnswer(answers, channelId, chatId, forcePerChat);
+      return '(This question is no longer pending.)';
+    }
+    this.log.info(`Resolved AskUserQuestion from interactive answer (key=${convKey})`);
+    this.pendingQuestionResolvers.delete(convKey);
+    resolver(answers);
+    return '(Answer sent.)';
+  }
+
+  /**
+   * Show the conversation's pending tool approvals with per-call controls.
+   * Returns true if anything was rendered.
+   */
+  private async sendApprovalPrompts(msg: InboundMessage, adapter: ChannelAdapter): Promise<boolean> {
+    const agentId = this.store.agentId;
+    if (!agentId || !adapter.sendApprovalRequest) return false;
+
+    const conversation = this.resolveApprovalConversation(msg.channel, msg.chatId, msg.forcePerChat, conversationThreadId(msg));
+    if (!conversation) return false;
+
+    const pending = await getPendingApprovals(agentId, conversation.convId);
+    if (pending.length === 0) return false;
+
+    try {
+      await adapter.sendApprovalRequest(
+        msg.chatId,
+        pending.map(p => ({ toolCallId: p.toolCallId, toolName: p.toolName, arguments: p.arguments })),
+        msg.threadId,
+      );
+      return true;
+    } catch (err) {
+      this.log.warn('Failed to send approval request:', err instanceof Error ? err.message : err);
+      return false;
+    }
+  }
+
   private normalizeStreamRunIds(msg: StreamMsg): string[] {
     const ids: string[] = [];
 
@@ -486,9 +717,164 @@ export class LettaBot implements AgentSession {
   // Session lifecycle helpers
   // =========================================================================
 
+  /**
+   * Remember a message the agent sent so later turns can edit or delete it.
+   */
+  private recordSentMessage(channelId: string, chatId: string, messageId: string | undefined): void {
+    if (!messageId) return;
+    const key = `${channelId}:${chatId}`;
+    const ids = (this.sentMessageIds.get(key) ?? []).filter(id => id !== messageId);
+    ids.push(messageId);
+    if (ids.length > MAX_SENT_MESSAGE_IDS) ids.splice(0, ids.length - MAX_SENT_MESSAGE_IDS);
+    // Re-insert so Map order tracks recency
+    this.sentMessageIds.delete(key);
+    this.sentMessageIds.set(key, ids);
+    if (this.sentMessageIds.size > MAX_SENT_MESSAGE_CHATS) {
+      const oldest = this.sentMessageIds.keys().next().value;
+      if (oldest !== undefined) this.sentMessageIds.delete(oldest);
+    }
+  }
+
+  private getSentMessageIds(channelId: string, chatId: string): string[] {
+    return this.sentMessageIds.get(`${channelId}:${chatId}`) ?? [];
+  }
+
+  private forgetSentMessage(channelId: string, chatId: string, messageId: string): void {
+    const key = `${channelId}:${chatId}`;
+    const ids = this.sentMessageIds.get(key);
+    if (!ids) return;
+    const remaining = ids.filter(id => id !== messageId);
+    if (remaining.length > 0) {
+      this.sentMessageIds.set(key, remaining);
+    } else {
+      this.sentMessageIds.delete(key);
+    }
+  }
+
+  private recordInboundMessage(msg: InboundMessage): void {
+    if (!msg.messageId || !this.config.forwardTo?.length) return;
+    const key = `${msg.channel}:${msg.chatId}`;
+    const messages = this.recentInbound.get(key) ?? [];
+    messages.push(msg);
+    if (messages.length > MAX_RECENT_INBOUND_MESSAGES) messages.splice(0, messages.length - MAX_RECENT_INBOUND_MESSAGES);
+    this.recentInbound.delete(key);
+    this.recentInbound.set(key, messages);
+    if (this.recentInbound.size > MAX_SENT_MESSAGE_CHATS) {
+      const oldest = this.recentInbound.keys().next().value;
+      if (oldest !== undefined) this.recentInbound.delete(oldest);
+    }
+  }
+
+  private findInboundMessage(channelId: string, chatId: string, messageId: string): InboundMessage | undefined {
+    return this.recentInbound.get(`${channelId}:${chatId}`)?.find(m => m.messageId === messageId);
+  }
+
+  /**
+   * Whether features.forwardTo allows a destination. Entries are
+   * "channel:chat", "channel:*" or "*".
+   */
+  private isForwardAllowed(channelId: string, chatId: string): boolean {
+    return (this.config.forwardTo ?? []).some(entry =>
+      entry === '*' || entry === `${channelId}:*` || entry === `${channelId}:${chatId}`);
+  }
+
+  /**
+   * Relay a message as a quoted copy naming the original sender. Downloaded
+   * attachments are re-sent as files where the target supports it.
+   */
+  private async sendForwardCopy(original: InboundMessage, target: ChannelAdapter, chatId: string): Promise<void> {
+    const attachments = original.attachments ?? [];
+    const files = target.sendFile ? attachments.filter(a => a.localPath) : [];
+    const listed = attachments.filter(a => !files.includes(a));
+    const sent = await target.sendMessage({ chatId, text: this.prefixResponse(formatForwardedMessage(original, listed)) });
+    this.recordSentMessage(target.id, chatId, sent.messageId);
+    for (const file of files) {
+      const result = await target.sendFile!({
+        chatId,
+        filePath: file.localPath!,
+        kind: file.kind === 'image' || file.kind === 'audio' ? file.kind : 'file',
+      });
+      this.recordSentMessage(target.id, chatId, result.messageId);
+    }
+  }
+
+  private addActionNote(channelId: string, chatId: string, note: string): void {
+    const key = `${channelId}:${chatId}`;
+    const notes = this.pendingActionNotes.get(key) ?? [];
+    notes.push(note);
+    if (notes.length > MAX_ACTION_NOTES) notes.splice(0, notes.length - MAX_ACTION_NOTES);
+    // Re-insert so Map order tracks recency
+    this.pendingActionNotes.delete(key);
+    this.pendingActionNotes.set(key, notes);
+    if (this.pendingActionNotes.size > MAX_ACTION_NOTE_CHATS) {
+      const oldest = this.pendingActionNotes.keys().next().value;
+      if (oldest !== undefined) this.pendingActionNotes.delete(oldest);
+    }
+  }
+
+  /**
+   * Take the notes waiting for the agent's next turn in this chat.
+   */
+  private takeActionNotes(channelId: string, chatId: string): string[] {
+    const key = `${channelId}:${chatId}`;
+    const notes = this.pendingActionNotes.get(key) ?? [];
+    this.pendingActionNotes.delete(key);
+    return notes;
+  }
+
+  // =========================================================================
+  // Handoffs
+  // =========================================================================
+
+  private get handoffName(): string {
+    return this.config.agentName || 'LettaBot';
+  }
+
+  /**
+   * Pass a message from a chat this agent handed off to the agent now
+   * handling it. Returns false when the chat is not handed off, or when that
+   * agent is gone (which ends the handoff).
+   */
+  private routeHandedOffMessage(msg: InboundMessage, adapter: ChannelAdapter): boolean {
+    const handoff = this.store.getHandoff(msg.channel, msg.chatId);
+    if (!handoff) return false;
+
+    const note = handoff.summaryDelivered
+      ? undefined
+      : `${this.handoffName} handed this chat to you. Their summary: ${handoff.summary}`;
+    if (!this.handoffRouter?.deliverHandoff(this.handoffName, handoff.agent, msg, adapter, note)) {
+      this.log.warn(`Agent ${handoff.agent} is not available; taking back ${msg.channel}:${msg.chatId}`);
+      this.store.clearHandoff(msg.channel, msg.chatId);
+      return false;
+    }
+    if (note) {
+      this.store.setHandoff(msg.channel, msg.chatId, { ...handoff, summaryDelivered: true });
+    }
+    // A replayed message now belongs to the other agent's queue
+    this.inboundQueue?.complete(msg);
+    return true;
+  }
+
+  /** Process a message from a chat another agent handed to this one */
+  acceptHandoffMessage(msg: InboundMessage, adapter: ChannelAdapter, from: string, note?: string): void {
+    this.handedOffChats.set(`${msg.channel}:${msg.chatId}`, from);
+    if (note) this.addActionNote(msg.channel, msg.chatId, note);
+    this.handleMessage(msg, adapter).catch(err => this.log.error('Failed to handle handed-off message:', err));
+  }
+
+  /** Take back a chat this agent handed to `from`; false if it was not handed to them */
+  endHandoff(channelId: string, chatId: string, from: string, summary?: string): boolean {
+    if (this.store.getHandoff(channelId, chatId)?.agent !== from) return false;
+    this.store.clearHandoff(channelId, chatId);
+    this.addActionNote(channelId, chatId, `${from} handed this chat back to you.${summary ? ` Their summary: ${summary}` : ''}`);
+    return true;
+  }
+
   /**
    * Execute parsed directives (reactions, etc.) via the channel adapter.
-   * Returns true if any directive was successfully executed.
+   * Returns true if any directive was successfully executed. Each outcome
+   * (ok, skipped, failed) is reported to the agent on its next turn in the
+   * chat and appended to `outcomes` for the turn log.
    */
   private async executeDirectives(
     directives: Directive[],
@@ -496,26 +882,80 @@ export class LettaBot implements AgentSession {
     chatId: string,
     fallbackMessageId?: string,
     threadId?: string,
+    outcomes?: DirectiveOutcome[],
+    message?: InboundMessage,
   ): Promise<boolean> {
     let acted = false;
+    const results: DirectiveOutcome[] = [];
     for (const directive of directives) {
+      const tag = directiveTag(directive);
+      const ok = (detail?: string) => {
+        acted = true;
+        results.push({ directive: tag, status: 'ok', ...(detail ? { detail } : {}) });
+      };
+      const skip = (reason: string) => {
+        this.log.warn(`Directive ${tag} skipped: ${reason}`);
+        results.push({ directive: tag, status: 'skipped', detail: reason });
+      };
+      const fail = (err: unknown) => {
+        const reason = err instanceof Error ? err.message : String(err);
+        this.log.warn(`Directive ${tag} failed:`, reason);
+        results.push({ directive: tag, status: 'error', detail: reason });
+      };
+
       if (directive.type === 'react') {
         const targetId = directive.messageId || fallbackMessageId;
         if (!adapter.addReaction) {
-          this.log.warn(`Directive react skipped: ${adapter.name} does not support addReaction`);
+          skip(`${adapter.name} does not support reactions`);
           continue;
         }
-        if (targetId) {
-          // Resolve text aliases (thumbsup, eyes, etc.) to Unicode characters.
-          // The LLM typically outputs names; channel APIs need actual emoji.
-          const resolved = resolveEmoji(directive.emoji);
-          try {
-            await adapter.addReaction(chatId, targetId, resolved.unicode);
-            acted = true;
-            this.log.info(`Directive: reacted with ${resolved.unicode} (${directive.emoji})`);
-          } catch (err) {
-            this.log.warn('Directive react failed:', err instanceof Error ? err.message : err);
+        if (!targetId) {
+          skip('no message to react to');
+          continue;
+        }
+        // Resolve text aliases (thumbsup, eyes, etc.) to Unicode characters.
+        // The LLM typically outputs names; channel APIs need actual emoji.
+        const resolved = resolveEmoji(directive.emoji);
+        try {
+          await adapter.addReaction(chatId, targetId, resolved.unicode);
+          ok();
+          this.log.info(`Directive: reacted with ${resolved.unicode} (${directive.emoji})`);
+        } catch (err) {
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'reply-to') {
+        // Without text the response itself is the reply (see resolveReplyTarget)
+        if (!directive.text) continue;
+        try {
+          const sent = await adapter.sendMessage({
+            chatId,
+            text: this.prefixResponse(directive.text),
+            threadId,
+            replyToMessageId: directive.messageId,
+          });
+          this.recordSentMessage(adapter.id, chatId, sent.messageId);
+          ok();
+          this.log.info(`Directive: replied to message ${directive.messageId} (${directive.text.length} chars)`);
+        } catch (err) {
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'custom') {
+        // Registered by a skill or plugin module; validated against its schema
+        try {
+          if (await directiveRegistry.execute(directive, { adapter, chatId, messageId: fallbackMessageId, threadId, message })) {
+            ok();
+            this.log.info(`Directive: ran <${directive.tag}>`);
+          } else {
+            skip('handler did nothing');
           }
+        } catch (err) {
+          fail(err);
         }
         continue;
       }
@@ -525,14 +965,216 @@ export class LettaBot implements AgentSession {
         try {
           const targetAdapter = this.channels.get(directive.channel);
           if (!targetAdapter) {
-            this.log.warn(`Directive send-message skipped: channel "${directive.channel}" not registered`);
+            skip(`channel "${directive.channel}" not registered`);
             continue;
           }
-          await targetAdapter.sendMessage({ chatId: directive.chat, text: this.prefixResponse(directive.text) });
-          acted = true;
+          const sent = await targetAdapter.sendMessage({ chatId: directive.chat, text: this.prefixResponse(directive.text) });
+          this.recordSentMessage(targetAdapter.id, directive.chat, sent.messageId);
+          ok(sent.messageId ? `message ${sent.messageId} in ${directive.channel}:${directive.chat}` : undefined);
           this.log.info(`Directive: sent message to ${directive.channel}:${directive.chat} (${directive.text.length} chars)`);
         } catch (err) {
-          this.log.warn('Directive send-message failed:', err instanceof Error ? err.message : err);
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'forward') {
+        const destination = `${directive.channel}:${directive.chat}`;
+        if (!this.isForwardAllowed(directive.channel, directive.chat)) {
+          skip(`${destination} is not an allowed destination`);
+          continue;
+        }
+        const targetAdapter = this.channels.get(directive.channel);
+        if (!targetAdapter) {
+          skip(`channel "${directive.channel}" not registered`);
+          continue;
+        }
+        try {
+          // Some platforms don't return an ID for a forward, so success is tracked separately
+          let forwarded = false;
+          // Native forwarding only works between chats of the same channel
+          if (targetAdapter === adapter && adapter.forwardMessage) {
+            try {
+              const result = await adapter.forwardMessage({ fromChatId: chatId, messageId: directive.messageId, chatId: directive.chat });
+              forwarded = true;
+              this.recordSentMessage(adapter.id, directive.chat, result.messageId);
+            } catch (err) {
+              this.log.warn('Native forward failed, sending a copy:', err instanceof Error ? err.message : err);
+            }
+          }
+          if (!forwarded) {
+            const original = this.findInboundMessage(adapter.id, chatId, directive.messageId);
+            if (!original) {
+              throw new Error(`message ${directive.messageId} is not among recent messages in this chat`);
+            }
+            await this.sendForwardCopy(original, targetAdapter, directive.chat);
+            ok(`sent a quoted copy to ${destination}`);
+          } else {
+            ok(`forwarded to ${destination}`);
+          }
+          this.log.info(`Directive: forwarded ${directive.messageId} to ${destination}`);
+        } catch (err) {
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'edit-message' || directive.type === 'delete-message') {
+        // Only messages the agent itself sent in this chat can be corrected or retracted.
+        if (!this.getSentMessageIds(adapter.id, chatId).includes(directive.messageId)) {
+          skip(`${directive.messageId} is not a recent message sent in this chat`);
+          continue;
+        }
+        if (directive.type === 'edit-message' && !adapter.getFormatterHints().supportsEdits) {
+          skip(`${adapter.name} does not support editing messages`);
+          continue;
+        }
+        if (directive.type === 'delete-message' && !adapter.deleteMessage) {
+          skip(`${adapter.name} does not support deleting messages`);
+          continue;
+        }
+        try {
+          if (directive.type === 'edit-message') {
+            await adapter.editMessage(chatId, directive.messageId, this.prefixResponse(directive.text));
+            this.log.info(`Directive: edited message ${directive.messageId} (${directive.text.length} chars)`);
+          } else {
+            await adapter.deleteMessage!(chatId, directive.messageId);
+            this.forgetSentMessage(adapter.id, chatId, directive.messageId);
+            this.log.info(`Directive: deleted message ${directive.messageId}`);
+          }
+          ok();
+        } catch (err) {
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'poll') {
+        if (directive.options.length > MAX_POLL_OPTIONS) {
+          skip(`${directive.options.length} options (max ${MAX_POLL_OPTIONS})`);
+          continue;
+        }
+        try {
+          // Channels without native polls get a numbered list to reply to
+          const sent = adapter.sendPoll
+            ? await adapter.sendPoll({ chatId, question: directive.question, options: directive.options, multiple: directive.multiple, threadId })
+            : await adapter.sendMessage({ chatId, text: this.prefixResponse(formatPollAsText(directive)), threadId });
+          this.recordSentMessage(adapter.id, chatId, sent.messageId);
+          ok(adapter.sendPoll ? undefined : 'sent as a numbered list');
+          this.log.info(`Directive: sent poll "${directive.question}" (${directive.options.length} options${adapter.sendPoll ? '' : ', text fallback'})`);
+        } catch (err) {
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'location') {
+        try {
+          // Channels without native map pins get a map link
+          const sent = adapter.sendLocation
+            ? await adapter.sendLocation({
+              chatId,
+              latitude: directive.latitude,
+              longitude: directive.longitude,
+              name: directive.name,
+              address: directive.address,
+              threadId,
+            })
+            : await adapter.sendMessage({ chatId, text: this.prefixResponse(formatLocationAsText(directive)), threadId });
+          this.recordSentMessage(adapter.id, chatId, sent.messageId);
+          ok(adapter.sendLocation ? undefined : 'sent as text');
+          this.log.info(`Directive: sent location ${directive.latitude},${directive.longitude}${adapter.sendLocation ? '' : ' (text fallback)'}`);
+        } catch (err) {
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'contact') {
+        try {
+          const sent = adapter.sendContact
+            ? await adapter.sendContact({ chatId, name: directive.name, phone: directive.phone, email: directive.email, threadId })
+            : await adapter.sendMessage({ chatId, text: this.prefixResponse(formatContactAsText(directive)), threadId });
+          this.recordSentMessage(adapter.id, chatId, sent.messageId);
+          ok(adapter.sendContact ? undefined : 'sent as text');
+          this.log.info(`Directive: sent contact "${directive.name}"${adapter.sendContact ? '' : ' (text fallback)'}`);
+        } catch (err) {
+          fail(err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'handoff') {
+        const agent = this.handoffRouter?.getAgentNames()
+          .find(name => name.toLowerCase() === directive.agent.toLowerCase());
+        if (!this.handoffRouter) {
+          skip('no other agents to hand off to');
+          continue;
+        }
+        if (!agent || agent === this.handoffName) {
+          skip(`"${directive.agent}" is not another agent in this lettabot instance`);
+          continue;
+        }
+        if (this.handedOffChats.get(`${adapter.id}:${chatId}`) === agent) {
+          skip(`${agent} handed you this chat; use <handback> to return it`);
+          continue;
+        }
+        this.store.setHandoff(adapter.id, chatId, { agent, summary: directive.summary, at: new Date().toISOString() });
+        ok(`handed this chat to ${agent}`);
+        this.log.info(`Directive: handed ${adapter.id}:${chatId} to ${agent}`);
+        continue;
+      }
+
+      if (directive.type === 'handback') {
+        const key = `${adapter.id}:${chatId}`;
+        const from = this.handedOffChats.get(key);
+        if (!from || !this.handoffRouter) {
+          skip('this chat was not handed to you');
+          continue;
+        }
+        this.handedOffChats.delete(key);
+        if (!this.handoffRouter.returnHandoff(this.handoffName, from, adapter.id, chatId, directive.summary)) {
+          skip(`${from} no longer has this chat handed off`);
+          continue;
+        }
+        ok(`handed this chat back to ${from}`);
+        continue;
+      }
+
+      if (directive.type === 'schedule') {
+        if (!this.onScheduleJob) {
+          skip('cron is not enabled for this agent');
+          continue;
+        }
+        if ((directive.channel && !directive.chat) || (!directive.channel && directive.chat)) {
+          skip(`targeting requires both channel and chat (got channel=${directive.channel || 'missing'}, chat=${directive.chat || 'missing'})`);
+          continue;
+        }
+        if (directive.channel && !this.channels.has(directive.channel)) {
+          skip(`channel "${directive.channel}" not registered`);
+          continue;
+        }
+
+        // Deliver to the chat that triggered this response unless targeted elsewhere
+        const deliver = directive.channel && directive.chat
+          ? { channel: directive.channel as ChannelId, chatId: directive.chat }
+          : { channel: adapter.id, chatId };
+        try {
+          const { schedule, deleteAfterRun } = parseScheduleSpec(directive);
+          const name = directive.name
+            || (directive.message.length > 40 ? `${directive.message.slice(0, 37)}...` : directive.message);
+          const job = this.onScheduleJob({
+            name,
+            enabled: true,
+            schedule,
+            message: directive.message,
+            deliver,
+            deleteAfterRun,
+          });
+          ok(`job ${job.id} "${job.name}" ${describeSchedule(schedule)}, delivering to ${deliver.channel}:${deliver.chatId}`);
+          this.log.info(`Directive: scheduled job ${job.id} (${describeSchedule(schedule)})`);
+        } catch (err) {
+          fail(err);
         }
         continue;
       }
@@ -541,7 +1183,7 @@ export class LettaBot implements AgentSession {
         // Reject partial targeting: both channel and chat must be set together.
         // Without this guard, a missing field silently falls back to the triggering chat.
         if ((directive.channel && !directive.chat) || (!directive.channel && directive.chat)) {
-          this.log.warn(`Directive send-file skipped: cross-channel targeting requires both channel and chat (got channel=${directive.channel || 'missing'}, chat=${directive.chat || 'missing'})`);
+          skip(`cross-channel targeting requires both channel and chat (got channel=${directive.channel || 'missing'}, chat=${directive.chat || 'missing'})`);
           continue;
         }
 
@@ -553,11 +1195,11 @@ export class LettaBot implements AgentSession {
         const targetChatId = (directive.channel && directive.chat) ? directive.chat : chatId;
 
         if (!targetAdapter) {
-          this.log.warn(`Directive send-file skipped: channel "${directive.channel}" not registered`);
+          skip(`channel "${directive.channel}" not registered`);
           continue;
         }
         if (typeof targetAdapter.sendFile !== 'function') {
-          this.log.warn(`Directive send-file skipped: ${targetAdapter.name} does not support sendFile`);
+          skip(`${targetAdapter.name} does not support sending files`);
           continue;
         }
 
@@ -567,7 +1209,7 @@ export class LettaBot implements AgentSession {
         const allowedDir = resolve(this.config.workingDir, allowedDirConfig);
         const resolvedPath = resolve(this.config.workingDir, directive.path);
         if (!await isPathAllowed(resolvedPath, allowedDir)) {
-          this.log.warn(`Directive send-file blocked: ${directive.path} is outside allowed directory ${allowedDir}`);
+          skip(`${directive.path} is outside the allowed directory ${allowedDir}`);
           continue;
         }
 
@@ -575,7 +1217,7 @@ export class LettaBot implements AgentSession {
         try {
           await access(resolvedPath, constants.R_OK);
         } catch {
-          this.log.warn(`Directive send-file skipped: file not found or not readable at ${directive.path}`);
+          skip(`file not found or not readable at ${directive.path}`);
           continue;
         }
 
@@ -584,11 +1226,11 @@ export class LettaBot implements AgentSession {
         try {
           const fileStat = await stat(resolvedPath);
           if (fileStat.size > maxSize) {
-            this.log.warn(`Directive send-file blocked: ${directive.path} is ${fileStat.size} bytes (max: ${maxSize})`);
+            skip(`${directive.path} is ${fileStat.size} bytes (max: ${maxSize})`);
             continue;
           }
         } catch {
-          this.log.warn(`Directive send-file skipped: could not stat ${directive.path}`);
+          skip(`could not stat ${directive.path}`);
           continue;
         }
 
@@ -600,7 +1242,7 @@ export class LettaBot implements AgentSession {
             kind: directive.kind ?? inferFileKind(resolvedPath),
             threadId: (directive.channel && directive.chat) ? undefined : threadId,
           });
-          acted = true;
+          ok();
           const target = (directive.channel && directive.chat) ? ` to ${directive.channel}:${directive.chat}` : '';
           this.log.info(`Directive: sent file ${resolvedPath}${target}`);
 
@@ -615,17 +1257,17 @@ export class LettaBot implements AgentSession {
             }
           }
         } catch (err) {
-          this.log.warn('Directive send-file failed:', err instanceof Error ? err.message : err);
+          fail(err);
         }
       }
 
       if (directive.type === 'voice') {
         if (!isVoiceMemoConfigured()) {
-          this.log.warn('Directive voice skipped: no TTS credentials configured');
+          skip('no TTS credentials configured');
           continue;
         }
         if (typeof adapter.sendFile !== 'function') {
-          this.log.warn(`Directive voice skipped: ${adapter.name} does not support sendFile`);
+          skip(`${adapter.name} does not support sending files`);
           continue;
         }
 
@@ -645,7 +1287,7 @@ export class LettaBot implements AgentSession {
           : (process.env.ELEVENLABS_MODEL_ID || 'eleven_multilingual_v2');
 
         if (!ttsPath) {
-          this.log.warn('Directive voice skipped: lettabot-tts not found in skill dirs');
+          skip('lettabot-tts not found in skill dirs');
           continue;
         }
 
@@ -699,7 +1341,7 @@ export class LettaBot implements AgentSession {
             kind: 'audio',
             threadId,
           });
-          acted = true;
+          ok();
           this.log.info(`Directive: sent voice memo (${directive.text.length} chars)`);
 
           // Clean up generated file
@@ -722,9 +1364,20 @@ export class LettaBot implements AgentSession {
             voice: ttsVoice,
             helper: ttsPath,
           });
+          results.push({ directive: tag, status: 'error', detail: execErr?.message || String(err) });
         }
       }
     }
+
+    outcomes?.push(...results);
+    if (chatId) {
+      // Plain successes (a reaction landed) aren't worth the agent's context;
+      // report problems and anything it produced, like a job ID
+      for (const result of results) {
+        if (result.status === 'ok' && !result.detail) continue;
+        this.addActionNote(adapter.id, chatId, formatDirectiveOutcome(result));
+      }
+    }
     return acted;
   }
 
@@ -736,9 +1389,44 @@ export class LettaBot implements AgentSession {
    * Resolve the conversation key for a channel message.
    * Returns 'shared' in shared mode (unless channel is in perChannel overrides).
    * Returns channel id in per-channel mode or for override channels.
+   * Returns a per-thread key for thread messages in per-thread mode.
    */
-  private resolveConversationKey(channel: string, chatId?: string, forcePerChat?: boolean): string {
-    return resolveConversationKey(channel, this.config.conversationMode, this.conversationOverrides, chatId, forcePerChat);
+  private resolveConversationKey(channel: string, chatId?: string, forcePerChat?: boolean, threadId?: string): string {
+    if (this.conversationRoutes.length > 0 && this.config.conversationMode !== 'disabled') {
+      const routed = this.routedChats.get(routedChatKey(channel, chatId, threadId))
+        ?? matchConversationRoute(this.conversationRoutes, { channel, chatId, threadId })?.key;
+      if (routed) return routed;
+    }
+    return resolveConversationKey(channel, this.config.conversationMode, this.conversationOverrides, chatId, forcePerChat, threadId);
+  }
+
+  /**
+   * Conversation key for an inbound message. conversations.routes are
+   * checked first; messages no rule matches fall back to the mode.
+   */
+  private resolveMessageConversationKey(msg: InboundMessage): string {
+    const threadId = conversationThreadId(msg);
+    if (this.conversationRoutes.length > 0 && this.config.conversationMode !== 'disabled') {
+      const chatKey = routedChatKey(msg.channel, msg.chatId, threadId);
+      const match = matchConversationRoute(this.conversationRoutes, routeContextForMessage(msg, threadId));
+      this.routedChats.delete(chatKey);
+      if (match) {
+        this.routedChats.set(chatKey, match.key);
+        if (this.routedChats.size > MAX_SENT_MESSAGE_CHATS) {
+          const oldest = this.routedChats.keys().next().value;
+          if (oldest !== undefined) this.routedChats.delete(oldest);
+        }
+        return match.key;
+      }
+    }
+    return resolveConversationKey(
+      msg.channel,
+      this.config.conversationMode,
+      this.conversationOverrides,
+      msg.chatId,
+      msg.forcePerChat,
+      threadId,
+    );
   }
 
   /**
@@ -779,7 +1467,12 @@ export class LettaBot implements AgentSession {
 
   registerChannel(adapter: ChannelAdapter): void {
     adapter.onMessage = (msg) => this.handleMessage(msg, adapter);
-    adapter.onCommand = (cmd, chatId, args, forcePerChat) => this.handleCommand(cmd, adapter.id, chatId, args, forcePerChat);
+    adapter.onCommand = (cmd, chatId, args, forcePerChat, threadId) =>
+      this.handleCommand(cmd, adapter.id, chatId, args, forcePerChat, threadId);
+    adapter.onApprovalDecision = (toolCallId, approve, chatId, forcePerChat, threadId) =>
+      this.resolveApprovalDecision(toolCallId, approve, adapter.id, chatId, forcePerChat, threadId);
+    adapter.onQuestionAnswer = async (answers, chatId, forcePerChat, threadId) =>
+      this.resolveQuestionAnswer(answers, adapter.id, chatId, forcePerChat, threadId);
 
     // Wrap outbound methods when any redaction layer is active.
     // Secrets are enabled by default unless explicitly disabled.
@@ -825,7 +1518,7 @@ export class LettaBot implements AgentSession {
       }
     }
 
-    const convKey = this.resolveConversationKey(effective.channel, effective.chatId, effective.forcePerChat);
+    const convKey = this.resolveMessageConversationKey(effective);
     if (convKey !== 'shared') {
       this.enqueueForKey(convKey, effective, adapter);
     } else {
@@ -840,7 +1533,14 @@ export class LettaBot implements AgentSession {
   // Commands
   // =========================================================================
 
-  private async handleCommand(command: string, channelId?: string, chatId?: string, args?: string, forcePerChat?: boolean): Promise<string | null> {
+  private async handleCommand(
+    command: string,
+    channelId?: string,
+    chatId?: string,
+    args?: string,
+    forcePerChat?: boolean,
+    threadId?: string,
+  ): Promise<string | null> {
     this.log.info(`Received: /${command}${args ? ` ${args}` : ''}`);
     switch (command) {
       case 'status': {
@@ -882,14 +1582,21 @@ export class LettaBot implements AgentSession {
         // Always scope the reset to the caller's conversation key so that
         // other channels/chats' conversations are never silently destroyed.
         // resolveConversationKey returns 'shared' for non-override channels,
-        // the channel id for per-channel, or channel:chatId for per-chat.
-        const convKey = channelId ? this.resolveConversationKey(channelId, chatId, forcePerChat) : 'shared';
+        // the channel id for per-channel, channel:chatId for per-chat, or
+        // channel:chatId:threadId for a thread in per-thread mode.
+        const convKey = channelId ? this.resolveConversationKey(channelId, chatId, forcePerChat, threadId) : 'shared';
+        const scope = channelId && threadId && convKey !== this.resolveConversationKey(channelId, chatId, forcePerChat)
+          ? 'this thread'
+          : this.config.conversationMode === 'per-chat' ? 'this chat' : 'this channel';
 
         // In disabled mode the bot always uses the agent's built-in default
         // conversation -- there's nothing to reset locally.
         if (convKey === 'default') {
           return 'Conversations are disabled -- nothing to reset.';
         }
+        if (isPinnedConversationKey(convKey)) {
+          return 'This chat is pinned to a conversation by conversations.routes -- change the config to move it.';
+        }
 
         this.store.clearConversation(convKey);
         this.store.resetRecoveryAttempts();
@@ -903,18 +1610,16 @@ export class LettaBot implements AgentSession {
           if (convKey === 'shared') {
             return `Conversation reset. New conversation: ${newConvId}\n(Agent memory is preserved.)`;
           }
-          const scope = this.config.conversationMode === 'per-chat' ? 'this chat' : 'this channel';
           return `Conversation reset for ${scope}. New conversation: ${newConvId}\nOther conversations are unaffected. (Agent memory is preserved.)`;
         } catch {
           if (convKey === 'shared') {
             return 'Conversation reset. Send a message to start a new conversation. (Agent memory is preserved.)';
           }
-          const scope = this.config.conversationMode === 'per-chat' ? 'this chat' : 'this channel';
           return `Conversation reset for ${scope}. Other conversations are unaffected. (Agent memory is preserved.)`;
         }
       }
       case 'cancel': {
-        const convKey = channelId ? this.resolveConversationKey(channelId, chatId, forcePerChat) : 'shared';
+        const convKey = channelId ? this.resolveConversationKey(channelId, chatId, forcePerChat, threadId) : 'shared';
 
         // Check if there's actually an active run for this conversation key
         if (!this.processingKeys.has(convKey) && !this.processing) {
@@ -951,9 +1656,17 @@ export class LettaBot implements AgentSession {
         this.log.info(`/cancel - run cancelled (key=${convKey})`);
         return '(Run cancelled.)';
       }
+      case 'handback': {
+        const handoff = channelId && chatId ? this.store.getHandoff(channelId, chatId) : null;
+        if (!handoff) return '(This chat has not been handed to another agent.)';
+        this.store.clearHandoff(channelId!, chatId!);
+        this.addActionNote(channelId!, chatId!, `The user ended the handoff to ${handoff.agent} with /handback.`);
+        this.log.info(`/handback - ${channelId}:${chatId} returned from ${handoff.agent}`);
+        return `Handed this chat back from ${handoff.agent} to ${this.handoffName}.`;
+      }
       case 'approve':
       case 'disapprove': {
-        return this.resolveApprovals(command === 'approve', channelId, chatId, forcePerChat, args);
+        return this.resolveApprovals(command === 'approve', channelId, chatId, forcePerChat, args, threadId);
       }
       case 'model': {
         const agentId = this.store.agentId;
@@ -991,6 +1704,10 @@ export class LettaBot implements AgentSession {
   // =========================================================================
   
   async start(): Promise<void> {
+    let markReady!: () => void;
+    this.channelsReady = new Promise(resolve => { markReady = resolve; });
+    // Replay before adapters start so unfinished messages queue ahead of new ones
+    this.replayInboundQueue();
     const startPromises = Array.from(this.channels.entries()).map(async ([id, adapter]) => {
       try {
         this.log.info(`Starting channel: ${adapter.name}...`);
@@ -1001,6 +1718,27 @@ export class LettaBot implements AgentSession {
       }
     });
     await Promise.all(startPromises);
+    this.channelsReady = null;
+    markReady();
+  }
+
+  /**
+   * Re-handle messages that were accepted before a crash or restart but
+   * never finished processing.
+   */
+  private replayInboundQueue(): void {
+    const pending = this.inboundQueue?.takePending() ?? [];
+    if (pending.length === 0) return;
+    this.log.info(`Replaying ${pending.length} unfinished inbound message(s)`);
+    for (const msg of pending) {
+      const adapter = this.channels.get(msg.channel);
+      if (!adapter) {
+        this.log.warn(`Dropping unfinished message on ${msg.channel}:${msg.chatId}: channel not registered`);
+        this.inboundQueue!.complete(msg);
+        continue;
+      }
+      this.handleMessage(msg, adapter).catch(err => this.log.error('Error replaying message:', err));
+    }
   }
   
   async stop(): Promise<void> {
@@ -1109,12 +1847,14 @@ export class LettaBot implements AgentSession {
   }
   
   private async handleMessage(msg: InboundMessage, adapter: ChannelAdapter): Promise<void> {
+    if (this.routeHandedOffMessage(msg, adapter)) return;
+
     // AskUserQuestion support: if the agent is waiting for a user answer,
     // intercept this message and resolve the pending promise instead of
     // queuing it for normal processing. This prevents a deadlock where
     // the stream is paused waiting for user input while the processing
     // flag blocks new messages from being handled.
-    const incomingConvKey = this.resolveConversationKey(msg.channel, msg.chatId, msg.forcePerChat);
+    const incomingConvKey = this.resolveMessageConversationKey(msg);
     const pendingResolver = this.pendingQuestionResolvers.get(incomingConvKey);
     if (pendingResolver) {
       this.log.info(`Intercepted message as AskUserQuestion answer from ${msg.userId} (key=${incomingConvKey})`);
@@ -1123,7 +1863,13 @@ export class LettaBot implements AgentSession {
       return;
     }
 
+    if (this.inboundQueue && !this.inboundQueue.accept(msg)) {
+      this.log.info(`Dropped duplicate message ${msg.messageId} on ${msg.channel}:${msg.chatId}`);
+      return;
+    }
+
     this.maybePreemptHeartbeatForUserMessage(incomingConvKey);
+    this.recordInboundMessage(msg);
 
     this.log.info(`Message from ${msg.userId} on ${msg.channel}: ${msg.text}`);
 
@@ -1136,7 +1882,7 @@ export class LettaBot implements AgentSession {
       return;
     }
 
-    const convKey = this.resolveConversationKey(msg.channel, msg.chatId, msg.forcePerChat);
+    const convKey = this.resolveMessageConversationKey(msg);
     if (convKey !== 'shared') {
       // Per-channel, per-chat, or override mode: messages on different keys can run in parallel.
       this.enqueueForKey(convKey, msg, adapter);
@@ -1173,6 +1919,7 @@ export class LettaBot implements AgentSession {
   private async processKeyedQueue(key: string): Promise<void> {
     if (this.processingKeys.has(key)) return;
     this.processingKeys.add(key);
+    if (this.channelsReady) await this.channelsReady;
 
     const queue = this.keyedQueues.get(key);
     while (queue && queue.length > 0) {
@@ -1191,6 +1938,7 @@ export class LettaBot implements AgentSession {
       } catch (error) {
         this.log.error(`Error processing message (key=${key}):`, error);
       }
+      this.inboundQueue?.complete(msg);
     }
 
     this.processingKeys.delete(key);
@@ -1201,6 +1949,7 @@ export class LettaBot implements AgentSession {
     if (this.processing || this.messageQueue.length === 0) return;
     
     this.processing = true;
+    if (this.channelsReady) await this.channelsReady;
     
     while (this.messageQueue.length > 0) {
       const items = this.messageQueue.splice(0, this.messageQueue.length);
@@ -1215,6 +1964,7 @@ export class LettaBot implements AgentSession {
       } catch (error) {
         this.log.error('Error processing message:', error);
       }
+      this.inboundQueue?.complete(msg);
     }
     
     this.log.info('Finished processing all messages');
@@ -1224,28 +1974,35 @@ export class LettaBot implements AgentSession {
   private buildCanUseToolCallback(msg: InboundMessage, adapter: ChannelAdapter): CanUseToolCallback {
     return async (toolName, toolInput) => {
       if (toolName === 'AskUserQuestion') {
-        const questions = (toolInput.questions || []) as Array<{
-          question: string;
-          header: string;
-          options: Array<{ label: string; description: string }>;
-          multiSelect: boolean;
-        }>;
-        const questionText = formatQuestionsForChannel(questions);
+        const questions = (toolInput.questions || []) as QuestionRequest[];
         this.log.info(`AskUserQuestion: sending ${questions.length} question(s) to ${msg.channel}:${msg.chatId}`);
-        await adapter.sendMessage({ chatId: msg.chatId, text: questionText, threadId: msg.threadId });
+        let sentInteractive = false;
+        if (adapter.sendQuestionRequest) {
+          try {
+            await adapter.sendQuestionRequest(msg.chatId, questions, msg.threadId);
+            sentInteractive = true;
+          } catch (err) {
+            this.log.warn('Interactive question failed, falling back to text:', err instanceof Error ? err.message : err);
+          }
+        }
+        if (!sentInteractive) {
+          const questionText = formatQuestionsForChannel(questions);
+          await adapter.sendMessage({ chatId: msg.chatId, text: questionText, threadId: msg.threadId });
+        }
 
-        // Wait for the user's next message (intercepted by handleMessage).
+        // Wait for the user's next message (intercepted by handleMessage) or
+        // an interactive answer (onQuestionAnswer).
         // Key by convKey so each chat resolves independently in per-chat mode.
-        const questionConvKey = this.resolveConversationKey(msg.channel, msg.chatId, msg.forcePerChat);
-        const answer = await new Promise<string>((resolve) => {
+        const questionConvKey = this.resolveMessageConversationKey(msg);
+        const answer = await new Promise<string | string[]>((resolve) => {
           this.pendingQuestionResolvers.set(questionConvKey, resolve);
         });
-        this.log.info(`AskUserQuestion: received answer (${answer.length} chars)`);
 
         const answers: Record<string, string> = {};
-        for (const q of questions) {
-          answers[q.question] = answer;
+        for (const [i, q] of questions.entries()) {
+          answers[q.question] = Array.isArray(answer) ? answer[i] ?? '' : answer;
         }
+        this.log.info(`AskUserQuestion: received ${Array.isArray(answer) ? 'interactive answer' : `answer (${answer.length} chars)`}`);
         return {
           behavior: 'allow' as const,
           updatedInput: { ...toolInput, answers },
@@ -1307,9 +2064,31 @@ export class LettaBot implements AgentSession {
       serverUrl: process.env.LETTA_BASE_URL || this.store.baseUrl || 'https://api.letta.com',
     } : undefined;
 
+    const actionNotes = this.takeActionNotes(msg.channel, msg.chatId);
+    const sentMessageIds = [...this.getSentMessageIds(msg.channel, msg.chatId)];
     const formattedText = msg.isBatch && msg.batchedMessages && msg.isGroup
-      ? formatGroupBatchEnvelope(msg.batchedMessages, {}, msg.isListeningMode)
-      : formatMessageEnvelope(msg, {}, sessionContext);
+      ? [
+        ...(actionNotes.length > 0 ? [formatActionNotesReminder(actionNotes)] : []),
+        formatGroupBatchEnvelope(msg.batchedMessages, {}, msg.isListeningMode, sentMessageIds),
+      ].join('\n\n')
+      : formatMessageEnvelope(
+        {
+          ...msg,
+          sentMessageIds,
+          actionNotes,
+          formatterHints: {
+            ...msg.formatterHints,
+            supportsLocations: !!adapter.sendLocation,
+            supportsContacts: !!adapter.sendContact,
+            supportsScheduling: !!this.onScheduleJob,
+            forwardTargets: this.config.forwardTo,
+            handoffTargets: this.handoffRouter?.getAgentNames().filter(name => name !== this.handoffName),
+            handbackTo: this.handedOffChats.get(`${msg.channel}:${msg.chatId}`),
+          },
+        },
+        {},
+        sessionContext,
+      );
     const messageToSend = await buildMultimodalMessage(formattedText, msg, this.log);
     lap('format message');
 
@@ -1411,8 +2190,10 @@ export class LettaBot implements AgentSession {
 
     // Run session
     let session: Session | null = null;
+    // Set once the turn starts; called after delivery so directive outcomes are logged
+    let writeTurnRecord: (() => void) | undefined;
     try {
-      const convKey = this.resolveConversationKey(msg.channel, msg.chatId, msg.forcePerChat);
+      const convKey = this.resolveMessageConversationKey(msg);
       const seq = ++this.sendSequence;
       const userText = msg.text || '';
       this.log.info(`processMessage seq=${seq} key=${convKey} retried=${retried} user=${msg.userId} textLen=${userText.length}`);
@@ -1428,6 +2209,8 @@ export class LettaBot implements AgentSession {
       let lastUpdate = 0;
       let rateLimitedUntil = 0;
       let messageId: string | null = null;
+      // The channel refused further edits to messageId; the final text goes out as a new message
+      let editLimitReached = false;
       let lastAssistantUuid: string | null = null;
       let sentAnyMessage = false;
       let receivedAnyData = false;
@@ -1444,29 +2227,51 @@ export class LettaBot implements AgentSession {
       let lastEventType: string | null = null;
       let abortedWithMessage = false;
       let turnError: string | undefined;
+      let awaitingApproval = false;
+      // Message the current response quotes (<reply-to id="..." />)
+      let replyToMessageId: string | undefined;
+      // Streaming runs each <actions> block as soon as it closes
+      const directiveStream = new StreamingDirectiveParser();
+      let streamedVoice = false;
+      const directiveOutcomes: DirectiveOutcome[] = [];
+
+      const runDirectives = async (directives: Directive[]) => {
+        if (directives.length === 0) return;
+
+        if (suppressDelivery) {
+          this.log.info(`Listening mode: skipped ${directives.length} directive(s)`);
+          return;
+        }
+
+        if (await this.executeDirectives(directives, adapter, msg.chatId, msg.messageId, msg.threadId, directiveOutcomes, msg)) {
+          sentAnyMessage = true;
+        }
+      };
 
       const parseAndHandleDirectives = async () => {
-        if (!response.trim()) return;
-        const { cleanText, directives } = parseDirectives(response);
+        if (!response.trim()) {
+          directiveStream.reset();
+          return;
+        }
+        const parsed = directiveStream.finish(response);
+        // A <no-reply/> mixed into text is dropped like it is while streaming
+        const cleanText = parsed.cleanText.trim() === '<no-reply/>'
+          ? parsed.cleanText
+          : parsed.cleanText.replace(/<no-reply\/>/g, '').trim();
+        const { directives } = parsed;
         response = cleanText;
+        replyToMessageId = resolveReplyTarget(directives) ?? replyToMessageId;
 
         // Auto-voice: if enabled and no explicit <voice> directive, inject one
         if (this.config.autoVoice &&
             cleanText.trim() &&
+            !streamedVoice &&
             !directives.some(d => d.type === 'voice')) {
           directives.push({ type: 'voice', text: cleanText.trim() });
         }
+        streamedVoice = false;
 
-        if (directives.length === 0) return;
-
-        if (suppressDelivery) {
-          this.log.info(`Listening mode: skipped ${directives.length} directive(s)`);
-          return;
-        }
-
-        if (await this.executeDirectives(directives, adapter, msg.chatId, msg.messageId, msg.threadId)) {
-          sentAnyMessage = true;
-        }
+        await runDirectives(directives);
       };
 
       const finalizeMessage = async () => {
@@ -1488,16 +2293,27 @@ export class LettaBot implements AgentSession {
             this.log.info(`Waiting ${(waitMs / 1000).toFixed(1)}s for rate limit before finalize`);
             await new Promise(resolve => setTimeout(resolve, waitMs));
           }
+          const prefixed = this.prefixResponse(response);
+          const sendNew = async () => {
+            const sent = await adapter.sendMessage({ chatId: msg.chatId, text: prefixed, threadId: msg.threadId, replyToMessageId });
+            this.recordSentMessage(msg.channel, msg.chatId, sent.messageId);
+          };
           try {
-            const prefixed = this.prefixResponse(response);
-            if (messageId) {
+            if (messageId && !editLimitReached) {
               await adapter.editMessage(msg.chatId, messageId, prefixed);
             } else {
-              await adapter.sendMessage({ chatId: msg.chatId, text: prefixed, threadId: msg.threadId });
+              await sendNew();
             }
             sentAnyMessage = true;
           } catch (finalizeErr) {
-            if (messageId) {
+            if (finalizeErr instanceof EditLimitError) {
+              try {
+                await sendNew();
+                sentAnyMessage = true;
+              } catch (sendErr) {
+                this.log.warn('finalizeMessage send failed:', sendErr instanceof Error ? sendErr.message : sendErr);
+              }
+            } else if (messageId) {
               sentAnyMessage = true;
             } else {
               this.log.warn('finalizeMessage send failed:', finalizeErr instanceof Error ? finalizeErr.message : finalizeErr);
@@ -1506,9 +2322,38 @@ export class LettaBot implements AgentSession {
         }
         response = '';
         messageId = null;
+        editLimitReached = false;
+        replyToMessageId = undefined;
         lastUpdate = Date.now();
       };
 
+      // <break/> markers: send the text before each one as its own message,
+      // then pause with a typing indicator before the next
+      let breakMessages = 0;
+      const flushBreaks = async () => {
+        for (let split = splitAtBreak(response); split; split = splitAtBreak(response)) {
+          if (breakMessages >= MAX_BREAK_MESSAGES - 1) {
+            response = stripBreaks(response);
+            return;
+          }
+          if (!getStreamingDisplayText(split.before)) {
+            // Nothing to show before the marker; just drop it
+            response = split.before + split.after;
+            continue;
+          }
+          response = split.before;
+          await finalizeMessage();
+          response = split.after;
+          breakMessages++;
+          if (suppressDelivery) continue;
+
+          const minGap = BREAK_MIN_GAP_MS[adapter.id] ?? DEFAULT_BREAK_MIN_GAP_MS;
+          const waitMs = Math.min(Math.max(split.delayMs, minGap, rateLimitedUntil - Date.now()), 30_000);
+          adapter.sendTypingIndicator(msg.chatId).catch(() => {});
+          await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+      };
+
       const typingInterval = setInterval(() => {
         adapter.sendTypingIndicator(msg.chatId).catch(() => {});
       }, 4000);
@@ -1516,6 +2361,25 @@ export class LettaBot implements AgentSession {
       const turnId = this.turnLogger ? generateTurnId() : '';
       const turnAcc = this.turnLogger ? new TurnAccumulator() : null;
       let turnWritten = false;
+      writeTurnRecord = () => {
+        if (!this.turnLogger || !turnAcc || turnWritten) return;
+        turnWritten = true;
+        const { events, output } = turnAcc.finalize();
+        this.turnLogger.write({
+          ts: new Date().toISOString(),
+          turnId,
+          trigger: 'user_message' as const,
+          channel: msg.channel,
+          chatId: msg.chatId,
+          userId: msg.userId,
+          input: typeof messageToSend === 'string' ? messageToSend : '[multimodal]',
+          events,
+          output: output || response,
+          ...(directiveOutcomes.length > 0 ? { directives: directiveOutcomes } : {}),
+          durationMs: Math.round(performance.now() - t0),
+          error: turnError ?? lastErrorDetail?.message,
+        }).catch(() => {});
+      };
 
       try {
         let firstChunkLogged = false;
@@ -1569,6 +2433,8 @@ export class LettaBot implements AgentSession {
                 this.log.info(`Discarding pre-tool assistant text (${response.trim().length} chars)`);
                 response = '';
                 messageId = null;
+                directiveStream.reset();
+                streamedVoice = false;
               }
               lastEventType = 'tool_call';
               this.sessionManager.syncTodoToolCall(event.raw);
@@ -1666,27 +2532,43 @@ export class LettaBot implements AgentSession {
               lastAssistantUuid = event.uuid || lastAssistantUuid;
 
               response += event.delta;
+              await flushBreaks();
 
               // Live-edit streaming for channels that support it
               const canEdit = adapter.supportsEditing?.() ?? false;
-              const trimmed = response.trim();
-              const mayBeHidden = '<no-reply/>'.startsWith(trimmed)
-                || hasIncompleteActionsTag(response)
-                || hasUnclosedActionsBlock(response);
-              const streamText = stripActionsBlock(response).trim();
-              if (canEdit && !mayBeHidden && !suppressDelivery && !this.cancelledKeys.has(convKey)
+              if (canEdit) {
+                const streamed = directiveStream.takeCompleted(response);
+                replyToMessageId = resolveReplyTarget(streamed) ?? replyToMessageId;
+                if (streamed.some(d => d.type === 'voice')) streamedVoice = true;
+                await runDirectives(streamed);
+              }
+              const streamText = getStreamingDisplayText(response);
+              // Keep the last allowed edit for the finished text
+              const liveEditAllowed = !messageId || (adapter.remainingEdits?.(msg.chatId, messageId) ?? Infinity) > 1;
+              if (canEdit && liveEditAllowed && !editLimitReached && !suppressDelivery && !this.cancelledKeys.has(convKey)
                 && streamText.length > 0 && Date.now() - lastUpdate > 1500 && Date.now() > rateLimitedUntil) {
                 try {
                   const prefixedStream = this.prefixResponse(streamText);
                   if (messageId) {
                     await adapter.editMessage(msg.chatId, messageId, prefixedStream);
                   } else {
-                    const result = await adapter.sendMessage({ chatId: msg.chatId, text: prefixedStream, threadId: msg.threadId });
+                    const result = await adapter.sendMessage({
+                      chatId: msg.chatId,
+                      text: prefixedStream,
+                      threadId: msg.threadId,
+                      replyToMessageId,
+                    });
                     messageId = result.messageId;
+                    this.recordSentMessage(msg.channel, msg.chatId, messageId);
                     sentAnyMessage = true;
                   }
                 } catch (editErr: any) {
-                  this.log.warn('Streaming edit failed:', editErr instanceof Error ? editErr.message : editErr);
+                  if (editErr instanceof EditLimitError) {
+                    this.log.info(`Stopping live edits: ${editErr.message}`);
+                    editLimitReached = true;
+                  } else {
+                    this.log.warn('Streaming edit failed:', editErr instanceof Error ? editErr.message : editErr);
+                  }
                   const errStr = String(editErr?.message ?? editErr);
                   const retryMatch = errStr.match(/retry after (\d+)/i);
                   if (errStr.includes('429') || retryMatch) {
@@ -1764,7 +2646,7 @@ export class LettaBot implements AgentSession {
               }
 
               // Retry/recovery logic
-              const retryConvKey = this.resolveConversationKey(msg.channel, msg.chatId, msg.forcePerChat);
+              const retryConvKey = this.resolveMessageConversationKey(msg);
               const retryConvIdFromStore = (retryConvKey === 'shared'
                 ? this.store.conversationId
                 : this.store.getConversationId(retryConvKey)) ?? undefined;
@@ -1775,6 +2657,14 @@ export class LettaBot implements AgentSession {
                 ? retryConvIdRaw
                 : undefined;
 
+              // Run paused on a tool that needs approval: let the user decide
+              // through the channel's controls instead of recovering/retrying.
+              if (event.stopReason === 'requires_approval' && adapter.sendApprovalRequest) {
+                awaitingApproval = true;
+                this.log.info(`Run awaiting tool approval (seq=${seq}, key=${convKey})`);
+                break;
+              }
+
               const initialRetryDecision = this.buildResultRetryDecision(
                 event.raw, resultText, hasResponse, sentAnyMessage, lastErrorDetail,
               );
@@ -1890,24 +2780,6 @@ export class LettaBot implements AgentSession {
       } finally {
         clearInterval(typingInterval);
         adapter.stopTypingIndicator?.(msg.chatId)?.catch(() => {});
-        // Write turn record (even partial turns on cancel/error)
-        if (this.turnLogger && turnAcc && !turnWritten) {
-          turnWritten = true;
-          const { events, output } = turnAcc.finalize();
-          this.turnLogger.write({
-            ts: new Date().toISOString(),
-            turnId,
-            trigger: 'user_message' as const,
-            channel: msg.channel,
-            chatId: msg.chatId,
-            userId: msg.userId,
-            input: typeof messageToSend === 'string' ? messageToSend : '[multimodal]',
-            events,
-            output: output || response,
-            durationMs: Math.round(performance.now() - t0),
-            error: turnError ?? lastErrorDetail?.message,
-          }).catch(() => {});
-        }
       }
       lap('stream complete');
 
@@ -1940,7 +2812,10 @@ export class LettaBot implements AgentSession {
         response = '(The agent stream ended before a result was received. Please try again.)';
       }
 
-      // Parse and execute XML directives (e.g. <actions><react emoji="eyes" /></actions>)
+      // Deliver any <break/>-separated messages still pending (e.g. result text
+      // that was never streamed), then parse and execute XML directives
+      // (e.g. <actions><react emoji="eyes" /></actions>) on the last one
+      await flushBreaks();
       await parseAndHandleDirectives();
 
       // Handle no-reply marker AFTER directive parsing
@@ -1971,17 +2846,20 @@ export class LettaBot implements AgentSession {
         }
         const prefixedFinal = this.prefixResponse(response);
         try {
-          if (messageId) {
+          if (messageId && !editLimitReached) {
             await adapter.editMessage(msg.chatId, messageId, prefixedFinal);
           } else {
-            await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId });
+            const sent = await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId, replyToMessageId });
+            this.recordSentMessage(msg.channel, msg.chatId, sent.messageId);
           }
           sentAnyMessage = true;
           this.store.resetRecoveryAttempts();
         } catch (sendErr) {
           this.log.warn('Final message delivery failed:', sendErr instanceof Error ? sendErr.message : sendErr);
           try {
-            await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId });
+            // Retry without the quote in case the reply target was the problem
+            const sent = await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId });
+            this.recordSentMessage(msg.channel, msg.chatId, sent.messageId);
             sentAnyMessage = true;
             this.store.resetRecoveryAttempts();
           } catch (retryError) {
@@ -1990,6 +2868,10 @@ export class LettaBot implements AgentSession {
         }
       }
 
+      if (awaitingApproval && await this.sendApprovalPrompts(msg, adapter)) {
+        sentAnyMessage = true;
+      }
+
       lap('message delivered');
       await this.deliverNoVisibleResponseIfNeeded(msg, adapter, sentAnyMessage, receivedAnyData, msgTypeCounts);
       
@@ -2005,7 +2887,9 @@ export class LettaBot implements AgentSession {
         this.log.error('Failed to send error message to channel:', sendError);
       }
     } finally {
-      const finalConvKey = this.resolveConversationKey(msg.channel, msg.chatId, msg.forcePerChat);
+      // Write turn record (even partial turns on cancel/error)
+      writeTurnRecord?.();
+      const finalConvKey = this.resolveMessageConversationKey(msg);
       // When session reuse is disabled, invalidate after every message to
       // eliminate any possibility of stream state bleed between sequential
       // sends. Costs ~5s subprocess init overhead per message.
@@ -2075,6 +2959,7 @@ export class LettaBot implements AgentSession {
     const sendTurnId = this.turnLogger ? generateTurnId() : '';
     const sendTurnAcc = this.turnLogger ? new TurnAccumulator() : null;
     let sendTurnWritten = false;
+    const sendDirectiveOutcomes: DirectiveOutcome[] = [];
 
     try {
       let retried = false;
@@ -2213,7 +3098,9 @@ export class LettaBot implements AgentSession {
               const directives = sourceAdapter
                 ? parsed.directives
                 : parsed.directives.filter(d =>
-                    d.type === 'send-message' || (d.type === 'send-file' && d.channel && d.chat)
+                    d.type === 'send-message'
+                    || (d.type === 'send-file' && d.channel && d.chat)
+                    || (d.type === 'schedule' && d.channel && d.chat)
                   );
 
               if (directives.length > 0) {
@@ -2222,7 +3109,7 @@ export class LettaBot implements AgentSession {
                 const adapter = sourceAdapter ?? this.channels.values().next().value;
                 if (adapter) {
                   executedDirectives = await this.executeDirectives(
-                    directives, adapter, sourceChatId,
+                    directives, adapter, sourceChatId, undefined, undefined, sendDirectiveOutcomes,
                   );
                 }
               }
@@ -2230,6 +3117,9 @@ export class LettaBot implements AgentSession {
             }
           }
 
+          // Callers deliver the response as one message
+          response = stripBreaks(response);
+
           // Strip <no-reply/> marker so callers (cron, webhooks) see empty string
           if (response.trim() === '<no-reply/>') {
             this.log.info('sendToAgent: agent responded with <no-reply/> marker, suppressing');
@@ -2273,6 +3163,7 @@ export class LettaBot implements AgentSession {
           input: text,
           events,
           output,
+          ...(sendDirectiveOutcomes.length > 0 ? { directives: sendDirectiveOutcomes } : {}),
           durationMs: Math.round(performance.now() - sendT0),
         }).catch(() => {});
       }
@@ -2363,6 +3254,7 @@ export class LettaBot implements AgentSession {
 
     if (options.text) {
       const result = await adapter.sendMessage({ chatId, text: this.prefixResponse(options.text) });
+      this.recordSentMessage(channelId, chatId, result.messageId);
       return result.messageId;
     }
 
@@ -105,10 +105,11 @@ describe('COMMANDS', () => {
     expect(COMMANDS).toContain('start');
     expect(COMMANDS).toContain('model');
     expect(COMMANDS).toContain('setconv');
+    expect(COMMANDS).toContain('handback');
   });
 
-  it('has exactly 10 commands', () => {
-    expect(COMMANDS).toHaveLength(10);
+  it('has exactly 11 commands', () => {
+    expect(COMMANDS).toHaveLength(11);
   });
 });
 
@@ -124,6 +125,7 @@ describe('HELP_TEXT', () => {
     expect(HELP_TEXT).toContain('/start');
     expect(HELP_TEXT).toContain('/model');
     expect(HELP_TEXT).toContain('/setconv');
+    expect(HELP_TEXT).toContain('/handback');
   });
 
   it('contains LettaBot branding', () => {
@@ -4,9 +4,24 @@
  * Shared command parsing and help text for all channels.
  */
 
-export const COMMANDS = ['status', 'heartbeat', 'reset', 'cancel', 'approve', 'disapprove', 'help', 'start', 'model', 'setconv'] as const;
+export const COMMANDS = ['status', 'heartbeat', 'reset', 'cancel', 'approve', 'disapprove', 'help', 'start', 'model', 'setconv', 'handback'] as const;
 export type Command = typeof COMMANDS[number];
 
+/** One-line descriptions, used where platforms list commands natively (e.g. Discord slash commands) */
+export const COMMAND_DESCRIPTIONS: Record<Command, string> = {
+  status: 'Show current status',
+  heartbeat: 'Trigger heartbeat',
+  reset: 'Reset conversation (keeps agent memory)',
+  cancel: 'Abort the current agent run',
+  approve: 'Approve all pending tool calls for this conversation',
+  disapprove: 'Deny all pending tool calls for this conversation',
+  help: 'Show available commands',
+  start: 'Show available commands',
+  model: 'Show the current model or switch to a different one',
+  setconv: 'Set conversation ID for this chat',
+  handback: 'Return this chat to the agent that handed it off',
+};
+
 export interface ParsedCommand {
   command: Command;
   args: string;
@@ -24,6 +39,7 @@ Commands:
 /model - Show current model and list available models
 /model <handle> - Switch to a different model
 /setconv <id> - Set conversation ID for this chat
+/handback - Return this chat to the agent that handed it off
 /help - Show this message
 /start - Show this message
 
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { resolveConversationKey, resolveHeartbeatConversationKey, combinePendingMessages } from './bot.js';
+import { resolveConversationKey, resolveHeartbeatConversationKey, combinePendingMessages, conversationThreadId } from './bot.js';
 import type { InboundMessage } from './types.js';
 
 // ---------------------------------------------------------------------------
@@ -113,6 +113,37 @@ describe('resolveConversationKey', () => {
     expect(resolveConversationKey('discord', 'shared', new Set(), '99999', false)).toBe('shared');
     expect(resolveConversationKey('discord', 'per-channel', new Set(), '99999', false)).toBe('discord');
   });
+
+  // --- per-thread mode ---
+
+  it('returns channel:chatId:threadId for thread messages in per-thread mode', () => {
+    expect(resolveConversationKey('Slack', 'per-thread', new Set(), 'C123', undefined, '1712.0001')).toBe('slack:C123:1712.0001');
+  });
+
+  it('keeps top-level messages shared in per-thread mode', () => {
+    expect(resolveConversationKey('slack', 'per-thread', new Set(), 'C123')).toBe('shared');
+    expect(resolveConversationKey('slack', 'per-thread', new Set(['slack']), 'C123')).toBe('slack');
+  });
+
+  it('threadId is ignored outside per-thread mode', () => {
+    expect(resolveConversationKey('slack', 'shared', new Set(), 'C123', undefined, '1712.0001')).toBe('shared');
+    expect(resolveConversationKey('slack', 'per-chat', new Set(), 'C123', undefined, '1712.0001')).toBe('slack:C123');
+  });
+
+  it('forcePerChat takes precedence over per-thread keys', () => {
+    expect(resolveConversationKey('discord', 'per-thread', new Set(), '99999', true, '99999')).toBe('discord:99999');
+  });
+});
+
+describe('conversationThreadId', () => {
+  it('returns the thread for replies inside a thread', () => {
+    expect(conversationThreadId({ threadId: '1712.0001', messageId: '1712.0042' })).toBe('1712.0001');
+  });
+
+  it('ignores a thread id that is the message itself (Slack top-level posts)', () => {
+    expect(conversationThreadId({ threadId: '1712.0042', messageId: '1712.0042' })).toBeUndefined();
+    expect(conversationThreadId({ messageId: '1712.0042' })).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  compileConversationRoutes,
+  describeConversationRoute,
+  matchConversationRoute,
+  routeContextForMessage,
+} from './conversation-routes.js';
+import { LettaBot } from './bot.js';
+import type { InboundMessage } from './types.js';
+
+function makeMsg(overrides: Partial<InboundMessage> = {}): InboundMessage {
+  return {
+    channel: 'slack',
+    chatId: 'C123',
+    userId: 'U1',
+    text: 'hi',
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+describe('compileConversationRoutes', () => {
+  it('rejects invalid rules with their index', () => {
+    expect(() => compileConversationRoutes([{ key: 'a', pinned: 'b' }])).toThrow('conversations.routes[0]: set exactly one of "key" or "pinned"');
+    expect(() => compileConversationRoutes([{ key: 'x' }, {}])).toThrow('conversations.routes[1]');
+    expect(() => compileConversationRoutes([{ pinned: 'support' }])).toThrow('no conversations.pinned entry named "support"');
+    expect(() => compileConversationRoutes([{ key: '{channel}:{user}' }])).toThrow('unknown placeholder {user}');
+    expect(() => compileConversationRoutes([{ key: 'pinned:x' }])).toThrow('reserved');
+    expect(() => compileConversationRoutes([{ match: { groupName: '(' }, key: 'x' }])).toThrow('invalid groupName pattern');
+  });
+});
+
+describe('matchConversationRoute', () => {
+  const routes = compileConversationRoutes([
+    { match: { channel: 'Slack', chatId: 'C999' }, pinned: 'support' },
+    { match: { messageType: 'group', groupName: '^eng-' }, key: 'team:{chatId}' },
+    { match: { channel: ['telegram', 'slack'], messageType: 'dm' }, key: '{channel}:{userId}' },
+    { match: { serverId: 'G1' }, key: '{channel}:{serverId}:{threadId}' },
+  ], { support: 'conv-support' });
+
+  it('returns the first matching rule and fills its template', () => {
+    expect(matchConversationRoute(routes, routeContextForMessage(makeMsg({ chatId: 'C999' })))?.key).toBe('pinned:support');
+    expect(matchConversationRoute(routes, routeContextForMessage(makeMsg())))
+      .toMatchObject({ key: 'slack:U1', route: { index: 2 } });
+    expect(matchConversationRoute(routes, routeContextForMessage(makeMsg({ isGroup: true, groupName: 'ENG-core' }))))
+      .toMatchObject({ key: 'team:C123', route: { index: 1 } });
+  });
+
+  it('compares IDs as strings and skips rules missing template values', () => {
+    const numeric = compileConversationRoutes([{ match: { chatId: 12345 as unknown as string }, key: 'tg' }]);
+    expect(matchConversationRoute(numeric, { channel: 'telegram', chatId: '12345' })?.key).toBe('tg');
+
+    const ctx = routeContextForMessage(makeMsg({ channel: 'discord', isGroup: true, serverId: 'G1' }));
+    expect(matchConversationRoute(routes, ctx)).toBeNull();
+    expect(matchConversationRoute(routes, { ...ctx, threadId: 'T1' })?.key).toBe('discord:G1:T1');
+  });
+
+  it('describes rules in one line', () => {
+    expect(describeConversationRoute(routes[2])).toBe('routes[2] (channel=telegram|slack, messageType=dm) -> key "{channel}:{userId}"');
+    expect(describeConversationRoute(compileConversationRoutes([{ key: 'all' }])[0])).toBe('routes[0] (any message) -> key "all"');
+  });
+});
+
+describe('conversation routes in the bot', () => {
+  let workDir: string;
+  const originalDataDir = process.env.DATA_DIR;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'lettabot-routes-'));
+    process.env.DATA_DIR = workDir;
+  });
+
+  afterEach(() => {
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR;
+    } else {
+      process.env.DATA_DIR = originalDataDir;
+    }
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function setup() {
+    const bot = new LettaBot({
+      workingDir: workDir,
+      allowedTools: [],
+      conversationRoutes: [
+        { match: { chatId: 'C999' }, pinned: 'support' },
+        { match: { messageType: 'dm' }, key: '{channel}:{userId}' },
+      ],
+      pinnedConversations: { support: 'conv-support' },
+    });
+    const enqueueForKey = vi.fn();
+    (bot as any).enqueueForKey = enqueueForKey;
+    (bot as any).processQueue = vi.fn(async () => {});
+    return { bot, enqueueForKey };
+  }
+
+  it('routes messages by rule and falls back to the mode', async () => {
+    const { bot, enqueueForKey } = setup();
+
+    await (bot as any).handleMessage(makeMsg({ chatId: 'D1' }), {});
+    await (bot as any).handleMessage(makeMsg({ chatId: 'C999', isGroup: true }), {});
+    await (bot as any).handleMessage(makeMsg({ isGroup: true }), {});
+
+    expect(enqueueForKey.mock.calls.map(([key]) => key)).toEqual(['slack:U1', 'pinned:support']);
+    expect((bot as any).messageQueue).toHaveLength(1);
+    expect((bot as any).store.getConversationId('pinned:support')).toBe('conv-support');
+  });
+
+  it('applies the chat\'s routed key to commands and will not reset a pinned conversation', async () => {
+    const { bot } = setup();
+    await (bot as any).handleMessage(makeMsg({ chatId: 'D1', userId: 'U7' }), {});
+
+    expect((bot as any).resolveConversationKey('slack', 'D1')).toBe('slack:U7');
+    expect(await (bot as any).handleCommand('reset', 'slack', 'C999')).toContain('pinned');
+    expect((bot as any).store.getConversationId('pinned:support')).toBe('conv-support');
+  });
+});
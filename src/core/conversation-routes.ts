@@ -0,0 +1,190 @@
+/**
+ * Conversation Routes
+ *
+ * Declarative rules (conversations.routes) that pick the conversation key
+ * for a message before the conversation mode is applied. Rules are checked
+ * in order and the first match wins:
+ *
+ *   conversations:
+ *     mode: shared
+ *     pinned:
+ *       support: conv-abc123
+ *     routes:
+ *       - match: { channel: slack, chatId: C0SUPPORT }
+ *         pinned: support
+ *       - match: { messageType: dm }
+ *         key: "{channel}:{userId}"
+ *
+ * Key templates may use {channel}, {chatId}, {userId}, {threadId},
+ * {serverId} and {messageType}. A rule whose template needs a value the
+ * message does not have is skipped. Messages that match no rule fall back
+ * to the conversation mode.
+ */
+
+import type { ConversationRouteConfig } from '../config/types.js';
+import type { InboundMessage, MessageType } from './types.js';
+
+/** Message details that routes match on and fill templates from */
+export interface ConversationRouteContext {
+  channel: string;
+  chatId?: string;
+  userId?: string;
+  messageType?: MessageType;
+  groupName?: string;
+  serverId?: string;
+  threadId?: string;
+}
+
+/** A validated rule, ready for matching */
+export interface ConversationRoute {
+  index: number;
+  config: ConversationRouteConfig;
+  groupName?: RegExp;
+}
+
+export interface ConversationRouteMatch {
+  route: ConversationRoute;
+  key: string;
+}
+
+const TEMPLATE_FIELDS = new Set(['channel', 'chatId', 'userId', 'threadId', 'serverId', 'messageType']);
+const PLACEHOLDER_REGEX = /\{([^{}]*)\}/g;
+const PINNED_KEY_PREFIX = 'pinned:';
+
+/** Conversation key for a pinned conversation name */
+export function pinnedConversationKey(name: string): string {
+  return `${PINNED_KEY_PREFIX}${name}`;
+}
+
+export function isPinnedConversationKey(key: string): boolean {
+  return key.startsWith(PINNED_KEY_PREFIX);
+}
+
+/**
+ * Validate routes against the pinned conversations and compile their
+ * patterns. Throws on the first invalid rule.
+ */
+export function compileConversationRoutes(
+  routes: ConversationRouteConfig[] = [],
+  pinned: Record<string, string> = {},
+): ConversationRoute[] {
+  return routes.map((config, index) => {
+    const where = `conversations.routes[${index}]`;
+    if (!config.key === !config.pinned) {
+      throw new Error(`${where}: set exactly one of "key" or "pinned"`);
+    }
+    if (config.pinned && !pinned[config.pinned]) {
+      throw new Error(`${where}: no conversations.pinned entry named "${config.pinned}"`);
+    }
+    if (config.key) {
+      if (isPinnedConversationKey(config.key)) {
+        throw new Error(`${where}: keys starting with "${PINNED_KEY_PREFIX}" are reserved; use "pinned" instead`);
+      }
+      for (const [, field] of config.key.matchAll(PLACEHOLDER_REGEX)) {
+        if (!TEMPLATE_FIELDS.has(field)) {
+          throw new Error(`${where}: unknown placeholder {${field}} in key`);
+        }
+      }
+    }
+
+    let groupName: RegExp | undefined;
+    if (config.match?.groupName !== undefined) {
+      try {
+        groupName = new RegExp(config.match.groupName, 'i');
+      } catch (err) {
+        throw new Error(`${where}: invalid groupName pattern: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    return { index, config, groupName };
+  });
+}
+
+/** Route context for an inbound message (threadId as used for routing) */
+export function routeContextForMessage(msg: InboundMessage, threadId?: string): ConversationRouteContext {
+  return {
+    channel: msg.channel,
+    chatId: msg.chatId,
+    userId: msg.userId,
+    messageType: msg.messageType ?? (msg.isGroup ? 'group' : 'dm'),
+    groupName: msg.groupName,
+    serverId: msg.serverId,
+    threadId,
+  };
+}
+
+// YAML turns unquoted IDs into numbers, so compare as strings
+function matchesValue(expected: string | string[] | undefined, actual: string | undefined, ignoreCase = false): boolean {
+  if (expected === undefined) return true;
+  if (actual === undefined) return false;
+  const normalize = (value: unknown) => (ignoreCase ? String(value).toLowerCase() : String(value));
+  const target = normalize(actual);
+  return (Array.isArray(expected) ? expected : [expected]).some(value => normalize(value) === target);
+}
+
+function fillTemplate(template: string, ctx: ConversationRouteContext): string | null {
+  let missing = false;
+  const key = template.replace(PLACEHOLDER_REGEX, (_, field: keyof ConversationRouteContext) => {
+    const value = field === 'channel' ? ctx.channel.toLowerCase() : ctx[field];
+    if (!value) missing = true;
+    return value ?? '';
+  });
+  return missing ? null : key;
+}
+
+/**
+ * Find the first rule that matches and build its conversation key.
+ * Returns null when no rule applies.
+ */
+export function matchConversationRoute(
+  routes: ConversationRoute[],
+  ctx: ConversationRouteContext,
+): ConversationRouteMatch | null {
+  for (const route of routes) {
+    const match = route.config.match ?? {};
+    if (!matchesValue(match.channel, ctx.channel, true)) continue;
+    if (!matchesValue(match.chatId, ctx.chatId)) continue;
+    if (!matchesValue(match.userId, ctx.userId)) continue;
+    if (!matchesValue(match.serverId, ctx.serverId)) continue;
+    if (match.messageType && match.messageType !== ctx.messageType) continue;
+    if (route.groupName && !(ctx.groupName && route.groupName.test(ctx.groupName))) continue;
+
+    const key = route.config.pinned
+      ? pinnedConversationKey(route.config.pinned)
+      : fillTemplate(route.config.key!, ctx);
+    if (key) return { route, key };
+  }
+  return null;
+}
+
+/**
+ * Pure function: resolve the conversation key for a channel message that
+ * matched no route.
+ * Returns `${channel}:${chatId}` in per-chat mode.
+ * Returns `${channel}:${chatId}:${threadId}` for thread messages in per-thread mode.
+ * Returns the channel id in per-channel mode or when the channel is in overrides.
+ * Returns 'shared' otherwise (including top-level messages in per-thread mode).
+ */
+export function resolveConversationKey(
+  channel: string,
+  conversationMode: string | undefined,
+  conversationOverrides: Set<string>,
+  chatId?: string,
+  forcePerChat?: boolean,
+  threadId?: string,
+): string {
+  if (conversationMode === 'disabled') return 'default';
+  const normalized = channel.toLowerCase();
+  if ((conversationMode === 'per-chat' || forcePerChat) && chatId) return `${normalized}:${chatId}`;
+  if (conversationMode === 'per-thread' && chatId && threadId) return `${normalized}:${chatId}:${threadId}`;
+  if (conversationMode === 'per-channel') return normalized;
+  if (conversationOverrides.has(normalized)) return normalized;
+  return 'shared';
+}
+
+/** One-line summary of a rule for logs and `lettabot conversations explain` */
+export function describeConversationRoute(route: ConversationRoute): string {
+  const conditions = Object.entries(route.config.match ?? {})
+    .map(([field, value]) => `${field}=${Array.isArray(value) ? value.join('|') : value}`);
+  const target = route.config.pinned ? `pinned "${route.config.pinned}"` : `key "${route.config.key}"`;
+  return `routes[${route.index}] (${conditions.length > 0 ? conditions.join(', ') : 'any message'}) -> ${target}`;
+}
@@ -0,0 +1,125 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import type { InboundMessage } from './types.js';
+import { createMockAdapter, registerMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('directive outcomes', () => {
+  const workDir = useTempWorkDir('lettabot-outcomes-');
+
+  function setup(config: Record<string, unknown> = {}) {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [], ...config });
+    const adapter = createMockAdapter({ id: 'signal', name: 'Signal' }, {
+      sendFile: vi.fn(async () => ({ messageId: 'file-1' })),
+    });
+    const { sendMessage } = registerMockAdapter(bot, adapter);
+    return { bot, adapter, sendMessage };
+  }
+
+  it('reports ok, skipped and failed directives on the next turn', async () => {
+    const { bot, adapter, sendMessage } = setup({ sendFileMaxSize: 4 });
+    mkdirSync(join(workDir(), 'data', 'outbound'), { recursive: true });
+    writeFileSync(join(workDir(), 'data', 'outbound', 'big.txt'), 'too large');
+    sendMessage.mockRejectedValueOnce(new Error('chat not found'));
+    const outcomes: unknown[] = [];
+
+    const acted = await (bot as any).executeDirectives(
+      [
+        { type: 'react', emoji: 'eyes' },
+        { type: 'send-file', path: 'data/outbound/big.txt' },
+        { type: 'send-message', text: 'hi', channel: 'signal', chat: 'other' },
+        { type: 'location', latitude: 1, longitude: 2 },
+      ],
+      adapter,
+      'chat-1',
+      'in-1',
+      undefined,
+      outcomes,
+    );
+
+    expect(acted).toBe(true);
+    expect(outcomes).toEqual([
+      { directive: 'react', status: 'skipped', detail: 'Signal does not support reactions' },
+      { directive: 'send-file', status: 'skipped', detail: 'data/outbound/big.txt is 9 bytes (max: 4)' },
+      { directive: 'send-message', status: 'error', detail: 'chat not found' },
+      { directive: 'location', status: 'ok', detail: 'sent as text' },
+    ]);
+    expect((bot as any).takeActionNotes('signal', 'chat-1')).toEqual([
+      '<react> skipped: Signal does not support reactions',
+      '<send-file> skipped: data/outbound/big.txt is 9 bytes (max: 4)',
+      '<send-message> failed: chat not found',
+      '<location> ok: sent as text',
+    ]);
+  });
+
+  it('leaves plain successes out of the notes but keeps new message IDs', async () => {
+    const { bot, adapter } = setup();
+    const withReactions = { ...adapter, addReaction: vi.fn(async () => {}) };
+    const outcomes: unknown[] = [];
+
+    await (bot as any).executeDirectives(
+      [
+        { type: 'react', emoji: 'eyes' },
+        { type: 'send-message', text: 'hi', channel: 'signal', chat: 'other' },
+      ],
+      withReactions,
+      'chat-1',
+      'in-1',
+      undefined,
+      outcomes,
+    );
+
+    expect(outcomes).toHaveLength(2);
+    expect((bot as any).takeActionNotes('signal', 'chat-1')).toEqual([
+      '<send-message> ok: message msg-1 in signal:other',
+    ]);
+  });
+
+  it('keeps only the most recent notes per chat', async () => {
+    const { bot, adapter, sendMessage } = setup();
+    sendMessage.mockRejectedValueOnce(new Error('chat not found'));
+
+    await (bot as any).executeDirectives(
+      [
+        { type: 'send-message', text: 'hi', channel: 'signal', chat: 'other' },
+        ...Array.from({ length: 25 }, () => ({ type: 'react', emoji: 'eyes' })),
+      ],
+      adapter,
+      'chat-1',
+    );
+
+    const notes = (bot as any).takeActionNotes('signal', 'chat-1');
+    expect(notes).toHaveLength(20);
+    expect(notes.every((note: string) => note.startsWith('<react> skipped'))).toBe(true);
+  });
+
+  it('records outcomes in the turn log', async () => {
+    const turnLogFile = join(workDir(), 'turns.jsonl');
+    const { bot, adapter } = setup({ logging: { turnLogFile } });
+    (bot as any).sessionManager.runSession = vi.fn(async () => ({
+      session: { abort: vi.fn(async () => {}) },
+      stream: async function* () {
+        yield { type: 'assistant', content: '<actions><react emoji="eyes" /></actions>Hello', uuid: 'assistant-1' };
+        yield { type: 'result', success: true };
+      },
+    }));
+    const msg: InboundMessage = {
+      channel: 'signal',
+      chatId: 'chat-1',
+      userId: 'user-1',
+      messageId: 'in-1',
+      text: 'hi',
+      timestamp: new Date(),
+    };
+
+    await (bot as any).processMessage(msg, adapter);
+
+    await vi.waitFor(() => {
+      const record = JSON.parse(readFileSync(turnLogFile, 'utf8').trim());
+      expect(record.directives).toEqual([
+        { directive: 'react', status: 'skipped', detail: 'Signal does not support reactions' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DirectiveRegistry, directiveRegistry, loadDirectiveModules, type DirectiveDefinition } from './directive-registry.js';
+import { parseDirectives } from './directives.js';
+import { formatMessageEnvelope } from './formatter.js';
+import { LettaBot } from './bot.js';
+import type { InboundMessage } from './types.js';
+
+function weather(overrides: Partial<DirectiveDefinition> = {}): DirectiveDefinition {
+  return {
+    tag: 'weather',
+    description: 'post the forecast for a city',
+    attributes: {
+      city: { required: true },
+      days: { type: 'number' },
+      alerts: { type: 'boolean' },
+      units: { values: ['metric', 'imperial'] },
+    },
+    handler: vi.fn(async () => {}),
+    ...overrides,
+  };
+}
+
+describe('DirectiveRegistry', () => {
+  it('rejects built-in, invalid and duplicate tags', () => {
+    const registry = new DirectiveRegistry();
+    expect(() => registry.register(weather({ tag: 'react' }))).toThrow('built in');
+    expect(() => registry.register(weather({ tag: 'handoff' }))).toThrow('built in');
+    expect(() => registry.register(weather({ tag: 'Weather' }))).toThrow('Invalid directive tag');
+    registry.register(weather());
+    expect(() => registry.register(weather())).toThrow('already registered');
+    expect(registry.list().map(d => d.tag)).toEqual(['weather']);
+  });
+
+  it('validates and converts attributes', () => {
+    const registry = new DirectiveRegistry();
+    registry.register(weather());
+
+    expect(registry.validate({
+      type: 'custom',
+      tag: 'weather',
+      attributes: { city: 'Lisbon', days: '3', alerts: 'true', units: 'metric' },
+    })).toEqual({ attributes: { city: 'Lisbon', days: 3, alerts: true, units: 'metric' } });
+
+    const invalid = (attributes: Record<string, string>, content?: string) =>
+      () => registry.validate({ type: 'custom', tag: 'weather', attributes, content });
+    expect(invalid({})).toThrow('missing required attribute "city"');
+    expect(invalid({ city: 'Lisbon', days: 'soon' })).toThrow('days must be a number');
+    expect(invalid({ city: 'Lisbon', alerts: 'yes' })).toThrow('alerts must be "true" or "false"');
+    expect(invalid({ city: 'Lisbon', units: 'kelvin' })).toThrow('units must be one of: metric, imperial');
+    expect(invalid({ city: 'Lisbon', country: 'PT' })).toThrow('unknown attribute "country"');
+    expect(invalid({ city: 'Lisbon' }, 'hello')).toThrow('does not take text content');
+  });
+
+  it('requires content when the definition does', () => {
+    const registry = new DirectiveRegistry();
+    registry.register(weather({ tag: 'note', attributes: {}, content: 'required' }));
+
+    expect(() => registry.validate({ type: 'custom', tag: 'note', attributes: {} })).toThrow('requires text content');
+    expect(registry.validate({ type: 'custom', tag: 'note', attributes: {}, content: ' hi ' }))
+      .toEqual({ attributes: {}, content: 'hi' });
+  });
+
+  it('passes the context to the handler and reports whether it acted', async () => {
+    const registry = new DirectiveRegistry();
+    const handler = vi.fn(async () => false);
+    registry.register(weather({ handler }));
+    const context = { adapter: {} as any, chatId: 'chat-1', messageId: 'msg-1' };
+
+    const acted = await registry.execute({ type: 'custom', tag: 'weather', attributes: { city: 'Lisbon' } }, context);
+
+    expect(acted).toBe(false);
+    expect(handler).toHaveBeenCalledWith({ attributes: { city: 'Lisbon' } }, context);
+  });
+
+  it('builds prompt lines from the schema unless overridden', () => {
+    const registry = new DirectiveRegistry();
+    registry.register(weather());
+    registry.register(weather({ tag: 'note', attributes: {}, content: 'required' }));
+    registry.register(weather({ tag: 'hidden', prompt: () => null }));
+
+    expect(registry.promptLines({} as any)).toEqual([
+      '- `<actions><weather city="..." /></actions>` — post the forecast for a city',
+      '- `<actions><note>...</note></actions>` — post the forecast for a city',
+    ]);
+  });
+});
+
+describe('loadDirectiveModules', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lettabot-directives-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('registers default and named exports and skips broken modules', async () => {
+    writeFileSync(join(dir, 'one.mjs'),
+      "export default { tag: 'one', description: 'first', handler: async () => {} };\n");
+    writeFileSync(join(dir, 'many.mjs'),
+      "export const directives = [{ tag: 'two', description: 'second', handler: async () => {} }, { tag: 'three', description: 'third', handler: async () => {} }];\n");
+    writeFileSync(join(dir, 'empty.mjs'), 'export const nothing = 1;\n');
+    const registry = new DirectiveRegistry();
+
+    const registered = await loadDirectiveModules([
+      join(dir, 'one.mjs'),
+      join(dir, 'empty.mjs'),
+      join(dir, 'missing.mjs'),
+      join(dir, 'many.mjs'),
+    ], registry);
+
+    expect(registered).toEqual(['one', 'two', 'three']);
+    expect(registry.has('three')).toBe(true);
+  });
+});
+
+describe('custom directives', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'lettabot-custom-'));
+  });
+
+  afterEach(() => {
+    directiveRegistry.unregister('weather');
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('parses registered tags in both forms and ignores unknown ones', () => {
+    directiveRegistry.register(weather({ content: 'optional' }));
+
+    const result = parseDirectives(
+      '<actions><weather city="Lisbon" days="3" /><weather city="Porto">Bring a coat</weather><unknown a="1" /><react emoji="eyes" /></actions>Done',
+    );
+
+    expect(result.cleanText).toBe('Done');
+    expect(result.directives).toEqual([
+      { type: 'custom', tag: 'weather', attributes: { city: 'Lisbon', days: '3' } },
+      { type: 'custom', tag: 'weather', attributes: { city: 'Porto' }, content: 'Bring a coat' },
+      { type: 'react', emoji: 'eyes' },
+    ]);
+  });
+
+  it('lists registered directives in the response directives section', () => {
+    directiveRegistry.register(weather());
+
+    const envelope = formatMessageEnvelope({
+      channel: 'telegram',
+      chatId: '123',
+      userId: 'user-1',
+      text: 'Forecast?',
+      timestamp: new Date('2026-02-02T12:00:00Z'),
+    });
+
+    expect(envelope).toContain('<weather city="..." />');
+  });
+
+  function setup() {
+    const bot = new LettaBot({ workingDir: workDir, allowedTools: [] });
+    const adapter = {
+      id: 'telegram' as const,
+      name: 'Telegram',
+      start: vi.fn(async () => {}),
+      stop: vi.fn(async () => {}),
+      isRunning: vi.fn(() => true),
+      sendMessage: vi.fn(async () => ({ messageId: 'msg-1' })),
+      editMessage: vi.fn(async () => {}),
+      sendTypingIndicator: vi.fn(async () => {}),
+      getFormatterHints: vi.fn(() => ({})),
+    };
+    bot.registerChannel(adapter);
+    return { bot, adapter };
+  }
+
+  it('dispatches to the registered handler', async () => {
+    const handler = vi.fn(async () => {});
+    directiveRegistry.register(weather({ handler }));
+    const { bot, adapter } = setup();
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'custom', tag: 'weather', attributes: { city: 'Lisbon', days: '2' } }],
+      adapter,
+      'chat-1',
+      'msg-9',
+      'thread-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(handler).toHaveBeenCalledWith(
+      { attributes: { city: 'Lisbon', days: 2 } },
+      { adapter, chatId: 'chat-1', messageId: 'msg-9', threadId: 'thread-1', message: undefined },
+    );
+  });
+
+  it('gives the handler the triggering message', async () => {
+    const handler = vi.fn(async () => {});
+    directiveRegistry.register(weather({ handler }));
+    const { bot, adapter } = setup();
+    const message: InboundMessage = {
+      channel: 'telegram',
+      chatId: 'chat-1',
+      userId: 'user-1',
+      userName: 'Ada',
+      messageId: 'msg-9',
+      text: 'Forecast for Lisbon?',
+      timestamp: new Date('2026-02-02T12:00:00Z'),
+      isGroup: true,
+    };
+
+    await (bot as any).executeDirectives(
+      [{ type: 'custom', tag: 'weather', attributes: { city: 'Lisbon' } }],
+      adapter,
+      'chat-1',
+      'msg-9',
+      undefined,
+      undefined,
+      message,
+    );
+
+    expect(handler).toHaveBeenCalledWith(
+      { attributes: { city: 'Lisbon' } },
+      expect.objectContaining({ message }),
+    );
+  });
+
+  it('skips invalid directives and tells the agent why', async () => {
+    const handler = vi.fn(async () => {});
+    directiveRegistry.register(weather({ handler }));
+    const { bot, adapter } = setup();
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'custom', tag: 'weather', attributes: {} }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+    expect((bot as any).takeActionNotes('telegram', 'chat-1')).toEqual(['<weather> failed: missing required attribute "city"']);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Directive Registry
+ *
+ * Lets skills and local plugin modules add <actions> directives without
+ * editing the parser or bot core. A definition declares the tag, an
+ * attribute schema, a handler, and the line shown in the agent's
+ * "Response Directives" section:
+ *
+ *   export default {
+ *     tag: 'weather',
+ *     description: 'post the forecast for a city',
+ *     attributes: { city: { required: true }, days: { type: 'number' } },
+ *     async handler({ attributes }, { adapter, chatId }) {
+ *       await adapter.sendMessage({ chatId, text: await forecast(attributes.city, attributes.days) });
+ *     },
+ *   };
+ *
+ * Registered tags are parsed into generic `custom` directives, validated
+ * against the schema, then dispatched to the handler. The registry is
+ * process-wide: every agent sees the same custom directives.
+ */
+
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { ChannelAdapter } from '../channels/types.js';
+import type { CustomDirective } from './directives.js';
+import type { InboundMessage } from './types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Directives');
+
+/** Tags handled by the built-in parser; plugins cannot take these over */
+const RESERVED_TAGS = new Set([
+  'actions', 'no-reply', 'react', 'send-file', 'send-message', 'voice',
+  'edit-message', 'delete-message', 'schedule', 'poll', 'option', 'reply-to',
+  'location', 'contact', 'forward', 'break', 'handoff', 'handback',
+]);
+
+const TAG_NAME_REGEX = /^[a-z][a-z0-9-]*$/;
+
+export type DirectiveAttributeValue = string | number | boolean;
+
+export interface DirectiveAttributeSpec {
+  /** Value type after validation (default: string) */
+  type?: 'string' | 'number' | 'boolean';
+  required?: boolean;
+  /** Allowed values (string attributes only) */
+  values?: string[];
+}
+
+/** Context passed to directive handlers */
+export interface DirectiveContext {
+  adapter: ChannelAdapter;
+  chatId: string;
+  /** Message that triggered the response, when there is one */
+  messageId?: string;
+  threadId?: string;
+  /** The triggering message itself (sender, text, group info); absent for heartbeats and other background runs */
+  message?: Readonly<InboundMessage>;
+}
+
+export interface DirectiveDefinition {
+  /** Tag name, e.g. "weather" for <weather ... /> */
+  tag: string;
+  /** Short description used for the default prompt line */
+  description: string;
+  attributes?: Record<string, DirectiveAttributeSpec>;
+  /**
+   * Whether the tag carries text content: 'none' means self-closing only
+   * (default), 'optional' allows both forms, 'required' needs content.
+   */
+  content?: 'none' | 'optional' | 'required';
+  /**
+   * Line for the "Response Directives" section. Defaults to a usage example
+   * built from the schema. Return null to hide the directive for a message
+   * (e.g. on channels the handler does not support).
+   */
+  prompt?: string | ((msg: InboundMessage) => string | null);
+  /** Perform the action. Return false when nothing was done; throw on failure. */
+  handler: (
+    directive: { attributes: Record<string, DirectiveAttributeValue>; content?: string },
+    context: DirectiveContext,
+  ) => Promise<boolean | void>;
+}
+
+export class DirectiveRegistry {
+  private definitions = new Map<string, DirectiveDefinition>();
+
+  /**
+   * Register a directive. Throws if the tag is invalid, built in, or
+   * already registered.
+   */
+  register(definition: DirectiveDefinition): void {
+    const { tag } = definition;
+    if (!TAG_NAME_REGEX.test(tag)) {
+      throw new Error(`Invalid directive tag "${tag}": use lowercase letters, digits and dashes`);
+    }
+    if (RESERVED_TAGS.has(tag)) {
+      throw new Error(`Directive tag "${tag}" is built in`);
+    }
+    if (this.definitions.has(tag)) {
+      throw new Error(`Directive tag "${tag}" is already registered`);
+    }
+    if (typeof definition.handler !== 'function') {
+      throw new Error(`Directive "${tag}" has no handler`);
+    }
+    this.definitions.set(tag, definition);
+  }
+
+  unregister(tag: string): boolean {
+    return this.definitions.delete(tag);
+  }
+
+  get(tag: string): DirectiveDefinition | undefined {
+    return this.definitions.get(tag);
+  }
+
+  has(tag: string): boolean {
+    return this.definitions.has(tag);
+  }
+
+  list(): DirectiveDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Check a parsed directive against its schema and convert attribute values.
+   * Throws with a short reason; callers prefix it with the tag.
+   */
+  validate(directive: CustomDirective): { attributes: Record<string, DirectiveAttributeValue>; content?: string } {
+    const definition = this.definitions.get(directive.tag);
+    if (!definition) {
+      throw new Error(`Unknown directive <${directive.tag}>`);
+    }
+
+    const schema = definition.attributes ?? {};
+    const attributes: Record<string, DirectiveAttributeValue> = {};
+    for (const name of Object.keys(directive.attributes)) {
+      if (!(name in schema)) {
+        throw new Error(`unknown attribute "${name}"`);
+      }
+    }
+    for (const [name, spec] of Object.entries(schema)) {
+      const raw = directive.attributes[name];
+      if (raw === undefined || raw === '') {
+        if (spec.required) throw new Error(`missing required attribute "${name}"`);
+        continue;
+      }
+      attributes[name] = coerceAttribute(name, raw, spec);
+    }
+
+    const content = directive.content?.trim() || undefined;
+    const contentMode = definition.content ?? 'none';
+    if (contentMode === 'none' && content) {
+      throw new Error('does not take text content');
+    }
+    if (contentMode === 'required' && !content) {
+      throw new Error('requires text content');
+    }
+
+    return content ? { attributes, content } : { attributes };
+  }
+
+  /**
+   * Validate and run a custom directive. Returns true if the handler acted.
+   */
+  async execute(directive: CustomDirective, context: DirectiveContext): Promise<boolean> {
+    const validated = this.validate(directive);
+    const result = await this.definitions.get(directive.tag)!.handler(validated, context);
+    return result !== false;
+  }
+
+  /**
+   * Prompt lines for the "Response Directives" section of a message.
+   */
+  promptLines(msg: InboundMessage): string[] {
+    const lines: string[] = [];
+    for (const definition of this.definitions.values()) {
+      const line = typeof definition.prompt === 'function'
+        ? definition.prompt(msg)
+        : definition.prompt ?? defaultPrompt(definition);
+      if (line) lines.push(line);
+    }
+    return lines;
+  }
+}
+
+function coerceAttribute(name: string, raw: string, spec: DirectiveAttributeSpec): DirectiveAttributeValue {
+  switch (spec.type ?? 'string') {
+    case 'number': {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) throw new Error(`${name} must be a number`);
+      return value;
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') throw new Error(`${name} must be "true" or "false"`);
+      return raw === 'true';
+    default:
+      if (spec.values && !spec.values.includes(raw)) {
+        throw new Error(`${name} must be one of: ${spec.values.join(', ')}`);
+      }
+      return raw;
+  }
+}
+
+function defaultPrompt(definition: DirectiveDefinition): string {
+  const attrs = Object.entries(definition.attributes ?? {})
+    .filter(([, spec]) => spec.required)
+    .map(([name, spec]) => ` ${name}="${spec.values?.[0] ?? '...'}"`)
+    .join('');
+  const usage = definition.content === 'required' || definition.content === 'optional'
+    ? `<actions><${definition.tag}${attrs}>...</${definition.tag}></actions>`
+    : `<actions><${definition.tag}${attrs} /></actions>`;
+  return `- \`${usage}\` — ${definition.description}`;
+}
+
+/** Process-wide registry used by the parser, formatter and bot */
+export const directiveRegistry = new DirectiveRegistry();
+
+/**
+ * Import plugin modules and register the directives they export (a
+ * definition or an array of them, as the default export or `directives`).
+ * Relative paths resolve from the current working directory. Failures are
+ * logged per module so one broken plugin does not stop the others.
+ */
+export async function loadDirectiveModules(
+  paths: string[],
+  registry: DirectiveRegistry = directiveRegistry,
+): Promise<string[]> {
+  const registered: string[] = [];
+  for (const path of paths) {
+    const absolute = isAbsolute(path) ? path : resolve(path);
+    try {
+      const mod = await import(pathToFileURL(absolute).href) as {
+        default?: DirectiveDefinition | DirectiveDefinition[];
+        directives?: DirectiveDefinition | DirectiveDefinition[];
+      };
+      const exported = mod.default ?? mod.directives;
+      if (!exported) {
+        throw new Error('module exports no directives (expected a default or `directives` export)');
+      }
+      for (const definition of Array.isArray(exported) ? exported : [exported]) {
+        registry.register(definition);
+        registered.push(definition.tag);
+      }
+    } catch (err) {
+      log.error(`Failed to load directive module ${path}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  if (registered.length > 0) {
+    log.info(`Registered custom directives: ${registered.join(', ')}`);
+  }
+  return registered;
+}
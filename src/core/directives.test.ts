@@ -1,9 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import {
-  hasIncompleteActionsTag,
-  hasUnclosedActionsBlock,
+  formatDirectiveOutcome,
+  getStreamingDisplayText,
+  parseBreakDelay,
   parseDirectives,
-  stripActionsBlock,
+  splitAtBreak,
+  stripBreaks,
+  StreamingDirectiveParser,
 } from './directives.js';
 
 describe('parseDirectives', () => {
@@ -352,52 +355,271 @@ describe('parseDirectives', () => {
       { type: 'send-file', path: 'report.pdf', chat: '123' },
     ]);
   });
+
+  // --- edit-message / delete-message ---
+
+  it('parses edit-message with text content', () => {
+    const result = parseDirectives(
+      '<actions><edit-message id="42">Corrected:\nthe meeting is at 3pm</edit-message></actions>',
+    );
+    expect(result.directives).toEqual([
+      { type: 'edit-message', messageId: '42', text: 'Corrected:\nthe meeting is at 3pm' },
+    ]);
+  });
+
+  it('parses self-closing edit-message with a text attribute', () => {
+    const result = parseDirectives('<actions><edit-message id="42" text="Fixed typo" /></actions>');
+    expect(result.directives).toEqual([
+      { type: 'edit-message', messageId: '42', text: 'Fixed typo' },
+    ]);
+  });
+
+  it('ignores edit-message without id or text', () => {
+    const result = parseDirectives(
+      '<actions><edit-message>No id</edit-message><edit-message id="42"> </edit-message></actions>',
+    );
+    expect(result.directives).toEqual([]);
+  });
+
+  it('parses delete-message alongside other directives in order', () => {
+    const result = parseDirectives(
+      '<actions><delete-message id="41" /><react emoji="eyes" /></actions>Sorry, ignore that.',
+    );
+    expect(result.cleanText).toBe('Sorry, ignore that.');
+    expect(result.directives).toEqual([
+      { type: 'delete-message', messageId: '41' },
+      { type: 'react', emoji: 'eyes' },
+    ]);
+  });
+
+  it('ignores delete-message without id', () => {
+    const result = parseDirectives('<actions><delete-message /></actions>');
+    expect(result.directives).toEqual([]);
+  });
+
+  // --- schedule ---
+
+  it('parses schedule with timing, name and message content', () => {
+    const result = parseDirectives(
+      '<actions><schedule at="20m" name="Stretch">Remind them to stretch</schedule></actions>Will do!',
+    );
+    expect(result.cleanText).toBe('Will do!');
+    expect(result.directives).toEqual([
+      { type: 'schedule', message: 'Remind them to stretch', at: '20m', name: 'Stretch' },
+    ]);
+  });
+
+  it('parses schedule with cron and explicit target', () => {
+    const result = parseDirectives(
+      '<actions><schedule cron="0 9 * * 1-5" channel="slack" chat="C123">Post the standup prompt</schedule></actions>',
+    );
+    expect(result.directives).toEqual([
+      { type: 'schedule', message: 'Post the standup prompt', cron: '0 9 * * 1-5', channel: 'slack', chat: 'C123' },
+    ]);
+  });
+
+  it('ignores schedule without timing or message', () => {
+    const result = parseDirectives(
+      '<actions><schedule>No timing</schedule><schedule every="1h"> </schedule></actions>',
+    );
+    expect(result.directives).toEqual([]);
+  });
+
+  // --- reply-to ---
+
+  it('parses self-closing reply-to for the response text', () => {
+    const result = parseDirectives('<actions><reply-to id="555" /></actions>Good point!');
+    expect(result.cleanText).toBe('Good point!');
+    expect(result.directives).toEqual([{ type: 'reply-to', messageId: '555' }]);
+  });
+
+  it('parses several reply-to directives with their own text', () => {
+    const result = parseDirectives(
+      '<actions><reply-to id="1">Yes, Tuesday.</reply-to><reply-to id="2">No, sorry.</reply-to></actions>',
+    );
+    expect(result.directives).toEqual([
+      { type: 'reply-to', messageId: '1', text: 'Yes, Tuesday.' },
+      { type: 'reply-to', messageId: '2', text: 'No, sorry.' },
+    ]);
+  });
+
+  it('ignores reply-to without id', () => {
+    const result = parseDirectives('<actions><reply-to /><reply-to>Text</reply-to></actions>');
+    expect(result.directives).toEqual([]);
+  });
+
+  // --- poll ---
+
+  it('parses poll with question and options', () => {
+    const result = parseDirectives(
+      '<actions><poll question="Lunch?">\n  <option>Pizza</option>\n  <option> Sushi </option>\n</poll></actions>Vote away!',
+    );
+    expect(result.cleanText).toBe('Vote away!');
+    expect(result.directives).toEqual([
+      { type: 'poll', question: 'Lunch?', options: ['Pizza', 'Sushi'] },
+    ]);
+  });
+
+  it('parses multiple="true" on poll', () => {
+    const result = parseDirectives(
+      '<actions><poll question="Which days?" multiple="true"><option>Mon</option><option>Tue</option><option>Wed</option></poll></actions>',
+    );
+    expect(result.directives).toEqual([
+      { type: 'poll', question: 'Which days?', options: ['Mon', 'Tue', 'Wed'], multiple: true },
+    ]);
+  });
+
+  it('ignores poll without a question or with fewer than two options', () => {
+    const result = parseDirectives(
+      '<actions><poll><option>A</option><option>B</option></poll><poll question="Q"><option>Only</option><option> </option></poll></actions>',
+    );
+    expect(result.directives).toEqual([]);
+  });
 });
 
-describe('stripActionsBlock', () => {
-  it('strips a complete actions block', () => {
-    expect(stripActionsBlock('<actions><react emoji="eyes" /></actions>\nHello')).toBe('Hello');
+describe('parseDirectives (location and contact)', () => {
+  it('parses locations with coordinates, name and address', () => {
+    const result = parseDirectives('<actions><location lat="38.7223" lon="-9.1393" name="Cafe" address="Rua Augusta 1" /></actions>Meet here');
+    expect(result.cleanText).toBe('Meet here');
+    expect(result.directives).toEqual([
+      { type: 'location', latitude: 38.7223, longitude: -9.1393, name: 'Cafe', address: 'Rua Augusta 1' },
+    ]);
   });
 
-  it('returns text unchanged if no actions block', () => {
-    expect(stripActionsBlock('Hello world')).toBe('Hello world');
+  it('drops locations with missing or out-of-range coordinates', () => {
+    const result = parseDirectives('<actions><location lat="91" lon="0" /><location lat="abc" lon="1" /><location lon="1" /></actions>');
+    expect(result.directives).toEqual([]);
   });
 
-  it('returns empty string for actions-only text', () => {
-    expect(stripActionsBlock('<actions><react emoji="eyes" /></actions>')).toBe('');
+  it('parses contacts that have a phone or email', () => {
+    const result = parseDirectives('<actions><contact name="Ada" phone="+15550102030" /><contact name="Bob" email="bob@example.com" /><contact name="Nobody" /></actions>');
+    expect(result.directives).toEqual([
+      { type: 'contact', name: 'Ada', phone: '+15550102030' },
+      { type: 'contact', name: 'Bob', email: 'bob@example.com' },
+    ]);
   });
+});
 
-  it('strips actions block in middle of text', () => {
-    const input = 'Before <actions><react emoji="eyes" /></actions> After';
-    expect(stripActionsBlock(input)).toBe('Before  After');
+describe('parseDirectives (forward)', () => {
+  it('parses forwards with a message and destination', () => {
+    const result = parseDirectives('<actions><forward message="42" to-channel="slack" to-chat="C1" /><forward message="43" to-channel="slack" /></actions>Sent');
+    expect(result.cleanText).toBe('Sent');
+    expect(result.directives).toEqual([
+      { type: 'forward', messageId: '42', channel: 'slack', chat: 'C1' },
+    ]);
   });
+});
 
-  it('strips multiple actions blocks in one response', () => {
-    const input = 'A <actions><react emoji="eyes" /></actions> B <actions><voice>Hello</voice></actions> C';
-    expect(stripActionsBlock(input)).toBe('A  B  C');
+describe('parseDirectives (handoff)', () => {
+  it('parses handoffs with an agent and summary, and handbacks with or without one', () => {
+    const result = parseDirectives(
+      '<actions><handoff agent="Muninn">Wants a refund for order 42</handoff><handoff agent="Muninn"></handoff><handback/><handback>Refund issued</handback></actions>Passing you on',
+    );
+    expect(result.cleanText).toBe('Passing you on');
+    expect(result.directives).toEqual([
+      { type: 'handoff', agent: 'Muninn', summary: 'Wants a refund for order 42' },
+      { type: 'handback' },
+      { type: 'handback', summary: 'Refund issued' },
+    ]);
   });
 });
 
-describe('hasUnclosedActionsBlock', () => {
-  it('detects unmatched opening actions tag', () => {
-    expect(hasUnclosedActionsBlock('Before <actions><react emoji="eyes" />')).toBe(true);
+describe('StreamingDirectiveParser', () => {
+  it('returns each block once, as soon as it closes', () => {
+    const parser = new StreamingDirectiveParser();
+
+    expect(parser.takeCompleted('Hi <actions><react emoji="eyes" />')).toEqual([]);
+    expect(parser.takeCompleted('Hi <actions><react emoji="eyes" /></actions>')).toEqual([
+      { type: 'react', emoji: 'eyes' },
+    ]);
+    expect(parser.takeCompleted('Hi <actions><react emoji="eyes" /></actions> there')).toEqual([]);
   });
 
-  it('returns false for complete actions block', () => {
-    expect(hasUnclosedActionsBlock('Before <actions><react emoji="eyes" /></actions> After')).toBe(false);
+  it('leaves taken blocks out of the final parse', () => {
+    const parser = new StreamingDirectiveParser();
+    const text = '<actions><react emoji="eyes" /></actions>Hi <actions><voice>Hello</voice></actions>';
+    parser.takeCompleted(text.slice(0, 44));
+
+    expect(parser.finish(text)).toEqual({
+      cleanText: 'Hi',
+      directives: [{ type: 'voice', text: 'Hello' }],
+    });
+    // finish() resets, so the next message starts fresh
+    expect(parser.takeCompleted(text)).toHaveLength(2);
   });
 });
 
-describe('hasIncompleteActionsTag', () => {
-  it('detects partial opening actions tag while streaming', () => {
-    expect(hasIncompleteActionsTag('Before <act')).toBe(true);
+describe('getStreamingDisplayText', () => {
+  it('shows text before an unclosed actions block', () => {
+    expect(getStreamingDisplayText('Sure <actions><react emoji="eyes" />')).toBe('Sure');
   });
 
-  it('detects partial closing actions tag while streaming', () => {
-    expect(hasIncompleteActionsTag('Before </act')).toBe(true);
+  it('strips complete blocks and no-reply markers', () => {
+    expect(getStreamingDisplayText('A <actions><react emoji="eyes" /></actions> B')).toBe('A  B');
+    expect(getStreamingDisplayText('<no-reply/>')).toBe('');
+  });
+
+  it('holds back partial hidden tags at the end', () => {
+    expect(getStreamingDisplayText('Hello <act')).toBe('Hello');
+    expect(getStreamingDisplayText('<no-rep')).toBe('');
+    expect(getStreamingDisplayText('Hello <')).toBe('Hello');
+    expect(getStreamingDisplayText('Hello <break del')).toBe('Hello');
+  });
+
+  it('keeps ordinary angle brackets', () => {
+    expect(getStreamingDisplayText('1 < 2')).toBe('1 < 2');
+    expect(getStreamingDisplayText('Use <code>x</code>')).toBe('Use <code>x</code>');
+  });
+});
+
+describe('splitAtBreak', () => {
+  it('splits at the first complete marker', () => {
+    expect(splitAtBreak('One<break delay="1.5s"/>Two<break/>Three')).toEqual({
+      before: 'One',
+      after: 'Two<break/>Three',
+      delayMs: 1500,
+    });
   });
 
-  it('returns false when no partial actions tag is present', () => {
-    expect(hasIncompleteActionsTag('Before <code>ok</code>')).toBe(false);
+  it('returns null until a marker is complete', () => {
+    expect(splitAtBreak('One')).toBeNull();
+    expect(splitAtBreak('One<break delay="1s"')).toBeNull();
+  });
+
+  it('ignores markers inside actions blocks', () => {
+    expect(splitAtBreak('<actions><break/></actions>One')).toBeNull();
+    expect(splitAtBreak('One<actions><break/>')).toBeNull();
+    expect(splitAtBreak('<actions><react emoji="eyes" /></actions>One<break />Two')?.before)
+      .toBe('<actions><react emoji="eyes" /></actions>One');
+  });
+});
+
+describe('parseBreakDelay', () => {
+  it('reads seconds and milliseconds', () => {
+    expect(parseBreakDelay('1.5s')).toBe(1500);
+    expect(parseBreakDelay('800ms')).toBe(800);
+    expect(parseBreakDelay('2')).toBe(2000);
+  });
+
+  it('defaults malformed values and clamps long ones', () => {
+    expect(parseBreakDelay(undefined)).toBe(1000);
+    expect(parseBreakDelay('soon')).toBe(1000);
+    expect(parseBreakDelay('90s')).toBe(10_000);
+  });
+});
+
+describe('stripBreaks', () => {
+  it('turns markers into paragraph breaks', () => {
+    expect(stripBreaks('One <break delay="1s"/>\nTwo')).toBe('One\n\nTwo');
+  });
+});
+
+describe('formatDirectiveOutcome', () => {
+  it('summarizes an outcome on one line', () => {
+    expect(formatDirectiveOutcome({ directive: 'react', status: 'ok' })).toBe('<react> ok');
+    expect(formatDirectiveOutcome({ directive: 'send-file', status: 'skipped', detail: 'file not found' }))
+      .toBe('<send-file> skipped: file not found');
+    expect(formatDirectiveOutcome({ directive: 'weather', status: 'error', detail: 'timeout' }))
+      .toBe('<weather> failed: timeout');
   });
 });
@@ -14,8 +14,16 @@
  *
  *   → cleanText: "Great idea!"
  *   → directives: [{ type: 'react', emoji: 'thumbsup' }]
+ *
+ * Tags registered in the directive registry (see directive-registry.ts)
+ * are parsed into generic `custom` directives.
+ *
+ * <break delay="1.5s"/> markers sit in the text itself, outside <actions>,
+ * and split the response into separate messages (see splitAtBreak).
  */
 
+import { directiveRegistry } from './directive-registry.js';
+
 export interface ReactDirective {
   type: 'react';
   emoji: string;
@@ -44,14 +52,143 @@ export interface VoiceDirective {
   text: string;
 }
 
+export interface EditMessageDirective {
+  type: 'edit-message';
+  messageId: string;
+  text: string;
+}
+
+export interface DeleteMessageDirective {
+  type: 'delete-message';
+  messageId: string;
+}
+
+/**
+ * Quote a message. Without text, the response itself is sent as a reply;
+ * with text, that text is sent as a separate reply to the message.
+ */
+export interface ReplyToDirective {
+  type: 'reply-to';
+  messageId: string;
+  text?: string;
+}
+
+export interface PollDirective {
+  type: 'poll';
+  question: string;
+  options: string[];
+  multiple?: boolean;
+}
+
+export interface LocationDirective {
+  type: 'location';
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export interface ContactDirective {
+  type: 'contact';
+  name: string;
+  phone?: string;
+  email?: string;
+}
+
+/**
+ * Relay a message from the current chat to another chat. Destinations
+ * must be allowed by features.forwardTo.
+ */
+export interface ForwardDirective {
+  type: 'forward';
+  messageId: string;
+  channel: string;
+  chat: string;
+}
+
+/**
+ * Hand the current chat to another agent in this lettabot instance, with a
+ * summary of the conversation so far for that agent.
+ */
+export interface HandoffDirective {
+  type: 'handoff';
+  agent: string;
+  summary: string;
+}
+
+/** Return a handed-off chat to the agent that handed it over */
+export interface HandbackDirective {
+  type: 'handback';
+  summary?: string;
+}
+
+export interface ScheduleDirective {
+  type: 'schedule';
+  message: string;
+  at?: string;
+  every?: string;
+  cron?: string;
+  name?: string;
+  channel?: string;
+  chat?: string;
+}
+
+/**
+ * A tag registered by a skill or plugin, with its raw attributes.
+ * Validated against the registered schema at execution time.
+ */
+export interface CustomDirective {
+  type: 'custom';
+  tag: string;
+  attributes: Record<string, string>;
+  content?: string;
+}
+
 // Union type — extend with more directive types later
-export type Directive = ReactDirective | SendFileDirective | SendMessageDirective | VoiceDirective;
+export type Directive =
+  | ReactDirective
+  | SendFileDirective
+  | SendMessageDirective
+  | VoiceDirective
+  | EditMessageDirective
+  | DeleteMessageDirective
+  | ScheduleDirective
+  | PollDirective
+  | ReplyToDirective
+  | LocationDirective
+  | ContactDirective
+  | ForwardDirective
+  | HandoffDirective
+  | HandbackDirective
+  | CustomDirective;
 
 export interface ParseResult {
   cleanText: string;
   directives: Directive[];
 }
 
+/** What happened when a directive ran, reported back to the agent */
+export interface DirectiveOutcome {
+  /** Tag name, e.g. "react" or a custom tag */
+  directive: string;
+  status: 'ok' | 'skipped' | 'error';
+  /** Why it was skipped or failed, or what it produced */
+  detail?: string;
+}
+
+/** Tag name of a parsed directive */
+export function directiveTag(directive: Directive): string {
+  return directive.type === 'custom' ? directive.tag : directive.type;
+}
+
+/**
+ * One-line summary of an outcome, e.g. `<send-file> skipped: file not found`.
+ */
+export function formatDirectiveOutcome(outcome: DirectiveOutcome): string {
+  const status = outcome.status === 'error' ? 'failed' : outcome.status;
+  return `<${outcome.directive}> ${status}${outcome.detail ? `: ${outcome.detail}` : ''}`;
+}
+
 /**
  * Match complete <actions>...</actions> wrappers anywhere in the response.
  * Captures the inner content of each block.
@@ -64,17 +201,41 @@ function createActionsBlockRegex(flags = 'g'): RegExp {
 
 /**
  * Match supported directive tags inside the actions block in source order.
- * - Self-closing: <react ... />, <send-file ... />
- * - Content-bearing: <voice>...</voice>, <send-message ...>...</send-message>
+ * - Self-closing: <react ... />, <send-file ... />, <edit-message ... />, <delete-message ... />,
+ *   <reply-to ... />, <location ... />, <contact ... />, <forward ... />, <handback />
+ * - Content-bearing: <voice>...</voice>, <send-message ...>...</send-message>,
+ *   <edit-message ...>...</edit-message>, <schedule ...>...</schedule>,
+ *   <poll ...><option>...</option></poll>, <reply-to ...>...</reply-to>,
+ *   <handoff ...>...</handoff>, <handback>...</handback>
+ * - Any other tag, in either form; kept only if registered
  *
  * Groups:
- *   1: self-closing tag name (react|send-file)
+ *   1: self-closing tag name (react|send-file|edit-message|delete-message|reply-to|location|contact|forward|handback)
  *   2: self-closing attribute string
  *   3: <voice> text content
  *   4: <send-message> attribute string
  *   5: <send-message> text content
+ *   6: <edit-message> attribute string
+ *   7: <edit-message> text content
+ *   8: <schedule> attribute string
+ *   9: <schedule> message content
+ *  10: <poll> attribute string
+ *  11: <poll> inner content (<option> children)
+ *  12: <reply-to> attribute string
+ *  13: <reply-to> text content
+ *  14: <handoff> attribute string
+ *  15: <handoff> summary content
+ *  16: <handback> summary content
+ *  17: other self-closing tag name
+ *  18: other self-closing attribute string
+ *  19: other content tag name
+ *  20: other content attribute string
+ *  21: other content text
  */
-const DIRECTIVE_TOKEN_REGEX = /<(react|send-file)\b([^>]*)\/>|<voice>([\s\S]*?)<\/voice>|<send-message\b([^>]*)>([\s\S]*?)<\/send-message>/g;
+const DIRECTIVE_TOKEN_REGEX = /<(react|send-file|edit-message|delete-message|reply-to|location|contact|forward|handback)\b([^>]*)\/>|<voice>([\s\S]*?)<\/voice>|<send-message\b([^>]*)>([\s\S]*?)<\/send-message>|<edit-message\b([^>]*)>([\s\S]*?)<\/edit-message>|<schedule\b([^>]*)>([\s\S]*?)<\/schedule>|<poll\b([^>]*)>([\s\S]*?)<\/poll>|<reply-to\b([^>]*)>([\s\S]*?)<\/reply-to>|<handoff\b([^>]*)>([\s\S]*?)<\/handoff>|<handback>([\s\S]*?)<\/handback>|<([a-z][a-z0-9-]*)\b([^>]*?)\/>|<([a-z][a-z0-9-]*)\b([^>]*)>([\s\S]*?)<\/\19>/g;
+
+/** Match <option> children inside a <poll> */
+const POLL_OPTION_REGEX = /<option>([\s\S]*?)<\/option>/g;
 
 /**
  * Parse a single attribute string like: emoji="eyes" message="123"
@@ -102,7 +263,26 @@ function parseChildDirectives(block: string): Directive[] {
   DIRECTIVE_TOKEN_REGEX.lastIndex = 0;
 
   while ((match = DIRECTIVE_TOKEN_REGEX.exec(normalizedBlock)) !== null) {
-    const [, tagName, attrString, voiceText, sendMsgAttrs, sendMsgText] = match;
+    const [
+      , tagName, attrString, voiceText, sendMsgAttrs, sendMsgText, editAttrs, editText,
+      scheduleAttrs, scheduleText, pollAttrs, pollContent, replyAttrs, replyText,
+      handoffAttrs, handoffText, handbackText,
+      customTag, customAttrs, customContentTag, customContentAttrs, customContent,
+    ] = match;
+
+    if (customTag !== undefined || customContentTag !== undefined) {
+      const tag = customTag ?? customContentTag;
+      if (directiveRegistry.has(tag)) {
+        const content = customContent?.trim();
+        directives.push({
+          type: 'custom',
+          tag,
+          attributes: parseAttributes((customTag ? customAttrs : customContentAttrs) || ''),
+          ...(content ? { content } : {}),
+        });
+      }
+      continue;
+    }
 
     if (voiceText !== undefined) {
       const text = voiceText.trim();
@@ -121,6 +301,138 @@ function parseChildDirectives(block: string): Directive[] {
       continue;
     }
 
+    if (editText !== undefined) {
+      const text = editText.trim();
+      const attrs = parseAttributes(editAttrs || '');
+      if (text && attrs.id) {
+        directives.push({ type: 'edit-message', messageId: attrs.id, text });
+      }
+      continue;
+    }
+
+    if (replyText !== undefined) {
+      const text = replyText.trim();
+      const attrs = parseAttributes(replyAttrs || '');
+      if (text && attrs.id) {
+        directives.push({ type: 'reply-to', messageId: attrs.id, text });
+      }
+      continue;
+    }
+
+    if (handoffText !== undefined) {
+      const summary = handoffText.trim();
+      const agent = parseAttributes(handoffAttrs || '').agent?.trim();
+      if (summary && agent) {
+        directives.push({ type: 'handoff', agent, summary });
+      }
+      continue;
+    }
+
+    if (handbackText !== undefined || tagName === 'handback') {
+      const summary = handbackText?.trim();
+      directives.push({ type: 'handback', ...(summary ? { summary } : {}) });
+      continue;
+    }
+
+    if (pollContent !== undefined) {
+      const attrs = parseAttributes(pollAttrs || '');
+      const question = attrs.question?.trim();
+      const options = Array.from(pollContent.matchAll(POLL_OPTION_REGEX), m => m[1].trim()).filter(Boolean);
+      if (question && options.length >= 2) {
+        directives.push({
+          type: 'poll',
+          question,
+          options,
+          ...(attrs.multiple === 'true' ? { multiple: true } : {}),
+        });
+      }
+      continue;
+    }
+
+    if (scheduleText !== undefined) {
+      const message = scheduleText.trim();
+      const attrs = parseAttributes(scheduleAttrs || '');
+      if (message && (attrs.at || attrs.every || attrs.cron)) {
+        directives.push({
+          type: 'schedule',
+          message,
+          ...(attrs.at ? { at: attrs.at } : {}),
+          ...(attrs.every ? { every: attrs.every } : {}),
+          ...(attrs.cron ? { cron: attrs.cron } : {}),
+          ...(attrs.name ? { name: attrs.name } : {}),
+          ...(attrs.channel ? { channel: attrs.channel } : {}),
+          ...(attrs.chat ? { chat: attrs.chat } : {}),
+        });
+      }
+      continue;
+    }
+
+    if (tagName === 'edit-message') {
+      const attrs = parseAttributes(attrString || '');
+      const text = attrs.text?.trim();
+      if (text && attrs.id) {
+        directives.push({ type: 'edit-message', messageId: attrs.id, text });
+      }
+      continue;
+    }
+
+    if (tagName === 'reply-to') {
+      const attrs = parseAttributes(attrString || '');
+      if (attrs.id) {
+        directives.push({ type: 'reply-to', messageId: attrs.id });
+      }
+      continue;
+    }
+
+    if (tagName === 'delete-message') {
+      const attrs = parseAttributes(attrString || '');
+      if (attrs.id) {
+        directives.push({ type: 'delete-message', messageId: attrs.id });
+      }
+      continue;
+    }
+
+    if (tagName === 'location') {
+      const attrs = parseAttributes(attrString || '');
+      const latitude = Number(attrs.lat);
+      const longitude = Number(attrs.lon);
+      if (attrs.lat?.trim() && attrs.lon?.trim()
+        && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+        directives.push({
+          type: 'location',
+          latitude,
+          longitude,
+          ...(attrs.name ? { name: attrs.name } : {}),
+          ...(attrs.address ? { address: attrs.address } : {}),
+        });
+      }
+      continue;
+    }
+
+    if (tagName === 'contact') {
+      const attrs = parseAttributes(attrString || '');
+      const name = attrs.name?.trim();
+      if (name && (attrs.phone || attrs.email)) {
+        directives.push({
+          type: 'contact',
+          name,
+          ...(attrs.phone ? { phone: attrs.phone } : {}),
+          ...(attrs.email ? { email: attrs.email } : {}),
+        });
+      }
+      continue;
+    }
+
+    if (tagName === 'forward') {
+      const attrs = parseAttributes(attrString || '');
+      const channel = attrs['to-channel'];
+      const chat = attrs['to-chat'];
+      if (attrs.message && channel && chat) {
+        directives.push({ type: 'forward', messageId: attrs.message, channel, chat });
+      }
+      continue;
+    }
+
     if (tagName === 'react') {
       const attrs = parseAttributes(attrString || '');
       if (attrs.emoji) {
@@ -163,16 +475,21 @@ function parseChildDirectives(block: string): Directive[] {
  * Looks for complete <actions>...</actions> blocks anywhere in the response.
  * Returns the cleaned text (all complete blocks stripped) and parsed directives.
  * If no complete block is found, the text is returned unchanged.
+ * Directives from the first `skipBlocks` blocks are left out (they were
+ * already run while streaming).
  */
-export function parseDirectives(text: string): ParseResult {
+export function parseDirectives(text: string, skipBlocks = 0): ParseResult {
   const blockRegex = createActionsBlockRegex();
   if (!blockRegex.test(text)) {
     return { cleanText: text, directives: [] };
   }
 
   const directives: Directive[] = [];
+  let blockIndex = 0;
   const cleanText = text.replace(createActionsBlockRegex(), (_, actionsContent: string) => {
-    directives.push(...parseChildDirectives(actionsContent));
+    if (blockIndex++ >= skipBlocks) {
+      directives.push(...parseChildDirectives(actionsContent));
+    }
     return '';
   }).trim();
 
@@ -180,32 +497,121 @@ export function parseDirectives(text: string): ParseResult {
 }
 
 /**
- * Returns true when text contains an opening <actions> tag with no matching
- * closing tag yet. Used during streaming to avoid flashing raw XML.
+ * Incremental directive parsing for streamed responses.
+ *
+ * Feed the accumulated response after each delta; each <actions> block is
+ * returned once, as soon as it closes. finish() then parses the final text
+ * without repeating those blocks.
  */
-export function hasUnclosedActionsBlock(text: string): boolean {
-  const lastOpen = text.lastIndexOf('<actions>');
-  if (lastOpen < 0) return false;
-  const lastClose = text.lastIndexOf('</actions>');
-  return lastOpen > lastClose;
+export class StreamingDirectiveParser {
+  private takenBlocks = 0;
+
+  /** Directives from <actions> blocks that closed since the last call */
+  takeCompleted(text: string): Directive[] {
+    const blocks = Array.from(text.matchAll(createActionsBlockRegex()), m => m[1]);
+    const directives = blocks.slice(this.takenBlocks).flatMap(parseChildDirectives);
+    this.takenBlocks = Math.max(this.takenBlocks, blocks.length);
+    return directives;
+  }
+
+  /** Parse the final text, leaving out blocks already taken, and reset */
+  finish(text: string): ParseResult {
+    const result = parseDirectives(text, this.takenBlocks);
+    this.reset();
+    return result;
+  }
+
+  /** Forget taken blocks (the text they came from was discarded) */
+  reset(): void {
+    this.takenBlocks = 0;
+  }
 }
 
+/** Hidden markup held back while its tag is still arriving */
+const STREAM_HIDDEN_TAGS = ['<actions>', '</actions>', '<no-reply/>', '<break'];
+
 /**
- * Returns true when the tail of the text contains a partial actions tag
- * (opening or closing) that has not streamed fully yet.
+ * Text that is safe to show in a streaming edit. Complete actions blocks and
+ * <no-reply/> markers are removed, <break/> markers become paragraph breaks, and everything from an unclosed <actions>
+ * or a partial hidden tag at the end is held back, so raw XML never shows.
  */
-export function hasIncompleteActionsTag(text: string): boolean {
-  const lastLt = text.lastIndexOf('<');
-  const lastGt = text.lastIndexOf('>');
-  if (lastLt < 0 || lastLt <= lastGt) return false;
-  const tail = text.slice(lastLt);
-  return '<actions>'.startsWith(tail) || '</actions>'.startsWith(tail);
+export function getStreamingDisplayText(text: string): string {
+  let visible = text.replace(createActionsBlockRegex(), '');
+  const unclosed = visible.indexOf('<actions>');
+  if (unclosed >= 0) {
+    visible = visible.slice(0, unclosed);
+  }
+  visible = stripBreaks(visible.replace(/<no-reply\/>/g, ''));
+
+  const lastLt = visible.lastIndexOf('<');
+  if (lastLt >= 0 && !visible.includes('>', lastLt)) {
+    const tail = visible.slice(lastLt);
+    if (STREAM_HIDDEN_TAGS.some(tag => tag.startsWith(tail) || tail.startsWith(tag))) {
+      visible = visible.slice(0, lastLt);
+    }
+  }
+  return visible.trim();
+}
+
+const BREAK_REGEX_SOURCE = '<break\\b([^>]*?)\\/>';
+
+function createBreakRegex(flags = 'g'): RegExp {
+  return new RegExp(BREAK_REGEX_SOURCE, flags);
 }
 
+/** Pause used when a <break/> has no (valid) delay */
+export const DEFAULT_BREAK_DELAY_MS = 1000;
+/** Longest pause a single <break/> can ask for */
+export const MAX_BREAK_DELAY_MS = 10_000;
+
 /**
- * Strip complete <actions>...</actions> blocks from text for streaming display.
- * Returns the text after stripping blocks, or the original text if none found.
+ * Parse a break delay like "1.5s", "800ms" or "2" (seconds), clamped to
+ * MAX_BREAK_DELAY_MS. Missing or malformed values use the default.
  */
-export function stripActionsBlock(text: string): string {
-  return text.replace(createActionsBlockRegex(), '').trim();
+export function parseBreakDelay(value: string | undefined): number {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (!match) return DEFAULT_BREAK_DELAY_MS;
+  const amount = Number(match[1]);
+  const ms = match[2]?.toLowerCase() === 'ms' ? amount : amount * 1000;
+  return Math.min(Math.round(ms), MAX_BREAK_DELAY_MS);
+}
+
+export interface BreakSplit {
+  /** Text before the marker: one finished message */
+  before: string;
+  /** Everything after the marker, which may hold further breaks */
+  after: string;
+  delayMs: number;
+}
+
+/**
+ * Find the first complete <break/> marker outside <actions> blocks and split
+ * the text around it. Returns null when there is none yet.
+ */
+export function splitAtBreak(text: string): BreakSplit | null {
+  // Ranges covered by <actions>, including an unclosed block at the end
+  const hidden: Array<[number, number]> = [];
+  let lastEnd = 0;
+  for (const block of text.matchAll(createActionsBlockRegex())) {
+    hidden.push([block.index!, block.index! + block[0].length]);
+    lastEnd = block.index! + block[0].length;
+  }
+  const unclosed = text.indexOf('<actions>', lastEnd);
+  if (unclosed >= 0) hidden.push([unclosed, text.length]);
+
+  for (const match of text.matchAll(createBreakRegex())) {
+    const start = match.index!;
+    if (hidden.some(([from, to]) => start >= from && start < to)) continue;
+    return {
+      before: text.slice(0, start),
+      after: text.slice(start + match[0].length),
+      delayMs: parseBreakDelay(parseAttributes(match[1]).delay),
+    };
+  }
+  return null;
+}
+
+/** Replace <break/> markers with paragraph breaks (for single-message delivery) */
+export function stripBreaks(text: string): string {
+  return text.replace(/\s*<break\b[^>]*?\/>\s*/g, '\n\n');
 }
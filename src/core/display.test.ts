@@ -1,5 +1,15 @@
 import { describe, expect, it } from 'vitest';
-import { formatQuestionsForChannel, formatReasoningDisplay, formatToolCallDisplay } from './display.js';
+import {
+  describeSharedContacts,
+  describeSharedLocation,
+  formatApprovalArguments,
+  formatContactAsText,
+  formatLocationAsText,
+  formatPollAsText,
+  formatQuestionsForChannel,
+  formatReasoningDisplay,
+  formatToolCallDisplay,
+} from './display.js';
 import type { StreamMsg } from './types.js';
 
 describe('formatToolCallDisplay', () => {
@@ -133,3 +143,62 @@ describe('formatQuestionsForChannel', () => {
     expect(output).toContain('_Reply with your choice');
   });
 });
+
+describe('formatPollAsText', () => {
+  it('renders a numbered list with a single-choice hint', () => {
+    expect(formatPollAsText({ question: 'Lunch?', options: ['Pizza', 'Sushi'] })).toBe(
+      '**Poll: Lunch?**\n\n1. Pizza\n2. Sushi\n\n_Reply with the number of your choice._',
+    );
+  });
+
+  it('asks for several numbers when multiple choices are allowed', () => {
+    const output = formatPollAsText({ question: 'Days?', options: ['Mon', 'Tue'], multiple: true });
+    expect(output).toContain('_Reply with the numbers of your choices._');
+  });
+});
+
+describe('location and contact formatting', () => {
+  it('renders a location with a map link', () => {
+    expect(formatLocationAsText({ latitude: 38.7223, longitude: -9.1393, name: 'Lisbon', address: 'Praça do Comércio' })).toBe(
+      '📍 **Lisbon**\nPraça do Comércio\nhttps://maps.google.com/?q=38.7223,-9.1393',
+    );
+  });
+
+  it('renders a contact card', () => {
+    expect(formatContactAsText({ name: 'Ada', phone: '+15550102030' })).toBe('👤 **Ada**\nPhone: +15550102030');
+  });
+
+  it('describes shared locations and contacts as context entries', () => {
+    expect(describeSharedLocation({ latitude: 1.5, longitude: 2.5, name: 'Cafe' })).toEqual({
+      'Shared location': '1.5, 2.5',
+      'Location name': 'Cafe',
+      'Map': 'https://maps.google.com/?q=1.5,2.5',
+    });
+    expect(describeSharedContacts([
+      { name: 'Ada', phone: '+1555' },
+      { name: 'Bob', email: 'bob@example.com' },
+    ])).toEqual({
+      'Shared contact': 'Ada | +1555',
+      'Shared contact 2': 'Bob | bob@example.com',
+    });
+  });
+});
+
+describe('formatApprovalArguments', () => {
+  it('pretty-prints JSON arguments', () => {
+    expect(formatApprovalArguments('{"command":"ls -la"}')).toBe('{\n  "command": "ls -la"\n}');
+  });
+
+  it('returns empty string for missing or empty arguments', () => {
+    expect(formatApprovalArguments(undefined)).toBe('');
+    expect(formatApprovalArguments('  ')).toBe('');
+    expect(formatApprovalArguments('{}')).toBe('');
+  });
+
+  it('keeps non-JSON arguments as-is and truncates long payloads', () => {
+    expect(formatApprovalArguments('not json')).toBe('not json');
+    const result = formatApprovalArguments('x'.repeat(100), 20);
+    expect(result).toHaveLength(20);
+    expect(result.endsWith('...')).toBe(true);
+  });
+});
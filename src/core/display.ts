@@ -4,7 +4,7 @@
  * Pure functions extracted from LettaBot -- no class state needed.
  */
 
-import type { StreamMsg } from './types.js';
+import type { ContactShare, InboundAttachment, InboundMessage, LocationShare, StreamMsg } from './types.js';
 
 // ---------------------------------------------------------------------------
 // Tool call display config
@@ -281,3 +281,106 @@ export function formatQuestionsForChannel(questions: Array<{
   parts.push('_Reply with your choice (number, name, or your own answer)._');
   return parts.join('\n');
 }
+
+/**
+ * Format a poll as a numbered list for channels without native polls.
+ */
+export function formatPollAsText(poll: { question: string; options: string[]; multiple?: boolean }): string {
+  const parts = [`**Poll: ${poll.question}**`, ''];
+  poll.options.forEach((option, i) => parts.push(`${i + 1}. ${option}`));
+  parts.push('');
+  parts.push(poll.multiple
+    ? '_Reply with the numbers of your choices._'
+    : '_Reply with the number of your choice._');
+  return parts.join('\n');
+}
+
+/**
+ * Map link for a coordinate pair. Opens the native maps app on phones.
+ */
+export function formatMapLink(latitude: number, longitude: number): string {
+  return `https://maps.google.com/?q=${latitude},${longitude}`;
+}
+
+/**
+ * Format a location for channels without native map pins.
+ */
+export function formatLocationAsText(location: LocationShare): string {
+  const parts = [`📍 **${location.name || 'Location'}**`];
+  if (location.address) parts.push(location.address);
+  parts.push(formatMapLink(location.latitude, location.longitude));
+  return parts.join('\n');
+}
+
+/**
+ * Format a contact card for channels without native contacts.
+ */
+export function formatContactAsText(contact: ContactShare): string {
+  const parts = [`👤 **${contact.name}**`];
+  if (contact.phone) parts.push(`Phone: ${contact.phone}`);
+  if (contact.email) parts.push(`Email: ${contact.email}`);
+  return parts.join('\n');
+}
+
+/**
+ * Describe a location a user shared, as InboundMessage.extraContext entries.
+ */
+export function describeSharedLocation(location: LocationShare): Record<string, string> {
+  return {
+    'Shared location': `${location.latitude}, ${location.longitude}`,
+    ...(location.name ? { 'Location name': location.name } : {}),
+    ...(location.address ? { 'Location address': location.address } : {}),
+    'Map': formatMapLink(location.latitude, location.longitude),
+  };
+}
+
+/**
+ * Describe contact cards a user shared, as InboundMessage.extraContext entries.
+ */
+export function describeSharedContacts(contacts: ContactShare[]): Record<string, string> {
+  const context: Record<string, string> = {};
+  contacts.forEach((contact, i) => {
+    const key = i === 0 ? 'Shared contact' : `Shared contact ${i + 1}`;
+    context[key] = [contact.name, contact.phone, contact.email].filter(Boolean).join(' | ');
+  });
+  return context;
+}
+
+/**
+ * Format a quoted copy of an inbound message, for forwards that cannot be
+ * native. Attachments passed in are listed by name and link (ones sent
+ * separately as files are left out by the caller).
+ */
+export function formatForwardedMessage(msg: InboundMessage, attachments: InboundAttachment[] = msg.attachments ?? []): string {
+  const sender = msg.userName
+    ? `**${msg.userName}**${msg.userHandle ? ` (@${msg.userHandle})` : ''}`
+    : `**${msg.userHandle ? `@${msg.userHandle}` : msg.userId}**`;
+  const where = msg.groupName ? ` in ${msg.groupName}` : '';
+  const parts = [`↪️ Forwarded from ${sender}${where} on ${msg.channel}`];
+  if (msg.text?.trim()) {
+    parts.push(...msg.text.trim().split('\n').map(line => `> ${line}`));
+  }
+  for (const attachment of attachments) {
+    const name = attachment.name || attachment.kind || 'attachment';
+    parts.push(attachment.url ? `📎 ${name}: ${attachment.url}` : `📎 ${name}`);
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Format a tool call's raw JSON arguments for an approval prompt.
+ * Pretty-prints valid JSON and truncates long payloads.
+ */
+export function formatApprovalArguments(args: string | undefined, maxLength = 600): string {
+  const raw = args?.trim();
+  if (!raw) return '';
+  let text = raw;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && Object.keys(parsed).length === 0) return '';
+    text = JSON.stringify(parsed, null, 2);
+  } catch {
+    // Not JSON -- show as-is
+  }
+  return text.length > maxLength ? text.slice(0, maxLength - 3) + '...' : text;
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import { createMockAdapter, registerMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('edit-message / delete-message directive execution', () => {
+  const workDir = useTempWorkDir('lettabot-edit-delete-');
+  let nextId: number;
+
+  beforeEach(() => {
+    nextId = 100;
+  });
+
+  function setup(withDelete = true, withEdits = true) {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [] });
+    const adapter = createMockAdapter(
+      { formatterHints: { supportsEdits: withEdits }, nextMessageId: () => String(++nextId) },
+      withDelete ? { deleteMessage: vi.fn(async () => {}) } : {},
+    );
+    const { editMessage } = registerMockAdapter(bot, adapter);
+    return { bot, adapter, editMessage };
+  }
+
+  it('edits a message the agent sent in this chat', async () => {
+    const { bot, adapter, editMessage } = setup();
+    const sentId = await bot.deliverToChannel('telegram', 'chat-1', { text: 'Meeting at 2pm' });
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'edit-message', messageId: sentId, text: 'Meeting at 3pm' }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(editMessage).toHaveBeenCalledWith('chat-1', '101', 'Meeting at 3pm');
+  });
+
+  it('deletes a sent message and stops offering its ID', async () => {
+    const { bot, adapter } = setup();
+    await bot.deliverToChannel('telegram', 'chat-1', { text: 'Oops' });
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'delete-message', messageId: '101' }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(adapter.deleteMessage).toHaveBeenCalledWith('chat-1', '101');
+    expect((bot as any).getSentMessageIds('telegram', 'chat-1')).toEqual([]);
+  });
+
+  it('refuses to touch messages the agent did not send in this chat', async () => {
+    const { bot, adapter, editMessage } = setup();
+    await bot.deliverToChannel('telegram', 'chat-1', { text: 'Hello' });
+
+    const acted = await (bot as any).executeDirectives(
+      [
+        { type: 'delete-message', messageId: '7' },
+        { type: 'edit-message', messageId: '101', text: 'Other chat' },
+      ],
+      adapter,
+      'chat-2',
+    );
+
+    expect(acted).toBe(false);
+    expect(adapter.deleteMessage).not.toHaveBeenCalled();
+    expect(editMessage).not.toHaveBeenCalled();
+  });
+
+  it('skips delete-message when the channel cannot delete', async () => {
+    const { bot, adapter } = setup(false);
+    await bot.deliverToChannel('telegram', 'chat-1', { text: 'Hello' });
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'delete-message', messageId: '101' }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(false);
+  });
+
+  it('skips edit-message when the channel does not advertise edits', async () => {
+    const { bot, adapter, editMessage } = setup(true, false);
+    await bot.deliverToChannel('telegram', 'chat-1', { text: 'Hello' });
+
+    const outcomes: unknown[] = [];
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'edit-message', messageId: '101', text: 'Hello again' }],
+      adapter,
+      'chat-1',
+      undefined,
+      undefined,
+      outcomes,
+    );
+
+    expect(acted).toBe(false);
+    expect(editMessage).not.toHaveBeenCalled();
+    expect(outcomes).toEqual([{ directive: 'edit-message', status: 'skipped', detail: 'Telegram does not support editing messages' }]);
+  });
+
+  it('remembers only the most recent outbound IDs per chat', async () => {
+    const { bot } = setup();
+    for (let i = 0; i < 12; i++) {
+      await bot.deliverToChannel('telegram', 'chat-1', { text: `Message ${i}` });
+    }
+
+    const ids = (bot as any).getSentMessageIds('telegram', 'chat-1');
+    expect(ids).toHaveLength(10);
+    expect(ids[0]).toBe('103');
+    expect(ids.at(-1)).toBe('112');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { formatMessageEnvelope, formatGroupBatchEnvelope, SYSTEM_REMINDER_OPEN, SYSTEM_REMINDER_CLOSE } from './formatter.js';
+import { formatActionNotesReminder, formatMessageEnvelope, formatGroupBatchEnvelope, SYSTEM_REMINDER_OPEN, SYSTEM_REMINDER_CLOSE } from './formatter.js';
 import type { InboundMessage } from './types.js';
 
 // Helper to create base message
@@ -235,6 +235,102 @@ describe('formatMessageEnvelope', () => {
       expect(result).not.toContain('<send-file');
     });
 
+    it('lists recent outbound messages with edit/delete directives', () => {
+      const msg = createMessage({
+        sentMessageIds: ['41', '42'],
+        formatterHints: { supportsEdits: true, supportsDeletes: true },
+      });
+      const result = formatMessageEnvelope(msg);
+      expect(result).toContain('**Your recent messages**: 41, 42 (newest last)');
+      expect(result).toContain('<edit-message id="42">');
+      expect(result).toContain('<delete-message id="42" />');
+    });
+
+    it('shows the schedule directive only when scheduling is enabled', () => {
+      const enabled = formatMessageEnvelope(createMessage({ formatterHints: { supportsScheduling: true } }));
+      expect(enabled).toContain('<schedule at="20m">');
+
+      const disabled = formatMessageEnvelope(createMessage());
+      expect(disabled).not.toContain('<schedule');
+    });
+
+    it('shows the forward directive with its allowed destinations', () => {
+      const enabled = formatMessageEnvelope(createMessage({ formatterHints: { forwardTargets: ['telegram:-100123', 'slack:*'] } }));
+      expect(enabled).toContain('<forward message="123" to-channel="telegram" to-chat="456" />');
+      expect(enabled).toContain('Allowed destinations: telegram:-100123, slack:*');
+
+      const disabled = formatMessageEnvelope(createMessage());
+      expect(disabled).not.toContain('<forward');
+    });
+
+    it('shows handoff targets and the handback agent', () => {
+      const envelope = formatMessageEnvelope(createMessage({ formatterHints: { handoffTargets: ['Billing'], handbackTo: 'Triage' } }));
+      expect(envelope).toContain('<handoff agent="Name">');
+      expect(envelope).toContain('Agents: Billing');
+      expect(envelope).toContain('return this chat to Triage');
+
+      expect(formatMessageEnvelope(createMessage())).not.toContain('<handoff');
+    });
+
+    it('shows reply-to directives in groups when the channel can quote', () => {
+      const group = formatMessageEnvelope(createMessage({ isGroup: true, formatterHints: { supportsReplies: true } }));
+      expect(group).toContain('<reply-to id="123" />');
+
+      const dm = formatMessageEnvelope(createMessage({ isGroup: false, formatterHints: { supportsReplies: true } }));
+      expect(dm).not.toContain('<reply-to');
+    });
+
+    it('shows the poll directive in groups only', () => {
+      expect(formatMessageEnvelope(createMessage({ isGroup: true }))).toContain('<poll question=');
+      expect(formatMessageEnvelope(createMessage({ isGroup: false }))).not.toContain('<poll');
+    });
+
+    it('shows break, location and contact directives only where the channel supports them', () => {
+      const plain = formatMessageEnvelope(createMessage());
+      expect(plain).not.toContain('<break');
+      expect(plain).not.toContain('<location');
+      expect(plain).not.toContain('<contact');
+
+      const signal = formatMessageEnvelope(createMessage({ formatterHints: { supportsBreaks: true, supportsContacts: true } }));
+      expect(signal).toContain('<break delay="1.5s"/>');
+      expect(signal).toContain('<contact name="Jane Doe"');
+      expect(signal).not.toContain('<location');
+
+      const telegram = formatMessageEnvelope(createMessage({ formatterHints: { supportsLocations: true } }));
+      expect(telegram).toContain('<location lat="38.7223"');
+    });
+
+    it('reports results of the previous turn\'s directives', () => {
+      const msg = createMessage({ actionNotes: ['<schedule> ok: job cron-1 "Stretch" every 2h'] });
+      const result = formatMessageEnvelope(msg);
+      expect(result).toContain('## Previous Actions\n- <schedule> ok: job cron-1 "Stretch" every 2h');
+    });
+
+    it('wraps directive results in their own reminder for group batches', () => {
+      expect(formatActionNotesReminder(['<react> skipped: no message to react to'])).toBe(
+        `${SYSTEM_REMINDER_OPEN}\n## Previous Actions\n- <react> skipped: no message to react to\n${SYSTEM_REMINDER_CLOSE}`,
+      );
+    });
+
+    it('omits edit/delete directives the channel does not support', () => {
+      const withoutSupport = formatMessageEnvelope(createMessage({ sentMessageIds: ['41'] }));
+      expect(withoutSupport).not.toContain('Your recent messages');
+      expect(withoutSupport).not.toContain('<edit-message');
+
+      const deletesOnly = formatMessageEnvelope(createMessage({
+        sentMessageIds: ['41'],
+        formatterHints: { supportsDeletes: true },
+      }));
+      expect(deletesOnly).toContain('<delete-message id="41" />');
+      expect(deletesOnly).not.toContain('<edit-message');
+
+      const nothingSent = formatMessageEnvelope(createMessage({
+        formatterHints: { supportsEdits: true, supportsDeletes: true },
+      }));
+      expect(nothingSent).not.toContain('Your recent messages');
+      expect(nothingSent).not.toContain('<delete-message');
+    });
+
     it('shows minimal directives in listening mode', () => {
       const msg = createMessage({
         isGroup: true,
@@ -392,6 +488,24 @@ describe('formatMessageEnvelope', () => {
     });
   });
 
+  describe('poll votes', () => {
+    it('includes the voted options and poll question', () => {
+      const result = formatMessageEnvelope(createMessage({
+        text: '',
+        pollVote: { pollId: 'p1', messageId: '55', question: 'Lunch?', options: ['Pizza', 'Sushi'], action: 'added' },
+      }));
+      expect(result).toContain('**Poll vote**: voted for "Pizza", "Sushi" on poll "Lunch?" (message 55)');
+    });
+
+    it('reports a retracted vote', () => {
+      const result = formatMessageEnvelope(createMessage({
+        text: '',
+        pollVote: { pollId: 'p1', options: [], action: 'removed' },
+      }));
+      expect(result).toContain('**Poll vote**: retracted vote on poll p1');
+    });
+  });
+
   describe('session context', () => {
     it('includes session context section when provided', () => {
       const msg = createMessage();
@@ -458,6 +572,30 @@ describe('formatGroupBatchEnvelope', () => {
     expect(formatGroupBatchEnvelope([])).toBe('');
   });
 
+  it('shows message IDs and the reply-to directive when replies can quote', () => {
+    const msgs = createBatchMessages(2, { formatterHints: { supportsReplies: true } })
+      .map((msg, i) => ({ ...msg, messageId: `m${i}` }));
+    const result = formatGroupBatchEnvelope(msgs);
+    expect(result).toContain('User 0 (id m0): Message 0');
+    expect(result).toContain('<reply-to id="..." />');
+
+    const plain = formatGroupBatchEnvelope(createBatchMessages(1, { messageId: 'm0' }));
+    expect(plain).not.toContain('(id m0)');
+    expect(plain).not.toContain('reply-to');
+  });
+
+  it('offers edit and delete of recent sent messages when the channel supports them', () => {
+    const msgs = createBatchMessages(2, { formatterHints: { supportsEdits: true, supportsDeletes: true } });
+    const result = formatGroupBatchEnvelope(msgs, {}, false, ['s1', 's2']);
+    expect(result).toContain('<edit-message id="s2">');
+    expect(result).toContain('<delete-message id="s2" />');
+
+    expect(formatGroupBatchEnvelope(msgs)).not.toContain('edit-message');
+    const noHints = formatGroupBatchEnvelope(createBatchMessages(2), {}, false, ['s1']);
+    expect(noHints).not.toContain('edit-message');
+    expect(noHints).not.toContain('delete-message');
+  });
+
   describe('listening mode', () => {
     it('includes OBSERVATION ONLY header when isListeningMode=true', () => {
       const msgs = createBatchMessages(2);
@@ -6,6 +6,7 @@
  */
 
 import type { InboundMessage } from './types.js';
+import { directiveRegistry } from './directive-registry.js';
 import { normalizePhoneForStorage } from '../utils/phone.js';
 
 // XML tag constants (matching Letta Code CLI conventions from constants.ts)
@@ -96,7 +97,8 @@ function formatSender(msg: InboundMessage): string {
       return name || (msg.userHandle ? `@${msg.userHandle}` : `@${msg.userId}`);
 
     case 'discord':
-      // Add @ prefix for Discord usernames/IDs
+    case 'mattermost':
+      // Add @ prefix for Discord/Mattermost usernames/IDs
       return name || (msg.userHandle ? `@${msg.userHandle}` : `@${msg.userId}`);
     
     case 'whatsapp':
@@ -115,7 +117,14 @@ function formatSender(msg: InboundMessage): string {
     
     case 'telegram':
       return name || (msg.userHandle ? `@${msg.userHandle}` : msg.userId);
-    
+
+    case 'email':
+      return name && name !== msg.userId ? `${name} <${msg.userId}>` : msg.userId;
+
+    case 'matrix':
+      // Display names aren't unique in Matrix, so keep the MXID alongside
+      return name && name !== msg.userId ? `${name} (${msg.userId})` : msg.userId;
+
     default:
       return name || msg.userId;
   }
@@ -276,6 +285,16 @@ function buildChatContextLines(msg: InboundMessage, options: EnvelopeOptions): s
     lines.push(`- **Reaction**: ${action} ${msg.reaction.emoji} on message ${msg.reaction.messageId}`);
   }
 
+  // Poll vote (if this is a vote on a poll the agent sent)
+  if (msg.pollVote) {
+    const vote = msg.pollVote;
+    const verb = vote.action === 'removed' ? 'removed vote for' : 'voted for';
+    const choices = vote.options.map(option => `"${option}"`).join(', ');
+    const poll = vote.question ? `poll "${vote.question}"` : `poll ${vote.pollId}`;
+    const where = vote.messageId ? ` (message ${vote.messageId})` : '';
+    lines.push(`- **Poll vote**: ${choices ? `${verb} ${choices}` : 'retracted vote'} on ${poll}${where}`);
+  }
+
   // Attachments
   const attachmentLines = formatAttachmentLines(msg);
   if (attachmentLines.length > 0) {
@@ -283,6 +302,12 @@ function buildChatContextLines(msg: InboundMessage, options: EnvelopeOptions): s
     lines.push(...attachmentLines);
   }
 
+  // Agent's own recent messages (targets for edit/delete directives)
+  const canModifySent = msg.formatterHints?.supportsEdits || msg.formatterHints?.supportsDeletes;
+  if (canModifySent && msg.sentMessageIds && msg.sentMessageIds.length > 0) {
+    lines.push(`- **Your recent messages**: ${msg.sentMessageIds.join(', ')} (newest last)`);
+  }
+
   // Channel-specific display context (e.g. Bluesky operation/URI metadata)
   if (msg.extraContext) {
     for (const [key, value] of Object.entries(msg.extraContext)) {
@@ -341,6 +366,11 @@ function buildResponseDirectives(msg: InboundMessage): string[] {
     lines.push(`- \`<no-reply/>\` — skip replying when the message doesn't need a response`);
   }
 
+  // message splitting (plain text marker, not inside <actions>; chat channels only)
+  if (msg.formatterHints?.supportsBreaks) {
+    lines.push(`- \`First thought<break delay="1.5s"/>Second thought\` — split your reply into separate messages with a short pause (use sparingly, like natural chat bubbles)`);
+  }
+
   // actions/react (only if channel supports it)
   if (supportsReactions) {
     lines.push(`- \`<actions><react emoji="thumbsup" /></actions>\` — react without sending text (executes silently)`);
@@ -352,14 +382,65 @@ function buildResponseDirectives(msg: InboundMessage): string[] {
     lines.push(`- Prefer directives over tool calls for reactions (faster and cheaper)`);
   }
 
+  // quoted replies (groups only -- in DMs the context is unambiguous)
+  if (isGroup && msg.formatterHints?.supportsReplies) {
+    lines.push(`- \`<actions><reply-to id="123" /></actions>Your text\` — reply quoting a specific message`);
+    lines.push(`- \`<actions><reply-to id="123">Answer A</reply-to><reply-to id="456">Answer B</reply-to></actions>\` — answer several messages separately`);
+  }
+
+  // polls (native where supported, numbered list elsewhere)
+  if (isGroup) {
+    lines.push(`- \`<actions><poll question="Lunch?"><option>Pizza</option><option>Sushi</option></poll></actions>\` — start a poll (add \`multiple="true"\` to allow several choices); votes arrive as Poll vote events`);
+  }
+
   // voice memo (always available -- TTS config is server-side)
   lines.push(`- \`<actions><voice>Your message here</voice></actions>\` — send a voice memo via TTS`);
 
+  // locations and contact cards (only where the channel sends them natively)
+  if (msg.formatterHints?.supportsLocations) {
+    lines.push(`- \`<actions><location lat="38.7223" lon="-9.1393" name="Place" /></actions>\` — share a tappable map pin for an address you mention`);
+  }
+  if (msg.formatterHints?.supportsContacts) {
+    lines.push(`- \`<actions><contact name="Jane Doe" phone="+15550102030" email="jane@example.com" /></actions>\` — share a contact card (phone or email required)`);
+  }
+
   // file sending (only if channel supports it)
   if (supportsFiles) {
     lines.push(`- \`<send-file path="/path/to/file.png" kind="image" />\` — send a file (restricted to configured directory)`);
   }
 
+  // scheduling (only when cron is enabled for this agent)
+  if (msg.formatterHints?.supportsScheduling) {
+    lines.push(`- \`<actions><schedule at="20m">Remind them to stretch</schedule></actions>\` — schedule a message to yourself; \`at\` takes an ISO time or duration, or use \`every="2h"\` / \`cron="0 9 * * 1-5"\` to repeat. Results go to this chat; the job ID is reported next turn`);
+  }
+
+  // forwarding (only to destinations allowed by features.forwardTo)
+  const forwardTargets = msg.formatterHints?.forwardTargets ?? [];
+  if (forwardTargets.length > 0) {
+    lines.push(`- \`<actions><forward message="123" to-channel="telegram" to-chat="456" /></actions>\` — forward a message from this chat, credited to its sender. Allowed destinations: ${forwardTargets.join(', ')}`);
+  }
+
+  // handoffs between agents in this instance
+  const handoffTargets = msg.formatterHints?.handoffTargets ?? [];
+  if (handoffTargets.length > 0) {
+    lines.push(`- \`<actions><handoff agent="Name">Summary of the conversation so far</handoff></actions>\` — hand this chat to another agent, who answers it from then on. Agents: ${handoffTargets.join(', ')}`);
+  }
+  if (msg.formatterHints?.handbackTo) {
+    lines.push(`- \`<actions><handback>What was resolved</handback></actions>\` — return this chat to ${msg.formatterHints.handbackTo}, who handed it to you`);
+  }
+
+  // edit/delete (only with recent messages to target and channel support)
+  const sentId = msg.sentMessageIds?.at(-1);
+  if (sentId && msg.formatterHints?.supportsEdits) {
+    lines.push(`- \`<actions><edit-message id="${sentId}">Corrected text</edit-message></actions>\` — replace the text of one of your recent messages`);
+  }
+  if (sentId && msg.formatterHints?.supportsDeletes) {
+    lines.push(`- \`<actions><delete-message id="${sentId}" /></actions>\` — delete one of your recent messages`);
+  }
+
+  // directives registered by skills and plugin modules
+  lines.push(...directiveRegistry.promptLines(msg));
+
   return lines;
 }
 
@@ -413,6 +494,11 @@ export function formatMessageEnvelope(
     sections.push(`## Chat Context\n${contextLines.join('\n')}`);
   }
 
+  // Results of directives from the previous turn (e.g. created job IDs, failures)
+  if (msg.actionNotes && msg.actionNotes.length > 0) {
+    sections.push(formatActionNotesSection(msg.actionNotes));
+  }
+
   // Channel-specific action hints (Bluesky: replaces standard directives)
   if (msg.formatterHints?.actionsSection && msg.formatterHints.actionsSection.length > 0) {
     sections.push(`## Channel Actions\n${msg.formatterHints.actionsSection.join('\n')}`);
@@ -438,6 +524,18 @@ export function formatMessageEnvelope(
   return reminder;
 }
 
+function formatActionNotesSection(notes: string[]): string {
+  return `## Previous Actions\n${notes.map(note => `- ${note}`).join('\n')}`;
+}
+
+/**
+ * Standalone system-reminder with the results of the agent's previous
+ * directives, for envelopes without a metadata block (group batches).
+ */
+export function formatActionNotesReminder(notes: string[]): string {
+  return `${SYSTEM_REMINDER_OPEN}\n${formatActionNotesSection(notes)}\n${SYSTEM_REMINDER_CLOSE}`;
+}
+
 /**
  * Format a group batch of messages as a chat log for the agent.
  *
@@ -447,11 +545,15 @@ export function formatMessageEnvelope(
  * [4:32 PM] Bob: What's up?
  * [4:35 PM] Alice: @LettaBot can you help?
  * (Format: **bold** *italic* ...)
+ *
+ * sentMessageIds are the agent's recent messages in the chat, offered as
+ * edit/delete targets like in the single-message envelope.
  */
 export function formatGroupBatchEnvelope(
   messages: InboundMessage[],
   options: EnvelopeOptions = {},
   isListeningMode?: boolean,
+  sentMessageIds: string[] = [],
 ): string {
   if (messages.length === 0) return '';
 
@@ -474,10 +576,13 @@ export function formatGroupBatchEnvelope(
     header += '\n[OBSERVATION ONLY — Update memories, do not send text replies]';
   }
 
-  // Chat log lines
+  // Chat log lines (with message IDs when replies can quote them)
+  const supportsReplies = first.formatterHints?.supportsReplies ?? false;
   const lines = messages.map((msg) => {
     const time = formatShortTime(msg.timestamp, opts);
-    const sender = formatSender(msg);
+    const sender = supportsReplies && msg.messageId
+      ? `${formatSender(msg)} (id ${msg.messageId})`
+      : formatSender(msg);
     const textParts: string[] = [];
     if (msg.text?.trim()) textParts.push(msg.text.trim());
     if (msg.reaction) {
@@ -498,9 +603,16 @@ export function formatGroupBatchEnvelope(
 
   // Compact directives for batch
   const supportsReactions = first.formatterHints?.supportsReactions ?? false;
+  const sentId = sentMessageIds.at(-1);
   const directiveParts = isListeningMode
     ? [`\`<no-reply/>\` to acknowledge`, ...(supportsReactions ? [`\`<actions><react emoji="eyes" /></actions>\` to react`] : [])]
-    : [`\`<no-reply/>\` to skip replying`, ...(supportsReactions ? [`\`<actions><react emoji="thumbsup" /></actions>\` to react`] : [])];
+    : [
+      `\`<no-reply/>\` to skip replying`,
+      ...(supportsReactions ? [`\`<actions><react emoji="thumbsup" /></actions>\` to react`] : []),
+      ...(supportsReplies ? [`\`<actions><reply-to id="..." /></actions>\` to quote a message (or \`<reply-to id="...">text</reply-to>\` per message to answer several)`] : []),
+      ...(sentId && first.formatterHints?.supportsEdits ? [`\`<actions><edit-message id="${sentId}">Corrected text</edit-message></actions>\` to fix one of your recent messages`] : []),
+      ...(sentId && first.formatterHints?.supportsDeletes ? [`\`<actions><delete-message id="${sentId}" /></actions>\` to delete one`] : []),
+    ];
   const directives = `\n(Directives: ${directiveParts.join(', ')})`;
 
   return `${header}\n${lines.join('\n')}${hint}${directives}`;
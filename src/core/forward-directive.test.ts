@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import type { InboundMessage } from './types.js';
+import { createMockAdapter, registerMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('forward directive execution', () => {
+  const workDir = useTempWorkDir('lettabot-forward-');
+
+  function setup(forwardTo: string[]) {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [], forwardTo });
+    const telegram = createMockAdapter({ id: 'telegram', name: 'telegram', nextMessageId: () => 'telegram-sent' }, {
+      forwardMessage: vi.fn(async () => ({ messageId: 'fwd-1' })),
+    });
+    const slack = createMockAdapter({ id: 'slack', name: 'slack', nextMessageId: () => 'slack-sent' }, {
+      sendFile: vi.fn(async () => ({ messageId: 'file-1' })),
+    });
+    const { sendMessage: telegramSend } = registerMockAdapter(bot, telegram);
+    const { sendMessage: slackSend } = registerMockAdapter(bot, slack);
+    return { bot, telegram, slack, telegramSend, slackSend };
+  }
+
+  const original: InboundMessage = {
+    channel: 'telegram',
+    chatId: 'chat-1',
+    userId: 'user-1',
+    userName: 'Ada',
+    userHandle: 'ada',
+    messageId: '42',
+    text: 'Minutes attached\nsee page 2',
+    timestamp: new Date(),
+    attachments: [
+      { name: 'minutes.pdf', kind: 'file', localPath: '/tmp/minutes.pdf' },
+      { name: 'photo.jpg', kind: 'image', url: 'https://example.com/photo.jpg' },
+    ],
+  };
+
+  it('forwards natively within the same channel', async () => {
+    const { bot, telegram, telegramSend } = setup(['telegram:*']);
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'forward', messageId: '42', channel: 'telegram', chat: 'chat-2' }],
+      telegram,
+      'chat-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(telegram.forwardMessage).toHaveBeenCalledWith({ fromChatId: 'chat-1', messageId: '42', chatId: 'chat-2' });
+    expect(telegramSend).not.toHaveBeenCalled();
+    expect((bot as any).getSentMessageIds('telegram', 'chat-2')).toEqual(['fwd-1']);
+  });
+
+  it('does not send a copy when a native forward returns no ID', async () => {
+    const { bot, telegram, telegramSend } = setup(['telegram:*']);
+    vi.mocked(telegram.forwardMessage!).mockResolvedValueOnce({ messageId: '' });
+    (bot as any).recordInboundMessage(original);
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'forward', messageId: '42', channel: 'telegram', chat: 'chat-2' }],
+      telegram,
+      'chat-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(telegram.forwardMessage).toHaveBeenCalledTimes(1);
+    expect(telegramSend).not.toHaveBeenCalled();
+    expect((bot as any).getSentMessageIds('telegram', 'chat-2')).toEqual([]);
+  });
+
+  it('sends a quoted copy with attachments to other channels', async () => {
+    const { bot, telegram, slack, slackSend } = setup(['slack:C1']);
+    (bot as any).recordInboundMessage(original);
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'forward', messageId: '42', channel: 'slack', chat: 'C1' }],
+      telegram,
+      'chat-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(telegram.forwardMessage).not.toHaveBeenCalled();
+    expect(slackSend.mock.calls[0][0].text).toBe([
+      '↪️ Forwarded from **Ada** (@ada) on telegram',
+      '> Minutes attached',
+      '> see page 2',
+      '📎 photo.jpg: https://example.com/photo.jpg',
+    ].join('\n'));
+    expect(slack.sendFile).toHaveBeenCalledWith({ chatId: 'C1', filePath: '/tmp/minutes.pdf', kind: 'file' });
+  });
+
+  it('only forwards to allowed destinations', async () => {
+    const { bot, telegram } = setup(['telegram:chat-2']);
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'forward', messageId: '42', channel: 'telegram', chat: 'chat-3' }],
+      telegram,
+      'chat-1',
+    );
+
+    expect(acted).toBe(false);
+    expect(telegram.forwardMessage).not.toHaveBeenCalled();
+    expect((bot as any).takeActionNotes('telegram', 'chat-1')).toEqual([
+      '<forward> skipped: telegram:chat-3 is not an allowed destination',
+    ]);
+  });
+
+  it('tells the agent when a copy has no message to quote', async () => {
+    const { bot, telegram, slackSend } = setup(['*']);
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'forward', messageId: '99', channel: 'slack', chat: 'C1' }],
+      telegram,
+      'chat-1',
+    );
+
+    expect(acted).toBe(false);
+    expect(slackSend).not.toHaveBeenCalled();
+    expect((bot as any).takeActionNotes('telegram', 'chat-1')).toEqual([
+      '<forward> failed: message 99 is not among recent messages in this chat',
+    ]);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { LettaGateway } from './gateway.js';
+import { LettaGateway, findAddressedAgents, type SharedChannelMember } from './gateway.js';
 import type { AgentSession } from './interfaces.js';
+import type { ChannelAdapter } from '../channels/types.js';
+import type { InboundMessage } from './types.js';
 
 function createMockSession(channels: string[] = ['telegram']): AgentSession {
   return {
@@ -152,3 +154,101 @@ describe('LettaGateway', () => {
     });
   });
 });
+
+describe('findAddressedAgents', () => {
+  const members: SharedChannelMember[] = [
+    { name: 'huginn', names: ['Huginn'] },
+    { name: 'muninn', names: ['Muninn', 'memory'] },
+  ];
+
+  it('matches names and aliases as whole words, in mention order', () => {
+    expect(findAddressedAgents('@memory what did huginn say?', members)).toEqual(['muninn', 'huginn']);
+    expect(findAddressedAgents('HUGINN, ping', members)).toEqual(['huginn']);
+    expect(findAddressedAgents('memorywise, huginnish', members)).toEqual([]);
+  });
+});
+
+describe('LettaGateway.shareChannel', () => {
+  function createAdapter(): ChannelAdapter {
+    return {
+      id: 'telegram',
+      name: 'Telegram',
+      start: vi.fn().mockResolvedValue(undefined),
+      stop: vi.fn().mockResolvedValue(undefined),
+      isRunning: () => true,
+      sendMessage: vi.fn().mockResolvedValue({ messageId: '1' }),
+      editMessage: vi.fn().mockResolvedValue(undefined),
+      sendTypingIndicator: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ChannelAdapter;
+  }
+
+  function groupMessage(text: string): InboundMessage {
+    return { channel: 'telegram', chatId: '-100', userId: '1', text, timestamp: new Date(), isGroup: true };
+  }
+
+  function share() {
+    const adapter = createAdapter();
+    const views = new LettaGateway().shareChannel(adapter, [
+      { name: 'huginn', names: ['Huginn'] },
+      { name: 'muninn', names: ['Muninn', 'memory'] },
+    ]);
+    const handlers = new Map<string, ReturnType<typeof vi.fn>>();
+    for (const [name, view] of views) {
+      const onMessage = vi.fn();
+      view.onMessage = onMessage;
+      view.onCommand = vi.fn().mockResolvedValue(name);
+      handlers.set(name, onMessage);
+    }
+    return { adapter, views, handlers };
+  }
+
+  it('routes addressed group messages to the named agents and the rest to the default', async () => {
+    const { adapter, handlers } = share();
+
+    await adapter.onMessage!(groupMessage('morning all'));
+    await adapter.onMessage!(groupMessage('Muninn, recall the plan'));
+    await adapter.onMessage!({ ...groupMessage('memory?'), isGroup: false });
+
+    expect(handlers.get('huginn')!.mock.calls.map(([msg]) => msg.text)).toEqual(['morning all', 'memory?']);
+    expect(handlers.get('muninn')).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Muninn, recall the plan', wasMentioned: true, isListeningMode: false }),
+    );
+  });
+
+  it('sends commands to the agent the chat last addressed', async () => {
+    const { adapter } = share();
+
+    expect(await adapter.onCommand!('status', '-100')).toBe('huginn');
+    await adapter.onMessage!(groupMessage('@muninn hi'));
+    expect(await adapter.onCommand!('status', '-100')).toBe('muninn');
+  });
+
+  it('treats naming an agent as a mention for group gating', () => {
+    const { adapter } = share();
+
+    expect(adapter.isAddressed!('memory, what was it?')).toBe(true);
+    expect(adapter.isAddressed!('morning all')).toBe(false);
+  });
+
+  it('forgets the least recent chats once too many are remembered', async () => {
+    const { adapter } = share();
+
+    for (let i = 0; i <= 500; i++) {
+      await adapter.onMessage!({ ...groupMessage('Muninn?'), chatId: `chat-${i}` });
+    }
+
+    expect(await adapter.onCommand!('status', 'chat-0')).toBe('huginn');
+    expect(await adapter.onCommand!('status', 'chat-1')).toBe('muninn');
+    expect(await adapter.onCommand!('status', 'chat-500')).toBe('muninn');
+  });
+
+  it('lets only the default agent start and stop the adapter', async () => {
+    const { adapter, views } = share();
+
+    await views.get('muninn')!.start();
+    expect(adapter.start).not.toHaveBeenCalled();
+    await views.get('huginn')!.start();
+    expect(adapter.start).toHaveBeenCalledTimes(1);
+    expect(views.get('muninn')!.id).toBe('telegram');
+  });
+});
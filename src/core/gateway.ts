@@ -7,14 +7,74 @@
  * See: docs/multi-agent-architecture.md
  */
 
-import type { AgentSession, AgentRouter } from './interfaces.js';
-import type { TriggerContext } from './types.js';
+import type { AgentSession, AgentRouter, HandoffRouter } from './interfaces.js';
+import type { ChannelAdapter } from '../channels/types.js';
+import type { InboundMessage, TriggerContext } from './types.js';
 import type { StreamMsg } from './types.js';
 
 import { createLogger } from '../logger.js';
 
 const log = createLogger('Gateway');
-export class LettaGateway implements AgentRouter {
+
+/** Chats per shared channel whose last agent is remembered before the least recent is dropped */
+const MAX_LAST_AGENT_CHATS = 500;
+
+/** An agent on a shared channel adapter */
+export interface SharedChannelMember {
+  name: string;
+  /** Names that address this agent in group messages (display name, aliases) */
+  names: string[];
+}
+
+/**
+ * Per-agent view of a shared adapter. Methods run on the real adapter, while
+ * handlers and wrapped methods set during registration stay on the view.
+ * Only the owner's view starts and stops the real adapter.
+ */
+export function createSharedChannelView(adapter: ChannelAdapter, owner: boolean): ChannelAdapter {
+  const own: Record<PropertyKey, unknown> = owner ? {} : {
+    start: async () => {},
+    stop: async () => {},
+  };
+  return new Proxy(adapter, {
+    get(target, prop) {
+      if (prop in own) return own[prop];
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+    set(_target, prop, value) {
+      own[prop] = value;
+      return true;
+    },
+    has(target, prop) {
+      return prop in own || prop in target;
+    },
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Agents addressed by name in a message, in the order they are mentioned.
+ * Names match case-insensitively as whole words, with or without a leading @.
+ */
+export function findAddressedAgents(text: string, members: SharedChannelMember[]): string[] {
+  const found: Array<{ name: string; index: number }> = [];
+  for (const member of members) {
+    let first = -1;
+    for (const name of member.names) {
+      if (!name.trim()) continue;
+      const match = new RegExp(`(?<![\\p{L}\\p{N}_])@?${escapeRegExp(name.trim())}(?![\\p{L}\\p{N}_])`, 'iu').exec(text);
+      if (match && (first < 0 || match.index < first)) first = match.index;
+    }
+    if (first >= 0) found.push({ name: member.name, index: first });
+  }
+  return found.sort((a, b) => a.index - b.index).map(entry => entry.name);
+}
+
+export class LettaGateway implements AgentRouter, HandoffRouter {
   private agents: Map<string, AgentSession> = new Map();
 
   /**
@@ -107,6 +167,84 @@ export class LettaGateway implements AgentRouter {
     return agent;
   }
 
+  /**
+   * Let several agents share one channel adapter. The first member is the
+   * default agent: it owns the adapter's lifecycle and gets DMs and group
+   * messages that address no one. Group messages that name other members
+   * go to each of them instead. Commands and interactive controls go to
+   * the agent the chat last talked to.
+   *
+   * Returns each member's view of the adapter, to register with its session.
+   */
+  shareChannel(adapter: ChannelAdapter, members: SharedChannelMember[]): Map<string, ChannelAdapter> {
+    if (members.length === 0) {
+      throw new Error(`Shared channel ${adapter.id} has no agents`);
+    }
+    const views = new Map(members.map((member, i) => [member.name, createSharedChannelView(adapter, i === 0)]));
+    const defaultAgent = members[0].name;
+    // Chats whose last agent isn't the default, least recent first
+    const lastAgentByChat = new Map<string, string>();
+    const viewForChat = (chatId?: string) => views.get((chatId && lastAgentByChat.get(chatId)) || defaultAgent)!;
+    const rememberAgent = (chatId: string, name: string) => {
+      lastAgentByChat.delete(chatId);
+      if (name === defaultAgent) return;
+      lastAgentByChat.set(chatId, name);
+      if (lastAgentByChat.size > MAX_LAST_AGENT_CHATS) {
+        const oldest = lastAgentByChat.keys().next().value;
+        if (oldest !== undefined) lastAgentByChat.delete(oldest);
+      }
+    };
+
+    // Naming an agent counts as a mention, so mention-only groups let it through
+    adapter.isAddressed = (text) => findAddressedAgents(text, members).length > 0;
+    adapter.onMessage = async (msg: InboundMessage) => {
+      const addressed = msg.isGroup ? findAddressedAgents(msg.text, members) : [];
+      if (addressed.length === 0) {
+        rememberAgent(msg.chatId, defaultAgent);
+        await views.get(defaultAgent)!.onMessage?.(msg);
+        return;
+      }
+      log.info(`${adapter.id}:${msg.chatId} addressed to ${addressed.join(', ')}`);
+      for (const name of addressed) {
+        rememberAgent(msg.chatId, name);
+        await views.get(name)!.onMessage?.({ ...msg, wasMentioned: true, isListeningMode: false });
+      }
+    };
+    adapter.onCommand = (command, chatId, ...rest) =>
+      viewForChat(chatId).onCommand?.(command, chatId, ...rest) ?? Promise.resolve(null);
+    adapter.onApprovalDecision = (toolCallId, approve, chatId, ...rest) =>
+      viewForChat(chatId).onApprovalDecision?.(toolCallId, approve, chatId, ...rest)
+        ?? Promise.resolve({ text: '(Approvals are not available right now.)', applied: false });
+    adapter.onQuestionAnswer = (answers, chatId, ...rest) =>
+      viewForChat(chatId).onQuestionAnswer?.(answers, chatId, ...rest)
+        ?? Promise.resolve('(This question is no longer pending.)');
+
+    log.info(`Sharing ${adapter.name} between ${members.map(m => m.name).join(', ')} (default: ${defaultAgent})`);
+    return views;
+  }
+
+  /**
+   * Pass a message from a chat `from` handed off to the agent handling it.
+   * The message is answered through `from`'s adapter.
+   */
+  deliverHandoff(from: string, to: string, msg: InboundMessage, adapter: ChannelAdapter, note?: string): boolean {
+    const agent = this.agents.get(to);
+    if (!agent?.acceptHandoffMessage || to === from) return false;
+    agent.acceptHandoffMessage(msg, adapter, from, note);
+    return true;
+  }
+
+  /**
+   * Return a handed-off chat to the agent that handed it over.
+   */
+  returnHandoff(from: string, to: string, channelId: string, chatId: string, summary?: string): boolean {
+    const agent = this.agents.get(to);
+    if (!agent?.endHandoff) return false;
+    const returned = agent.endHandoff(channelId, chatId, from, summary);
+    if (returned) log.info(`${from} handed ${channelId}:${chatId} back to ${to}`);
+    return returned;
+  }
+
   /**
    * Deliver a message to a channel.
    * Finds the agent that owns the channel and delegates.
@@ -53,6 +53,10 @@ export function collectGroupBatchingConfig(
   addChannel('whatsapp', channels.whatsapp);
   addChannel('signal', channels.signal);
   addChannel('discord', channels.discord);
+  addChannel('matrix', channels.matrix);
+  addChannel('mattermost', channels.mattermost);
+  addChannel('http', channels.http);
+  addChannel('irc', channels.irc);
 
   return { intervals, instantIds, listeningIds };
 }
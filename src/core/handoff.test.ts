@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import { LettaGateway } from './gateway.js';
+import { Store } from './store.js';
+import type { ChannelAdapter } from '../channels/types.js';
+import type { InboundMessage } from './types.js';
+import { createMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('agent handoffs', () => {
+  const workDir = useTempWorkDir('lettabot-handoff-');
+
+  function createBot(agentName: string, gateway: LettaGateway) {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [], agentName });
+    const processed: InboundMessage[] = [];
+    (bot as any).processQueue = vi.fn(async () => {
+      processed.push(...(bot as any).messageQueue.splice(0).map((item: { msg: InboundMessage }) => item.msg));
+    });
+    bot.handoffRouter = gateway;
+    gateway.addAgent(agentName, bot);
+    return { bot, processed };
+  }
+
+  function setup() {
+    const gateway = new LettaGateway();
+    const triage = createBot('Triage', gateway);
+    const billing = createBot('Billing', gateway);
+    const adapter: ChannelAdapter = createMockAdapter();
+    triage.bot.registerChannel(adapter);
+    return { gateway, triage, billing, adapter };
+  }
+
+  const message = (text: string): InboundMessage => ({
+    channel: 'telegram',
+    chatId: '42',
+    userId: 'u1',
+    text,
+    timestamp: new Date(),
+  });
+
+  async function handOff(bot: LettaBot, adapter: ChannelAdapter, directive: object) {
+    const outcomes: unknown[] = [];
+    await (bot as any).executeDirectives([directive], adapter, '42', undefined, undefined, outcomes);
+    return outcomes;
+  }
+
+  it('routes the chat to the new agent with the summary and persists the handoff', async () => {
+    const { triage, billing, adapter } = setup();
+
+    const outcomes = await handOff(triage.bot, adapter, { type: 'handoff', agent: 'billing', summary: 'Refund for order 7' });
+    expect(outcomes).toEqual([{ directive: 'handoff', status: 'ok', detail: 'handed this chat to Billing' }]);
+
+    await adapter.onMessage!(message('where is my refund?'));
+    await vi.waitFor(() => expect(billing.processed).toHaveLength(1));
+    expect(triage.processed).toHaveLength(0);
+    expect((billing.bot as any).takeActionNotes('telegram', '42')).toEqual([
+      'Triage handed this chat to you. Their summary: Refund for order 7',
+    ]);
+    expect(new Store('lettabot-agent.json', 'Triage').getHandoff('telegram', '42'))
+      .toMatchObject({ agent: 'Billing', summaryDelivered: true });
+  });
+
+  it('hands the chat back with <handback>', async () => {
+    const { triage, billing, adapter } = setup();
+    await handOff(triage.bot, adapter, { type: 'handoff', agent: 'Billing', summary: 'Refund for order 7' });
+    await adapter.onMessage!(message('hi'));
+
+    const outcomes = await handOff(billing.bot, adapter, { type: 'handback', summary: 'Refund issued' });
+    expect(outcomes).toEqual([{ directive: 'handback', status: 'ok', detail: 'handed this chat back to Triage' }]);
+
+    await adapter.onMessage!(message('thanks'));
+    expect(triage.processed.map(m => m.text)).toEqual(['thanks']);
+    expect((triage.bot as any).takeActionNotes('telegram', '42')).toEqual([
+      '<handoff> ok: handed this chat to Billing',
+      'Billing handed this chat back to you. Their summary: Refund issued',
+    ]);
+  });
+
+  it('lets the user hand back with /handback and rejects invalid handoffs', async () => {
+    const { triage, billing, adapter } = setup();
+    await handOff(triage.bot, adapter, { type: 'handoff', agent: 'Billing', summary: 'x' });
+    await adapter.onMessage!(message('hi'));
+
+    expect(await adapter.onCommand!('handback', '42')).toBe('Handed this chat back from Billing to Triage.');
+    expect(await adapter.onCommand!('handback', '42')).toContain('has not been handed');
+    expect(await handOff(triage.bot, adapter, { type: 'handoff', agent: 'Legal', summary: 'x' }))
+      .toMatchObject([{ status: 'skipped' }]);
+    expect(await handOff(billing.bot, adapter, { type: 'handoff', agent: 'Triage', summary: 'x' }))
+      .toMatchObject([{ status: 'skipped', detail: 'Triage handed you this chat; use <handback> to return it' }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { readFileSync, appendFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InboundQueue } from './inbound-queue.js';
+import { LettaBot } from './bot.js';
+import type { ChannelAdapter } from '../channels/types.js';
+import type { InboundMessage } from './types.js';
+import { createMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('InboundQueue', () => {
+  const workDir = useTempWorkDir('lettabot-inbound-');
+  let queueFile: string;
+
+  beforeEach(() => {
+    queueFile = join(workDir(), 'inbound-queue', 'LettaBot.jsonl');
+  });
+
+  const message = (messageId: string | undefined, text = 'hi'): InboundMessage => ({
+    channel: 'telegram',
+    chatId: '42',
+    userId: 'u1',
+    messageId,
+    text,
+    timestamp: new Date('2026-03-01T10:00:00Z'),
+  });
+
+  it('keeps unfinished messages across restarts', () => {
+    const queue = new InboundQueue(queueFile);
+    const done = message('1', 'first');
+    expect(queue.accept(done)).toBe(true);
+    expect(queue.accept(message('2', 'second'))).toBe(true);
+    queue.complete(done);
+
+    const pending = new InboundQueue(queueFile).takePending();
+    expect(pending.map(m => m.text)).toEqual(['second']);
+    expect(pending[0].timestamp).toEqual(new Date('2026-03-01T10:00:00Z'));
+  });
+
+  it('drops redelivered message IDs, before and after a restart', () => {
+    const queue = new InboundQueue(queueFile);
+    const first = message('1');
+    queue.accept(first);
+    expect(queue.accept(message('1'))).toBe(false);
+    expect(queue.accept(message(undefined))).toBe(true);
+    expect(queue.accept(message(undefined))).toBe(true);
+    queue.complete(first);
+
+    const reloaded = new InboundQueue(queueFile);
+    expect(reloaded.accept(message('1'))).toBe(false);
+    expect(reloaded.accept(message('3'))).toBe(true);
+  });
+
+  it('keeps reactions and poll votes on an accepted message apart from it', () => {
+    const queue = new InboundQueue(queueFile);
+    const vote = (userId: string): InboundMessage => ({
+      ...message('poll-1', ''),
+      userId,
+      pollVote: { pollId: 'p1', options: ['Sushi'] },
+    });
+    expect(queue.accept(message('poll-1'))).toBe(true);
+    expect(queue.accept(vote('u1'))).toBe(true);
+    expect(queue.accept(vote('u2'))).toBe(true);
+    expect(queue.accept({ ...message('poll-1', ''), reaction: { emoji: '👍', messageId: 'poll-1' } })).toBe(true);
+    // The same vote delivered again is still a duplicate
+    expect(queue.accept(vote('u2'))).toBe(false);
+  });
+
+  it('completes batched messages and skips a partially written record', () => {
+    const queue = new InboundQueue(queueFile);
+    const a = message('1');
+    const b = message('2');
+    queue.accept(a);
+    queue.accept(b);
+    queue.complete({ ...b, isBatch: true, batchedMessages: [a, b] });
+    appendFileSync(queueFile, '{"op":"acc');
+
+    const reloaded = new InboundQueue(queueFile);
+    expect(reloaded.size).toBe(0);
+    // Compaction on load keeps only dedupe keys
+    expect(readFileSync(queueFile, 'utf-8').trim().split('\n').map(line => JSON.parse(line).op)).toEqual(['seen', 'seen']);
+  });
+
+  it('replays unfinished messages when the bot starts', async () => {
+    const adapter: ChannelAdapter = createMockAdapter({ nextMessageId: () => 'sent-1' });
+    new InboundQueue(queueFile).accept(message('7', 'lost in a crash'));
+
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [], inboundQueueFile: queueFile });
+    const processMessage = vi.fn(async () => {});
+    (bot as any).processMessage = processMessage;
+    bot.registerChannel(adapter);
+    await bot.start();
+
+    await vi.waitFor(() => expect(processMessage).toHaveBeenCalledTimes(1));
+    expect((processMessage.mock.calls[0] as unknown[])[0]).toMatchObject({ messageId: '7', text: 'lost in a crash' });
+    await vi.waitFor(() => expect(new InboundQueue(queueFile).size).toBe(0));
+
+    // The platform redelivering the same message is ignored
+    await adapter.onMessage!(message('7', 'lost in a crash'));
+    expect(processMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes replayed messages before ones that arrive while channels start', async () => {
+    const adapter: ChannelAdapter = createMockAdapter({ nextMessageId: () => 'sent-1' });
+    new InboundQueue(queueFile).accept(message('7', 'lost in a crash'));
+
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [], inboundQueueFile: queueFile });
+    const processMessage = vi.fn(async () => {});
+    (bot as any).processMessage = processMessage;
+    bot.registerChannel(adapter);
+    let releaseStart!: () => void;
+    adapter.start = vi.fn(async () => {
+      await adapter.onMessage!(message('8', 'sent during startup'));
+      await new Promise<void>(resolve => { releaseStart = resolve; });
+    });
+
+    const started = bot.start();
+    await vi.waitFor(() => expect(releaseStart).toBeDefined());
+    expect(processMessage).not.toHaveBeenCalled();
+    releaseStart();
+    await started;
+
+    await vi.waitFor(() => expect(processMessage).toHaveBeenCalled());
+    const texts = processMessage.mock.calls.map(call => ((call as unknown[])[0] as InboundMessage).text);
+    expect(texts.join('\n')).toBe('lost in a crash\nsent during startup');
+    await vi.waitFor(() => expect(new InboundQueue(queueFile).size).toBe(0));
+  });
+});
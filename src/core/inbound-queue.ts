@@ -0,0 +1,181 @@
+/**
+ * Inbound Queue -- durable record of accepted inbound messages.
+ *
+ * Messages are appended to a JSONL file when the bot accepts them and marked
+ * done once their turn finishes. After a crash or restart, messages without
+ * a done mark are replayed. Message IDs go through a dedupe cache (seeded
+ * from the file on load) so a platform redelivering a message does not get
+ * it processed twice.
+ *
+ * Records:
+ *   { "op": "accept", "id": "...", "at": 1712345678901, "key": "telegram:42:7", "msg": {...} }
+ *   { "op": "done", "id": "..." }
+ *   { "op": "seen", "key": "telegram:42:6", "at": 1712345670000 }   (written by compaction)
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { createDedupeCache, type DedupeCache } from '../utils/dedupe-cache.js';
+import { createLogger } from '../logger.js';
+import type { InboundMessage } from './types.js';
+
+const log = createLogger('InboundQueue');
+
+const DEDUPE_TTL_MS = 20 * 60 * 1000;
+const DEDUPE_MAX_SIZE = 5000;
+// Rewrite the file once this many records were appended since the last compaction
+const COMPACT_AFTER_RECORDS = 1000;
+
+type QueueRecord =
+  | { op: 'accept'; id: string; at: number; key?: string; msg: InboundMessage }
+  | { op: 'done'; id: string }
+  | { op: 'seen'; key: string; at: number };
+
+/**
+ * Dedupe key for a message; messages without an ID are never deduped.
+ * Reactions, poll votes, edits and deletes carry the ID of the message they
+ * target, so their key also names the event and who sent it.
+ */
+export function inboundMessageKey(msg: InboundMessage): string | undefined {
+  if (!msg.messageId) return undefined;
+  const base = `${msg.channel}:${msg.chatId}:${msg.messageId}`;
+  if (msg.reaction) {
+    const { emoji, action = 'added' } = msg.reaction;
+    return `${base}:reaction:${msg.userId}:${emoji}:${action}`;
+  }
+  if (msg.pollVote) {
+    const { options, action = 'added' } = msg.pollVote;
+    return `${base}:pollVote:${msg.userId}:${action}:${options.join('|')}`;
+  }
+  if (msg.extraContext?.['Edited message']) {
+    return `${base}:edit:${msg.timestamp.getTime()}`;
+  }
+  if (msg.extraContext?.['Deleted message']) {
+    return `${base}:delete`;
+  }
+  return base;
+}
+
+export class InboundQueue {
+  private readonly dedupe: DedupeCache;
+  // Accepted messages without a done mark, by record ID
+  private pending = new Map<string, Extract<QueueRecord, { op: 'accept' }>>();
+  // Dedupe keys of finished messages still within the dedupe TTL
+  private recentKeys = new Map<string, number>();
+  private ids = new WeakMap<InboundMessage, string>();
+  private appendedRecords = 0;
+
+  constructor(private readonly filePath: string) {
+    this.dedupe = createDedupeCache({ ttlMs: DEDUPE_TTL_MS, maxSize: DEDUPE_MAX_SIZE });
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Record an accepted message. Returns false if it is a duplicate that
+   * should be dropped. Messages returned by takePending() are accepted
+   * already.
+   */
+  accept(msg: InboundMessage): boolean {
+    if (this.ids.has(msg)) return true;
+    const key = inboundMessageKey(msg);
+    if (this.dedupe.check(key)) return false;
+
+    const record: QueueRecord = { op: 'accept', id: randomUUID(), at: Date.now(), ...(key ? { key } : {}), msg };
+    this.pending.set(record.id, record);
+    this.ids.set(msg, record.id);
+    this.append(record);
+    return true;
+  }
+
+  /** Mark a message (and any messages batched into it) as done */
+  complete(msg: InboundMessage): void {
+    for (const inner of msg.batchedMessages ?? []) {
+      this.complete(inner);
+    }
+    const id = this.ids.get(msg);
+    const record = id ? this.pending.get(id) : undefined;
+    if (!id || !record) return;
+    this.pending.delete(id);
+    if (record.key) this.recentKeys.set(record.key, record.at);
+    this.append({ op: 'done', id });
+  }
+
+  /** Messages accepted before a restart that never finished, oldest first */
+  takePending(): InboundMessage[] {
+    return [...this.pending.values()].map(record => record.msg);
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+    const lines = readFileSync(this.filePath, 'utf-8').split('\n').filter(Boolean);
+    let corrupt = 0;
+    for (const line of lines) {
+      let record: QueueRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A crash mid-append can leave a partial last line
+        corrupt++;
+        continue;
+      }
+      if (record.op === 'accept') {
+        const msg = { ...record.msg, timestamp: new Date(record.msg.timestamp) };
+        this.pending.set(record.id, { ...record, msg });
+        this.ids.set(msg, record.id);
+        if (record.key) this.dedupe.check(record.key, record.at);
+      } else if (record.op === 'done') {
+        const accepted = this.pending.get(record.id);
+        this.pending.delete(record.id);
+        if (accepted?.key) this.recentKeys.set(accepted.key, accepted.at);
+      } else if (record.op === 'seen') {
+        this.recentKeys.set(record.key, record.at);
+        this.dedupe.check(record.key, record.at);
+      }
+    }
+    if (corrupt > 0) {
+      log.warn(`Skipped ${corrupt} unreadable record(s) in ${this.filePath}`);
+    }
+    if (this.pending.size > 0) {
+      log.info(`${this.pending.size} unfinished inbound message(s) to replay`);
+    }
+    this.compact();
+  }
+
+  private append(record: QueueRecord): void {
+    try {
+      appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+    } catch (err) {
+      log.error(`Failed to write ${this.filePath}:`, err instanceof Error ? err.message : err);
+      return;
+    }
+    if (++this.appendedRecords >= COMPACT_AFTER_RECORDS) {
+      this.compact();
+    }
+  }
+
+  /** Rewrite the file with only pending messages and recent dedupe keys */
+  private compact(): void {
+    const cutoff = Date.now() - DEDUPE_TTL_MS;
+    for (const [key, at] of this.recentKeys) {
+      if (at < cutoff) this.recentKeys.delete(key);
+    }
+    const records: QueueRecord[] = [
+      ...[...this.recentKeys].map(([key, at]): QueueRecord => ({ op: 'seen', key, at })),
+      ...this.pending.values(),
+    ];
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      writeFileSync(tmpPath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+      renameSync(tmpPath, this.filePath);
+      this.appendedRecords = 0;
+    } catch (err) {
+      log.error(`Failed to compact ${this.filePath}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
@@ -10,6 +10,7 @@ import type { ChannelAdapter } from '../channels/types.js';
 import type { InboundMessage, TriggerContext } from './types.js';
 import type { GroupBatcher } from './group-batcher.js';
 import type { StreamMsg } from './types.js';
+import type { CronJob, CronJobCreate } from '../cron/types.js';
 
 export interface AgentSession {
   /** Register a channel adapter */
@@ -57,6 +58,31 @@ export interface AgentSession {
 
   /** Callback to trigger heartbeat */
   onTriggerHeartbeat?: () => Promise<void>;
+
+  /** Callback to create a cron job from a <schedule> directive */
+  onScheduleJob?: (input: CronJobCreate) => CronJob;
+
+  /** Other agents that <handoff> can pass chats to (multi-agent mode) */
+  handoffRouter?: HandoffRouter;
+
+  /** Process a message from a chat another agent handed to this one */
+  acceptHandoffMessage?(msg: InboundMessage, adapter: ChannelAdapter, from: string, note?: string): void;
+
+  /** Take back a chat this agent handed off; returns false if it was not handed off */
+  endHandoff?(channelId: string, chatId: string, from: string, summary?: string): boolean;
+}
+
+/**
+ * Passes handed-off chats between agents.
+ * Satisfied by LettaGateway.
+ */
+export interface HandoffRouter {
+  /** Get all registered agent names */
+  getAgentNames(): string[];
+  /** Pass a message from a handed-off chat to the agent now handling it; false if that agent is gone */
+  deliverHandoff(from: string, to: string, msg: InboundMessage, adapter: ChannelAdapter, note?: string): boolean;
+  /** Return a handed-off chat to the agent that handed it over; false if it no longer has the chat */
+  returnHandoff(from: string, to: string, channelId: string, chatId: string, summary?: string): boolean;
 }
 
 /**
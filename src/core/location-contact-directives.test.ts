@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import { createMockAdapter, registerMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('location and contact directive execution', () => {
+  const workDir = useTempWorkDir('lettabot-share-');
+
+  function setup(native: boolean) {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [] });
+    const adapter = createMockAdapter({}, native ? {
+      sendLocation: vi.fn(async () => ({ messageId: 'loc-1' })),
+      sendContact: vi.fn(async () => ({ messageId: 'contact-1' })),
+    } : {});
+    const { sendMessage } = registerMockAdapter(bot, adapter);
+    return { bot, adapter, sendMessage };
+  }
+
+  it('uses native locations and contacts when the channel has them', async () => {
+    const { bot, adapter, sendMessage } = setup(true);
+
+    const acted = await (bot as any).executeDirectives(
+      [
+        { type: 'location', latitude: 1.5, longitude: 2.5, name: 'Cafe' },
+        { type: 'contact', name: 'Ada', phone: '+15550102030' },
+      ],
+      adapter,
+      'chat-1',
+      undefined,
+      'thread-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(adapter.sendLocation).toHaveBeenCalledWith({
+      chatId: 'chat-1', latitude: 1.5, longitude: 2.5, name: 'Cafe', address: undefined, threadId: 'thread-1',
+    });
+    expect(adapter.sendContact).toHaveBeenCalledWith({
+      chatId: 'chat-1', name: 'Ada', phone: '+15550102030', email: undefined, threadId: 'thread-1',
+    });
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect((bot as any).getSentMessageIds('telegram', 'chat-1')).toEqual(['loc-1', 'contact-1']);
+  });
+
+  it('falls back to formatted text elsewhere', async () => {
+    const { bot, adapter, sendMessage } = setup(false);
+
+    await (bot as any).executeDirectives(
+      [
+        { type: 'location', latitude: 1.5, longitude: 2.5 },
+        { type: 'contact', name: 'Ada', email: 'ada@example.com' },
+      ],
+      adapter,
+      'chat-1',
+    );
+
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+      text: expect.stringContaining('https://maps.google.com/?q=1.5,2.5'),
+    }));
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+      text: expect.stringContaining('Email: ada@example.com'),
+    }));
+  });
+});
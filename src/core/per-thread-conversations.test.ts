@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { LettaBot } from './bot.js';
+import type { InboundMessage } from './types.js';
+
+describe('per-thread conversation mode', () => {
+  let workDir: string;
+  const originalDataDir = process.env.DATA_DIR;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'lettabot-per-thread-'));
+    process.env.DATA_DIR = workDir;
+  });
+
+  afterEach(() => {
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR;
+    } else {
+      process.env.DATA_DIR = originalDataDir;
+    }
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function setup() {
+    const bot = new LettaBot({ workingDir: workDir, allowedTools: [], conversationMode: 'per-thread' });
+    const sessionManager = (bot as any).sessionManager;
+    sessionManager.invalidateSession = vi.fn();
+    sessionManager.persistSessionState = vi.fn();
+    sessionManager.ensureSessionForKey = vi.fn(async () => ({ conversationId: 'conv-new' }));
+    const clearConversation = vi.spyOn((bot as any).store, 'clearConversation');
+    return { bot, sessionManager, clearConversation };
+  }
+
+  it('routes thread replies to their own key and keeps top-level posts shared', async () => {
+    const { bot } = setup();
+    const enqueueForKey = vi.fn();
+    (bot as any).enqueueForKey = enqueueForKey;
+    (bot as any).processQueue = vi.fn(async () => {});
+    const base: InboundMessage = {
+      channel: 'slack',
+      chatId: 'C123',
+      userId: 'U1',
+      text: 'hi',
+      timestamp: new Date(),
+    };
+
+    await (bot as any).handleMessage({ ...base, messageId: '1712.0001', threadId: '1712.0001' }, {});
+    await (bot as any).handleMessage({ ...base, messageId: '1712.0042', threadId: '1712.0001' }, {});
+
+    expect((bot as any).messageQueue).toHaveLength(1);
+    expect(enqueueForKey).toHaveBeenCalledTimes(1);
+    expect(enqueueForKey.mock.calls[0][0]).toBe('slack:C123:1712.0001');
+  });
+
+  it('scopes /reset to the thread it was sent from', async () => {
+    const { bot, sessionManager, clearConversation } = setup();
+
+    const reply = await (bot as any).handleCommand('reset', 'slack', 'C123', undefined, undefined, '1712.0001');
+
+    expect(clearConversation).toHaveBeenCalledWith('slack:C123:1712.0001');
+    expect(sessionManager.invalidateSession).toHaveBeenCalledWith('slack:C123:1712.0001');
+    expect(reply).toContain('Conversation reset for this thread.');
+  });
+
+  it('resets the shared conversation from the top level', async () => {
+    const { bot, clearConversation } = setup();
+
+    const reply = await (bot as any).handleCommand('reset', 'slack', 'C123');
+
+    expect(clearConversation).toHaveBeenCalledWith('shared');
+    expect(reply).toContain('Conversation reset. New conversation: conv-new');
+  });
+});
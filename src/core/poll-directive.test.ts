@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import { createMockAdapter, registerMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('poll directive execution', () => {
+  const workDir = useTempWorkDir('lettabot-poll-');
+
+  function setup(withPolls = true) {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [] });
+    const adapter = createMockAdapter({}, withPolls ? { sendPoll: vi.fn(async () => ({ messageId: 'poll-1' })) } : {});
+    const { sendMessage } = registerMockAdapter(bot, adapter);
+    return { bot, adapter, sendMessage };
+  }
+
+  it('sends a native poll when the channel supports it', async () => {
+    const { bot, adapter, sendMessage } = setup();
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'poll', question: 'Lunch?', options: ['Pizza', 'Sushi'], multiple: true }],
+      adapter,
+      'chat-1',
+      undefined,
+      'thread-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(adapter.sendPoll).toHaveBeenCalledWith({
+      chatId: 'chat-1',
+      question: 'Lunch?',
+      options: ['Pizza', 'Sushi'],
+      multiple: true,
+      threadId: 'thread-1',
+    });
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect((bot as any).getSentMessageIds('telegram', 'chat-1')).toEqual(['poll-1']);
+  });
+
+  it('falls back to a numbered list elsewhere', async () => {
+    const { bot, adapter, sendMessage } = setup(false);
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'poll', question: 'Lunch?', options: ['Pizza', 'Sushi'] }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+      chatId: 'chat-1',
+      text: expect.stringContaining('1. Pizza\n2. Sushi'),
+    }));
+  });
+
+  it('skips polls with too many options', async () => {
+    const { bot, adapter } = setup();
+    const options = Array.from({ length: 11 }, (_, i) => `Option ${i + 1}`);
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'poll', question: 'Too many?', options }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(false);
+    expect(adapter.sendPoll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { LettaBot, resolveReplyTarget } from './bot.js';
+import { createMockAdapter, registerMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('reply-to directive', () => {
+  const workDir = useTempWorkDir('lettabot-reply-to-');
+
+  function setup() {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [] });
+    let nextId = 0;
+    const adapter = createMockAdapter({ id: 'discord', name: 'Discord', nextMessageId: () => `sent-${++nextId}` });
+    const { sendMessage } = registerMockAdapter(bot, adapter);
+    return { bot, adapter, sendMessage };
+  }
+
+  it('sends each reply-to with text as a separate quoted message', async () => {
+    const { bot, adapter, sendMessage } = setup();
+
+    const acted = await (bot as any).executeDirectives(
+      [
+        { type: 'reply-to', messageId: 'm1', text: 'Yes, Tuesday.' },
+        { type: 'reply-to', messageId: 'm2', text: 'No, sorry.' },
+      ],
+      adapter,
+      'chan-1',
+      undefined,
+      'thread-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(sendMessage).toHaveBeenNthCalledWith(1, {
+      chatId: 'chan-1', text: 'Yes, Tuesday.', threadId: 'thread-1', replyToMessageId: 'm1',
+    });
+    expect(sendMessage).toHaveBeenNthCalledWith(2, {
+      chatId: 'chan-1', text: 'No, sorry.', threadId: 'thread-1', replyToMessageId: 'm2',
+    });
+    expect((bot as any).getSentMessageIds('discord', 'chan-1')).toEqual(['sent-1', 'sent-2']);
+  });
+
+  it('leaves self-closing reply-to to the response delivery', async () => {
+    const { bot, adapter, sendMessage } = setup();
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'reply-to', messageId: 'm1' }],
+      adapter,
+      'chan-1',
+    );
+
+    expect(acted).toBe(false);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('resolves the reply target from the first self-closing reply-to', () => {
+    expect(resolveReplyTarget([
+      { type: 'reply-to', messageId: 'm1', text: 'Separate' },
+      { type: 'react', emoji: 'eyes' },
+      { type: 'reply-to', messageId: 'm2' },
+      { type: 'reply-to', messageId: 'm3' },
+    ])).toBe('m2');
+    expect(resolveReplyTarget([{ type: 'react', emoji: 'eyes' }])).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LettaBot } from './bot.js';
+import type { CronJob, CronJobCreate } from '../cron/types.js';
+import { createMockAdapter, registerMockAdapter, useTempWorkDir } from '../test/mock-adapter.js';
+
+describe('schedule directive execution', () => {
+  const workDir = useTempWorkDir('lettabot-schedule-');
+
+  function setup() {
+    const bot = new LettaBot({ workingDir: workDir(), allowedTools: [] });
+    const adapter = createMockAdapter();
+    registerMockAdapter(bot, adapter);
+    const onScheduleJob = vi.fn((input: CronJobCreate): CronJob => ({ ...input, id: 'cron-1', state: {} }));
+    bot.onScheduleJob = onScheduleJob;
+    return { bot, adapter, onScheduleJob };
+  }
+
+  it('creates a job delivering to the current chat and reports its ID next turn', async () => {
+    const { bot, adapter, onScheduleJob } = setup();
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'schedule', message: 'Remind them to stretch', every: '2h' }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(true);
+    expect(onScheduleJob).toHaveBeenCalledWith({
+      name: 'Remind them to stretch',
+      enabled: true,
+      schedule: { kind: 'every', ms: 2 * 3_600_000 },
+      message: 'Remind them to stretch',
+      deliver: { channel: 'telegram', chatId: 'chat-1' },
+      deleteAfterRun: false,
+    });
+    expect((bot as any).takeActionNotes('telegram', 'chat-1')).toEqual([
+      '<schedule> ok: job cron-1 "Remind them to stretch" every 2h, delivering to telegram:chat-1',
+    ]);
+    expect((bot as any).takeActionNotes('telegram', 'chat-1')).toEqual([]);
+  });
+
+  it('delivers to an explicit registered target', async () => {
+    const { bot, adapter, onScheduleJob } = setup();
+
+    await (bot as any).executeDirectives(
+      [{ type: 'schedule', message: 'Standup', cron: '0 9 * * 1-5', name: 'Standup', channel: 'telegram', chat: 'team' }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(onScheduleJob).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'Standup',
+      deliver: { channel: 'telegram', chatId: 'team' },
+    }));
+  });
+
+  it('reports invalid schedules back to the agent instead of creating a job', async () => {
+    const { bot, adapter, onScheduleJob } = setup();
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'schedule', message: 'Too fast', every: '10s' }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(false);
+    expect(onScheduleJob).not.toHaveBeenCalled();
+    expect((bot as any).takeActionNotes('telegram', 'chat-1')).toEqual([
+      '<schedule> failed: every "10s" is shorter than one minute',
+    ]);
+  });
+
+  it('skips scheduling when cron is not enabled', async () => {
+    const { bot, adapter } = setup();
+    bot.onScheduleJob = undefined;
+
+    const acted = await (bot as any).executeDirectives(
+      [{ type: 'schedule', message: 'Later', at: '5m' }],
+      adapter,
+      'chat-1',
+    );
+
+    expect(acted).toBe(false);
+  });
+});
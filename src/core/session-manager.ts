@@ -401,8 +401,8 @@ export class SessionManager {
     }
 
     // LRU eviction: limit concurrent sessions to avoid unbounded subprocess
-    // growth. Applies in per-chat mode and when forcePerChat (e.g., Discord
-    // thread-only) creates per-thread keys in other modes.
+    // growth. Applies in per-chat and per-thread modes, and when forcePerChat
+    // (e.g., Discord thread-only) creates per-thread keys in other modes.
     const maxSessions = this.config.maxSessions ?? 10;
     if (this.sessions.size >= maxSessions) {
       let oldestKey: string | null = null;
@@ -323,6 +323,18 @@ describe('Store', () => {
     expect(store2.getConversationId('telegram')).toBe('conv-bot2-tg');
   });
 
+  it('should persist chat handoffs across reloads', () => {
+    const store1 = new Store(testStorePath, 'Triage');
+    store1.setHandoff('telegram', '123', { agent: 'Billing', summary: 'Refund request', at: '2026-01-01T00:00:00.000Z' });
+
+    const store2 = new Store(testStorePath, 'Triage');
+    expect(store2.getHandoff('telegram', '123')?.agent).toBe('Billing');
+    expect(store2.getHandoff('telegram', '456')).toBeNull();
+
+    store2.clearHandoff('telegram', '123');
+    expect(new Store(testStorePath, 'Triage').getHandoff('telegram', '123')).toBeNull();
+  });
+
   it('should refresh in-memory state from disk', () => {
     const writer = new Store(testStorePath, 'TestBot');
     writer.agentId = 'agent-v1';
@@ -18,7 +18,7 @@ import {
 } from 'node:fs';
 import { randomUUID } from 'node:crypto';
 import { dirname, resolve } from 'node:path';
-import type { AgentStore, LastMessageTarget } from './types.js';
+import type { AgentStore, ChatHandoff, LastMessageTarget } from './types.js';
 import { getDataDir } from '../utils/paths.js';
 import { sleepSync } from '../utils/time.js';
 import { createLogger } from '../logger.js';
@@ -437,6 +437,25 @@ export class Store {
     this.save();
   }
 
+  // Chat handoffs
+
+  getHandoff(channel: string, chatId: string): ChatHandoff | null {
+    return this.agentData().handoffs?.[`${channel}:${chatId}`] || null;
+  }
+
+  setHandoff(channel: string, chatId: string, handoff: ChatHandoff): void {
+    const agent = this.agentData();
+    agent.handoffs = { ...agent.handoffs, [`${channel}:${chatId}`]: handoff };
+    this.save();
+  }
+
+  clearHandoff(channel: string, chatId: string): void {
+    const agent = this.agentData();
+    if (!agent.handoffs?.[`${channel}:${chatId}`]) return;
+    delete agent.handoffs[`${channel}:${chatId}`];
+    this.save();
+  }
+
   // Recovery tracking
 
   get recoveryAttempts(): number {
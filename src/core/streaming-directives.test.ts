@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { LettaBot } from './bot.js';
+import { EditLimitError } from '../channels/types.js';
+import type { InboundMessage } from './types.js';
+
+describe('streaming directive handling', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'lettabot-streaming-directives-'));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function setup(chunks: string[], onChunk?: (index: number) => void) {
+    const bot = new LettaBot({ workingDir: workDir, allowedTools: [] });
+    const adapter = {
+      id: 'mock',
+      name: 'Mock',
+      start: vi.fn(async () => {}),
+      stop: vi.fn(async () => {}),
+      isRunning: vi.fn(() => true),
+      sendMessage: vi.fn(async (_msg: { text: string }) => ({ messageId: 'msg-1' })),
+      editMessage: vi.fn(async (_chatId: string, _messageId: string, _text: string) => {}),
+      sendTypingIndicator: vi.fn(async () => {}),
+      stopTypingIndicator: vi.fn(async () => {}),
+      supportsEditing: vi.fn(() => true),
+      addReaction: vi.fn(async () => {}),
+    };
+
+    (bot as any).sessionManager.runSession = vi.fn(async () => ({
+      session: { abort: vi.fn(async () => {}) },
+      stream: async function* () {
+        for (const [index, content] of chunks.entries()) {
+          onChunk?.(index);
+          yield { type: 'assistant', content, uuid: 'assistant-1' };
+        }
+        yield { type: 'result', success: true };
+      },
+    }));
+
+    const msg: InboundMessage = {
+      channel: 'discord',
+      chatId: 'chat-1',
+      userId: 'user-1',
+      messageId: 'in-1',
+      text: 'hello',
+      timestamp: new Date(),
+    };
+    return { bot, adapter, msg };
+  }
+
+  function shownTexts(adapter: ReturnType<typeof setup>['adapter']): string[] {
+    return [
+      ...adapter.sendMessage.mock.calls.map(([m]) => m.text),
+      ...adapter.editMessage.mock.calls.map(([, , text]) => text),
+    ];
+  }
+
+  it('runs directives once, as soon as their block closes', async () => {
+    let reactionsBeforeLastChunk = -1;
+    const chunks = ['Sure <act', 'ions><react emoji="eyes" /></act', 'ions> here', ' you go'];
+    const { bot, adapter, msg } = setup(chunks, (index) => {
+      if (index === chunks.length - 1) reactionsBeforeLastChunk = adapter.addReaction.mock.calls.length;
+    });
+
+    await (bot as any).processMessage(msg, adapter);
+
+    expect(reactionsBeforeLastChunk).toBe(1);
+    expect(adapter.addReaction).toHaveBeenCalledTimes(1);
+    expect(adapter.addReaction).toHaveBeenCalledWith('chat-1', 'in-1', '👀');
+    expect(shownTexts(adapter).at(-1)).toBe('Sure  here you go');
+  });
+
+  it('never shows partial markup in streamed messages', async () => {
+    const { bot, adapter, msg } = setup(['Hi <', 'actions><voice>x</voice', '></actions> <no-re', 'ply/>']);
+
+    await (bot as any).processMessage(msg, adapter);
+
+    expect(shownTexts(adapter)).toEqual(['Hi', 'Hi']);
+  });
+
+  it('keeps the last capped edit for the finished reply', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const chunks = Array.from({ length: 15 }, (_, i) => `word${i} `);
+      // Each chunk arrives after the live-edit throttle
+      const { bot, adapter, msg } = setup(chunks, () => vi.setSystemTime(Date.now() + 2000));
+      let edits = 0;
+      adapter.editMessage.mockImplementation(async () => {
+        if (edits >= 10) throw new EditLimitError('edit limit reached');
+        edits++;
+      });
+      const capped = Object.assign(adapter, { remainingEdits: vi.fn(() => 10 - edits) });
+
+      await (bot as any).processMessage(msg, capped);
+
+      expect(adapter.sendMessage).toHaveBeenCalledTimes(1);
+      expect(adapter.editMessage).toHaveBeenCalledTimes(10);
+      expect(adapter.editMessage.mock.calls.at(-1)?.[2]).toContain('word14');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe('<break/> markers', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function run(bot: LettaBot, adapter: ReturnType<typeof setup>['adapter'], msg: InboundMessage) {
+      vi.useFakeTimers({ toFake: ['setTimeout'] });
+      const done = (bot as any).processMessage(msg, adapter);
+      await vi.runAllTimersAsync();
+      await done;
+    }
+
+    it('sends each part as its own message with a typing pause between', async () => {
+      const { bot, adapter, msg } = setup(['First<break del', 'ay="2s"/>Second', '<break/>Third']);
+      adapter.supportsEditing.mockReturnValue(false);
+      const pauses: number[] = [];
+      adapter.sendTypingIndicator.mockImplementation(async () => {
+        pauses.push(adapter.sendMessage.mock.calls.length);
+      });
+
+      await run(bot, adapter, msg);
+
+      expect(adapter.sendMessage.mock.calls.map(([m]) => m.text)).toEqual(['First', 'Second', 'Third']);
+      // The first indicator is the usual one sent before the run starts
+      expect(pauses).toEqual([0, 1, 2]);
+    });
+
+    it('finishes the streamed message and starts a new one at each break', async () => {
+      const { bot, adapter, msg } = setup(['Hello there', ' friend<break delay="500ms"/>', 'How are', ' you?']);
+
+      await run(bot, adapter, msg);
+
+      expect(adapter.sendMessage.mock.calls.map(([m]) => m.text)).toEqual(['Hello there', 'How are you?']);
+      expect(adapter.editMessage.mock.calls.map(([, , text]) => text)).toEqual(['Hello there friend']);
+      expect(shownTexts(adapter).join('\n')).not.toContain('<break');
+    });
+
+    it('sends the text as a new message when the channel refuses more edits', async () => {
+      const { bot, adapter, msg } = setup(['Hello', ' there<break/>', 'Bye']);
+      adapter.editMessage.mockRejectedValue(new EditLimitError('edit limit reached'));
+
+      await run(bot, adapter, msg);
+
+      expect(adapter.sendMessage.mock.calls.map(([m]) => m.text)).toEqual(['Hello', 'Hello there', 'Bye']);
+    });
+  });
+});
@@ -11,6 +11,7 @@ import { dirname } from 'node:path';
 import { randomUUID } from 'node:crypto';
 import { createLogger } from '../logger.js';
 import type { DisplayEvent } from './display-pipeline.js';
+import type { DirectiveOutcome } from './directives.js';
 import type { TriggerType, StreamMsg } from './types.js';
 
 const log = createLogger('TurnLogger');
@@ -34,6 +35,8 @@ export interface TurnRecord {
   input: string;
   events: TurnEvent[];
   output: string;
+  /** Outcomes of the directives the response ran */
+  directives?: DirectiveOutcome[];
   durationMs?: number;
   error?: string;
 }
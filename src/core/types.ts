@@ -43,7 +43,7 @@ export interface TriggerContext {
 // Original Types
 // =============================================================================
 
-export type ChannelId = 'telegram' | 'telegram-mtproto' | 'slack' | 'whatsapp' | 'signal' | 'discord' | 'bluesky' | 'mock';
+export type ChannelId = 'telegram' | 'telegram-mtproto' | 'slack' | 'whatsapp' | 'signal' | 'discord' | 'matrix' | 'http' | 'email' | 'irc' | 'mattermost' | 'bluesky' | 'mock';
 
 /**
  * Message type indicating the context of the message.
@@ -69,6 +69,47 @@ export interface InboundReaction {
   action?: 'added' | 'removed';
 }
 
+/**
+ * A vote on a poll the agent sent
+ */
+export interface InboundPollVote {
+  pollId: string;          // Platform poll ID (the poll message ID where there is none)
+  messageId?: string;      // Poll message, when known
+  question?: string;
+  options: string[];       // Options voted for (or un-voted when action is 'removed')
+  action?: 'added' | 'removed';
+}
+
+/**
+ * A tool call waiting for the user's approval, as shown to channels
+ */
+export interface ApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  /** Raw JSON arguments of the tool call (may be missing) */
+  arguments?: string;
+}
+
+/**
+ * Outcome of a single approve/deny control
+ */
+export interface ApprovalDecisionResult {
+  /** Short outcome to show the user */
+  text: string;
+  /** False while sibling calls of the run are undecided or when nothing was submitted */
+  applied: boolean;
+}
+
+/**
+ * A question from the AskUserQuestion tool, as shown to channels
+ */
+export interface QuestionRequest {
+  question: string;
+  header: string;
+  options: Array<{ label: string; description: string }>;
+  multiSelect: boolean;
+}
+
 /**
  * Formatter hints provided by channel adapters
  */
@@ -82,6 +123,36 @@ export interface FormatterHints {
   /** Whether this channel supports file/image sending */
   supportsFiles?: boolean;
 
+  /** Whether the agent can edit messages it already sent */
+  supportsEdits?: boolean;
+
+  /** Whether the agent can delete messages it already sent */
+  supportsDeletes?: boolean;
+
+  /** Whether replies can quote a specific message (<reply-to>) */
+  supportsReplies?: boolean;
+
+  /** Whether a reply can be split into separate chat messages with <break/> */
+  supportsBreaks?: boolean;
+
+  /** Whether <location> is sent as a native pin (set by bot core from sendLocation) */
+  supportsLocations?: boolean;
+
+  /** Whether <contact> is sent as a native card (set by bot core from sendContact) */
+  supportsContacts?: boolean;
+
+  /** Whether the agent can create cron jobs with <schedule> (set by bot core) */
+  supportsScheduling?: boolean;
+
+  /** Destinations <forward> may deliver to, e.g. "telegram:123" or "discord:*" (set by bot core) */
+  forwardTargets?: string[];
+
+  /** Agents <handoff> may pass this chat to (set by bot core in multi-agent mode) */
+  handoffTargets?: string[];
+
+  /** Agent that handed this chat over, offered as the <handback> target (set by bot core) */
+  handbackTo?: string;
+
   /** Custom action hints replacing the standard Response Directives section */
   actionsSection?: string[];
 
@@ -110,12 +181,15 @@ export interface InboundMessage {
   replyToUser?: string;   // Phone number of who they're replying to (if reply)
   attachments?: InboundAttachment[];
   reaction?: InboundReaction;
+  pollVote?: InboundPollVote;
   isBatch?: boolean;                  // Is this a batched group message?
   batchedMessages?: InboundMessage[]; // Original individual messages (for batch formatting)
   isListeningMode?: boolean;          // Listening mode: agent processes for memory but response is suppressed
   forcePerChat?: boolean;             // Force per-chat conversation routing (e.g., Discord thread-only mode)
   formatterHints?: FormatterHints;    // Channel capabilities for directive rendering
   extraContext?: Record<string, string>; // Channel-specific key/value metadata shown in Chat Context
+  sentMessageIds?: string[];          // Agent's recent outbound message IDs in this chat (set by bot core)
+  actionNotes?: string[];             // Results of the agent's directives from its previous turn (set by bot core)
 }
 
 /**
@@ -143,6 +217,62 @@ export interface OutboundFile {
   kind?: 'image' | 'file' | 'audio';
 }
 
+/**
+ * Outbound poll to any channel.
+ */
+export interface OutboundPoll {
+  chatId: string;
+  question: string;
+  options: string[];
+  multiple?: boolean;      // Allow voting for more than one option
+  threadId?: string;
+}
+
+/**
+ * A map location, outbound or shared by a user.
+ */
+export interface LocationShare {
+  latitude: number;
+  longitude: number;
+  name?: string;           // Place name (e.g. "Blue Bottle Coffee")
+  address?: string;
+}
+
+/**
+ * A contact card, outbound or shared by a user.
+ */
+export interface ContactShare {
+  name: string;
+  phone?: string;
+  email?: string;
+}
+
+/**
+ * Outbound location to any channel.
+ */
+export interface OutboundLocation extends LocationShare {
+  chatId: string;
+  threadId?: string;
+}
+
+/**
+ * Outbound contact card to any channel.
+ */
+export interface OutboundContact extends ContactShare {
+  chatId: string;
+  threadId?: string;
+}
+
+/**
+ * Native forward of a message between two chats on the same channel.
+ */
+export interface OutboundForward {
+  fromChatId: string;
+  messageId: string;
+  chatId: string;
+  threadId?: string;
+}
+
 /**
  * Skills installation config
  */
@@ -154,8 +284,8 @@ export interface SkillsConfig {
   additionalSkills?: string[];
 }
 
-import type { SleeptimeTrigger, SleeptimeBehavior, SleeptimeConfig } from '../config/types.js';
-export type { SleeptimeTrigger, SleeptimeBehavior, SleeptimeConfig };
+import type { SleeptimeTrigger, SleeptimeBehavior, SleeptimeConfig, ConversationRouteConfig } from '../config/types.js';
+export type { SleeptimeTrigger, SleeptimeBehavior, SleeptimeConfig, ConversationRouteConfig };
 
 /**
  * Bot configuration
@@ -197,6 +327,10 @@ export interface BotConfig {
   sendFileDir?: string;     // Restrict <send-file> directive to this directory (default: data/outbound)
   sendFileMaxSize?: number; // Max file size in bytes for <send-file> (default: 50MB)
   sendFileCleanup?: boolean; // Allow <send-file cleanup="true"> to delete files after send (default: false)
+  forwardTo?: string[];     // Destinations <forward> may deliver to ("telegram:123", "discord:*", "*"); empty = disabled
+
+  // Durable inbound queue: accepted messages are recorded here and unfinished ones replayed on start
+  inboundQueueFile?: string;
 
   // Auto-voice
   autoVoice?: boolean; // Automatically generate a TTS voice memo for every text response (no <voice> directive needed)
@@ -211,11 +345,13 @@ export interface BotConfig {
   cronStorePath?: string; // Resolved cron store path (per-agent in multi-agent mode)
 
   // Conversation routing
-  conversationMode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat'; // Default: shared
+  conversationMode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat' | 'per-thread'; // Default: shared
   heartbeatConversation?: string; // "dedicated" | "last-active" | "<channel>" (default: last-active)
   interruptHeartbeatOnUserMessage?: boolean; // Default true. Cancel in-flight heartbeat on user message.
   conversationOverrides?: string[]; // Channels that always use their own conversation (shared mode)
-  maxSessions?: number; // Max concurrent sessions in per-chat mode (default: 10, LRU eviction)
+  conversationRoutes?: ConversationRouteConfig[]; // Routing rules checked before the mode (first match wins)
+  pinnedConversations?: Record<string, string>; // Named conversation IDs that routes can pin to
+  maxSessions?: number; // Max concurrent sessions in per-chat/per-thread mode (default: 10, LRU eviction)
   reuseSession?: boolean; // Reuse SDK subprocess across messages (default: true). Set false to eliminate stream state bleed at cost of ~5s latency per message.
 }
 
@@ -248,6 +384,16 @@ export interface StreamMsg {
   [key: string]: unknown;
 }
 
+/**
+ * A chat handed to another agent by a <handoff> directive
+ */
+export interface ChatHandoff {
+  agent: string;              // Agent now handling the chat
+  summary: string;            // Context summary written by the handing-off agent
+  summaryDelivered?: boolean; // Set once the summary reached the new agent
+  at: string;
+}
+
 /**
  * Agent store - persists the single agent ID
  */
@@ -260,6 +406,7 @@ export interface AgentStore {
   createdAt?: string;
   lastUsedAt?: string;
   lastMessageTarget?: LastMessageTarget;
+  handoffs?: Record<string, ChatHandoff>; // Chats handed to other agents, keyed by channel:chatId
   
   // Recovery tracking
   recoveryAttempts?: number; // Count of consecutive recovery attempts
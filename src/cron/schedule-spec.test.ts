@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { describeSchedule, parseDuration, parseScheduleSpec } from './schedule-spec.js';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('parseDuration', () => {
+  it('parses short and long unit forms', () => {
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('15m')).toBe(15 * 60_000);
+    expect(parseDuration('2 hours')).toBe(2 * 3_600_000);
+    expect(parseDuration('in 1d')).toBe(86_400_000);
+    expect(parseDuration('1.5h')).toBe(90 * 60_000);
+  });
+
+  it('returns null for non-durations', () => {
+    expect(parseDuration('2026-03-01T12:00:00Z')).toBeNull();
+    expect(parseDuration('soon')).toBeNull();
+    expect(parseDuration('0m')).toBeNull();
+  });
+});
+
+describe('parseScheduleSpec', () => {
+  it('resolves relative and absolute at as one-off jobs', () => {
+    expect(parseScheduleSpec({ at: '20m' }, NOW)).toEqual({
+      schedule: { kind: 'at', date: new Date('2026-03-01T12:20:00.000Z') },
+      deleteAfterRun: true,
+    });
+    expect(parseScheduleSpec({ at: '2026-03-02T09:00:00Z' }, NOW).schedule)
+      .toEqual({ kind: 'at', date: new Date('2026-03-02T09:00:00.000Z') });
+  });
+
+  it('rejects at in the past or unparseable', () => {
+    expect(() => parseScheduleSpec({ at: '2026-02-01T00:00:00Z' }, NOW)).toThrow('in the past');
+    expect(() => parseScheduleSpec({ at: 'tomorrow-ish' }, NOW)).toThrow('Invalid at');
+  });
+
+  it('resolves every as a recurring interval within supported bounds', () => {
+    expect(parseScheduleSpec({ every: '2h' }, NOW)).toEqual({
+      schedule: { kind: 'every', ms: 2 * 3_600_000 },
+      deleteAfterRun: false,
+    });
+    expect(() => parseScheduleSpec({ every: '30s' }, NOW)).toThrow('shorter than one minute');
+    expect(() => parseScheduleSpec({ every: '1d' }, NOW)).toThrow('use cron');
+    expect(() => parseScheduleSpec({ every: '90m' }, NOW)).toThrow('whole hours');
+    expect(() => parseScheduleSpec({ every: '90s' }, NOW)).toThrow('whole minutes');
+    expect(() => parseScheduleSpec({ every: '1.5m' }, NOW)).toThrow('whole minutes');
+    expect(() => parseScheduleSpec({ every: '7m' }, NOW)).toThrow('divide an hour evenly');
+    expect(() => parseScheduleSpec({ every: '5h' }, NOW)).toThrow('divide a day evenly');
+    expect(parseScheduleSpec({ every: '15m' }, NOW).schedule).toEqual({ kind: 'every', ms: 15 * 60_000 });
+  });
+
+  it('accepts cron expressions with five or six fields', () => {
+    expect(parseScheduleSpec({ cron: '0 9 * * 1-5' }, NOW).schedule).toEqual({ kind: 'cron', expr: '0 9 * * 1-5' });
+    expect(() => parseScheduleSpec({ cron: 'every day' }, NOW)).toThrow('Invalid cron');
+  });
+
+  it('requires exactly one timing attribute', () => {
+    expect(() => parseScheduleSpec({}, NOW)).toThrow('exactly one');
+    expect(() => parseScheduleSpec({ at: '5m', every: '1h' }, NOW)).toThrow('exactly one');
+  });
+});
+
+describe('describeSchedule', () => {
+  it('renders each schedule kind', () => {
+    expect(describeSchedule({ kind: 'at', date: NOW })).toBe('at 2026-03-01T12:00:00.000Z');
+    expect(describeSchedule({ kind: 'every', ms: 2 * 3_600_000 })).toBe('every 2h');
+    expect(describeSchedule({ kind: 'every', ms: 15 * 60_000 })).toBe('every 15m');
+    expect(describeSchedule({ kind: 'cron', expr: '0 9 * * *' })).toBe('cron "0 9 * * *"');
+  });
+});
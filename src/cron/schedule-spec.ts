@@ -0,0 +1,128 @@
+/**
+ * Schedule Specs
+ *
+ * Parses the human-friendly schedule attributes used by the <schedule>
+ * directive (at / every / cron) into a CronSchedule.
+ *
+ *   at="2026-03-01T09:00:00Z"  → one-off at that time
+ *   at="20m"                   → one-off 20 minutes from now
+ *   every="2h"                 → recurring interval
+ *   cron="0 9 * * 1-5"         → recurring cron expression
+ */
+
+import type { CronSchedule } from './types.js';
+
+export interface ScheduleSpec {
+  at?: string;
+  every?: string;
+  cron?: string;
+}
+
+export interface ParsedScheduleSpec {
+  schedule: CronSchedule;
+  deleteAfterRun: boolean;
+}
+
+const DURATION_REGEX = /^(?:in\s+)?(\d+(?:\.\d+)?)\s*(s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?)$/i;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** Intervals shorter than this would flood the agent */
+const MIN_INTERVAL_MS = 60 * 1000;
+
+/** node-schedule intervals are built from hour/minute ranges, so stay under a day */
+const MAX_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a relative duration like "30s", "15m", "2h", "1d" or "in 10 minutes".
+ * Returns milliseconds, or null if the input is not a duration.
+ */
+export function parseDuration(input: string): number | null {
+  const match = input.trim().match(DURATION_REGEX);
+  if (!match) return null;
+  const ms = Number(match[1]) * UNIT_MS[match[2][0].toLowerCase()];
+  return ms > 0 ? Math.round(ms) : null;
+}
+
+/**
+ * Resolve exactly one of at / every / cron into a CronSchedule.
+ * Throws with a message suitable for reporting back to the agent.
+ */
+export function parseScheduleSpec(spec: ScheduleSpec, now: Date = new Date()): ParsedScheduleSpec {
+  const given = (['at', 'every', 'cron'] as const).filter(key => spec[key]?.trim());
+  if (given.length !== 1) {
+    throw new Error('Specify exactly one of at, every or cron');
+  }
+
+  if (spec.at?.trim()) {
+    const at = spec.at.trim();
+    const relativeMs = parseDuration(at);
+    const date = relativeMs !== null ? new Date(now.getTime() + relativeMs) : new Date(at);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid at "${at}": use an ISO datetime or a duration like "20m"`);
+    }
+    if (date.getTime() <= now.getTime()) {
+      throw new Error(`at "${at}" is in the past`);
+    }
+    return { schedule: { kind: 'at', date }, deleteAfterRun: true };
+  }
+
+  if (spec.every?.trim()) {
+    const every = spec.every.trim();
+    const ms = parseDuration(every);
+    if (ms === null) {
+      throw new Error(`Invalid every "${every}": use a duration like "30m" or "2h"`);
+    }
+    if (ms < MIN_INTERVAL_MS) {
+      throw new Error(`every "${every}" is shorter than one minute`);
+    }
+    if (ms >= MAX_INTERVAL_MS) {
+      throw new Error(`every "${every}" is a day or longer: use cron for daily schedules`);
+    }
+    // Intervals run as minute/hour steps that restart each hour/day, so they must divide it evenly
+    if (ms < UNIT_MS.h) {
+      if (ms % UNIT_MS.m !== 0) {
+        throw new Error(`every "${every}" must be whole minutes when shorter than an hour`);
+      }
+      if (UNIT_MS.h % ms !== 0) {
+        throw new Error(`every "${every}" must divide an hour evenly (e.g. 5m, 10m, 15m, 20m, 30m)`);
+      }
+    } else {
+      if (ms % UNIT_MS.h !== 0) {
+        throw new Error(`every "${every}" must be whole hours when longer than an hour`);
+      }
+      if (UNIT_MS.d % ms !== 0) {
+        throw new Error(`every "${every}" must divide a day evenly (e.g. 2h, 3h, 4h, 6h, 8h, 12h)`);
+      }
+    }
+    return { schedule: { kind: 'every', ms }, deleteAfterRun: false };
+  }
+
+  const expr = spec.cron!.trim();
+  const fields = expr.split(/\s+/).length;
+  if (fields !== 5 && fields !== 6) {
+    throw new Error(`Invalid cron "${expr}": expected 5 fields like "0 9 * * *"`);
+  }
+  return { schedule: { kind: 'cron', expr }, deleteAfterRun: false };
+}
+
+/**
+ * Describe a schedule for logs and agent-facing notes.
+ */
+export function describeSchedule(schedule: CronSchedule): string {
+  switch (schedule.kind) {
+    case 'at':
+      return `at ${new Date(schedule.date).toISOString()}`;
+    case 'every': {
+      const minutes = Math.round(schedule.ms / 60000);
+      return minutes % 60 === 0 ? `every ${minutes / 60}h` : `every ${minutes}m`;
+    }
+    case 'cron':
+      return `cron "${schedule.expr}"`;
+  }
+}
@@ -408,9 +408,13 @@ export class CronService {
         const seconds = Math.floor(sched.ms / 1000);
         if (seconds < 60) {
           rule.second = new schedule.Range(0, 59, seconds);
-        } else {
+        } else if (seconds < 3600) {
           const minutes = Math.floor(seconds / 60);
           rule.minute = new schedule.Range(0, 59, minutes);
+        } else {
+          const hours = Math.floor(seconds / 3600);
+          rule.minute = 0;
+          rule.hour = new schedule.Range(0, 23, hours);
         }
         return rule;
       }
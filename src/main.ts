@@ -5,6 +5,7 @@
  * Chat continues seamlessly between Telegram, Slack, and WhatsApp.
  */
 
+import { createHash } from 'node:crypto';
 import { existsSync, mkdirSync, promises as fs } from 'node:fs';
 import { join, resolve } from 'node:path';
 
@@ -62,11 +63,14 @@ const currentBaseUrl = process.env.LETTA_BASE_URL || 'https://api.letta.com';
 loadStoredAgentId(STORE_PATH, currentBaseUrl);
 await refreshTokensIfNeeded();
 
-import { normalizeAgents } from './config/types.js';
+import { normalizeAgents, type AgentConfig } from './config/types.js';
 import { LettaGateway } from './core/gateway.js';
 import { LettaBot } from './core/bot.js';
+import { loadDirectiveModules } from './core/directive-registry.js';
 import type { Store } from './core/store.js';
 import { createChannelsForAgent } from './channels/factory.js';
+import { HttpChannelAdapter } from './channels/http.js';
+import type { ChannelAdapter } from './channels/types.js';
 import { GroupBatcher } from './core/group-batcher.js';
 import { printStartupBanner } from './core/banner.js';
 import { collectGroupBatchingConfig } from './core/group-batching-config.js';
@@ -210,6 +214,12 @@ function createGroupBatcher(
 
 // Skills are installed to agent-scoped directory when agent is created (see core/bot.ts)
 
+// Sanitized names can collide ("a b" vs "a_b"), so suffix a hash of the raw name
+function resolveInboundQueueFile(agentName: string): string {
+  const hash = createHash('sha1').update(agentName).digest('hex').slice(0, 8);
+  return resolve(getDataDir(), 'inbound-queue', `${agentName.replace(/[^\w.-]/g, '_')}-${hash}.jsonl`);
+}
+
 function ensureRequiredTools(tools: string[]): string[] {
   const out = [...tools];
   if (!out.includes('manage_todo')) {
@@ -308,6 +318,32 @@ async function main() {
     process.exit(1);
   }
 
+  // Resolve shared channels: each is owned by the one agent that configures it
+  const sharedChannels = new Map<string, { owner: AgentConfig; members: AgentConfig[] }>();
+  for (const agent of agents) {
+    const duplicateShared = (agent.sharedChannels ?? []).find((id, i, ids) => ids.indexOf(id) !== i);
+    if (duplicateShared) {
+      log.error(`Agent ${agent.name}: sharedChannels lists "${duplicateShared}" more than once.`);
+      process.exit(1);
+    }
+    for (const channelId of agent.sharedChannels ?? []) {
+      const owners = agents.filter(a => a !== agent && a.channels[channelId as keyof AgentConfig['channels']]);
+      if (owners.length !== 1) {
+        log.error(
+          `Agent ${agent.name}: sharedChannels entry "${channelId}" must be configured by exactly one other agent ` +
+          `(found ${owners.length}).`
+        );
+        process.exit(1);
+      }
+      const shared = sharedChannels.get(channelId) ?? { owner: owners[0], members: [owners[0]] };
+      shared.members.push(agent);
+      sharedChannels.set(channelId, shared);
+    }
+  }
+  const sharedAdapters = new Map<string, ChannelAdapter>();
+  const isOnSharedChannel = (agent: AgentConfig) =>
+    [...sharedChannels.values()].some(shared => shared.members.includes(agent));
+
   const attachmentsDir = resolve(globalConfig.workingDir, 'attachments');
   pruneAttachmentsDir(attachmentsDir, globalConfig.attachmentsMaxAgeDays).catch((err) => {
     log.warn('Prune failed:', err);
@@ -326,6 +362,7 @@ async function main() {
   const agentConversationModes = new Map<string, string>();
   const sessionInvalidators = new Map<string, (key?: string) => void>();
   const agentChannelMap = new Map<string, string[]>();
+  const httpChannels = new Map<string, HttpChannelAdapter>();
   const voiceMemoEnabled = isVoiceMemoConfigured();
   const services: { 
     cronServices: CronService[], 
@@ -338,6 +375,15 @@ async function main() {
     pollingServices: [],
     groupBatchers: [],
   };
+
+  // Custom directives are process-wide: load every agent's plugin modules once
+  const directiveModules = new Set([
+    ...(yamlConfig.features?.directives ?? []),
+    ...agents.flatMap(agent => agent.features?.directives ?? []),
+  ].map(p => resolve(p)));
+  if (directiveModules.size > 0) {
+    await loadDirectiveModules([...directiveModules]);
+  }
   
   for (const agentConfig of agents) {
     log.info(`Configuring agent: ${agentConfig.name}`);
@@ -380,11 +426,14 @@ async function main() {
       agentName: agentConfig.name,
       allowedTools: ensureRequiredTools(agentConfig.features?.allowedTools ?? globalConfig.allowedTools),
       disallowedTools: agentConfig.features?.disallowedTools ?? globalConfig.disallowedTools,
-      displayName: agentConfig.displayName,
+      // Agents sharing an adapter always sign their replies
+      displayName: agentConfig.displayName ?? (isOnSharedChannel(agentConfig) ? agentConfig.name : undefined),
       maxToolCalls: agentConfig.features?.maxToolCalls,
       sendFileDir: agentConfig.features?.sendFileDir,
       sendFileMaxSize: agentConfig.features?.sendFileMaxSize,
       sendFileCleanup: agentConfig.features?.sendFileCleanup,
+      forwardTo: agentConfig.features?.forwardTo,
+      inboundQueueFile: resolveInboundQueueFile(agentConfig.name),
       autoVoice: agentConfig.features?.autoVoice,
       memfs: resolvedMemfs,
       sleeptime: effectiveSleeptime,
@@ -397,6 +446,8 @@ async function main() {
         ?? globalConfig.heartbeatInterruptOnUserMessage
         ?? true,
       conversationOverrides: agentConfig.conversations?.perChannel,
+      conversationRoutes: agentConfig.conversations?.routes,
+      pinnedConversations: agentConfig.conversations?.pinned,
       maxSessions: agentConfig.conversations?.maxSessions,
       reuseSession: agentConfig.conversations?.reuseSession,
       redaction: agentConfig.security?.redaction,
@@ -486,11 +537,28 @@ async function main() {
     // Create and register channels
     const adapters = createChannelsForAgent(agentConfig, attachmentsDir, globalConfig.attachmentsMaxBytes);
     for (const adapter of adapters) {
+      if (sharedChannels.has(adapter.id)) {
+        // Registered per agent through the gateway once every agent exists
+        sharedAdapters.set(adapter.id, adapter);
+        continue;
+      }
       bot.registerChannel(adapter);
+      if (adapter instanceof HttpChannelAdapter) {
+        httpChannels.set(agentConfig.name, adapter);
+      }
     }
 
     // Setup group batching
-    const { batcher, intervals, instantIds, listeningIds } = createGroupBatcher(agentConfig, bot);
+    // Sharing agents batch groups with the owner's settings for the shared channel
+    const batchingChannels = { ...agentConfig.channels };
+    for (const channelId of agentConfig.sharedChannels ?? []) {
+      const key = channelId as keyof AgentConfig['channels'];
+      Object.assign(batchingChannels, { [key]: sharedChannels.get(channelId)!.owner.channels[key] });
+    }
+    const { batcher, intervals, instantIds, listeningIds } = createGroupBatcher(
+      { ...agentConfig, channels: batchingChannels },
+      bot,
+    );
     if (batcher) {
       bot.setGroupBatcher(batcher, intervals, instantIds, listeningIds);
       services.groupBatchers.push(batcher);
@@ -504,6 +572,7 @@ async function main() {
       const cronService = new CronService(bot, cronStoreFilename ? { storePath: cronStoreFilename } : undefined);
       await cronService.start();
       services.cronServices.push(cronService);
+      bot.onScheduleJob = (input) => cronService.add(input);
     }
 
     // Per-agent heartbeat
@@ -574,10 +643,25 @@ async function main() {
     }
     
     gateway.addAgent(agentConfig.name, bot);
+    if (isMultiAgent) {
+      bot.handoffRouter = gateway;
+    }
     agentStores.set(agentConfig.name, bot.store);
     agentConversationModes.set(agentConfig.name, agentConfig.conversations?.mode || 'shared');
     sessionInvalidators.set(agentConfig.name, (key) => bot.invalidateSession(key));
-    agentChannelMap.set(agentConfig.name, adapters.map(a => a.id));
+    agentChannelMap.set(agentConfig.name, [...adapters.map(a => a.id), ...(agentConfig.sharedChannels ?? [])]);
+  }
+
+  for (const [channelId, shared] of sharedChannels) {
+    const adapter = sharedAdapters.get(channelId);
+    if (!adapter) continue;
+    const views = gateway.shareChannel(adapter, shared.members.map(agent => ({
+      name: agent.name,
+      names: [agent.displayName ?? agent.name, agent.name, ...(agent.aliases ?? [])],
+    })));
+    for (const [name, view] of views) {
+      gateway.getAgent(name)!.registerChannel(view);
+    }
   }
   
   // Start all agents
@@ -606,6 +690,7 @@ async function main() {
     agentChannels: agentChannelMap,
     agentConversationModes,
     sessionInvalidators,
+    httpChannels,
   });
   
   // Startup banner
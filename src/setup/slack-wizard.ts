@@ -107,6 +107,8 @@ oauth_config:
       - im:read
       - im:write
 settings:
+  interactivity:
+    is_enabled: true
   org_deploy_enabled: false
   socket_mode_enabled: true
   token_rotation_enabled: false
@@ -122,7 +124,8 @@ settings:
     'Creates app with everything pre-configured:\n' +
     '  • Socket Mode enabled\n' +
     '  • 6 bot scopes (app_mentions:read, chat:write, files:read, im:*)\n' +
-    '  • 2 event subscriptions (app_mention, message.im)\n\n' +
+    '  • 2 event subscriptions (app_mention, message.im)\n' +
+    '  • Interactivity (buttons for approvals and questions)\n\n' +
     'Just review and click "Create"!',
     'One-Click Setup'
   );
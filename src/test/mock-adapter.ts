@@ -0,0 +1,73 @@
+/**
+ * Spy-backed channel adapter for unit tests that drive LettaBot directly.
+ *
+ * Every method is a vi.fn(). Optional capabilities (sendPoll, deleteMessage,
+ * ...) are passed as extras so a test can leave them out to cover fallbacks.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, vi } from 'vitest';
+import type { LettaBot } from '../core/bot.js';
+import type { ChannelId, FormatterHints, OutboundMessage } from '../core/types.js';
+
+export interface MockAdapterOptions {
+  id?: ChannelId;                 // Default: 'telegram'
+  name?: string;                  // Default: 'Telegram'
+  formatterHints?: FormatterHints;
+  nextMessageId?: () => string;   // ID returned by each sendMessage (default: 'msg-1')
+}
+
+export function createMockAdapter<T extends object = object>(options: MockAdapterOptions = {}, extras?: T) {
+  const { id = 'telegram', name = 'Telegram', formatterHints = {}, nextMessageId = () => 'msg-1' } = options;
+  return {
+    id,
+    name,
+    start: vi.fn(async () => {}),
+    stop: vi.fn(async () => {}),
+    isRunning: vi.fn(() => true),
+    sendMessage: vi.fn(async (_msg: OutboundMessage) => ({ messageId: nextMessageId() })),
+    editMessage: vi.fn(async (_chatId: string, _messageId: string, _text: string) => {}),
+    sendTypingIndicator: vi.fn(async () => {}),
+    getFormatterHints: vi.fn((): FormatterHints => formatterHints),
+    ...(extras as T),
+  };
+}
+
+export type MockAdapter = ReturnType<typeof createMockAdapter>;
+
+/**
+ * Register the adapter with the bot. registerChannel wraps sendMessage and
+ * editMessage for redaction, so the original spies are returned.
+ */
+export function registerMockAdapter<A extends MockAdapter>(bot: LettaBot, adapter: A): Pick<A, 'sendMessage' | 'editMessage'> {
+  const { sendMessage, editMessage } = adapter;
+  bot.registerChannel(adapter);
+  return { sendMessage, editMessage };
+}
+
+/**
+ * Give each test a fresh working directory, also used as DATA_DIR so stores
+ * and queues stay out of the real data directory. Returns a getter.
+ */
+export function useTempWorkDir(prefix: string): () => string {
+  let workDir = '';
+  const originalDataDir = process.env.DATA_DIR;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), prefix));
+    process.env.DATA_DIR = workDir;
+  });
+
+  afterEach(() => {
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR;
+    } else {
+      process.env.DATA_DIR = originalDataDir;
+    }
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  return () => workDir;
+}
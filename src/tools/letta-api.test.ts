@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getLatestRunError, recoverOrphanedConversationApproval, isRecoverableConversationId, recoverPendingApprovalsForAgent, approvePendingApproval, getPendingApprovals } from './letta-api.js';
+import { getLatestRunError, recoverOrphanedConversationApproval, isRecoverableConversationId, recoverPendingApprovalsForAgent, approvePendingApproval, getPendingApprovals, submitApprovalDecisions } from './letta-api.js';
 
 // Mock the Letta client before importing the module under test
 const mockConversationsMessagesList = vi.fn();
@@ -171,6 +171,48 @@ describe('getPendingApprovals', () => {
     expect(result).toHaveLength(1);
     expect(result[0].toolCallId).toBe('tc-1');
   });
+
+  it('includes tool call arguments from the run scan', async () => {
+    mockRunsList.mockReturnValue(mockPageIterator([{ id: 'run-1', status: 'completed', stop_reason: 'requires_approval' }]));
+    mockAgentsMessagesList.mockReturnValue(mockPageIterator([{
+      id: 'msg-1',
+      message_type: 'approval_request_message',
+      run_id: 'run-1',
+      tool_calls: [{ tool_call_id: 'tc-1', name: 'bash', arguments: '{"command":"ls"}' }],
+    }]));
+
+    const result = await getPendingApprovals('agent-1', 'conv-1');
+
+    expect(result).toEqual([{
+      runId: 'run-1',
+      toolCallId: 'tc-1',
+      toolName: 'bash',
+      messageId: 'msg-1',
+      arguments: '{"command":"ls"}',
+    }]);
+  });
+});
+
+describe('submitApprovalDecisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAgentsMessagesCreate.mockResolvedValue({});
+  });
+
+  it('sends mixed decisions for one run in a single request', async () => {
+    const ok = await submitApprovalDecisions('agent-1', [
+      { toolCallId: 'call-a', approve: true },
+      { toolCallId: 'call-b', approve: false, reason: 'Not now' },
+    ]);
+
+    expect(ok).toBe(true);
+    expect(mockAgentsMessagesCreate).toHaveBeenCalledTimes(1);
+    const payload = mockAgentsMessagesCreate.mock.calls[0][1];
+    expect(payload.messages[0].approvals).toEqual([
+      { approve: true, tool_call_id: 'call-a', type: 'approval', reason: 'Approved by user from chat' },
+      { approve: false, tool_call_id: 'call-b', type: 'approval', reason: 'Not now' },
+    ]);
+  });
 });
 
 describe('isRecoverableConversationId', () => {
@@ -363,6 +363,8 @@ export interface PendingApproval {
   toolCallId: string;
   toolName: string;
   messageId: string;
+  /** Raw JSON arguments of the tool call, when the server provides them */
+  arguments?: string;
 }
 
 /**
@@ -394,24 +396,24 @@ export async function getPendingApprovals(
 
           // Extract tool calls - handle both Array<ToolCall> and ToolCallDelta formats
           const rawToolCalls = pending.tool_calls;
-          const toolCallsList: Array<{ tool_call_id: string; name: string }> = [];
+          const toolCallsList: Array<{ tool_call_id: string; name: string; arguments?: string }> = [];
 
           if (Array.isArray(rawToolCalls)) {
             for (const tc of rawToolCalls) {
               if (tc && 'tool_call_id' in tc && tc.tool_call_id) {
-                toolCallsList.push({ tool_call_id: tc.tool_call_id, name: tc.name || 'unknown' });
+                toolCallsList.push({ tool_call_id: tc.tool_call_id, name: tc.name || 'unknown', arguments: tc.arguments || undefined });
               }
             }
           } else if (rawToolCalls && typeof rawToolCalls === 'object' && 'tool_call_id' in rawToolCalls && rawToolCalls.tool_call_id) {
             // ToolCallDelta case
-            toolCallsList.push({ tool_call_id: rawToolCalls.tool_call_id, name: rawToolCalls.name || 'unknown' });
+            toolCallsList.push({ tool_call_id: rawToolCalls.tool_call_id, name: rawToolCalls.name || 'unknown', arguments: rawToolCalls.arguments || undefined });
           }
 
           // Fallback to deprecated singular tool_call field
           if (toolCallsList.length === 0 && pending.tool_call) {
             const tc = pending.tool_call;
             if ('tool_call_id' in tc && tc.tool_call_id) {
-              toolCallsList.push({ tool_call_id: tc.tool_call_id, name: tc.name || 'unknown' });
+              toolCallsList.push({ tool_call_id: tc.tool_call_id, name: tc.name || 'unknown', arguments: tc.arguments || undefined });
             }
           }
 
@@ -425,6 +427,7 @@ export async function getPendingApprovals(
               toolCallId: tc.tool_call_id,
               toolName: tc.name || 'unknown',
               messageId: pending.id,
+              arguments: tc.arguments,
             });
           }
           if (approvals.length > 0) {
@@ -494,8 +497,8 @@ export async function getPendingApprovals(
       if ('message_type' in msg && msg.message_type === 'approval_request_message') {
         const approvalMsg = msg as {
           id: string;
-          tool_calls?: Array<{ tool_call_id: string; name: string }>;
-          tool_call?: { tool_call_id: string; name: string };
+          tool_calls?: Array<{ tool_call_id: string; name: string; arguments?: string }>;
+          tool_call?: { tool_call_id: string; name: string; arguments?: string };
           run_id?: string;
         };
 
@@ -509,6 +512,7 @@ export async function getPendingApprovals(
             toolCallId: tc.tool_call_id,
             toolName: tc.name,
             messageId: approvalMsg.id,
+            arguments: tc.arguments || undefined,
           });
         }
       }
@@ -634,6 +638,57 @@ export async function approvePendingApproval(
   }
 }
 
+/**
+ * Submit mixed approve/deny decisions for the parallel tool calls of one run
+ * in a single API request. Uniform batches should use approvePendingApproval
+ * or rejectApproval instead.
+ */
+export async function submitApprovalDecisions(
+  agentId: string,
+  decisions: Array<{
+    toolCallId: string;
+    approve: boolean;
+    reason?: string;
+  }>,
+  conversationId?: string
+): Promise<boolean> {
+  if (decisions.length === 0) return true;
+
+  try {
+    const client = getClient();
+
+    await client.agents.messages.create(agentId, {
+      messages: [{
+        type: 'approval',
+        approvals: decisions.map(d => ({
+          approve: d.approve,
+          tool_call_id: d.toolCallId,
+          type: 'approval' as const,
+          reason: d.reason || (d.approve ? 'Approved by user from chat' : 'Denied by user from chat'),
+        })),
+      }],
+      streaming: false,
+    });
+
+    const approved = decisions.filter(d => d.approve).length;
+    log.info(`Submitted ${decisions.length} approval decision(s): ${approved} approved, ${decisions.length - approved} denied`);
+    return true;
+  } catch (e) {
+    const err = e as { status?: number; error?: { detail?: string } };
+    const detail = err?.error?.detail || '';
+    if (err?.status === 400 && detail.includes('No tool call is currently awaiting approval')) {
+      log.warn('Approval(s) already resolved');
+      return true;
+    }
+    if (err?.status === 429) {
+      log.error('Failed to submit approval decisions:', e);
+      throw e;
+    }
+    log.error('Failed to submit approval decisions:', e);
+    return false;
+  }
+}
+
 /**
  * Cancel active runs for an agent.
  * Optionally specify specific run IDs to cancel.
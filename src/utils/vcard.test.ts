@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildVCard, parseVCard } from './vcard.js';
+
+describe('buildVCard', () => {
+  it('includes name, phone with waid, and email', () => {
+    expect(buildVCard({ name: 'Ada Lovelace', phone: '+1 (555) 010-2030', email: 'ada@example.com' })).toBe([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Ada Lovelace',
+      'N:Ada Lovelace;;;;',
+      'TEL;type=CELL;waid=15550102030:+1 (555) 010-2030',
+      'EMAIL:ada@example.com',
+      'END:VCARD',
+    ].join('\r\n'));
+  });
+
+  it('escapes separators in names', () => {
+    expect(buildVCard({ name: 'Smith, Jane; PhD' })).toContain('FN:Smith\\, Jane\\; PhD');
+  });
+});
+
+describe('parseVCard', () => {
+  it('round-trips a built card', () => {
+    const contact = { name: 'Smith, Jane', phone: '+15550102030', email: 'jane@example.com' };
+    expect(parseVCard(buildVCard(contact))).toEqual(contact);
+  });
+
+  it('handles grouped properties, parameters and folded lines', () => {
+    const vcard = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Doe;John;;;',
+      'item1.TEL;type=CELL;waid=15551234567:+1 555-123-4567',
+      'EMAIL;type=INTERNET:john.doe@exam',
+      ' ple.com',
+      'END:VCARD',
+    ].join('\n');
+    expect(parseVCard(vcard)).toEqual({ name: 'John Doe', phone: '+1 555-123-4567', email: 'john.doe@example.com' });
+  });
+
+  it('returns null for cards without usable fields', () => {
+    expect(parseVCard('BEGIN:VCARD\nVERSION:3.0\nEND:VCARD')).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * vCard utilities
+ *
+ * Minimal vCard 3.0 support for contact cards: building one for outbound
+ * WhatsApp/Signal contacts and reading name, phone and email from shared ones.
+ */
+
+import type { ContactShare } from '../core/types.js';
+
+/** Escape text values per RFC 6350 */
+function escapeValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/**
+ * Build a vCard 3.0 for a contact.
+ * WhatsApp needs the waid parameter to show the "Message" button.
+ */
+export function buildVCard(contact: ContactShare): string {
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0', `FN:${escapeValue(contact.name)}`, `N:${escapeValue(contact.name)};;;;`];
+  if (contact.phone) {
+    const digits = contact.phone.replace(/[^\d]/g, '');
+    lines.push(digits
+      ? `TEL;type=CELL;waid=${digits}:${contact.phone}`
+      : `TEL;type=CELL:${contact.phone}`);
+  }
+  if (contact.email) {
+    lines.push(`EMAIL:${escapeValue(contact.email)}`);
+  }
+  lines.push('END:VCARD');
+  return lines.join('\r\n');
+}
+
+/**
+ * Read the display name and first phone/email from a vCard.
+ * Returns null when the card has no usable name, phone or email.
+ */
+export function parseVCard(vcard: string): ContactShare | null {
+  // Unfold continuation lines (RFC 6350 3.2)
+  const lines = vcard.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let name: string | undefined;
+  let structuredName: string | undefined;
+  let phone: string | undefined;
+  let email: string | undefined;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    // Drop group prefixes like "item1." and parameters like ";type=CELL"
+    const property = line.slice(0, colon).split(';')[0].replace(/^[^.]+\./, '').toUpperCase();
+    const value = line.slice(colon + 1).trim();
+    if (!value) continue;
+
+    if (property === 'FN' && !name) {
+      name = unescapeValue(value);
+    } else if (property === 'N' && !structuredName) {
+      const [family = '', given = ''] = value.split(';').map(unescapeValue);
+      structuredName = [given, family].filter(Boolean).join(' ') || undefined;
+    } else if (property === 'TEL' && !phone) {
+      phone = value;
+    } else if (property === 'EMAIL' && !email) {
+      email = unescapeValue(value);
+    }
+  }
+
+  const displayName = name || structuredName || phone || email;
+  if (!displayName) return null;
+  return {
+    name: displayName,
+    ...(phone ? { phone } : {}),
+    ...(email ? { email } : {}),
+  };
+}